@@ -0,0 +1,299 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ApiError,
+  addWishlistItem,
+  cancelAgentRun,
+  getChildProfile,
+  getChildRecommendations,
+  getNotifications,
+  listChildren,
+  runAgent,
+  runAgentWithPrompt,
+  submitWishlistEvent,
+  triggerElfAgent,
+  streamRecommendations,
+  updateChildProfile,
+} from "./agentClient";
+import { ApiContractError } from "./api/contract";
+import { FakeEventSource } from "./test/fakeEventSource";
+
+// Each run's stream fails with whatever the test puts here
+const agentRun = vi.hoisted(() => ({ error: null as unknown }));
+
+vi.mock("@ag-ui/client", () => ({
+  EventType: { RUN_FINISHED: "RUN_FINISHED", RUN_ERROR: "RUN_ERROR" },
+  HttpAgent: class {
+    run() {
+      return {
+        subscribe: (observer: { error: (err: unknown) => void }) => {
+          queueMicrotask(() => observer.error(agentRun.error));
+          return { unsubscribe: () => {} };
+        },
+      };
+    }
+    abortRun() {}
+  },
+}));
+
+const json = (body: unknown, status = 200, contentType = "application/json") =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": contentType } });
+
+const recommendation = {
+  id: "rec-1",
+  childId: "child-emma-2015",
+  suggestion: "Mountain Bike",
+  rationale: "Loves the outdoors",
+  price: 350,
+  budgetFit: "within",
+  availability: null,
+};
+
+describe("agentClient REST normalization", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  const lastCall = () => {
+    const [url, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+    return { url: String(url), init: init ?? {} };
+  };
+
+  it("unwraps list envelopes into arrays", async () => {
+    fetchMock.mockResolvedValueOnce(json({ items: [recommendation], count: 1 }));
+    await expect(getChildRecommendations("child-emma-2015", 3)).resolves.toEqual([recommendation]);
+    expect(lastCall().url).toBe("/api/v1/children/child-emma-2015/recommendations?limit=3");
+  });
+
+  it("builds notification filters into the query string, skipping empty ones", async () => {
+    fetchMock.mockResolvedValueOnce(json({ items: [], count: 0 }));
+    await expect(getNotifications({ childId: "child-emma-2015", state: "" })).resolves.toEqual([]);
+    expect(lastCall().url).toBe("/api/v1/notifications?childId=child-emma-2015");
+  });
+
+  it("returns null when a profile does not exist yet", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 404 }));
+    await expect(getChildProfile("child-new")).resolves.toBeNull();
+  });
+
+  it("reads the profile ETag and sends it back as If-Match", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ id: "child-emma-2015", name: "Emma" }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", ETag: '"v1"' },
+      })
+    );
+    const profile = await getChildProfile("child-emma-2015");
+    expect(profile).toEqual({ id: "child-emma-2015", name: "Emma", etag: '"v1"' });
+
+    fetchMock.mockResolvedValueOnce(json({ id: "child-emma-2015", name: "Emma Rose" }));
+    await updateChildProfile("child-emma-2015", { name: "Emma Rose", preferences: [] }, profile!.etag!);
+    const { url, init } = lastCall();
+    expect(url).toBe("/api/v1/children/child-emma-2015/profile");
+    expect(init.method).toBe("PUT");
+    expect((init.headers as Record<string, string>)["If-Match"]).toBe('"v1"');
+  });
+
+  it("turns Problem Details into ApiError", async () => {
+    fetchMock.mockResolvedValueOnce(
+      json(
+        {
+          type: "https://httpstatuses.io/400",
+          title: "Validation failed",
+          status: 400,
+          detail: "text is required",
+          traceId: "trace-1",
+          errors: { text: ["Required"] },
+        },
+        400,
+        "application/problem+json"
+      )
+    );
+    const error = await getChildProfile("child-emma-2015").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 400, title: "Validation failed", detail: "text is required", traceId: "trace-1" });
+    expect(error.validationMessages).toEqual(["text: Required"]);
+  });
+
+  it("rejects responses that break the contract", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce(json({ items: [{ id: 42 }], count: 1 }));
+    await expect(getChildRecommendations("child-emma-2015")).rejects.toBeInstanceOf(ApiContractError);
+  });
+
+  it("normalizes the camelCase NiceStatus the API writes", async () => {
+    const child = { childId: "child-ada", status: "naughty", wishlistCount: 0 };
+    fetchMock.mockResolvedValueOnce(json({ items: [child, { ...child, status: "nice" }], count: 2, total: 2 }));
+    const { items } = await listChildren();
+    expect(items.map((c) => c.status)).toEqual(["Naughty", "Nice"]);
+  });
+
+  it("does not send a request whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await getChildProfile("child-emma-2015", { signal: controller.signal }).catch((e) => e);
+    expect(error).toBeInstanceOf(DOMException);
+    expect(error.name).toBe("AbortError");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("turns a non-JSON success into a network-like ApiError", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("<html>Log in to the venue Wi-Fi</html>", { status: 200 }));
+    const error = await getChildProfile("child-emma-2015").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 0, type: "invalid-json", source: "getChildProfile" });
+  });
+
+  it("maps wishlist fields to the backend names and sends the idempotency key", async () => {
+    fetchMock.mockResolvedValueOnce(
+      json({
+        wishlistItem: { id: "w1", itemName: "Kite" },
+        recommendations: [],
+        fallbackUsed: false,
+      })
+    );
+    await addWishlistItem(
+      "child-emma-2015",
+      { toyName: "Kite", category: "Toys", budgetLimit: 20, childName: "Emma" },
+      { idempotencyKey: "key-1" }
+    );
+    const { url, init } = lastCall();
+    expect(url).toBe("/api/v1/children/child-emma-2015/wishlist-items");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(String(init.body))).toEqual({
+      text: "Kite",
+      category: "Toys",
+      budgetEstimate: 20,
+      childName: "Emma",
+    });
+    expect((init.headers as Record<string, string>)["Idempotency-Key"]).toBe("key-1");
+  });
+
+  it("validates the raw wishlist event and elf trigger routes", async () => {
+    fetchMock.mockResolvedValueOnce(json({ childId: "child-emma-2015", dedupeKey: "d1", status: "accepted" }, 202));
+    await expect(submitWishlistEvent("child-emma-2015", { toyName: "Kite" })).resolves.toMatchObject({ dedupeKey: "d1" });
+    expect(lastCall().url).toBe("/api/v1/children/child-emma-2015/wishlist");
+
+    fetchMock.mockResolvedValueOnce(json({ status: "accepted" }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(triggerElfAgent("child-emma-2015", "profile", "s3cret")).rejects.toBeInstanceOf(ApiContractError);
+    const { url, init } = lastCall();
+    expect(url).toBe("/api/v1/elf-agents:trigger");
+    expect((init.headers as Record<string, string>)["X-Agent-Secret"]).toBe("s3cret");
+  });
+
+  it("cancels one run by its id", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 202 }));
+    await expect(cancelAgentRun("santa", "run 1", "thread-1")).resolves.toBe(true);
+    const { url, init } = lastCall();
+    expect(url).toBe("/api/v1/agents/santa/runs/run%201?threadId=thread-1");
+    expect(init.method).toBe("DELETE");
+  });
+
+  it("reports a run that is no longer active", async () => {
+    fetchMock.mockResolvedValueOnce(json({ title: "No active run", status: 404 }, 404, "application/problem+json"));
+    await expect(cancelAgentRun("santa", "run-1")).resolves.toBe(false);
+  });
+});
+
+describe("streamRecommendations", () => {
+  beforeEach(() => {
+    FakeEventSource.reset();
+    vi.stubGlobal("EventSource", FakeEventSource);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("forwards updates and completes on the terminal event", () => {
+    const onUpdate = vi.fn();
+    const onComplete = vi.fn();
+    streamRecommendations("child-emma-2015", "Nice", onUpdate, onComplete);
+    const source = FakeEventSource.latest();
+    expect(source.url).toBe("/api/v1/children/child-emma-2015/recommendations/stream?status=Nice");
+
+    source.open();
+    source.message({ type: "thought", content: "Thinking" });
+    expect(onComplete).not.toHaveBeenCalled();
+    source.message({ type: "completed" });
+
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith("completed");
+    expect(source.closed).toBe(true);
+  });
+
+  it.each([
+    [{ type: "done" }, "completed"],
+    [{ type: "error" }, "error"],
+    [{ Type: "cancelled", Content: "Stopped" }, "cancelled"],
+  ])("stops on %j", (update, outcome) => {
+    const onComplete = vi.fn();
+    streamRecommendations("child-emma-2015", "Unknown", () => {}, onComplete);
+    FakeEventSource.latest().message(update);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(outcome);
+  });
+
+  it("skips malformed frames", () => {
+    const onUpdate = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    streamRecommendations("child-emma-2015", "Nice", onUpdate, () => {});
+    FakeEventSource.latest().message("not json");
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  it("completes and closes when the connection fails", () => {
+    const onComplete = vi.fn();
+    streamRecommendations("child-emma-2015", "Nice", () => {}, onComplete);
+    const source = FakeEventSource.latest();
+    source.fail();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(source.closed).toBe(true);
+  });
+
+  it("returns a function that cancels the stream once", () => {
+    const onComplete = vi.fn();
+    const stop = streamRecommendations("child-emma-2015", "Nice", () => {}, onComplete);
+    stop();
+    stop();
+    FakeEventSource.latest().fail();
+    expect(FakeEventSource.latest().closed).toBe(true);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith("cancelled");
+  });
+});
+
+describe("runAgent", () => {
+  it("turns a failed stream into RUN_ERROR before finishing", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    agentRun.error = new Error("HTTP 502: Bad Gateway");
+    const events: any[] = [];
+    const finished = new Promise<void>((resolve) => {
+      const run = runAgent("santa", (ev) => events.push(ev), resolve);
+      expect(run.runId).toBeTruthy();
+    });
+    await finished;
+    expect(events).toEqual([expect.objectContaining({ type: "RUN_ERROR", message: "HTTP 502: Bad Gateway", code: "transport_error" })]);
+  });
+
+  it("fails a conversation run the same way", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    agentRun.error = new Error("HTTP 503: Service Unavailable");
+    const events: any[] = [];
+    let run: ReturnType<typeof runAgentWithPrompt> | undefined;
+    await new Promise<void>((resolve) => {
+      run = runAgentWithPrompt("elf", "Any kites?", { onEvent: (ev) => events.push(ev), onFinished: resolve });
+    });
+    expect(events).toEqual([
+      expect.objectContaining({ type: "RUN_ERROR", runId: run?.runId, message: "HTTP 503: Service Unavailable", code: "transport_error" }),
+    ]);
+  });
+});
@@ -1,95 +1,208 @@
 // Refactored to use the real AG-UI client HttpAgent instead of local shim
 // Lazy load AG-UI client to keep initial bundle smaller.
 // Types are treated as 'any' to avoid pulling library into main chunk.
+// REST routes are declared once in api/contract.ts and validated at runtime.
+
+import { z } from "zod";
+import {
+  AgentToolsSchema,
+  BehaviorUpdateResultSchema,
+  ChildDirectoryPageSchema,
+  ChildProfileSchema,
+  ChildSummarySchema,
+  CollaborativeRecommendationSchema,
+  LogisticsAssessmentSchema,
+  NotificationSchema,
+  ProfileSnapshotSchema,
+  RecommendationSchema,
+  ReportMetaSchema,
+  WishlistEntrySchema,
+  WishlistSubmissionSchema,
+  buildPath,
+  endpoints,
+  parseResponse,
+  type Endpoint,
+  type PathParams,
+  type QueryParams,
+  type ResponseOf,
+} from "./api/contract";
+import type { AgentSharedState } from "./api/agentState";
+import { ApiError, request, type RequestControl } from "./api/http";
+import { invalidateQueries, type QueryKey } from "./api/queryCache";
+import { queryKeys } from "./api/queryKeys";
+import { absoluteApiUrl, apiUrl } from "./config";
+import type { DrasiInsights, YearOverYearTrends } from "./types/drasi";
+import { DEFAULT_DRASI_SELECTION, drasiAgentContext, type DrasiAgentContext } from "./utils/drasiContext";
+import type { AgentToolDefinition } from "./utils/frontendTools";
+import { logger } from "./utils/logger";
+
+export type ChildProfile = z.infer<typeof ChildProfileSchema>;
+export type ChildSummary = z.infer<typeof ChildSummarySchema>;
+export type ChildDirectoryPage = z.infer<typeof ChildDirectoryPageSchema>;
+export type Recommendation = z.infer<typeof RecommendationSchema>;
+export type ReportMeta = z.infer<typeof ReportMetaSchema>;
+export type NotificationDto = z.infer<typeof NotificationSchema>;
+export type WishlistSubmission = z.infer<typeof WishlistSubmissionSchema>;
+export type WishlistEntry = z.infer<typeof WishlistEntrySchema>;
+export type ProfileSnapshot = z.infer<typeof ProfileSnapshotSchema>;
+export type LogisticsAssessment = z.infer<typeof LogisticsAssessmentSchema>;
+export type CollaborativeRecommendation = z.infer<
+  typeof CollaborativeRecommendationSchema
+>;
+export type BehaviorUpdateResult = z.infer<typeof BehaviorUpdateResultSchema>;
+export type AgentTools = z.infer<typeof AgentToolsSchema>;
+
+export { ApiError, isAbortError, type RequestControl } from "./api/http";
 
-export interface ChildProfile {
-  id: string;
-  name?: string | null;
-  age?: number | null;
-  location?: string | null;
-  preferences?: string[] | null;
-  constraints?: { budget?: number | null } | null;
-  behaviorSummary?: string | null;
+// Optional X-Role header for backend tracking/observability (not enforced)
+const JSON_HEADERS = {
+  "Content-Type": "application/json",
+  "X-Role": "operator", // Optional: helps track usage patterns in logs
+} as const;
+
+interface CallOptions {
+  params?: PathParams;
+  query?: QueryParams;
+  body?: unknown;
+  headers?: Record<string, string>;
 }
 
-export interface Recommendation {
-  id: string;
-  childId: string;
-  suggestion: string;
-  rationale: string;
-  price?: number | null;
-  budgetFit: string;
+async function send(
+  ep: Endpoint,
+  opts: CallOptions,
+  control: RequestControl = {}
+): Promise<Response> {
+  const url = apiUrl(buildPath(ep.path, opts.params, opts.query));
+  return request(
+    url,
+    {
+      method: ep.method,
+      headers: { ...JSON_HEADERS, ...opts.headers },
+      body: opts.body === undefined ? undefined : JSON.stringify(opts.body),
+    },
+    control,
+    ep.name
+  );
 }
-export interface ReportMeta {
-  childId: string;
-  path: string;
-  createdAt: string;
-  label: string;
-  topN: number;
-}
-
-// API base resolution:
-// - If running in Azure Static Web Apps OR Azure Container Apps, use '' (relative /api URLs; same-origin backend).
-// - Else if VITE_API_URL explicitly set (by azd prebuild hook), use it (empty string allowed for relative).
-// - Else if window.__API_BASE__ injected at runtime, use it.
-// - Else fallback to local dev API on http://localhost:8080.
-const viteEnv: any = (import.meta as any).env || {};
-
-export const API_URL = (() => {
-  // FIRST: If running on Azure Static Web Apps OR Azure Container Apps, ALWAYS use empty string (relative URLs)
-  // This avoids stale absolute domains baked at build time. The platform handles /api/* routing to the backend.
-  if (typeof window !== "undefined") {
-    const host = window.location.hostname || "";
-    if (host.includes("azurestaticapps") || host.includes("azurecontainerapps")) {
-      return ""; // Empty = relative URLs (/api/* routes)
-    }
-  }
 
-  // Build-time VITE_API_URL (injected by azd prebuild hook)
-  const viteApiUrl = viteEnv.VITE_API_URL;
-  if (viteApiUrl !== undefined && viteApiUrl !== null) {
-    const trimmed = viteApiUrl.trim().replace(/\/$/, "");
-    // Empty string is valid - means use relative URLs
-    return trimmed;
-  }
+// Every REST call goes through here: build the URL from the route table,
+// turn non-2xx responses into ApiError and validate the body against the contract.
+async function callApi<E extends Endpoint>(
+  ep: E,
+  opts: CallOptions = {},
+  control?: RequestControl
+): Promise<ResponseOf<E>> {
+  const res = await send(ep, opts, control);
+  return readValidated(ep, res);
+}
 
-  // Runtime injected window.__API_BASE__ (index.html)
-  if (typeof window !== "undefined" && (window as any).__API_BASE__) {
-    return (window as any).__API_BASE__.toString().replace(/\/$/, "");
-  }
+// Same as callApi, but a 404 means "not there yet" rather than a failure.
+async function callApiOrNull<E extends Endpoint>(
+  ep: E,
+  opts: CallOptions = {},
+  control?: RequestControl
+): Promise<ResponseOf<E> | null> {
+  const res = await send(ep, opts, control);
+  if (res.status === 404) return null;
+  return readValidated(ep, res);
+}
+
+/** A resource read together with its ETag, for conditional writes */
+export interface Versioned {
+  /** Sent back as If-Match so the server can reject edits made to a stale copy */
+  etag?: string;
+}
 
-  // Development fallback: when running vite dev server without envs, prefer relative URLs
-  // and let Vite proxy route /api -> localhost:8080. If no browser context, default to localhost.
-  if (typeof window !== "undefined") {
-    return "";
+async function readVersioned<E extends Endpoint>(
+  ep: E,
+  res: Response
+): Promise<ResponseOf<E> & Versioned> {
+  const data = await readValidated(ep, res);
+  const etag = res.headers.get("ETag");
+  return (etag ? { ...(data as object), etag } : data) as ResponseOf<E> & Versioned;
+}
+
+async function readValidated<E extends Endpoint>(
+  ep: E,
+  res: Response
+): Promise<ResponseOf<E>> {
+  if (!res.ok) throw await ApiError.fromResponse(res, ep.name);
+  const text = await res.text();
+  let raw: unknown;
+  try {
+    raw = text ? JSON.parse(text) : undefined;
+  } catch {
+    // A 200 that is not JSON came from something in between (a proxy or a
+    // captive portal), not from the API, so it fails like the network would
+    throw new ApiError({
+      status: 0,
+      title: "Response was not JSON",
+      detail: text.slice(0, 200),
+      type: "invalid-json",
+      source: ep.name,
+    });
+  }
+  try {
+    return parseResponse(ep, raw);
+  } catch (err) {
+    logger.error(`[agentClient] ${ep.name} contract violation`, err, raw);
+    throw err;
   }
-  return "http://localhost:8080";
-})();
-
-console.log(
-  "[agentClient] API_URL resolved to:",
-  API_URL || "(empty/relative)"
-);
-console.log(
-  "[agentClient] window.location.hostname:",
-  typeof window !== "undefined" ? window.location.hostname : "N/A"
-);
-console.log("[agentClient] VITE_API_URL:", viteEnv.VITE_API_URL);
+}
 
-// Optional X-Role header for backend tracking/observability (not enforced)
-const JSON_HEADERS = {
-  "Content-Type": "application/json",
-  "X-Role": "operator", // Optional: helps track usage patterns in logs
-} as const;
+// Mutations invalidate the cached reads they affect so every subscriber refetches
+function invalidating<T>(keys: QueryKey[]): (result: T) => T {
+  return (result) => {
+    keys.forEach((key) => invalidateQueries(key));
+    return result;
+  };
+}
+
+// A new wishlist item or behavior change touches the child's profile and
+// recommendations, the directory's counts, Drasi's aggregates and the notification feed.
+const childWriteKeys = (childId: string): QueryKey[] => [
+  queryKeys.child(childId),
+  queryKeys.allChildDirectory(),
+  queryKeys.drasiInsights(),
+  queryKeys.allNotifications(),
+];
+
+export type ChildDirectorySort =
+  | "name"
+  | "age"
+  | "location"
+  | "budget"
+  | "status"
+  | "wishlistCount"
+  | "lastActivity";
+
+export interface ChildDirectoryQuery {
+  search?: string;
+  status?: string;
+  /** Only children with no wishlist activity for at least this many days */
+  inactiveDays?: number;
+  sort?: ChildDirectorySort;
+  order?: "asc" | "desc";
+  /** nextCursor from the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export function listChildren(
+  query: ChildDirectoryQuery = {},
+  control?: RequestControl
+): Promise<ChildDirectoryPage> {
+  return callApi(endpoints.listChildren, { query: { ...query } }, control);
+}
 
-export async function createChild(childId: string): Promise<ChildProfile> {
-  const res = await fetch(`${API_URL}/api/v1/children`, {
-    method: "POST",
-    headers: JSON_HEADERS,
-    body: JSON.stringify({ childId }),
-  });
-  if (!res.ok) throw new Error(`Create child failed: ${res.status}`);
-  return res.json();
+export function createChild(childId: string, control?: RequestControl): Promise<{ childId: string }> {
+  return callApi(endpoints.createChild, { body: { childId } }, control).then(
+    invalidating([queryKeys.allChildDirectory()])
+  );
+}
+
+export function getChild(childId: string, control?: RequestControl): Promise<{ childId: string } | null> {
+  return callApiOrNull(endpoints.getChild, { params: { childId } }, control);
 }
 
 export interface WishlistItemInput {
@@ -97,80 +210,218 @@ export interface WishlistItemInput {
   category?: string;
   notes?: string;
   budgetLimit?: number;
+  // Optional profile hints; the backend folds these into the child profile
+  childName?: string;
+  childAge?: number;
 }
 
-export async function addWishlistItem(
+export interface MutationOptions extends RequestControl {
+  /** Sent as Idempotency-Key so a replayed submission is applied only once */
+  idempotencyKey?: string;
+}
+
+const idempotencyHeaders = (control?: MutationOptions) =>
+  control?.idempotencyKey ? { "Idempotency-Key": control.idempotencyKey } : undefined;
+
+export function addWishlistItem(
   childId: string,
-  item: WishlistItemInput
-): Promise<{ dedupeKey: string }> {
-  // Backend endpoint is /api/v1/children/{childId}/wishlist-items
+  item: WishlistItemInput,
+  control?: MutationOptions
+): Promise<WishlistSubmission> {
   // Map frontend field names to backend expectations
-  const backendPayload = {
-    text: item.toyName,
-    category: item.category,
-    budgetEstimate: item.budgetLimit,
-  };
-  
-  const res = await fetch(
-    `${API_URL}/api/v1/children/${encodeURIComponent(childId)}/wishlist-items`,
-    {
-      method: "POST",
-      headers: JSON_HEADERS,
-      body: JSON.stringify(backendPayload),
-    }
+  return callApi(endpoints.addWishlistItem, {
+    params: { childId },
+    headers: idempotencyHeaders(control),
+    body: {
+      text: item.toyName,
+      category: item.category,
+      budgetEstimate: item.budgetLimit,
+      notes: item.notes,
+      ...(item.childName && { childName: item.childName }),
+      ...(item.childAge && { childAge: item.childAge }),
+    },
+  }, control).then(invalidating(childWriteKeys(childId)));
+}
+
+/**
+ * Publish a raw wishlist event straight to Event Hub for Drasi, without the
+ * profile and recommendation work addWishlistItem does. Accepted, not yet stored.
+ */
+export function submitWishlistEvent(
+  childId: string,
+  item: Pick<WishlistItemInput, "toyName" | "category" | "notes" | "budgetLimit">,
+  control?: RequestControl
+) {
+  return callApi(endpoints.submitWishlistEvent, { params: { childId }, body: item }, control).then(
+    invalidating([queryKeys.drasiInsights()])
   );
-  if (!res.ok) throw new Error(`Add wishlist item failed: ${res.status}`);
-  return res.json();
 }
 
-export async function getChildProfile(
-  childId: string
-): Promise<ChildProfile | null> {
-  const res = await fetch(
-    `${API_URL}/api/v1/children/${encodeURIComponent(childId)}/profile`,
-    { headers: JSON_HEADERS }
+/** The child's gift requests, most wanted first; behavior letters are not included */
+export async function listWishlistItems(
+  childId: string,
+  control?: RequestControl
+): Promise<WishlistEntry[]> {
+  const res = await callApi(endpoints.listWishlistItems, { params: { childId } }, control);
+  return res.items;
+}
+
+export interface WishlistEntryUpdate {
+  itemName: string;
+  category?: string | null;
+  budgetEstimate?: number | null;
+  notes?: string | null;
+}
+
+export function updateWishlistItem(
+  childId: string,
+  itemId: string,
+  update: WishlistEntryUpdate,
+  control?: RequestControl
+): Promise<WishlistEntry> {
+  return callApi(endpoints.updateWishlistItem, {
+    params: { childId, itemId },
+    body: update,
+  }, control).then(invalidating(childWriteKeys(childId)));
+}
+
+export async function deleteWishlistItem(
+  childId: string,
+  itemId: string,
+  control?: RequestControl
+): Promise<void> {
+  await callApi(endpoints.deleteWishlistItem, { params: { childId, itemId } }, control).then(
+    invalidating(childWriteKeys(childId))
   );
+}
+
+/**
+ * Save a new priority order (first = most wanted). Rejects with a 409 ApiError
+ * when the list changed on the server since it was loaded.
+ */
+export async function reorderWishlistItems(
+  childId: string,
+  itemIds: string[],
+  control?: RequestControl
+): Promise<WishlistEntry[]> {
+  const res = await callApi(endpoints.reorderWishlistItems, {
+    params: { childId },
+    body: { itemIds },
+  }, control).then(invalidating([queryKeys.childWishlist(childId)]));
+  return res.items;
+}
+
+// Behavior letters share the wishlist-items route, tagged with a requestType
+export function submitBehaviorLetter(
+  childId: string,
+  letter: { text: string; statusChange: "Nice" | "Naughty" },
+  control?: MutationOptions
+): Promise<WishlistSubmission> {
+  return callApi(endpoints.addWishlistItem, {
+    params: { childId },
+    headers: idempotencyHeaders(control),
+    body: {
+      requestType: "behavior-update",
+      text: letter.text,
+      statusChange: letter.statusChange,
+    },
+  }, control).then(invalidating(childWriteKeys(childId)));
+}
+
+export type VersionedChildProfile = ChildProfile & Versioned;
+
+export async function getChildProfile(
+  childId: string,
+  control?: RequestControl
+): Promise<VersionedChildProfile | null> {
+  const res = await send(endpoints.getChildProfile, { params: { childId } }, control);
   if (res.status === 404) return null;
-  if (!res.ok) throw new Error(`Get child profile failed: ${res.status}`);
-  return res.json();
+  return readVersioned(endpoints.getChildProfile, res);
+}
+
+/** Editable profile fields; blank values clear the field on the server */
+export interface ChildProfileEdit {
+  name?: string | null;
+  age?: number | null;
+  location?: string | null;
+  preferences: string[];
+  budget?: number | null;
+}
+
+/**
+ * Replace a child's editable profile fields. Pass the ETag the profile was
+ * read with, or "*" to overwrite whatever is there (the server requires one);
+ * if another elf saved in between, this rejects with a 412 ApiError.
+ */
+export async function updateChildProfile(
+  childId: string,
+  edit: ChildProfileEdit,
+  etag: string,
+  control?: RequestControl
+): Promise<VersionedChildProfile> {
+  const res = await send(endpoints.updateChildProfile, {
+    params: { childId },
+    headers: { "If-Match": etag },
+    body: edit,
+  }, control);
+  // Preferences feed recommendations; name, age and budget show in the directory
+  return readVersioned(endpoints.updateChildProfile, res).then(
+    invalidating([queryKeys.childRecommendations(childId), queryKeys.allChildDirectory()])
+  );
+}
+
+export function createProfileSnapshot(
+  childId: string,
+  options: { ai?: boolean } = {},
+  control?: RequestControl
+): Promise<ProfileSnapshot> {
+  return callApi(endpoints.createProfileSnapshot, {
+    params: { childId },
+    query: { ai: options.ai },
+  }, control).then(invalidating([queryKeys.childProfile(childId)]));
 }
 
 export async function getChildRecommendations(
-  childId: string
+  childId: string,
+  limit?: number,
+  control?: RequestControl
 ): Promise<Recommendation[]> {
-  const res = await fetch(
-    `${API_URL}/api/v1/children/${encodeURIComponent(childId)}/recommendations`,
-    { headers: JSON_HEADERS }
-  );
-  if (!res.ok) throw new Error(`Get recommendations failed: ${res.status}`);
-  const raw = await res.json();
-  const list: any[] = raw?.items || raw; // backend returns { items, count }
-  return (Array.isArray(list) ? list : []).map((r) => ({
-    id: r.id || r.Id || crypto.randomUUID(),
-    childId: r.childId || r.ChildId || childId,
-    suggestion: r.suggestion || r.Suggestion || "",
-    rationale: r.rationale || r.Rationale || "",
-    price: r.price ?? r.Price ?? null,
-    budgetFit: r.budgetFit || r.BudgetFit || "unknown",
-  }));
-}
-
-export async function runLogisticsAssessment(childId: string): Promise<any> {
-  const res = await fetch(
-    `${API_URL}/api/v1/children/${encodeURIComponent(childId)}/logistics`,
-    { method: "POST", headers: JSON_HEADERS }
-  );
-  if (!res.ok) throw new Error(`Logistics assessment failed: ${res.status}`);
-  return res.json();
+  const res = await callApi(endpoints.getChildRecommendations, {
+    params: { childId },
+    query: { limit },
+  }, control);
+  return res.items;
 }
 
-export async function getReport(childId: string): Promise<ReportMeta | null> {
-  const res = await fetch(`${API_URL}/api/v1/reports/${childId}`, {
-    headers: JSON_HEADERS,
-  });
-  if (res.status === 404) return null;
-  if (!res.ok) throw new Error(`Get report failed: ${res.status}`);
-  return res.json();
+/** A gift picked out of an agent's answer */
+export interface RecommendationInput {
+  suggestion: string;
+  rationale?: string;
+  price?: number;
+  budgetFit?: string;
+}
+
+/** Save a recommendation for the child, e.g. from a card in an agent transcript */
+export function saveRecommendation(
+  childId: string,
+  recommendation: RecommendationInput,
+  control?: RequestControl
+): Promise<Recommendation> {
+  return callApi(endpoints.saveRecommendation, {
+    params: { childId },
+    body: recommendation,
+  }, control).then(invalidating([queryKeys.childRecommendations(childId)]));
+}
+
+export function runLogisticsAssessment(
+  childId: string,
+  control?: RequestControl
+): Promise<LogisticsAssessment> {
+  return callApi(endpoints.runLogisticsAssessment, { params: { childId } }, control);
+}
+
+export function getReport(childId: string, control?: RequestControl): Promise<ReportMeta | null> {
+  return callApiOrNull(endpoints.getReport, { params: { childId } }, control);
 }
 
 export interface CreateJobRequest {
@@ -180,125 +431,165 @@ export interface CreateJobRequest {
   wishlist?: any;
 }
 
-export async function createJob(request: CreateJobRequest): Promise<void> {
-  const res = await fetch(`${API_URL}/api/v1/jobs`, {
-    method: "POST",
-    headers: JSON_HEADERS,
-    body: JSON.stringify(request),
-  });
-  if (!res.ok) throw new Error(`Create job failed: ${res.status}`);
-}
-
-export interface NotificationDto {
-  id: string;
-  childId: string;
-  type: string;
-  message: string;
-  createdAt: string;
-  state: string;
-  relatedRecommendationSetId?: string | null;
+export async function createJob(request: CreateJobRequest, control?: RequestControl): Promise<void> {
+  await callApi(endpoints.createJob, { body: request }, control);
+  invalidateQueries(queryKeys.report(request.childId));
+  invalidateQueries(queryKeys.allNotifications());
 }
 
 export async function getNotifications(
-  state?: string
+  options: { state?: string; limit?: number; childId?: string } = {},
+  control?: RequestControl
 ): Promise<NotificationDto[]> {
-  const url = state
-    ? `${API_URL}/api/v1/notifications?state=${encodeURIComponent(state)}`
-    : `${API_URL}/api/v1/notifications`;
-  const res = await fetch(url, { headers: JSON_HEADERS });
-  if (!res.ok) throw new Error(`Get notifications failed: ${res.status}`);
-  const raw = await res.json();
-  const list: any[] = raw?.items || raw; // backend returns { items, count }
-  return (Array.isArray(list) ? list : []).map((n) => ({
-    id: n.id || n.Id || crypto.randomUUID(),
-    childId: n.childId || n.ChildId || "",
-    type: n.type || n.Type || "info",
-    message: n.message || n.Message || "",
-    createdAt: n.createdAt || n.CreatedAt || new Date().toISOString(),
-    state: n.state || n.State || "new",
-    relatedRecommendationSetId:
-      n.relatedRecommendationSetId || n.RelatedId || null,
-  }));
+  const res = await callApi(endpoints.getNotifications, { query: options }, control);
+  return res.items;
 }
 
-export function runAgent(
+export function getDrasiInsights(control?: RequestControl): Promise<DrasiInsights> {
+  return callApi(endpoints.getDrasiInsights, {}, control);
+}
+
+export function getDrasiQuery(queryName: string, control?: RequestControl) {
+  return callApi(endpoints.getDrasiQuery, { params: { queryName } }, control);
+}
+
+export function getDrasiQueryDebug(queryName: string, control?: RequestControl) {
+  return callApi(endpoints.getDrasiQueryDebug, { params: { queryName } }, control);
+}
+
+export function getDrasiAgentDemo(childId: string, control?: RequestControl) {
+  return callApi(endpoints.getDrasiAgentDemo, { params: { childId } }, control);
+}
+
+export function getYearOverYearTrends(control?: RequestControl): Promise<YearOverYearTrends> {
+  return callApi(endpoints.getYearOverYearTrends, {}, control);
+}
+
+export function getRationaleAudit(childId: string, setId?: string, control?: RequestControl) {
+  return callApi(endpoints.getRationaleAudit, {
+    params: { childId },
+    query: { setId },
+  }, control);
+}
+
+export function getAssessmentAudit(
+  childId: string,
+  recommendationSetId?: string,
+  control?: RequestControl
+) {
+  return callApi(endpoints.getAssessmentAudit, {
+    params: { childId },
+    query: { recommendationSetId },
+  }, control);
+}
+
+export function getElfAgentsStatus(control?: RequestControl) {
+  return callApi(endpoints.getElfAgentsStatus, {}, control);
+}
+
+export function getElfAgentsReadiness(control?: RequestControl) {
+  return callApi(endpoints.getElfAgentsReadiness, {}, control);
+}
+
+export type ElfAgentTriggerType = "profile" | "recommendation" | "logistics" | "notification";
+
+/** Run one elf agent for a child now; the backend requires its trigger secret */
+export function triggerElfAgent(
+  childId: string,
+  type: ElfAgentTriggerType,
+  secret: string,
+  control?: RequestControl
+) {
+  return callApi(
+    endpoints.triggerElfAgent,
+    { body: { childId, type }, headers: { "X-Agent-Secret": secret } },
+    control
+  ).then(invalidating(childWriteKeys(childId)));
+}
+
+/** Whether /api/v1 routing reaches the backend; the insights are always empty */
+export function getDiagnosticsInsights(control?: RequestControl) {
+  return callApi(endpoints.getDiagnosticsInsights, {}, control);
+}
+
+/** A started AG-UI run: its ids (known before the server answers) and a way to stop listening */
+export interface AgentRunHandle {
+  runId: string;
+  threadId: string;
+  /** Stop the stream locally; the server run goes on unless cancelAgentRun is called too */
+  close(): void;
+}
+
+/**
+ * The AG-UI context for a run: useDrasiContext's selection when given one,
+ * otherwise the default selection over bare `{ insights }`.
+ */
+function drasiContextArray(drasiContext: any): DrasiAgentContext[] {
+  if (typeof drasiContext?.agentContext === "function") return drasiContext.agentContext();
+  if (drasiContext?.insights) return [drasiAgentContext(drasiContext.insights, DEFAULT_DRASI_SELECTION)];
+  return [];
+}
+
+/**
+ * Stream one AG-UI run. Every event goes to onEvent, including a RUN_ERROR
+ * standing in for a failed transport; onFinished follows when the stream
+ * ends, with or without a RUN_FINISHED or RUN_ERROR before it.
+ */
+function streamRun(
   agentId: string,
+  input: { threadId: string; runId: string } & Record<string, unknown>,
   onEvent: (ev: any) => void,
-  onFinished: () => void,
-  drasiContext?: any // Optional Drasi real-time context
-) {
+  onFinished: () => void
+): AgentRunHandle {
+  const { runId, threadId } = input;
   let subscription: any;
   let agentInstance: any;
+  let closed = false;
+  // Transport failures (network drop, HTTP error, aborted stream) end the run
+  // like a RUN_ERROR from the server, so callers handle one kind of failure
+  const fail = (err: unknown) => {
+    if (closed) return;
+    onEvent({ type: "RUN_ERROR", runId, threadId, message: err instanceof Error ? err.message : String(err), code: "transport_error" });
+    onFinished();
+  };
   (async () => {
     const mod = await import("@ag-ui/client");
     const { HttpAgent, EventType } = mod as any;
-    const agentRunUrl = (() => {
-      const path = `/api/v1/agents/${agentId}/run`;
-      if (API_URL && API_URL.length > 0) {
-        return `${API_URL}${path}`;
-      }
-      if (typeof window !== "undefined" && window.location?.origin) {
-        return `${window.location.origin}${path}`;
-      }
-      return path; // fallback; HttpAgent should handle absolute if possible
-    })();
+    const agentRunUrl = absoluteApiUrl(`/api/v1/agents/${agentId}/run`);
 
     agentInstance = new HttpAgent({
       url: agentRunUrl,
       agentId,
     });
 
-    // Build context array with Drasi insights if available
-    const contextArray = [];
-    if (drasiContext?.insights) {
-      contextArray.push({
-        type: "drasi-insights",
-        source: "drasi-event-graph",
-        timestamp: new Date().toISOString(),
-        data: {
-          trending: drasiContext.insights.trending?.slice(0, 5) || [],
-          duplicates: drasiContext.insights.duplicates || [],
-          inactiveChildren: drasiContext.insights.inactiveChildren || [],
-          behaviorChanges: drasiContext.insights.behaviorChanges || [],
-          stats: drasiContext.insights.stats || {},
-        },
-      });
-    }
-
-    subscription = agentInstance
-      .run({
-        threadId: crypto.randomUUID(),
-        runId: crypto.randomUUID(),
-        messages: [],
-        tools: [],
-        context: contextArray, // Now enriched with Drasi data
-        forwardedProps: {},
-      })
-      .subscribe({
-        next: (ev: any) => {
-          onEvent(ev);
-          if (ev.type === EventType.RUN_FINISHED) {
-            onFinished();
-            try {
-              subscription.unsubscribe();
-            } catch {}
-          }
-        },
-        error: (err: any) => {
-          // Error is handled by caller via onUpdate callback
-          // Browser console will still show network errors for debugging
+    subscription = agentInstance.run(input).subscribe({
+      next: (ev: any) => {
+        onEvent(ev);
+        // Either ends the run
+        if (ev.type === EventType.RUN_FINISHED || ev.type === EventType.RUN_ERROR) {
+          onFinished();
           try {
             subscription.unsubscribe();
           } catch {}
-          onFinished();
-        },
-        complete: () => {
-          onFinished();
-        },
-      });
-  })();
+        }
+      },
+      error: (err: unknown) => {
+        logger.warn(`[agentClient] Run ${runId} stream failed`, err);
+        try {
+          subscription.unsubscribe();
+        } catch {}
+        fail(err);
+      },
+      complete: () => {
+        onFinished();
+      },
+    });
+  })().catch(fail);
   return {
+    runId,
+    threadId,
     close() {
+      closed = true;
       try {
         agentInstance?.abortRun();
       } catch {}
@@ -309,138 +600,126 @@ export function runAgent(
   };
 }
 
-export function cancelAgentRun(agentId: string): Promise<void> {
-  return fetch(`${API_URL}/api/v1/agents/${agentId}/cancel`, {
-    method: "DELETE",
-  }).then(() => {});
+/** Start an AG-UI run with shared state; see streamRun for how events and failures arrive */
+export function runAgent(
+  agentId: string,
+  onEvent: (ev: any) => void,
+  onFinished: () => void,
+  drasiContext?: any, // Optional Drasi real-time context
+  state: AgentSharedState = {}, // Shared state, including the user's edits since the last run
+  prompt = "", // The user message; the agent's default prompt when empty
+  tools: AgentToolDefinition[] = [] // Frontend tools the agent may call; see submitAgentToolResult
+): AgentRunHandle {
+  return streamRun(
+    agentId,
+    {
+      threadId: crypto.randomUUID(),
+      runId: crypto.randomUUID(),
+      messages: prompt ? [{ id: crypto.randomUUID(), role: "user", content: prompt }] : [],
+      tools,
+      state,
+      // Drasi insights as selected in the context composer, when available
+      context: drasiContextArray(drasiContext),
+      forwardedProps: {},
+    },
+    onEvent,
+    onFinished
+  );
 }
 
-// Convenience: start a run with a single user prompt and stream events
-export function runAgentWithPrompt(
+/**
+ * Ask the server to cancel one run. Resolves true when the cancel was accepted
+ * (the run's stream then ends with RUN_FINISHED "cancelled"), false when the
+ * run is no longer active, e.g. it finished first.
+ */
+export async function cancelAgentRun(agentId: string, runId: string, threadId?: string): Promise<boolean> {
+  const query = threadId ? `?threadId=${encodeURIComponent(threadId)}` : "";
+  const res = await request(
+    apiUrl(`/api/v1/agents/${encodeURIComponent(agentId)}/runs/${encodeURIComponent(runId)}${query}`),
+    { method: "DELETE" },
+    {},
+    "cancelAgentRun"
+  );
+  if (res.status === 404) return false;
+  if (!res.ok) throw await ApiError.fromResponse(res, "cancelAgentRun");
+  return true;
+}
+
+/**
+ * Answer a frontend tool call of one run. The run waits for this, then
+ * streams it back as TOOL_CALL_RESULT and lets the agent carry on.
+ */
+export async function submitAgentToolResult(
   agentId: string,
-  prompt: string,
-  handlers: { onEvent: (ev: any) => void; onFinished: () => void },
-  drasiContext?: any // Optional Drasi real-time context
-) {
-  let subscription: any;
-  let agentInstance: any;
-  (async () => {
-    try {
-      const mod = await import("@ag-ui/client");
-      const { HttpAgent, EventType } = mod as any;
-      const agentRunUrl = (() => {
-        const path = `/api/v1/agents/${agentId}/run`;
-        if (API_URL && API_URL.length > 0) {
-          return `${API_URL}${path}`;
-        }
-        if (typeof window !== "undefined" && window.location?.origin) {
-          return `${window.location.origin}${path}`;
-        }
-        return path;
-      })();
-      
-      console.log('[agentClient] Connecting to agent URL:', agentRunUrl);
-      console.log('[agentClient] Prompt length:', prompt.length, 'chars');
-      console.log('[agentClient] Has Drasi context:', !!drasiContext?.insights);
+  runId: string,
+  toolCallId: string,
+  content: string
+): Promise<void> {
+  const run = `/api/v1/agents/${encodeURIComponent(agentId)}/runs/${encodeURIComponent(runId)}`;
+  const res = await request(
+    apiUrl(`${run}/tool-results/${encodeURIComponent(toolCallId)}`),
+    { method: "POST", headers: JSON_HEADERS, body: JSON.stringify({ content }) },
+    {},
+    "submitAgentToolResult"
+  );
+  if (!res.ok) throw await ApiError.fromResponse(res, "submitAgentToolResult");
+}
 
-    agentInstance = new HttpAgent({
-      url: agentRunUrl,
-      agentId,
-    });
+/** A message as sent in an AG-UI run's `messages`; tool results answer a toolCallId */
+export interface AgentMessage {
+  id: string;
+  role: "user" | "assistant" | "tool";
+  content: string;
+  toolCallId?: string;
+  /** Assistant messages: the calls whose results follow as tool messages */
+  toolCalls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+}
 
-    // Build context array with Drasi insights if available
-    const contextArray = [];
-    if (drasiContext?.insights) {
-      contextArray.push({
-        type: "drasi-insights",
-        source: "drasi-event-graph",
-        timestamp: new Date().toISOString(),
-        data: {
-          trending: drasiContext.insights.trending?.slice(0, 5) || [],
-          duplicates: drasiContext.insights.duplicates || [],
-          inactiveChildren: drasiContext.insights.inactiveChildren || [],
-          behaviorChanges: drasiContext.insights.behaviorChanges || [],
-          stats: drasiContext.insights.stats || {},
-        },
-      });
-    }
+/** An ongoing thread: its id is reused and its history resent on every run */
+export interface AgentConversation {
+  threadId: string;
+  messages: AgentMessage[];
+  /** Frontend tools the agent may call; see submitAgentToolResult */
+  tools?: AgentToolDefinition[];
+}
 
-      subscription = agentInstance
-        .run({
-          threadId: crypto.randomUUID(),
-          runId: crypto.randomUUID(),
-          messages: [{ role: "user", content: prompt }],
-          tools: [],
-          context: contextArray, // Now enriched with Drasi data
-          forwardedProps: {},
-        })
-        .subscribe({
-          next: (ev: any) => {
-            console.log('[agentClient] Event received:', ev.type, ev);
-            handlers.onEvent(ev);
-            if (
-              ev.type === (mod as any).EventType?.RUN_FINISHED ||
-              ev.type === EventType.RUN_FINISHED
-            ) {
-              handlers.onFinished();
-              try {
-                subscription.unsubscribe();
-              } catch {}
-            }
-          },
-          error: (err: any) => {
-            console.error('[agentClient] Agent run error:', err);
-            handlers.onEvent({ type: 'ERROR', delta: `❌ Error: ${err.message || err}` });
-            try {
-              subscription.unsubscribe();
-            } catch {}
-            handlers.onFinished();
-          },
-          complete: () => {
-            console.log('[agentClient] Agent run complete');
-            handlers.onFinished();
-          },
-        });
-    } catch (error) {
-      console.error('[agentClient] Failed to initialize agent:', error);
-      handlers.onEvent({ type: 'ERROR', delta: `❌ Failed to start agent: ${error}` });
-      handlers.onFinished();
-    }
-  })();
-  return {
-    close() {
-      try {
-        agentInstance?.abortRun();
-      } catch {}
-      try {
-        subscription?.unsubscribe();
-      } catch {}
+// Convenience: start a run with a single user prompt (or a whole conversation) and stream events
+export function runAgentWithPrompt(
+  agentId: string,
+  prompt: string | AgentConversation,
+  handlers: { onEvent: (ev: any) => void; onFinished: () => void },
+  drasiContext?: any // Optional Drasi real-time context
+): AgentRunHandle {
+  const conversation: AgentConversation =
+    typeof prompt === "string"
+      ? { threadId: crypto.randomUUID(), messages: [{ id: crypto.randomUUID(), role: "user", content: prompt }] }
+      : prompt;
+  return streamRun(
+    agentId,
+    {
+      threadId: conversation.threadId,
+      runId: crypto.randomUUID(),
+      messages: conversation.messages,
+      tools: conversation.tools ?? [],
+      // Drasi insights as selected in the context composer, when available
+      context: drasiContextArray(drasiContext),
+      forwardedProps: {},
     },
-  };
+    handlers.onEvent,
+    handlers.onFinished
+  );
 }
 
-export const SANTA_AGENT_ID: string =
-  (import.meta as any)?.env?.VITE_SANTA_AGENT_ID || "santa";
-export const ELF_AGENT_ID: string =
-  (import.meta as any)?.env?.VITE_ELF_AGENT_ID || "elf";
-
 // Collaborative multi-agent recommendation
-export async function getCollaborativeRecommendation(
+export function getCollaborativeRecommendation(
   childId: string,
-  status: "Nice" | "Naughty" | "Unknown" = "Unknown"
-): Promise<any> {
-  const res = await fetch(
-    `${API_URL}/api/v1/children/${encodeURIComponent(
-      childId
-    )}/recommendations/collaborative?status=${status}`,
-    {
-      method: "POST",
-      headers: JSON_HEADERS,
-    }
-  );
-  if (!res.ok)
-    throw new Error(`Collaborative recommendation failed: ${res.status}`);
-  return res.json();
+  status: "Nice" | "Naughty" | "Unknown" = "Unknown",
+  control?: RequestControl
+): Promise<CollaborativeRecommendation> {
+  return callApi(endpoints.getCollaborativeRecommendation, {
+    params: { childId },
+    query: { status },
+  }, control);
 }
 
 // Behavior update (naughty/nice)
@@ -449,67 +728,72 @@ export interface BehaviorUpdateInput {
   message?: string;
 }
 
-export async function updateChildBehavior(
+export function updateChildBehavior(
   childId: string,
-  update: BehaviorUpdateInput
-): Promise<any> {
-  const res = await fetch(
-    `${API_URL}/api/v1/children/${encodeURIComponent(
-      childId
-    )}/letters/behavior`,
-    {
-      method: "POST",
-      headers: JSON_HEADERS,
-      body: JSON.stringify(update),
-    }
-  );
-  if (!res.ok) throw new Error(`Behavior update failed: ${res.status}`);
-  return res.json();
+  update: BehaviorUpdateInput,
+  control?: MutationOptions
+): Promise<BehaviorUpdateResult> {
+  return callApi(endpoints.updateChildBehavior, {
+    params: { childId },
+    headers: idempotencyHeaders(control),
+    body: update,
+  }, control).then(invalidating(childWriteKeys(childId)));
 }
 
 // Get agent tools list
-export async function getAgentTools(): Promise<any> {
-  const res = await fetch(`${API_URL}/api/v1/agent-tools`, {
-    headers: JSON_HEADERS,
-  });
-  if (!res.ok) throw new Error(`Get agent tools failed: ${res.status}`);
-  return res.json();
+export function getAgentTools(control?: RequestControl): Promise<AgentTools> {
+  return callApi(endpoints.getAgentTools, {}, control);
 }
 
-// Stream recommendations via SSE
+export type StreamOutcome = "completed" | "error" | "cancelled";
+
+// Terminal update types; the backend sends StreamingAgentUpdate as PascalCase `Type`, then { type: "done" }
+const STREAM_OUTCOMES: Record<string, StreamOutcome> = {
+  completed: "completed",
+  done: "completed",
+  error: "error",
+  cancelled: "cancelled",
+};
+
+/**
+ * Stream recommendations via SSE. onComplete runs exactly once with how the
+ * stream ended. The returned function cancels: closing the connection is what
+ * stops the server's generation (there is no run id to cancel by), so it
+ * reports "cancelled" straight away rather than waiting for a confirmation.
+ */
 export function streamRecommendations(
   childId: string,
   status: "Nice" | "Naughty" | "Unknown",
   onUpdate: (data: any) => void,
-  onComplete: () => void
+  onComplete: (outcome: StreamOutcome) => void
 ): () => void {
   const eventSource = new EventSource(
-    `${API_URL}/api/v1/children/${encodeURIComponent(
-      childId
-    )}/recommendations/stream?status=${status}`
+    apiUrl(
+      `/api/v1/children/${encodeURIComponent(
+        childId
+      )}/recommendations/stream?status=${status}`
+    )
   );
+  let ended = false;
+  const end = (outcome: StreamOutcome) => {
+    eventSource.close();
+    if (ended) return;
+    ended = true;
+    onComplete(outcome);
+  };
 
   eventSource.onmessage = (event) => {
     try {
       const data = JSON.parse(event.data);
       onUpdate(data);
-      if (
-        data.type === "completed" ||
-        data.type === "done" ||
-        data.type === "error"
-      ) {
-        eventSource.close();
-        onComplete();
-      }
+      const outcome = STREAM_OUTCOMES[data?.type ?? data?.Type];
+      if (outcome) end(outcome);
     } catch (e) {
       console.error("Failed to parse SSE data:", e);
     }
   };
 
-  eventSource.onerror = () => {
-    eventSource.close();
-    onComplete();
-  };
+  eventSource.onerror = () => end("error");
 
-  return () => eventSource.close();
+  return () => end("cancelled");
 }
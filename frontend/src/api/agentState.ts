@@ -0,0 +1,107 @@
+// Shared state between an agent run and the UI (AG-UI "shared state").
+// The agent sends the whole state as STATE_SNAPSHOT and changes to it as
+// STATE_DELTA (JSON Patch); the UI may edit it too, and the edited state is
+// sent as RunAgentInput.state with the next run. One store per run: the next
+// run's store starts from where the previous one (and the user) left it.
+
+import { applyJsonPatch, JsonPatchError, type JsonPatchOperation } from "../utils/jsonPatch";
+import { logger } from "../utils/logger";
+
+export interface DraftRecommendation {
+  id: string;
+  suggestion: string;
+  rationale?: string;
+  /** Estimated price in the budget's currency */
+  price?: number;
+}
+
+export interface BudgetTotals {
+  limit?: number;
+  /** What the agent has allocated; the UI derives it from draft prices when they are set */
+  allocated?: number;
+  currency?: string;
+}
+
+export interface LogisticsStep {
+  id: string;
+  title: string;
+  status: "pending" | "in-progress" | "done";
+  eta?: string;
+}
+
+export interface AgentSharedState {
+  /** Free-text draft streamed by the older STATE_UPDATE_DELTA events */
+  recommendationDraft?: string;
+  recommendations?: DraftRecommendation[];
+  budget?: BudgetTotals;
+  logisticsPlan?: LogisticsStep[];
+  [key: string]: unknown;
+}
+
+export interface AgentStateStore {
+  getState(): AgentSharedState;
+  subscribe(listener: () => void): () => void;
+  /** Apply one AG-UI event; false when it is not about shared state or could not be applied */
+  applyEvent(ev: any): boolean;
+  /** A user edit, sent back with the next run */
+  update(change: (state: AgentSharedState) => AgentSharedState): void;
+  /** Whether the user changed the state since the agent last sent it */
+  isEdited(): boolean;
+}
+
+export function createAgentStateStore(initial: AgentSharedState = {}): AgentStateStore {
+  // Replaced, never mutated, so it doubles as the useSyncExternalStore snapshot
+  let state = initial;
+  let edited = false;
+  const listeners = new Set<() => void>();
+
+  const set = (next: AgentSharedState) => {
+    if (next === state) return;
+    state = next;
+    listeners.forEach((l) => l());
+  };
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    applyEvent(ev) {
+      switch (ev?.type) {
+        case "STATE_SNAPSHOT":
+          if (typeof ev.snapshot !== "object" || ev.snapshot === null) return false;
+          edited = false;
+          set(ev.snapshot);
+          return true;
+        case "STATE_DELTA":
+          try {
+            set(applyJsonPatch(state, (ev.delta ?? []) as JsonPatchOperation[]));
+            return true;
+          } catch (err) {
+            // The agent is expected to follow up with a snapshot; until then keep the last good state
+            if (!(err instanceof JsonPatchError)) throw err;
+            logger.warn("[agentState] Ignoring a STATE_DELTA that does not apply", err.message);
+            return false;
+          }
+        case "STATE_UPDATE_DELTA":
+          if (ev.field !== "recommendationDraft") return false;
+          set({ ...state, recommendationDraft: (state.recommendationDraft ?? "") + (ev.delta ?? "") });
+          return true;
+        case "STATE_UPDATE_COMPLETE":
+          if (!ev.state?.recommendationDraft) return false;
+          set({ ...state, recommendationDraft: ev.state.recommendationDraft });
+          return true;
+        default:
+          return false;
+      }
+    },
+    update(change) {
+      edited = true;
+      set(change(state));
+    },
+    isEdited: () => edited,
+  };
+}
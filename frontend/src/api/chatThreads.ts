@@ -0,0 +1,88 @@
+// Conversation threads for the Santa and Elf agent chats.
+// Each thread belongs to one agent and one focused child (or none) and keeps
+// the full user/assistant/tool message history, which is resent with every
+// run so the agent sees the earlier turns. Threads are persisted to
+// IndexedDB and survive reloads; without IndexedDB they live in memory.
+
+import { createPersistedCollection } from "../utils/persistedCollection";
+import type { ToolCall } from "../utils/toolCalls";
+import type { TemplateRef } from "./promptTemplates";
+
+export type ChatRole = "user" | "assistant" | "tool";
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  /** Set on tool messages: the call this result answers */
+  toolCallId?: string;
+  /** Set on tool messages: the tool that produced the result */
+  toolName?: string;
+  /** Set on assistant messages: the tools called while answering, in call order */
+  toolCalls?: ToolCall[];
+  /** Assistant replies that ended early; kept for display, not resent */
+  outcome?: "error" | "cancelled";
+  /** Set on user messages sent unedited from a prompt template */
+  template?: TemplateRef;
+  createdAt: number;
+}
+
+export interface ChatThread {
+  id: string;
+  agentId: string;
+  /** "" when no child was focused */
+  childId: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+const TITLE_LENGTH = 60;
+
+// In the order they were created; threadsFor sorts by activity
+const threads = createPersistedCollection<ChatThread>("chatThreads", { label: "chatThreads" });
+
+export function newChatId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Load persisted threads once; threads created before it resolves are kept */
+export const loadChatThreads = threads.load;
+
+export const getChatThreads = threads.getAll;
+
+export const subscribeChatThreads = threads.subscribe;
+
+/** Threads for one agent and child, most recently active first */
+export function threadsFor(all: ChatThread[], agentId: string, childId: string): ChatThread[] {
+  // Newest-created first on ties, as the sort is stable
+  return all
+    .filter((t) => t.agentId === agentId && t.childId === childId)
+    .reverse()
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function createChatThread(agentId: string, childId: string): ChatThread {
+  const now = Date.now();
+  return { id: newChatId(), agentId, childId, title: "New conversation", messages: [], createdAt: now, updatedAt: now };
+}
+
+/** Title a thread after its first question */
+export function titleFor(thread: ChatThread): string {
+  const first = thread.messages.find((m) => m.role === "user")?.content.trim().replace(/\s+/g, " ");
+  if (!first) return thread.title;
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+}
+
+/** Every tool call in the given threads, newest first, with the thread it happened in */
+export function toolCallsIn(all: ChatThread[]): { thread: ChatThread; call: ToolCall }[] {
+  return all
+    .flatMap((thread) => thread.messages.flatMap((m) => (m.toolCalls ?? []).map((call) => ({ thread, call }))))
+    .sort((a, b) => b.call.startedAt - a.call.startedAt);
+}
+
+export const saveChatThread = threads.put;
+
+export const deleteChatThread = threads.delete;
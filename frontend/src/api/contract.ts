@@ -0,0 +1,464 @@
+// Single source of truth for the /api/v1 surface the dashboard talks to.
+// Every route is declared once here with its method, path template and a zod
+// schema describing the JSON the backend returns (camelCase, see Program.cs
+// ConfigureHttpJsonOptions). The client in agentClient.ts is built on top of
+// this table, so a backend shape change surfaces as an ApiContractError in one
+// place instead of leaking "unknown" placeholders into components.
+import { z } from "zod";
+
+// ---------------------------------------------------------------------------
+// Resource schemas
+// ---------------------------------------------------------------------------
+
+// NiceStatus as the backend enum names it; the API's global JsonStringEnumConverter
+// writes it camelCase ("nice"), so it is normalized here for every consumer
+const NICE_STATUSES = ["Nice", "Naughty", "Unknown"] as const;
+
+export const NiceStatusSchema = z
+  .string()
+  .transform((s) => NICE_STATUSES.find((v) => v.toLowerCase() === s.toLowerCase()) ?? s);
+
+export const ChildProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  age: z.number().nullish(),
+  location: z.string().nullish(),
+  preferences: z.array(z.string()).nullish(),
+  constraints: z.object({ budget: z.number().nullish() }).nullish(),
+  privacyFlags: z.object({ optOut: z.boolean() }).nullish(),
+  status: NiceStatusSchema.nullish(),
+  behaviorSummary: z.string().nullish(),
+});
+
+export const ChildRefSchema = z.object({ childId: z.string() });
+
+export const ChildSummarySchema = z.object({
+  childId: z.string(),
+  name: z.string().nullish(),
+  age: z.number().nullish(),
+  location: z.string().nullish(),
+  budget: z.number().nullish(),
+  status: NiceStatusSchema,
+  wishlistCount: z.number(),
+  lastActivity: z.string().nullish(),
+});
+
+export const ChildDirectoryPageSchema = z.object({
+  items: z.array(ChildSummarySchema),
+  count: z.number(),
+  total: z.number(),
+  nextCursor: z.string().nullish(),
+});
+
+export const AvailabilitySchema = z.object({
+  inStock: z.boolean().nullish(),
+  leadTimeDays: z.number().nullish(),
+});
+
+export const RecommendationSchema = z.object({
+  id: z.string(),
+  childId: z.string(),
+  suggestion: z.string(),
+  rationale: z.string(),
+  price: z.number().nullish(),
+  budgetFit: z.string(),
+  availability: AvailabilitySchema.nullish(),
+});
+
+export const RecommendationListSchema = z.object({
+  items: z.array(RecommendationSchema),
+  count: z.number(),
+});
+
+export const WishlistSubmissionSchema = z.object({
+  wishlistItem: z.object({
+    id: z.string(),
+    itemName: z.string(),
+    category: z.string().nullish(),
+    requestType: z.string().nullish(),
+    statusChange: z.string().nullish(),
+  }),
+  recommendationSetId: z.string().nullish(),
+  recommendations: z.array(RecommendationSchema),
+  fallbackUsed: z.boolean(),
+});
+
+export const WishlistEntrySchema = z.object({
+  id: z.string(),
+  childId: z.string(),
+  itemName: z.string(),
+  category: z.string().nullish(),
+  budgetEstimate: z.number().nullish(),
+  notes: z.string().nullish(),
+  priority: z.number().nullish(),
+  createdAt: z.string(),
+  updatedAt: z.string().nullish(),
+});
+
+export const WishlistEntryListSchema = z.object({
+  items: z.array(WishlistEntrySchema),
+  count: z.number(),
+});
+
+export const ProfileSnapshotSchema = z.object({
+  id: z.string(),
+  childId: z.string(),
+  createdAt: z.string(),
+  preferences: z.array(z.string()),
+  budgetCeiling: z.number().nullish(),
+  behaviorSummary: z.string().nullish(),
+  enrichmentSource: z.string(),
+  fallbackUsed: z.boolean(),
+});
+
+export const LogisticsAssessmentSchema = z.object({
+  id: z.string(),
+  childId: z.string(),
+  recommendationSetId: z.string(),
+  checkedAt: z.string(),
+  overallStatus: z.string(),
+  fallbackUsed: z.boolean(),
+  items: z.array(
+    z.object({
+      recommendationItemId: z.string(),
+      feasible: z.boolean().nullish(),
+      reason: z.string(),
+    })
+  ),
+});
+
+export const ReportMetaSchema = z.object({
+  childId: z.string(),
+  path: z.string(),
+  createdAt: z.string(),
+  label: z.string(),
+  topN: z.number(),
+});
+
+export const NotificationSchema = z.object({
+  id: z.string(),
+  childId: z.string(),
+  type: z.string(),
+  message: z.string(),
+  createdAt: z.string(),
+  state: z.string(),
+  relatedRecommendationSetId: z.string().nullish(),
+});
+
+export const NotificationListSchema = z.object({
+  items: z.array(NotificationSchema),
+  count: z.number(),
+  continuationToken: z.string().nullish(),
+});
+
+export const CollaborativeRecommendationSchema = z.object({
+  childId: z.string(),
+  status: z.string(),
+  optimized: z.boolean(),
+  collaborativeRecommendation: z.string(),
+  agentTypes: z.array(z.string()),
+  toolsUsed: z.array(z.string()),
+  drasiContext: z.object({
+    trendingItems: z.array(z.object({ item: z.string(), frequency: z.number() })),
+    duplicateAlerts: z.array(
+      z.object({ childId: z.string(), item: z.string(), count: z.number() })
+    ),
+    lastUpdate: z.string(),
+  }),
+});
+
+export const BehaviorUpdateResultSchema = z.object({
+  childId: z.string(),
+  letterId: z.string(),
+  requestType: z.string(),
+  statusChange: z.string().nullish(),
+  message: z.string().nullish(),
+});
+
+export const AgentToolSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  parameters: z.array(z.string()),
+  category: z.string(),
+  source: z.string().nullish(),
+});
+
+export const AgentToolsSchema = z.object({
+  tools: z.array(AgentToolSchema),
+  stats: z.object({ drasiTools: z.number() }),
+  description: z.string(),
+  integration: z.string(),
+});
+
+const DrasiToolResultSchema = z.object({ tool: z.string(), result: z.string() });
+
+export const DrasiAgentDemoSchema = z.object({
+  childId: z.string(),
+  timestamp: z.string(),
+  demonstration: z.string(),
+  description: z.string(),
+  drasiInsights: z.object({
+    trending: DrasiToolResultSchema,
+    duplicates: DrasiToolResultSchema,
+    global: DrasiToolResultSchema,
+    inactive: DrasiToolResultSchema,
+  }),
+  capabilities: z.array(z.string()),
+  nextSteps: z.array(z.string()),
+});
+
+export const DrasiInsightsSchema = z.object({
+  trending: z.array(z.object({ item: z.string(), frequency: z.number() })),
+  duplicates: z.array(
+    z.object({ childId: z.string(), item: z.string(), count: z.number() })
+  ),
+  inactiveChildren: z.array(
+    z.object({ childId: z.string(), lastEventDays: z.number() })
+  ),
+  behaviorChanges: z.array(
+    z.object({
+      childId: z.string(),
+      oldStatus: z.string(),
+      newStatus: z.string(),
+      reason: z.string().nullish(),
+    })
+  ),
+  stats: z.object({
+    totalEvents: z.number(),
+    activeQueries: z.number(),
+    lastUpdateSeconds: z.number(),
+  }),
+});
+
+export const DrasiQueryResultSchema = z.object({
+  queryName: z.string(),
+  results: z.array(z.unknown()),
+  count: z.number(),
+});
+
+export const DrasiQueryDebugSchema = z.object({
+  queryName: z.string(),
+  queryContainerId: z.string(),
+  baseUrl: z.string(),
+  resolvedUrl: z.string(),
+  resultCount: z.number(),
+  results: z.array(z.unknown()),
+  message: z.string(),
+});
+
+const TrendPointSchema = z.object({
+  item: z.string(),
+  frequency: z.number(),
+  period: z.string(),
+});
+
+export const YearOverYearTrendsSchema = z.object({
+  current: z.array(TrendPointSchema),
+  historical: z.array(TrendPointSchema),
+  insights: z.object({
+    returningFavorites: z.array(z.string()),
+    newTrends: z.array(z.string()),
+    noLongerTrending: z.array(z.string()),
+    volumeChange: z.object({
+      current: z.number(),
+      historical: z.number(),
+      percentChange: z.number(),
+      trend: z.enum(["up", "down", "stable"]),
+    }),
+  }),
+  metadata: z.object({
+    currentPeriod: z.string(),
+    historicalPeriod: z.string(),
+    currentYear: z.number(),
+    comparisonYear: z.number(),
+  }),
+});
+
+export const RationaleAuditSchema = z.object({
+  childId: z.string(),
+  count: z.number(),
+  entries: z.array(
+    z.object({
+      recommendationSetId: z.string(),
+      createdAt: z.string(),
+      itemId: z.string(),
+      suggestion: z.string(),
+      rationale: z.string(),
+      fallbackUsed: z.boolean(),
+    })
+  ),
+});
+
+export const AssessmentAuditSchema = z.object({
+  childId: z.string(),
+  count: z.number(),
+  entries: z.array(
+    z.object({
+      assessmentId: z.string(),
+      checkedAt: z.string(),
+      recommendationSetId: z.string(),
+      recommendationItemId: z.string(),
+      feasible: z.boolean().nullish(),
+      reason: z.string(),
+      overallStatus: z.string(),
+      fallbackUsed: z.boolean(),
+    })
+  ),
+});
+
+export const ElfAgentsStatusSchema = z.object({
+  environment: z.string(),
+  backlogDepth: z.number(),
+  p95ProcessingLatencySeconds: z.number(),
+  errorRate: z.number(),
+  roles: z.array(z.unknown()),
+});
+
+export const ElfAgentsReadinessSchema = z.object({ status: z.string() });
+
+export const ElfAgentTriggerResultSchema = z.object({
+  status: z.string(),
+  childId: z.string(),
+  type: z.string(),
+});
+
+/** The 202 for a raw wishlist event, published to Event Hub for Drasi */
+export const WishlistEventAcceptedSchema = z.object({
+  childId: z.string(),
+  dedupeKey: z.string(),
+  status: z.string(),
+});
+
+/** Always empty; only shows that /api/v1 routing reaches the backend */
+export const DiagnosticsInsightsSchema = z.object({
+  trending: z.array(z.unknown()),
+  duplicates: z.array(z.unknown()),
+  inactiveChildren: z.array(z.unknown()),
+  stats: z.record(z.string(), z.unknown()),
+});
+
+/** Endpoints that reply with an empty body (202/204). */
+export const EmptySchema = z.unknown();
+
+// ---------------------------------------------------------------------------
+// Route table
+// ---------------------------------------------------------------------------
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface Endpoint<S extends z.ZodType = z.ZodType> {
+  /** Stable name used in logs and contract errors. */
+  name: string;
+  method: HttpMethod;
+  /** Path template relative to the API base, e.g. `/api/v1/children/{childId}`. */
+  path: string;
+  response: S;
+}
+
+function endpoint<S extends z.ZodType>(
+  name: string,
+  method: HttpMethod,
+  path: string,
+  response: S
+): Endpoint<S> {
+  return { name, method, path, response };
+}
+
+export const endpoints = {
+  // children
+  listChildren: endpoint("listChildren", "GET", "/api/v1/children", ChildDirectoryPageSchema),
+  createChild: endpoint("createChild", "POST", "/api/v1/children", ChildRefSchema),
+  getChild: endpoint("getChild", "GET", "/api/v1/children/{childId}", ChildRefSchema),
+  // profile
+  getChildProfile: endpoint("getChildProfile", "GET", "/api/v1/children/{childId}/profile", ChildProfileSchema),
+  createProfileSnapshot: endpoint("createProfileSnapshot", "POST", "/api/v1/children/{childId}/profile", ProfileSnapshotSchema),
+  updateChildProfile: endpoint("updateChildProfile", "PUT", "/api/v1/children/{childId}/profile", ChildProfileSchema),
+  // wishlist-items
+  listWishlistItems: endpoint("listWishlistItems", "GET", "/api/v1/children/{childId}/wishlist-items", WishlistEntryListSchema),
+  addWishlistItem: endpoint("addWishlistItem", "POST", "/api/v1/children/{childId}/wishlist-items", WishlistSubmissionSchema),
+  updateWishlistItem: endpoint("updateWishlistItem", "PUT", "/api/v1/children/{childId}/wishlist-items/{itemId}", WishlistEntrySchema),
+  deleteWishlistItem: endpoint("deleteWishlistItem", "DELETE", "/api/v1/children/{childId}/wishlist-items/{itemId}", EmptySchema),
+  reorderWishlistItems: endpoint("reorderWishlistItems", "PUT", "/api/v1/children/{childId}/wishlist-items/order", WishlistEntryListSchema),
+  updateChildBehavior: endpoint("updateChildBehavior", "POST", "/api/v1/children/{childId}/letters/behavior", BehaviorUpdateResultSchema),
+  // wishlist (raw events)
+  submitWishlistEvent: endpoint("submitWishlistEvent", "POST", "/api/v1/children/{childId}/wishlist", WishlistEventAcceptedSchema),
+  // recommendations
+  getChildRecommendations: endpoint("getChildRecommendations", "GET", "/api/v1/children/{childId}/recommendations", RecommendationListSchema),
+  saveRecommendation: endpoint("saveRecommendation", "POST", "/api/v1/children/{childId}/recommendations", RecommendationSchema),
+  getCollaborativeRecommendation: endpoint("getCollaborativeRecommendation", "POST", "/api/v1/children/{childId}/recommendations/collaborative", CollaborativeRecommendationSchema),
+  // logistics
+  runLogisticsAssessment: endpoint("runLogisticsAssessment", "POST", "/api/v1/children/{childId}/logistics", LogisticsAssessmentSchema),
+  // reports
+  getReport: endpoint("getReport", "GET", "/api/v1/reports/{childId}", ReportMetaSchema),
+  // jobs
+  createJob: endpoint("createJob", "POST", "/api/v1/jobs", EmptySchema),
+  // notifications
+  getNotifications: endpoint("getNotifications", "GET", "/api/v1/notifications", NotificationListSchema),
+  createNotification: endpoint("createNotification", "POST", "/api/v1/notifications", NotificationSchema),
+  // drasi
+  getDrasiInsights: endpoint("getDrasiInsights", "GET", "/api/v1/drasi/insights", DrasiInsightsSchema),
+  getDrasiQuery: endpoint("getDrasiQuery", "GET", "/api/v1/drasi/queries/{queryName}", DrasiQueryResultSchema),
+  getDrasiQueryDebug: endpoint("getDrasiQueryDebug", "GET", "/api/v1/drasi/debug/{queryName}", DrasiQueryDebugSchema),
+  getDrasiAgentDemo: endpoint("getDrasiAgentDemo", "GET", "/api/v1/drasi-agent-demo/{childId}", DrasiAgentDemoSchema),
+  // trends
+  getYearOverYearTrends: endpoint("getYearOverYearTrends", "GET", "/api/v1/trends/year-over-year", YearOverYearTrendsSchema),
+  // agent-tools
+  getAgentTools: endpoint("getAgentTools", "GET", "/api/v1/agent-tools", AgentToolsSchema),
+  // audit
+  getRationaleAudit: endpoint("getRationaleAudit", "GET", "/api/v1/audit/rationale/{childId}", RationaleAuditSchema),
+  getAssessmentAudit: endpoint("getAssessmentAudit", "GET", "/api/v1/audit/assessments/{childId}", AssessmentAuditSchema),
+  // elf-agents
+  getElfAgentsStatus: endpoint("getElfAgentsStatus", "GET", "/api/v1/elf-agents/status", ElfAgentsStatusSchema),
+  getElfAgentsReadiness: endpoint("getElfAgentsReadiness", "GET", "/api/v1/elf-agents/readiness", ElfAgentsReadinessSchema),
+  triggerElfAgent: endpoint("triggerElfAgent", "POST", "/api/v1/elf-agents:trigger", ElfAgentTriggerResultSchema),
+  // diagnostics
+  getDiagnosticsInsights: endpoint("getDiagnosticsInsights", "GET", "/api/v1/diagnostics/insights", DiagnosticsInsightsSchema),
+} as const;
+
+export type EndpointName = keyof typeof endpoints;
+export type ResponseOf<E extends Endpoint> = z.infer<E["response"]>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export type PathParams = Record<string, string>;
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+/** Fill `{param}` placeholders and append a query string, skipping empty values. */
+export function buildPath(template: string, params: PathParams = {}, query: QueryParams = {}): string {
+  const path = template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = params[key];
+    if (value === undefined) throw new Error(`Missing path parameter '${key}' for ${template}`);
+    return encodeURIComponent(value);
+  });
+  const qs = Object.entries(query)
+    .filter(([, v]) => v !== undefined && v !== null && v !== "")
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+    .join("&");
+  return qs ? `${path}?${qs}` : path;
+}
+
+/** Thrown when a response body does not match the declared contract. */
+export class ApiContractError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly issues: z.core.$ZodIssue[]
+  ) {
+    super(
+      `${endpoint}: response did not match contract (${issues
+        .slice(0, 3)
+        .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+        .join("; ")})`
+    );
+    this.name = "ApiContractError";
+  }
+}
+
+export function parseResponse<E extends Endpoint>(ep: E, raw: unknown): ResponseOf<E> {
+  const result = ep.response.safeParse(raw);
+  if (!result.success) {
+    throw new ApiContractError(ep.name, result.error.issues);
+  }
+  return result.data as ResponseOf<E>;
+}
@@ -0,0 +1,95 @@
+// The one SignalR connection to the Drasi events hub, shared by every live
+// query view. Each continuous query's change events arrive as hub messages
+// named after the query; handlers are fanned out per query so views can come
+// and go without re-registering on the connection.
+
+import * as signalR from '@microsoft/signalr';
+import { getRuntimeConfig } from '../config';
+import { logger } from '../utils/logger';
+
+// Shared SignalR connection singleton
+let sharedConnection: signalR.HubConnection | null = null;
+let connectionPromise: Promise<void> | null = null;
+const queryHandlers = new Map<string, Set<(event: any) => void>>();
+
+// Get or create shared connection
+export const getSharedConnection = async (): Promise<signalR.HubConnection> => {
+  if (sharedConnection?.state === signalR.HubConnectionState.Connected) {
+    return sharedConnection;
+  }
+
+  if (connectionPromise) {
+    await connectionPromise;
+    return sharedConnection!;
+  }
+
+  if (!sharedConnection) {
+    const { signalRHubUrl: hubUrl, mockBackend } = getRuntimeConfig();
+    if (mockBackend) {
+      const { createMockHubConnection } = await import('../mock');
+      sharedConnection = createMockHubConnection();
+    } else {
+      logger.debug('[DrasiSignalR] Hub URL:', hubUrl);
+      sharedConnection = new signalR.HubConnectionBuilder()
+        .withUrl(hubUrl, {
+          skipNegotiation: false,
+          transport: signalR.HttpTransportType.ServerSentEvents | signalR.HttpTransportType.LongPolling,
+        })
+        .withAutomaticReconnect()
+        .configureLogging(signalR.LogLevel.Information)
+        .build();
+    }
+
+    // Register hub info handler once
+    sharedConnection.on('hub.info', (info: any) => {
+      logger.debug('[SignalR] Hub info:', info);
+    });
+
+    // Handle reconnection
+    sharedConnection.onreconnected(() => {
+      logger.info('[SignalR] Reconnected, reloading queries...');
+      // Trigger reload for all active queries
+      queryHandlers.forEach((_, queryId) => {
+        // Queries will reload via their individual useEffect hooks
+      });
+    });
+  }
+
+  connectionPromise = sharedConnection.start()
+    .then(() => {
+      logger.info('[SignalR] Shared connection established');
+      connectionPromise = null;
+    })
+    .catch((err) => {
+      logger.error('[SignalR] Connection error:', err);
+      connectionPromise = null;
+      throw err;
+    });
+
+  await connectionPromise;
+  return sharedConnection;
+};
+
+// Register a handler for a query
+export const registerQueryHandler = (queryId: string, handler: (event: any) => void) => {
+  if (!queryHandlers.has(queryId)) {
+    queryHandlers.set(queryId, new Set());
+    // Register the query handler on the connection
+    sharedConnection?.on(queryId, (event: any) => {
+      queryHandlers.get(queryId)?.forEach(h => h(event));
+    });
+  }
+  queryHandlers.get(queryId)!.add(handler);
+};
+
+// Unregister a handler for a query
+export const unregisterQueryHandler = (queryId: string, handler: (event: any) => void) => {
+  const handlers = queryHandlers.get(queryId);
+  if (handlers) {
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      queryHandlers.delete(queryId);
+      sharedConnection?.off(queryId);
+    }
+  }
+};
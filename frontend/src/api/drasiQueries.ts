@@ -0,0 +1,71 @@
+// The Drasi continuous queries deployed with the workshop, as declared in
+// drasi/resources/drasi-resources.yaml. The backend serves any of them by
+// name (drasi/queries/{queryName}), and the wishlist-signalr reaction pushes
+// each of them over the SignalR hub.
+
+export interface DrasiQueryInfo {
+  id: string;
+  description: string;
+  /** The columns the query returns, in RETURN order */
+  columns: readonly string[];
+  /** The columns that identify a row, so updates and deletes find it */
+  keyFields: readonly string[];
+  /** Published by the SignalR reaction; other queries only have REST snapshots */
+  signalR: boolean;
+}
+
+export const DRASI_QUERIES: readonly DrasiQueryInfo[] = [
+  {
+    id: "wishlist-updates",
+    description: "Every wishlist event, as synced to Cosmos DB",
+    columns: ["childId", "schemaVersion", "text", "category", "budgetEstimate", "createdAt", "type", "dedupeKey", "lastChanged"],
+    keyFields: ["dedupeKey"],
+    signalR: true,
+  },
+  {
+    id: "wishlist-trending-1h",
+    description: "Gifts requested in the past hour, by frequency",
+    columns: ["item", "frequency"],
+    keyFields: ["item"],
+    signalR: true,
+  },
+  {
+    id: "wishlist-duplicates-global",
+    description: "Gifts requested more than once across all children",
+    columns: ["item", "itemCount"],
+    keyFields: ["item"],
+    signalR: true,
+  },
+  {
+    id: "wishlist-duplicates-by-child",
+    description: "Gifts one child asked for more than once",
+    columns: ["childId", "item", "duplicateCount"],
+    keyFields: ["childId", "item"],
+    signalR: true,
+  },
+  {
+    id: "wishlist-inactive-children-3d",
+    description: "Children with no activity for three days or more",
+    columns: ["childId", "lastEvent"],
+    keyFields: ["childId"],
+    signalR: true,
+  },
+  {
+    id: "recommendation-trending-30m",
+    description: "Recommendation updates in the past 30 minutes",
+    columns: ["suggestion", "freq"],
+    keyFields: ["suggestion"],
+    signalR: true,
+  },
+  {
+    id: "behavior-status-changes",
+    description: "Naughty/nice status changes from behavior letters",
+    columns: ["childId", "newStatus", "previousStatus", "changedAt"],
+    keyFields: ["childId", "changedAt"],
+    signalR: true,
+  },
+];
+
+export function findDrasiQuery(id: string): DrasiQueryInfo | undefined {
+  return DRASI_QUERIES.find((q) => q.id === id);
+}
@@ -0,0 +1,225 @@
+// Shared request pipeline for REST calls: per-call cancellation, timeouts,
+// exponential-backoff retries for idempotent GETs, and RFC 7807 error parsing.
+
+import { logger } from "../utils/logger";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_GET_RETRIES = 2;
+const BACKOFF_BASE_MS = 300;
+const BACKOFF_MAX_MS = 5000;
+
+// Transient statuses worth retrying; anything else is the caller's problem
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface RequestControl {
+  /** Caller-owned cancellation; aborting rejects with the usual AbortError */
+  signal?: AbortSignal;
+  /** Per-attempt timeout; surfaces as an ApiError with status 0 */
+  timeoutMs?: number;
+  /** Retry budget for GETs; other methods are never retried */
+  retries?: number;
+}
+
+/**
+ * Structured failure for any REST call. HTTP failures carry the server's
+ * Problem Details; network failures and timeouts use status 0.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly title: string;
+  readonly detail?: string;
+  readonly type?: string;
+  readonly traceId?: string;
+  /** Field name -> messages, as in ASP.NET validation problem responses */
+  readonly errors: Record<string, string[]>;
+  /** Contract endpoint or URL that failed */
+  readonly source: string;
+
+  constructor(init: {
+    status: number;
+    title: string;
+    detail?: string;
+    type?: string;
+    traceId?: string;
+    errors?: Record<string, string[]>;
+    source: string;
+  }) {
+    super(init.detail ? `${init.title}: ${init.detail}` : init.title);
+    this.name = "ApiError";
+    this.status = init.status;
+    this.title = init.title;
+    this.detail = init.detail;
+    this.type = init.type;
+    this.traceId = init.traceId;
+    this.errors = init.errors ?? {};
+    this.source = init.source;
+  }
+
+  get isTimeout(): boolean {
+    return this.status === 0 && this.type === "timeout";
+  }
+
+  /** Flatten validation errors into "field: message" lines for display */
+  get validationMessages(): string[] {
+    return Object.entries(this.errors).flatMap(([field, messages]) =>
+      messages.map((m) => (field ? `${field}: ${m}` : m))
+    );
+  }
+
+  /** Parse a failed response; tolerates Problem Details, `{ error }` bodies and plain text */
+  static async fromResponse(res: Response, source: string): Promise<ApiError> {
+    let text = "";
+    try {
+      text = await res.text();
+    } catch {
+      // Body already consumed or connection dropped; status is still useful
+    }
+
+    let body: any = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      body = null;
+    }
+
+    if (body && typeof body === "object") {
+      return new ApiError({
+        status: typeof body.status === "number" ? body.status : res.status,
+        title: body.title || res.statusText || `HTTP ${res.status}`,
+        detail: body.detail || body.error || body.message || undefined,
+        type: body.type,
+        traceId: body.traceId,
+        errors: normalizeErrors(body.errors),
+        source,
+      });
+    }
+
+    return new ApiError({
+      status: res.status,
+      title: res.statusText || `HTTP ${res.status}`,
+      detail: text ? text.slice(0, 200) : undefined,
+      source,
+    });
+  }
+}
+
+function normalizeErrors(raw: unknown): Record<string, string[]> {
+  if (!raw || typeof raw !== "object") return {};
+  if (Array.isArray(raw)) return { "": raw.map(String) };
+  const out: Record<string, string[]> = {};
+  for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+    out[field] = Array.isArray(value) ? value.map(String) : [String(value)];
+  }
+  return out;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// Full jitter keeps a burst of failing pollers from retrying in lockstep
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, BACKOFF_MAX_MS);
+  }
+  const ceiling = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// One attempt: links the caller's signal with a timeout and maps
+// network failures and timeouts onto ApiError.
+async function attempt(
+  url: string,
+  init: RequestInit,
+  control: RequestControl,
+  source: string
+): Promise<Response> {
+  // No abort event will come for a signal that is already aborted
+  if (control.signal?.aborted) throw new DOMException("Aborted", "AbortError");
+  const controller = new AbortController();
+  const timeoutMs = control.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  control.signal?.addEventListener("abort", onCallerAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    if (timedOut) {
+      throw new ApiError({
+        status: 0,
+        title: "Request timed out",
+        detail: `No response after ${timeoutMs}ms`,
+        type: "timeout",
+        source,
+      });
+    }
+    if (control.signal?.aborted || isAbortError(err)) throw err;
+    throw new ApiError({
+      status: 0,
+      title: "Network error",
+      detail: err instanceof Error ? err.message : String(err),
+      type: "network",
+      source,
+    });
+  } finally {
+    clearTimeout(timer);
+    control.signal?.removeEventListener("abort", onCallerAbort);
+  }
+}
+
+/**
+ * Send a request through the shared pipeline. Resolves with the raw Response
+ * for any HTTP status (callers decide what non-2xx means); rejects with an
+ * ApiError for network failures, timeouts and exhausted retries.
+ */
+export async function request(
+  url: string,
+  init: RequestInit = {},
+  control: RequestControl = {},
+  source: string = url
+): Promise<Response> {
+  const method = (init.method || "GET").toUpperCase();
+  const retries = method === "GET" ? control.retries ?? DEFAULT_GET_RETRIES : 0;
+
+  for (let i = 0; ; i++) {
+    try {
+      const res = await attempt(url, init, control, source);
+      if (i < retries && RETRYABLE_STATUSES.has(res.status)) {
+        const delay = backoffDelay(i, res.headers.get("retry-after"));
+        logger.debug(`[http] ${source} -> ${res.status}, retry ${i + 1}/${retries} in ${delay}ms`);
+        await sleep(delay, control.signal);
+        continue;
+      }
+      return res;
+    } catch (err) {
+      if (!(err instanceof ApiError) || i >= retries) throw err;
+      const delay = backoffDelay(i, null);
+      logger.debug(`[http] ${source} ${err.title}, retry ${i + 1}/${retries} in ${delay}ms`);
+      await sleep(delay, control.signal);
+    }
+  }
+}
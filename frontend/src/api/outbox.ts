@@ -0,0 +1,298 @@
+// Offline outbox for workshop submissions.
+// Wishlist items, behavior updates and report jobs are persisted to IndexedDB
+// before they are sent, then replayed in submission order until the backend
+// accepts them. Each entry's id doubles as its Idempotency-Key (or job
+// dedupeKey), so a replay after a lost response is applied only once.
+
+import {
+  addWishlistItem,
+  createJob,
+  updateChildBehavior,
+  type BehaviorUpdateInput,
+  type CreateJobRequest,
+  type WishlistItemInput,
+} from "../agentClient";
+import { idbDelete, idbGetAll, idbPut } from "../utils/idb";
+import { logger } from "../utils/logger";
+import { ApiContractError } from "./contract";
+import { ApiError } from "./http";
+
+interface OutboxPayloads {
+  addWishlistItem: { childId: string; item: WishlistItemInput };
+  updateChildBehavior: { childId: string; update: BehaviorUpdateInput };
+  createJob: { request: CreateJobRequest };
+}
+
+export type OutboxKind = keyof OutboxPayloads;
+export type OutboxStatus = "pending" | "failed" | "synced";
+
+export interface OutboxEntry<K extends OutboxKind = OutboxKind> {
+  /** Client-generated; sent as the idempotency/dedupe key */
+  id: string;
+  /** Submission order; replay follows it strictly */
+  seq: number;
+  kind: K;
+  childId: string;
+  payload: OutboxPayloads[K];
+  /** Short human description for the UI */
+  label: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** What the submitter learns: sent now, parked until online, or rejected */
+export type OutboxOutcome =
+  | { status: "synced"; entry: OutboxEntry }
+  | { status: "queued"; entry: OutboxEntry }
+  | { status: "failed"; entry: OutboxEntry; error: unknown };
+
+const STORE = "outbox";
+const KEEP_SYNCED = 20;
+const RETRY_MIN_MS = 5000;
+const RETRY_MAX_MS = 60000;
+
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_MIN_MS;
+const listeners = new Set<() => void>();
+// Submitters awaiting the first attempt on their entry
+const waiters = new Map<string, (outcome: OutboxOutcome) => void>();
+
+const senders: { [K in OutboxKind]: (payload: OutboxPayloads[K], key: string) => Promise<unknown> } = {
+  addWishlistItem: (p, key) => addWishlistItem(p.childId, p.item, { idempotencyKey: key }),
+  updateChildBehavior: (p, key) => updateChildBehavior(p.childId, p.update, { idempotencyKey: key }),
+  createJob: (p) => createJob(p.request),
+};
+
+// `entries` is always replaced, never mutated, so it doubles as the UI snapshot
+function emit() {
+  listeners.forEach((l) => l());
+}
+
+async function save(entry: OutboxEntry) {
+  entries = entries.some((e) => e.id === entry.id)
+    ? entries.map((e) => (e.id === entry.id ? entry : e))
+    : [...entries, entry];
+  emit();
+  try {
+    await idbPut(STORE, entry);
+  } catch (err) {
+    logger.warn("[outbox] Failed to persist entry", entry.id, err);
+  }
+}
+
+async function remove(id: string) {
+  entries = entries.filter((e) => e.id !== id);
+  emit();
+  try {
+    await idbDelete(STORE, id);
+  } catch (err) {
+    logger.warn("[outbox] Failed to delete entry", id, err);
+  }
+}
+
+function load(): Promise<void> {
+  if (!loaded) {
+    loaded = idbGetAll<OutboxEntry>(STORE)
+      .then((stored) => {
+        // Merge with anything enqueued before the database answered
+        const known = new Set(entries.map((e) => e.id));
+        entries = [...stored.filter((e) => !known.has(e.id)), ...entries].sort(
+          (a, b) => a.seq - b.seq
+        );
+        emit();
+      })
+      .catch((err) => logger.warn("[outbox] Failed to load persisted entries", err));
+  }
+  return loaded;
+}
+
+// Network failures, timeouts and server-side errors are worth replaying later,
+// as are non-JSON responses (status 0, e.g. a captive portal page): the API
+// never saw those, and the idempotency key makes a replay safe if it did.
+// Any other rejection means the request itself is wrong.
+function isTransient(err: unknown): boolean {
+  if (!(err instanceof ApiError)) return false;
+  return err.status === 0 || err.status === 408 || err.status === 429 || err.status >= 500;
+}
+
+function describe(err: unknown): string {
+  if (err instanceof ApiError) return err.detail || err.title;
+  return err instanceof Error ? err.message : String(err);
+}
+
+function settle(outcome: OutboxOutcome) {
+  const waiter = waiters.get(outcome.entry.id);
+  if (waiter) {
+    waiters.delete(outcome.entry.id);
+    waiter(outcome);
+  }
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flushOutbox();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+}
+
+async function pruneSynced() {
+  const synced = entries.filter((e) => e.status === "synced");
+  const excess = synced.slice(0, Math.max(0, synced.length - KEEP_SYNCED));
+  await Promise.all(excess.map((e) => remove(e.id)));
+}
+
+// Returns false when a transient failure halted the pass
+async function drain(): Promise<boolean> {
+  await load();
+  for (;;) {
+    const next = entries.find((e) => e.status === "pending");
+    if (!next) break;
+
+    const attempt = { ...next, attempts: next.attempts + 1, updatedAt: Date.now() };
+    try {
+      await (senders[attempt.kind] as (p: unknown, key: string) => Promise<unknown>)(
+        attempt.payload,
+        attempt.id
+      );
+      const synced = { ...attempt, status: "synced" as const, lastError: undefined };
+      await save(synced);
+      settle({ status: "synced", entry: synced });
+    } catch (err) {
+      if (err instanceof ApiContractError) {
+        // The server accepted it; only the response shape was unexpected
+        const synced = { ...attempt, status: "synced" as const, lastError: undefined };
+        await save(synced);
+        settle({ status: "synced", entry: synced });
+      } else if (isTransient(err)) {
+        // Stop here so later entries never overtake this one
+        await save({ ...attempt, lastError: describe(err) });
+        entries
+          .filter((e) => e.status === "pending")
+          .forEach((e) => settle({ status: "queued", entry: e }));
+        scheduleRetry();
+        return false;
+      } else {
+        const failed = { ...attempt, status: "failed" as const, lastError: describe(err) };
+        await save(failed);
+        settle({ status: "failed", entry: failed, error: err });
+      }
+    }
+  }
+  retryDelay = RETRY_MIN_MS;
+  await pruneSynced();
+  return true;
+}
+
+/** Replay pending entries in order; concurrent calls share one pass */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = drain()
+      .then((completed) => {
+        flushing = null;
+        // Entries enqueued after this pass looked for work still need their first attempt
+        if (completed && entries.some((e) => e.status === "pending")) {
+          void flushOutbox();
+        }
+      })
+      .catch((err) => {
+        flushing = null;
+        logger.error("[outbox] Replay failed", err);
+      });
+  }
+  return flushing;
+}
+
+function newId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function enqueue<K extends OutboxKind>(
+  kind: K,
+  childId: string,
+  label: string,
+  build: (id: string) => OutboxPayloads[K]
+): Promise<OutboxOutcome> {
+  await load();
+  const id = newId();
+  const now = Date.now();
+  const entry: OutboxEntry<K> = {
+    id,
+    seq: entries.reduce((max, e) => Math.max(max, e.seq), 0) + 1,
+    kind,
+    childId,
+    payload: build(id),
+    label,
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const outcome = new Promise<OutboxOutcome>((resolve) => waiters.set(id, resolve));
+  await save(entry as OutboxEntry);
+  void flushOutbox().then(() => {
+    // Joined a pass that halted before reaching this entry: it waits for the retry
+    const current = entries.find((e) => e.id === id);
+    if (!flushing && current?.status === "pending") settle({ status: "queued", entry: current });
+  });
+  return outcome;
+}
+
+export function queueWishlistItem(childId: string, item: WishlistItemInput) {
+  return enqueue("addWishlistItem", childId, `Wishlist: ${item.toyName}`, () => ({ childId, item }));
+}
+
+export function queueBehaviorUpdate(childId: string, update: BehaviorUpdateInput) {
+  return enqueue("updateChildBehavior", childId, `Behavior: ${update.newStatus}`, () => ({
+    childId,
+    update,
+  }));
+}
+
+export function queueJob(request: CreateJobRequest) {
+  return enqueue("createJob", request.childId, "Report job", (id) => ({
+    // The entry id is the dedupe key unless the caller brought one
+    request: { ...request, dedupeKey: request.dedupeKey ?? id },
+  }));
+}
+
+/** Put a failed entry back in line, keeping its original position */
+export async function retryOutboxEntry(id: string): Promise<void> {
+  const entry = entries.find((e) => e.id === id);
+  if (!entry || entry.status !== "failed") return;
+  await save({ ...entry, status: "pending", updatedAt: Date.now() });
+  void flushOutbox();
+}
+
+export function discardOutboxEntry(id: string): Promise<void> {
+  return remove(id);
+}
+
+export function getOutboxEntries(): OutboxEntry[] {
+  return entries;
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Load persisted entries and replay them now and whenever connectivity returns */
+export function startOutbox(): void {
+  if (typeof window === "undefined") return;
+  window.addEventListener("online", () => {
+    retryDelay = RETRY_MIN_MS;
+    void flushOutbox();
+  });
+  void flushOutbox();
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from "vitest";
+import { idbGetAll, idbPut } from "../utils/idb";
+import { getPromptTemplates, savePromptTemplate } from "./promptTemplates";
+
+vi.mock("../utils/idb", () => ({
+  idbGetAll: vi.fn(),
+  idbPut: vi.fn(),
+  idbDelete: vi.fn(),
+}));
+
+describe("savePromptTemplate", () => {
+  it("numbers a new version after the persisted ones, even before they were loaded", async () => {
+    vi.mocked(idbGetAll).mockResolvedValue([
+      { id: "team-a@1", key: "team-a", version: 1, name: "Gifts", agent: "elf", body: "v1", createdAt: 1 },
+      { id: "team-a@2", key: "team-a", version: 2, name: "Gifts", agent: "elf", body: "v2", createdAt: 2 },
+    ]);
+    vi.mocked(idbPut).mockResolvedValue(undefined);
+
+    const template = await savePromptTemplate({ key: "team-a", name: "Gifts", agent: "elf", body: "v3" });
+
+    expect(template.id).toBe("team-a@3");
+    expect(idbPut).toHaveBeenCalledWith("promptTemplates", template);
+    expect(getPromptTemplates().filter((t) => t.key === "team-a").map((t) => t.body)).toEqual(["v1", "v2", "v3"]);
+  });
+});
@@ -0,0 +1,193 @@
+// Prompt templates for the Santa and Elf agent tasks.
+// A template is a named request with {{variables}} ({{childId}}, {{budget}},
+// {{trendingTop3}}…) filled in when it is sent, optionally with its own
+// framing: the text that wraps the request and the Drasi context. Templates
+// are versioned: saving one again adds a version instead of replacing it,
+// and chat messages record the version they were sent from, so replies can
+// be compared across versions. The built-in templates ship with the app;
+// the ones saved from the UI are kept in this browser's IndexedDB like the chat threads,
+// so they are not shared with other browsers or teammates.
+
+import { createPersistedCollection } from "../utils/persistedCollection";
+import { newChatId, type ChatMessage, type ChatThread } from "./chatThreads";
+
+export type PromptAgent = "santa" | "elf";
+
+export interface PromptTemplate {
+  /** `${key}@${version}` */
+  id: string;
+  /** Shared by every version of a template */
+  key: string;
+  version: number;
+  name: string;
+  agent: PromptAgent;
+  /** The request, with {{variables}} */
+  body: string;
+  /**
+   * Wraps the request when Drasi insights are available, with {{request}},
+   * {{drasiContext}} and {{childId}}; DEFAULT_FRAMING when not set
+   */
+  framing?: string;
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+/** Which template version a prompt was sent from */
+export interface TemplateRef {
+  key: string;
+  version: number;
+}
+
+/** The variables every view can fill in, with what they stand for */
+export const PROMPT_VARIABLES: Record<string, string> = {
+  childId: "The focused child's id",
+  childName: "The focused child's name",
+  budget: "The focused child's gift budget",
+  trendingTop3: "The three most requested gifts right now, from Drasi",
+};
+
+export const DEFAULT_FRAMING = `You are Santa's Chief Elf analyzing real-time workshop data powered by Drasi Event Graph.
+
+{{drasiContext}}
+
+CHILD CONTEXT: {{childId}}
+
+USER REQUEST:
+{{request}}
+
+Please provide recommendations based on both the live Drasi insights and the user's request.`;
+
+const builtIn = (key: string, version: number, name: string, agent: PromptAgent, body: string): PromptTemplate => ({
+  id: `${key}@${version}`,
+  key,
+  version,
+  name,
+  agent,
+  body,
+  builtIn: true,
+  createdAt: 0,
+});
+
+export const BUILT_IN_TEMPLATES: readonly PromptTemplate[] = [
+  builtIn("santa-trends", 1, "Wishlist trends and budget risks", "santa", "Summarize current wishlist trends and potential budget risks."),
+  builtIn(
+    "santa-trends",
+    2,
+    "Wishlist trends and budget risks",
+    "santa",
+    "Summarize current wishlist trends (most requested right now: {{trendingTop3}}) and the budget risks they bring."
+  ),
+  builtIn(
+    "santa-child-brief",
+    1,
+    "Child briefing",
+    "santa",
+    "Brief me on {{childName}} ({{childId}}): wishlist, behavior, and whether a budget of {{budget}} covers their top requests."
+  ),
+  builtIn("elf-gift-options", 1, "Three gift options", "elf", "Given the focused child, propose 3 gift options with rationale and price estimates."),
+  builtIn(
+    "elf-gift-options",
+    2,
+    "Three gift options",
+    "elf",
+    "Propose 3 gift options for {{childId}} within a budget of {{budget}}, as a table with Gift, Price, Budget fit and Why columns. Weigh what is trending: {{trendingTop3}}."
+  ),
+  builtIn(
+    "elf-delivery-plan",
+    1,
+    "Delivery plan",
+    "elf",
+    "Plan delivery of {{childId}}'s recommended gifts: under a \"Delivery plan\" heading, list each gift in bold with its stock and lead time."
+  ),
+];
+
+const saved = createPersistedCollection<PromptTemplate>("promptTemplates", { label: "promptTemplates" });
+let savedSnapshot = saved.getAll();
+let templates: readonly PromptTemplate[] = BUILT_IN_TEMPLATES;
+
+/** Load the saved templates once; templates saved before it resolves are kept */
+export const loadPromptTemplates = saved.load;
+
+/** Built-in templates, then the saved ones, every version */
+export function getPromptTemplates(): readonly PromptTemplate[] {
+  // Rebuilt only when the saved templates change, so it doubles as the UI snapshot
+  if (saved.getAll() !== savedSnapshot) {
+    savedSnapshot = saved.getAll();
+    templates = [...BUILT_IN_TEMPLATES, ...savedSnapshot];
+  }
+  return templates;
+}
+
+export const subscribePromptTemplates = saved.subscribe;
+
+/** The newest version of each of the agent's templates, by name */
+export function latestTemplates(all: readonly PromptTemplate[], agent: PromptAgent): PromptTemplate[] {
+  const latest = new Map<string, PromptTemplate>();
+  for (const t of all) {
+    if (t.agent !== agent) continue;
+    const current = latest.get(t.key);
+    if (!current || t.version > current.version) latest.set(t.key, t);
+  }
+  return [...latest.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Every version of a template, oldest first */
+export function templateVersions(all: readonly PromptTemplate[], key: string): PromptTemplate[] {
+  return all.filter((t) => t.key === key).sort((a, b) => a.version - b.version);
+}
+
+export interface PromptTemplateInput {
+  /** Set to add a version to an existing template; a new template otherwise */
+  key?: string;
+  name: string;
+  agent: PromptAgent;
+  body: string;
+  framing?: string;
+}
+
+/** Save a template as the next version of `input.key`, or as a new template */
+export async function savePromptTemplate(input: PromptTemplateInput): Promise<PromptTemplate> {
+  // Number the version against the persisted ones too, so it never overwrites one
+  await saved.load();
+  const key = input.key ?? `team-${newChatId()}`;
+  const version = Math.max(0, ...getPromptTemplates().filter((t) => t.key === key).map((t) => t.version)) + 1;
+  const template: PromptTemplate = {
+    id: `${key}@${version}`,
+    key,
+    version,
+    name: input.name.trim(),
+    agent: input.agent,
+    body: input.body,
+    ...(input.framing?.trim() ? { framing: input.framing } : {}),
+    createdAt: Date.now(),
+  };
+  await saved.put(template);
+  return template;
+}
+
+/** Delete one version of the saved templates; built-in ones stay */
+export async function deletePromptTemplate(id: string): Promise<void> {
+  if (!saved.getAll().some((t) => t.id === id)) return;
+  await saved.delete(id);
+}
+
+export interface TemplateReply {
+  thread: ChatThread;
+  /** The prompt as it was sent, variables filled in */
+  question: ChatMessage;
+  /** The agent's reply; undefined while it hasn't answered */
+  reply?: ChatMessage;
+}
+
+/** Prompts sent from one template version and what the agent replied, newest first */
+export function templateReplies(threads: readonly ChatThread[], ref: TemplateRef): TemplateReply[] {
+  const found: TemplateReply[] = [];
+  for (const thread of threads) {
+    thread.messages.forEach((m, i) => {
+      if (m.role !== "user" || m.template?.key !== ref.key || m.template.version !== ref.version) return;
+      const next = thread.messages.slice(i + 1).find((n) => n.role !== "tool");
+      found.push({ thread, question: m, reply: next?.role === "assistant" ? next : undefined });
+    });
+  }
+  return found.sort((a, b) => b.question.createdAt - a.question.createdAt);
+}
@@ -0,0 +1,182 @@
+// Shared client-side query cache.
+// Results are keyed by endpoint + params (see queryKeys.ts) so every hook asking
+// for the same data shares one entry: concurrent requests are deduplicated,
+// cached data is served while a refetch runs (stale-while-revalidate), and
+// mutations invalidate the keys they affect.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: unknown;
+  /** Time of the last successful fetch; 0 when never fetched or invalidated */
+  updatedAt: number;
+  isFetching: boolean;
+  /** Consecutive failures since the last success */
+  failureCount: number;
+}
+
+type Fetcher<T> = () => Promise<T>;
+
+interface Entry {
+  key: QueryKey;
+  state: QueryState;
+  listeners: Set<() => void>;
+  inflight: Promise<unknown> | null;
+  fetcher: Fetcher<unknown> | null;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Entries nobody subscribes to are dropped after this long
+const GC_AFTER_MS = 5 * 60 * 1000;
+
+const EMPTY_STATE: QueryState = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  failureCount: 0,
+};
+
+const entries = new Map<string, Entry>();
+
+export const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+function entryFor(key: QueryKey): Entry {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      state: EMPTY_STATE,
+      listeners: new Set(),
+      inflight: null,
+      fetcher: null,
+      gcTimer: null,
+    };
+    entries.set(hash, entry);
+  }
+  return entry;
+}
+
+function update(entry: Entry, patch: Partial<QueryState>) {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((l) => l());
+}
+
+function scheduleGc(entry: Entry) {
+  if (entry.gcTimer) clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    if (entry.listeners.size === 0 && !entry.inflight) {
+      entries.delete(hashKey(entry.key));
+    }
+  }, GC_AFTER_MS);
+}
+
+/** Current state for a key; returns a stable object until the entry changes */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = entryFor(key);
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+  }
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) scheduleGc(entry);
+  };
+}
+
+/**
+ * Resolve a query through the cache. Joins an in-flight request for the same
+ * key, and skips the network entirely when cached data is younger than
+ * `staleTimeMs`.
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: Fetcher<T>,
+  options: { staleTimeMs?: number } = {}
+): Promise<T> {
+  const entry = entryFor(key);
+  entry.fetcher = fetcher as Fetcher<unknown>;
+
+  if (entry.inflight) return entry.inflight as Promise<T>;
+
+  const { data, updatedAt } = entry.state;
+  const staleTimeMs = options.staleTimeMs ?? 0;
+  if (data !== undefined && updatedAt > 0 && Date.now() - updatedAt < staleTimeMs) {
+    return Promise.resolve(data as T);
+  }
+
+  update(entry, { isFetching: true });
+  const promise = fetcher().then(
+    (result) => {
+      entry.inflight = null;
+      update(entry, {
+        data: result,
+        error: null,
+        updatedAt: Date.now(),
+        isFetching: false,
+        failureCount: 0,
+      });
+      return result;
+    },
+    (err) => {
+      entry.inflight = null;
+      // Keep the last good data so consumers can keep rendering it
+      update(entry, {
+        error: err,
+        isFetching: false,
+        failureCount: entry.state.failureCount + 1,
+      });
+      throw err;
+    }
+  );
+  entry.inflight = promise;
+  if (entry.listeners.size === 0) scheduleGc(entry);
+  return promise;
+}
+
+/** Write data directly, e.g. from a push channel or an optimistic update */
+export function setQueryData<T>(
+  key: QueryKey,
+  updater: T | ((prev: T | undefined) => T)
+): void {
+  const entry = entryFor(key);
+  const next =
+    typeof updater === "function"
+      ? (updater as (prev: T | undefined) => T)(entry.state.data as T | undefined)
+      : updater;
+  update(entry, { data: next, error: null, updatedAt: Date.now(), failureCount: 0 });
+  if (entry.listeners.size === 0) scheduleGc(entry);
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  if (prefix.length > key.length) return false;
+  return prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+}
+
+/**
+ * Mark every entry whose key starts with `prefix` as stale. Entries with
+ * active subscribers refetch immediately; the rest refetch on next use.
+ */
+export function invalidateQueries(prefix: QueryKey): void {
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    const refresh = () => {
+      update(entry, { updatedAt: 0 });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        fetchQuery(entry.key, entry.fetcher).catch(() => {
+          // Failure is recorded on the entry; subscribers render it
+        });
+      }
+    };
+    // A request already in flight may predate the mutation, so refresh after it lands
+    if (entry.inflight) entry.inflight.then(refresh, refresh);
+    else refresh();
+  });
+}
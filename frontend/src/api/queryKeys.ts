@@ -0,0 +1,21 @@
+// Query keys for the shared cache, one factory per cached endpoint.
+// Keys are prefix-matched on invalidation, so `childRecommendations("x")`
+// is covered by invalidating `["children", "x"]`.
+
+export const queryKeys = {
+  childDirectory: (query: object = {}) => ["childDirectory", query] as const,
+  allChildDirectory: () => ["childDirectory"] as const,
+  child: (childId: string) => ["children", childId] as const,
+  childProfile: (childId: string) => ["children", childId, "profile"] as const,
+  childWishlist: (childId: string) => ["children", childId, "wishlist"] as const,
+  childRecommendations: (childId: string) =>
+    ["children", childId, "recommendations"] as const,
+  report: (childId: string) => ["reports", childId] as const,
+  notifications: (options: { state?: string; limit?: number; childId?: string } = {}) =>
+    ["notifications", options] as const,
+  allNotifications: () => ["notifications"] as const,
+  drasiInsights: () => ["drasi", "insights"] as const,
+  drasiQuery: (queryName: string) => ["drasi", "queries", queryName] as const,
+  drasiQueryDebug: (queryName: string) => ["drasi", "debug", queryName] as const,
+  yearOverYearTrends: () => ["trends", "year-over-year"] as const,
+};
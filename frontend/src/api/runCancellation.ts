@@ -0,0 +1,43 @@
+// Run-scoped cancellation for AG-UI runs.
+// Cancelling is a request, not an instant stop: the server cancels the run
+// and confirms on the run's own stream with RUN_FINISHED (status
+// "cancelled"), or RUN_ERROR if it failed while stopping. Until then the run
+// is "cancelling" and the stream stays open, so nothing it sends is lost.
+
+import { cancelAgentRun, type AgentRunHandle } from "../agentClient";
+import { logger } from "../utils/logger";
+
+/** How long to wait for the stream to confirm a cancel before giving up on it */
+export const CANCEL_CONFIRM_TIMEOUT_MS = 10_000;
+
+/**
+ * Ask the server to cancel `handle`'s run. When the server no longer knows
+ * the run, the request fails, or the stream does not confirm in time, the
+ * stream is closed and `giveUp` ends the run locally instead. Call the
+ * returned function when the stream confirms, so it stops waiting.
+ */
+export function requestCancellation(agentId: string, handle: AgentRunHandle, giveUp: () => void): () => void {
+  let settled = false;
+  const settle = () => {
+    settled = true;
+    clearTimeout(timer);
+  };
+  const abandon = () => {
+    if (settled) return;
+    settle();
+    handle.close();
+    giveUp();
+  };
+  const timer = setTimeout(abandon, CANCEL_CONFIRM_TIMEOUT_MS);
+
+  cancelAgentRun(agentId, handle.runId, handle.threadId).then(
+    (accepted) => {
+      if (!accepted) abandon();
+    },
+    (err) => {
+      logger.warn("[runCancellation] Could not cancel run", handle.runId, err);
+      abandon();
+    }
+  );
+  return settle;
+}
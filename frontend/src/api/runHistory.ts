@@ -0,0 +1,76 @@
+// Recorded agent runs, for debugging a recommendation after the fact.
+// useAgentRun records every run it starts: the agent, child and prompt, the
+// Drasi context and shared state it was sent, and each normalized event with
+// its offset from the start, so the run history page can replay the stream
+// through the same rendering as a live run. Persisted to IndexedDB like the
+// chat threads; only the newest MAX_RUNS are kept, persisted ones included.
+
+import type { NormalizedRunEvent } from "../hooks/useAgentRun";
+import { createPersistedCollection } from "../utils/persistedCollection";
+import type { AgentSharedState } from "./agentState";
+
+const MAX_RUNS = 50;
+
+export type RecordedRunStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface RecordedRunEvent {
+  /** Milliseconds since the run started */
+  at: number;
+  event: NormalizedRunEvent;
+}
+
+export interface AgentRunRecord {
+  id: string;
+  agentId: string;
+  /** "" when the run was not about one child */
+  childId: string;
+  /** "" when the agent got its default prompt */
+  prompt: string;
+  /** The Drasi context sent with the run, as it was at the time */
+  drasiContext: unknown;
+  /** The shared state sent with the run, including the user's edits */
+  initialState: AgentSharedState;
+  events: RecordedRunEvent[];
+  startedAt: number;
+  endedAt?: number;
+  status: RecordedRunStatus;
+}
+
+// Newest first
+const runs = createPersistedCollection<AgentRunRecord>("agentRuns", {
+  label: "runHistory",
+  sort: (a, b) => b.startedAt - a.startedAt,
+  limit: MAX_RUNS,
+});
+
+/** A JSON copy, so later changes to the source don't rewrite history; null when it can't be copied */
+export function snapshotOf(value: unknown): unknown {
+  if (value === undefined) return null;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return null;
+  }
+}
+
+/** Load persisted runs once; runs recorded before it resolves are kept */
+export const loadAgentRuns = runs.load;
+
+/** Recorded runs, newest first */
+export const getAgentRuns = runs.getAll;
+
+export const subscribeAgentRuns = runs.subscribe;
+
+export function runDuration(run: AgentRunRecord): number | undefined {
+  return run.endedAt === undefined ? undefined : run.endedAt - run.startedAt;
+}
+
+/** Time to the first streamed text, the latency users notice */
+export function timeToFirstText(run: AgentRunRecord): number | undefined {
+  return run.events.find((e) => e.event.phase === "message" && e.event.kind === "delta")?.at;
+}
+
+/** Record a run, or update it; the oldest runs beyond MAX_RUNS are deleted */
+export const saveAgentRun = runs.put;
+
+export const deleteAgentRun = runs.delete;
@@ -25,7 +25,7 @@ const AssistantActions: React.FC = () => {
     ],
     handler: async ({ childId, toyName, notes }: any) => {
       const res = await addWishlistItem(String(childId), { toyName: String(toyName), notes: notes ? String(notes) : undefined });
-      return { status: 'added', dedupeKey: res.dedupeKey };
+      return { status: 'added', itemId: res.wishlistItem.id };
     }
   });
   useCopilotAction({
@@ -43,7 +43,7 @@ const AssistantActions: React.FC = () => {
 // Provider wrapper (code-split) that supplies context to actions + popup
 const AssistantProvider: React.FC = () => {
   // Prefer env-provided public API key; fallback to sample key if provided
-  const apiKey = (import.meta as any).env?.VITE_COPILOT_PUBLIC_API_KEY || 'ck_pub_73f5a83e57de47b331db3903382677d4';
+  const apiKey = import.meta.env.VITE_COPILOT_PUBLIC_API_KEY || 'ck_pub_73f5a83e57de47b331db3903382677d4';
   return (
   <CopilotKit publicApiKey={apiKey}>
     <AssistantActions />
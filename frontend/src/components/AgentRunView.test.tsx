@@ -0,0 +1,19 @@
+import { render, screen, within } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createAgentStateStore } from "../api/agentState";
+import { mapRaw } from "../hooks/useAgentRun";
+import { AgentRunView } from "./AgentRunView";
+
+const deltas = (count: number) =>
+  Array.from({ length: count }, (_, i) => mapRaw({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: `token ${i}` })!);
+
+describe("AgentRunView", () => {
+  it("renders only the events in view of a long run", () => {
+    render(<AgentRunView status="running" events={deltas(5000)} transcript="" stateStore={createAgentStateStore({})} />);
+
+    const rows = within(screen.getByRole("list", { name: "Run events" })).getAllByRole("listitem");
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.length).toBeLessThan(60);
+    expect(rows[0].textContent).toBe("token 0");
+  });
+});
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import type { AgentStateStore } from '../api/agentState';
+import type { NormalizedRunEvent } from '../hooks/useAgentRun';
+import { runProgress } from '../utils/runProgress';
+import { AgentSharedStatePanel } from './AgentSharedStatePanel';
+import { AgentSwimlanes } from './AgentSwimlanes';
+import { AgentTranscript } from './AgentTranscript';
+import { RunProgress } from './RunProgress';
+import { VirtualList } from './shared';
+
+interface Props {
+  status: string;
+  events: readonly NormalizedRunEvent[];
+  transcript: string;
+  stateStore: AgentStateStore;
+  /** The child the run was for; actions on recommendation cards apply to it */
+  childId?: string;
+}
+
+const EVENT_ROW_HEIGHT = 18;
+
+const eventLabel = (e: NormalizedRunEvent) =>
+  e.kind === 'delta' && e.phase !== 'reasoning' ? e.deltaText : `${e.phase}:${e.kind}${e.name ? ` ${e.name}` : ''}`;
+
+// Virtualized: a long run has thousands of events, one per token
+const EventLog: React.FC<{ events: readonly NormalizedRunEvent[] }> = ({ events }) => (
+  <VirtualList
+    aria-label="Run events"
+    count={events.length}
+    rowHeight={EVENT_ROW_HEIGHT}
+    height={Math.min(Math.max(events.length, 7) * EVENT_ROW_HEIGHT, 360)}
+    renderRow={(i) => <div role="listitem" style={{ whiteSpace: 'pre', textOverflow: 'ellipsis', overflow: 'hidden' }}>{eventLabel(events[i])}</div>}
+    followTail
+    style={{ background: '#222', color: '#0f0', padding: '0.5rem', fontFamily: 'monospace', fontSize: '.8rem', lineHeight: `${EVENT_ROW_HEIGHT}px` }}
+  />
+);
+
+/**
+ * A run as it streams: status and progress, event timeline, transcript (as
+ * Markdown, with recommendation cards) and shared state.
+ * Live runs and run history replays both render through this. Multi-agent
+ * runs get swimlanes, with the raw event log folded away.
+ */
+export const AgentRunView: React.FC<Props> = ({ status, events, transcript, stateStore, childId }) => {
+  const multiAgent = useMemo(() => events.some((e) => e.phase === 'step'), [events]);
+  const progress = useMemo(() => runProgress(events), [events]);
+  return (
+    <div>
+      <div style={{ marginTop: '0.5rem' }}><strong>Status:</strong> {status}</div>
+      <RunProgress progress={progress} />
+      {multiAgent ? (
+        <>
+          <AgentSwimlanes events={events} childId={childId} />
+          <details>
+            <summary>Raw events ({events.length})</summary>
+            <EventLog events={events} />
+          </details>
+        </>
+      ) : (
+        <>
+          <EventLog events={events} />
+          <div>
+            <strong>Transcript:</strong>
+            {transcript ? <AgentTranscript text={transcript} childId={childId} /> : ' (none yet)'}
+          </div>
+        </>
+      )}
+      <AgentSharedStatePanel store={stateStore} running={status === 'running' || status === 'cancelling'} />
+    </div>
+  );
+};
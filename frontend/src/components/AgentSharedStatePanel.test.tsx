@@ -0,0 +1,35 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { createAgentStateStore } from "../api/agentState";
+import { AgentSharedStatePanel } from "./AgentSharedStatePanel";
+
+describe("AgentSharedStatePanel", () => {
+  it("renders nothing until the agent shares state", () => {
+    const { container } = render(<AgentSharedStatePanel store={createAgentStateStore()} running={false} />);
+    expect(container.textContent).toBe("");
+  });
+
+  it("follows patches and keeps the user's edits for the next run", () => {
+    const store = createAgentStateStore({ recommendations: [], budget: { limit: 50, currency: "USD" } });
+    render(<AgentSharedStatePanel store={store} running />);
+
+    act(() => {
+      store.applyEvent({
+        type: "STATE_DELTA",
+        delta: [
+          { op: "add", path: "/recommendations/-", value: { id: "r1", suggestion: "Kite", price: 30 } },
+          { op: "add", path: "/recommendations/-", value: { id: "r2", suggestion: "Bike", price: 40 } },
+        ],
+      });
+    });
+    expect(screen.getByText("Kite")).toBeTruthy();
+    expect(screen.getByLabelText("Shared agent state").textContent).toContain("(over budget)");
+    expect(screen.queryByRole("status")).toBeNull();
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove Bike" }));
+    expect(screen.queryByText("Bike")).toBeNull();
+    expect(screen.getByLabelText("Shared agent state").textContent).not.toContain("(over budget)");
+    expect(screen.getByRole("status").textContent).toContain("next run");
+    expect(store.getState().recommendations).toEqual([{ id: "r1", suggestion: "Kite", price: 30 }]);
+  });
+});
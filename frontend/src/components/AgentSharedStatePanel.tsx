@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { AgentStateStore, DraftRecommendation, LogisticsStep } from '../api/agentState';
+import { useAgentState } from '../hooks/useAgentState';
+
+interface Props {
+  store: AgentStateStore;
+  running: boolean;
+}
+
+const sectionStyle: React.CSSProperties = {
+  background: 'var(--bg-tertiary)',
+  padding: '0.75rem',
+  borderRadius: 8,
+  border: '1px solid var(--border-medium)',
+};
+
+const stepIcons: Record<LogisticsStep['status'], string> = { pending: '○', 'in-progress': '◐', done: '●' };
+
+function money(amount: number, currency = 'USD'): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+}
+
+const RecommendationRow: React.FC<{
+  rec: DraftRecommendation;
+  currency?: string;
+  onChange: (rec: DraftRecommendation) => void;
+  onRemove: () => void;
+}> = ({ rec, currency, onChange, onRemove }) => {
+  const [editing, setEditing] = useState(false);
+  const [suggestion, setSuggestion] = useState(rec.suggestion);
+  const [price, setPrice] = useState(rec.price === undefined ? '' : String(rec.price));
+
+  if (editing) {
+    return (
+      <li style={{ display: 'flex', gap: 6, alignItems: 'center', padding: '4px 0' }}>
+        <input aria-label="Suggestion" value={suggestion} onChange={(e) => setSuggestion(e.target.value)} style={{ flex: 1 }} />
+        <input aria-label="Price" type="number" min={0} value={price} onChange={(e) => setPrice(e.target.value)} style={{ width: 80 }} />
+        <button
+          disabled={!suggestion.trim()}
+          onClick={() => {
+            onChange({ ...rec, suggestion: suggestion.trim(), price: price === '' ? undefined : Number(price) });
+            setEditing(false);
+          }}
+        >
+          Save
+        </button>
+        <button onClick={() => setEditing(false)}>Cancel</button>
+      </li>
+    );
+  }
+  return (
+    <li style={{ display: 'flex', gap: 6, alignItems: 'baseline', padding: '4px 0', borderBottom: '1px solid var(--border-light)' }}>
+      <div style={{ flex: 1 }}>
+        <strong>{rec.suggestion}</strong>
+        {rec.price !== undefined && <span style={{ color: 'var(--christmas-gold)' }}> · {money(rec.price, currency)}</span>}
+        {rec.rationale && <div style={{ fontSize: '.8rem', color: 'var(--text-secondary)' }}>{rec.rationale}</div>}
+      </div>
+      <button onClick={() => setEditing(true)}>Edit</button>
+      <button onClick={onRemove} aria-label={`Remove ${rec.suggestion}`}>✕</button>
+    </li>
+  );
+};
+
+/**
+ * Live view of a run's shared state: the draft recommendations (editable),
+ * budget totals and logistics plan. Edits are kept in the store and go to
+ * the agent with the next run.
+ */
+export const AgentSharedStatePanel: React.FC<Props> = ({ store, running }) => {
+  const recommendations = useAgentState(store, (s) => s.recommendations);
+  const budget = useAgentState(store, (s) => s.budget);
+  const plan = useAgentState(store, (s) => s.logisticsPlan);
+  const draft = useAgentState(store, (s) => s.recommendationDraft);
+  const edited = store.isEdited();
+
+  if (!recommendations && !budget && !plan && !draft) return null;
+
+  const priced = (recommendations ?? []).filter((r) => r.price !== undefined);
+  const allocated = priced.length > 0 ? priced.reduce((sum, r) => sum + (r.price ?? 0), 0) : budget?.allocated;
+  const over = allocated !== undefined && budget?.limit !== undefined && allocated > budget.limit;
+
+  const setRecommendations = (change: (recs: DraftRecommendation[]) => DraftRecommendation[]) =>
+    store.update((s) => ({ ...s, recommendations: change(s.recommendations ?? []) }));
+
+  return (
+    <div style={{ display: 'grid', gap: '0.75rem', marginTop: '0.75rem' }} aria-label="Shared agent state">
+      {edited && (
+        <div role="status" style={{ fontSize: '.85rem', color: 'var(--christmas-gold)' }}>
+          ✏️ Your edits will be sent to the agent with the next run
+        </div>
+      )}
+      {draft && !recommendations && (
+        <div style={sectionStyle}>
+          <strong>Draft</strong>
+          <p style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap' }}>{draft}</p>
+        </div>
+      )}
+      {recommendations && (
+        <div style={sectionStyle}>
+          <strong>🎁 Draft recommendations {running && '(updating…)'}</strong>
+          {recommendations.length === 0 ? (
+            <p style={{ margin: '4px 0 0', opacity: .7 }}>None yet</p>
+          ) : (
+            <ul style={{ listStyle: 'none', margin: '4px 0 0', padding: 0 }}>
+              {recommendations.map((rec) => (
+                <RecommendationRow
+                  key={rec.id}
+                  rec={rec}
+                  currency={budget?.currency}
+                  onChange={(next) => setRecommendations((recs) => recs.map((r) => (r.id === rec.id ? next : r)))}
+                  onRemove={() => setRecommendations((recs) => recs.filter((r) => r.id !== rec.id))}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {(budget || allocated !== undefined) && (
+        <div style={sectionStyle}>
+          <strong>💰 Budget</strong>
+          <div style={{ marginTop: 4, color: over ? 'var(--santa-red)' : 'var(--text-primary)' }}>
+            {allocated !== undefined ? money(allocated, budget?.currency) : '–'} allocated
+            {budget?.limit !== undefined && <> of {money(budget.limit, budget.currency)}{over && ' (over budget)'}</>}
+          </div>
+        </div>
+      )}
+      {plan && (
+        <div style={sectionStyle}>
+          <strong>🚚 Logistics plan</strong>
+          <ol style={{ margin: '4px 0 0', paddingLeft: '1.2rem' }}>
+            {plan.map((step) => (
+              <li key={step.id}>
+                {stepIcons[step.status]} {step.title}
+                {step.eta && <span style={{ opacity: .7 }}> · {step.eta}</span>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import type { NormalizedRunEvent } from '../hooks/useAgentRun';
+import { splitIntoLanes, type AgentLane } from '../utils/agentLanes';
+import { AgentTranscript } from './AgentTranscript';
+import { ElfAvatar } from './ElfAvatar';
+import { ToolCallCard } from './ToolCallCard';
+
+interface Props {
+  events: readonly NormalizedRunEvent[];
+  /** The child the run was for; actions on recommendation cards apply to it */
+  childId?: string;
+}
+
+const statusLabels: Record<AgentLane['status'], string> = {
+  idle: 'waiting',
+  thinking: 'thinking…',
+  working: 'calling tools…',
+  complete: 'done',
+  error: 'failed',
+};
+
+const Lane: React.FC<{ lane: AgentLane; childId?: string }> = ({ lane, childId }) => (
+  <section
+    aria-label={`Agent ${lane.name}`}
+    style={{
+      minWidth: 220,
+      background: 'var(--bg-secondary)',
+      border: '1px solid var(--border-medium)',
+      borderRadius: 8,
+      padding: '0.5rem',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 6,
+    }}
+  >
+    <header style={{ display: 'flex', alignItems: 'center', gap: 8, paddingBottom: 6, borderBottom: '1px solid var(--border-light)' }}>
+      <ElfAvatar status={lane.status} agentType={lane.agentType} size={32} />
+      <div>
+        <strong>{lane.name}</strong>
+        <div style={{ fontSize: '.75rem', color: 'var(--text-muted)' }}>{statusLabels[lane.status]}</div>
+      </div>
+    </header>
+    {lane.items.map((item) => {
+      switch (item.kind) {
+        case 'handoff':
+          return (
+            <div key={`handoff-${item.from}`} style={{ fontSize: '.75rem', color: 'var(--text-muted)', fontStyle: 'italic' }}>
+              ↪ handed over by {item.from}
+            </div>
+          );
+        case 'tool':
+          return <ToolCallCard key={item.call.id} call={item.call} />;
+        case 'message':
+          return (
+            <div key={item.id} style={{ padding: 6, background: 'var(--bg-tertiary)', borderRadius: 6, fontSize: '.85rem' }}>
+              {item.text ? <AgentTranscript text={item.text} childId={childId} /> : '…'}
+            </div>
+          );
+      }
+    })}
+  </section>
+);
+
+/**
+ * A multi-agent run (e.g. the taskforce) as one lane per sub-agent, side by
+ * side, with the hand-offs between them.
+ */
+export const AgentSwimlanes: React.FC<Props> = ({ events, childId }) => {
+  const { lanes, handoffs } = useMemo(() => splitIntoLanes(events), [events]);
+  if (lanes.length === 0) return null;
+
+  return (
+    <div>
+      {handoffs.length > 0 && (
+        <div aria-label="Hand-offs" style={{ fontSize: '.8rem', color: 'var(--text-secondary)', marginBottom: 6 }}>
+          Hand-offs: {[handoffs[0].from, ...handoffs.map((h) => h.to)].join(' → ')}
+        </div>
+      )}
+      <div style={{ display: 'grid', gridAutoFlow: 'column', gridAutoColumns: 'minmax(220px, 1fr)', gap: '0.5rem', overflowX: 'auto', alignItems: 'start' }}>
+        {lanes.map((lane) => <Lane key={lane.name} lane={lane} childId={childId} />)}
+      </div>
+    </div>
+  );
+};
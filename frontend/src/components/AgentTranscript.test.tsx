@@ -0,0 +1,63 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError } from "../agentClient";
+import { AgentTranscript } from "./AgentTranscript";
+
+const client = vi.hoisted(() => ({
+  saveRecommendation: vi.fn(),
+  addWishlistItem: vi.fn(),
+}));
+
+vi.mock("../agentClient", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agentClient")>()),
+  ...client,
+}));
+
+const picks = "| Gift | Price | Budget fit | Why |\n|---|---|---|---|\n| Kite | $18 | within | Loves windy days |";
+
+describe("AgentTranscript", () => {
+  beforeEach(() => {
+    Object.values(client).forEach((fn) => fn.mockReset());
+  });
+
+  it("renders Markdown and keeps HTML as text", () => {
+    const { container } = render(<AgentTranscript text={"## Plan\n- **wrap** gifts\n\n<img src=x onerror=alert(1)>"} />);
+    expect(screen.getByRole("heading").textContent).toBe("Plan");
+    expect(container.querySelector("li strong")?.textContent).toBe("wrap");
+    expect(container.querySelector("img")).toBeNull();
+    expect(container.textContent).toContain("<img src=x onerror=alert(1)>");
+  });
+
+  it("saves a recommended gift for the child", async () => {
+    client.saveRecommendation.mockResolvedValue({});
+    render(<AgentTranscript text={picks} childId="child-ada" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Save as recommendation" }));
+    await waitFor(() => expect(screen.getByRole("button", { name: "✓ Saved" })).toBeTruthy());
+    expect(client.saveRecommendation).toHaveBeenCalledWith("child-ada", {
+      suggestion: "Kite",
+      rationale: "Loves windy days",
+      price: 18,
+      budgetFit: "within-budget",
+    });
+  });
+
+  it("adds a gift to the wishlist and shows why it failed", async () => {
+    client.addWishlistItem.mockRejectedValue(new ApiError({ status: 409, title: "Already on the wishlist", source: "addWishlistItem" }));
+    render(<AgentTranscript text={picks} childId="child-ada" />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Add to wishlist" }));
+    await waitFor(() => expect(screen.getByText(/Wishlist not updated: Already on the wishlist/)).toBeTruthy());
+    expect(client.addWishlistItem).toHaveBeenCalledWith(
+      "child-ada",
+      { toyName: "Kite", budgetLimit: 18, notes: "Loves windy days" },
+      { idempotencyKey: expect.any(String) }
+    );
+    expect((screen.getByRole("button", { name: "Add to wishlist" }) as HTMLButtonElement).disabled).toBe(false);
+  });
+
+  it("disables card actions until a child is picked", () => {
+    render(<AgentTranscript text={picks} />);
+    expect((screen.getByRole("button", { name: "Save as recommendation" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+});
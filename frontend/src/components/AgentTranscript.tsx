@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown } from '../utils/markdown';
+import { segmentTranscript } from '../utils/transcriptCards';
+import { MarkdownBlock } from './Markdown';
+import { GiftCards, LogisticsPlanCard } from './TranscriptCards';
+
+interface Props {
+  /** Markdown as the agent wrote it; may be partial while streaming */
+  text: string;
+  /** The child that card actions apply to */
+  childId?: string;
+}
+
+/**
+ * An agent's reply rendered as Markdown, with gift recommendations and
+ * logistics plans shown as cards that can be saved or wishlisted.
+ */
+export const AgentTranscript: React.FC<Props> = ({ text, childId }) => {
+  const segments = useMemo(() => segmentTranscript(parseMarkdown(text)), [text]);
+  return (
+    <div style={{ whiteSpace: 'normal' }}>
+      {segments.map((segment, i) => {
+        switch (segment.kind) {
+          case 'markdown': return <MarkdownBlock key={i} block={segment.block} />;
+          case 'gifts': return <GiftCards key={i} gifts={segment.gifts} childId={childId} />;
+          case 'logistics': return <LogisticsPlanCard key={i} title={segment.title} status={segment.status} steps={segment.steps} childId={childId} />;
+        }
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef } from 'react';
+import type { ChatMessage } from '../api/chatThreads';
+import type { useAgentChat } from '../hooks/useAgentChat';
+import { AgentTranscript } from './AgentTranscript';
+import { ToolCallCard, toolCallAnchor } from './ToolCallCard';
+
+interface Props {
+  chat: ReturnType<typeof useAgentChat>;
+  /** Shown in the empty transcript */
+  placeholder: string;
+  /** Label for the agent's bubbles, e.g. "Santa" */
+  agentLabel: string;
+  /** Tool call to scroll to and outline, e.g. one opened from the tool catalog */
+  highlightToolCallId?: string | null;
+  /** The child that actions on recommendation cards apply to */
+  childId?: string;
+}
+
+const bubbleStyles: Record<ChatMessage['role'], React.CSSProperties> = {
+  user: { alignSelf: 'flex-end', background: 'var(--christmas-green)', color: 'white' },
+  assistant: { alignSelf: 'flex-start', background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' },
+  tool: { alignSelf: 'flex-start', background: 'var(--bg-primary)', color: 'var(--text-muted)', fontFamily: 'monospace', fontSize: '.8rem' },
+};
+
+const controlStyle: React.CSSProperties = {
+  padding: '0.3rem 0.6rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  fontSize: '.8rem',
+};
+
+function speaker(message: ChatMessage, agentLabel: string): string {
+  if (message.role === 'user') return 'You';
+  if (message.role === 'tool') return `🛠️ ${message.toolName ?? 'Tool'} result`;
+  return agentLabel;
+}
+
+/**
+ * Transcript of the selected agent thread with controls to start, switch and
+ * delete threads. The reply being streamed is shown as a pending bubble until
+ * the run finishes and it joins the thread. Tool calls are shown as cards
+ * under the reply that made them; their results are not repeated as bubbles.
+ * Replies render as Markdown, with recognized gift and logistics structures
+ * as cards.
+ */
+export const ChatTranscript: React.FC<Props> = ({ chat, placeholder, agentLabel, highlightToolCallId, childId }) => {
+  const { thread, threads, messages, status, transcript, toolCalls } = chat;
+  const endRef = useRef<HTMLDivElement>(null);
+  // A cancelling run still streams until the server confirms
+  const running = status === 'running' || status === 'cancelling';
+  const carded = new Set(messages.flatMap((m) => m.toolCalls?.map((c) => c.id) ?? []));
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [messages.length, transcript, toolCalls.length]);
+
+  useEffect(() => {
+    if (highlightToolCallId) document.getElementById(toolCallAnchor(highlightToolCallId))?.scrollIntoView?.({ block: 'center' });
+  }, [highlightToolCallId, thread?.id]);
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap', marginBottom: 6 }}>
+        <select
+          aria-label="Conversation"
+          style={{ ...controlStyle, flex: 1, minWidth: 160 }}
+          value={thread?.id ?? ''}
+          disabled={running}
+          onChange={(e) => (e.target.value ? chat.selectThread(e.target.value) : chat.newThread())}
+        >
+          {!thread && <option value="">New conversation</option>}
+          {threads.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.title} ({new Date(t.updatedAt).toLocaleString()})
+            </option>
+          ))}
+        </select>
+        <button style={controlStyle} disabled={running || !thread} onClick={chat.newThread}>＋ New thread</button>
+        <button
+          style={controlStyle}
+          disabled={running || !thread}
+          onClick={() => {
+            if (thread && window.confirm(`Delete the conversation "${thread.title}"?`)) void chat.deleteThread(thread.id);
+          }}
+        >
+          🗑 Delete
+        </button>
+      </div>
+      <div
+        role="log"
+        aria-label={`${agentLabel} conversation`}
+        style={{ display: 'flex', flexDirection: 'column', gap: 8, background: 'var(--bg-tertiary)', padding: 10, borderRadius: 6, minHeight: 64, maxHeight: 420, overflowY: 'auto' }}
+      >
+        {messages.length === 0 && !running && (
+          <span style={{ opacity: .6, color: 'var(--text-muted)', fontSize: '.9rem' }}>{placeholder}</span>
+        )}
+        {messages.map((m) => {
+          if (m.role === 'tool' && m.toolCallId && carded.has(m.toolCallId)) return null;
+          return (
+            <React.Fragment key={m.id}>
+              {m.toolCalls?.map((c) => <ToolCallCard key={c.id} call={c} highlighted={c.id === highlightToolCallId} />)}
+              {(m.content || m.role !== 'assistant' || m.outcome) && (
+                <div style={{ maxWidth: '85%', padding: '6px 10px', borderRadius: 8, whiteSpace: 'pre-wrap', fontSize: '.9rem', ...bubbleStyles[m.role] }}>
+                  <div style={{ fontSize: '.7rem', fontWeight: 600, opacity: .8, marginBottom: 2 }}>
+                    {speaker(m, agentLabel)}
+                    {m.outcome === 'cancelled' && ' · cancelled'}
+                    {m.outcome === 'error' && ' · failed'}
+                  </div>
+                  {m.role === 'assistant' ? <AgentTranscript text={m.content} childId={childId} /> : m.content}
+                </div>
+              )}
+            </React.Fragment>
+          );
+        })}
+        {running && toolCalls.map((c) => <ToolCallCard key={c.id} call={c} />)}
+        {running && (
+          <div aria-busy="true" style={{ maxWidth: '85%', padding: '6px 10px', borderRadius: 8, whiteSpace: 'pre-wrap', fontSize: '.9rem', ...bubbleStyles.assistant }}>
+            <div style={{ fontSize: '.7rem', fontWeight: 600, opacity: .8, marginBottom: 2 }}>{agentLabel} · typing…</div>
+            {transcript ? <AgentTranscript text={transcript} childId={childId} /> : '…'}
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+};
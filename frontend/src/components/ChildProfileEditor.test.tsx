@@ -0,0 +1,113 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError, type VersionedChildProfile } from "../agentClient";
+import { getQueryState, setQueryData } from "../api/queryCache";
+import { queryKeys } from "../api/queryKeys";
+import { ChildProfileEditor } from "./ChildProfileEditor";
+
+const client = vi.hoisted(() => ({ updateChildProfile: vi.fn(), getChildProfile: vi.fn() }));
+
+vi.mock("../agentClient", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agentClient")>()),
+  ...client,
+}));
+
+const emma: VersionedChildProfile = {
+  id: "child-emma",
+  name: "Emma",
+  age: 9,
+  location: "Oslo, NO",
+  preferences: ["Lego"],
+  constraints: { budget: 120 },
+  etag: '"v1"',
+};
+
+const cached = () => getQueryState<VersionedChildProfile | null>(queryKeys.childProfile("child-emma")).data;
+
+function renderEditor(profile: VersionedChildProfile | null = emma) {
+  setQueryData(queryKeys.childProfile("child-emma"), profile);
+  return render(<ChildProfileEditor childId="child-emma" profile={profile} />);
+}
+
+describe("ChildProfileEditor", () => {
+  beforeEach(() => {
+    client.updateChildProfile.mockReset();
+    client.getChildProfile.mockReset();
+  });
+
+  it("validates age, budget and location before saving", () => {
+    renderEditor();
+    fireEvent.click(screen.getByText("✏️ Edit profile"));
+    fireEvent.change(screen.getByLabelText(/^Age/), { target: { value: "42" } });
+    fireEvent.change(screen.getByLabelText(/^Budget/), { target: { value: "-5" } });
+    fireEvent.change(screen.getByLabelText(/^Location/), { target: { value: "x".repeat(101) } });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(screen.getAllByRole("alert").map((a) => a.textContent)).toEqual([
+      "Age must be a whole number between 0 and 18.",
+      "Location must be at most 100 characters of plain text.",
+      "Budget must be between 0 and 10000.",
+    ]);
+    expect(client.updateChildProfile).not.toHaveBeenCalled();
+  });
+
+  it("edits preferences as tags and saves optimistically with the ETag", async () => {
+    let finish!: (p: VersionedChildProfile) => void;
+    client.updateChildProfile.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+    renderEditor();
+    fireEvent.click(screen.getByText("✏️ Edit profile"));
+
+    const tagInput = screen.getByLabelText("Add preference");
+    fireEvent.change(tagInput, { target: { value: "Puzzles" } });
+    fireEvent.keyDown(tagInput, { key: "Enter" });
+    fireEvent.change(tagInput, { target: { value: "lego" } });
+    fireEvent.keyDown(tagInput, { key: "Enter" });
+    fireEvent.click(screen.getByLabelText("Remove Lego"));
+    fireEvent.change(screen.getByLabelText(/^Name/), { target: { value: " Emma Rose " } });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(client.updateChildProfile).toHaveBeenCalledWith(
+      "child-emma",
+      { name: "Emma Rose", age: 9, location: "Oslo, NO", budget: 120, preferences: ["Puzzles"] },
+      '"v1"',
+    );
+    // The cache shows the edit before the server answers
+    expect(cached()).toMatchObject({ name: "Emma Rose", preferences: ["Puzzles"] });
+
+    finish({ ...emma, name: "Emma Rose", preferences: ["Puzzles"], etag: '"v2"' });
+    await screen.findByText("Profile saved");
+    expect(cached()?.etag).toBe('"v2"');
+  });
+
+  it("rolls back and offers both versions when another elf saved first", async () => {
+    const theirs = { ...emma, name: "Emma B", etag: '"v2"' };
+    client.updateChildProfile
+      .mockRejectedValueOnce(new ApiError({ status: 412, title: "Profile was changed by someone else", source: "updateChildProfile" }))
+      .mockResolvedValueOnce({ ...theirs, age: 10, etag: '"v3"' });
+    client.getChildProfile.mockResolvedValue(theirs);
+    renderEditor();
+    fireEvent.click(screen.getByText("✏️ Edit profile"));
+    fireEvent.change(screen.getByLabelText(/^Age/), { target: { value: "10" } });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(await screen.findByText("Another elf saved this profile while you were editing.")).toBeTruthy();
+    expect(cached()).toEqual(theirs);
+    expect((screen.getByLabelText(/^Age/) as HTMLInputElement).value).toBe("10");
+
+    fireEvent.click(screen.getByText("Overwrite with mine"));
+    await screen.findByText("Profile saved");
+    expect(client.updateChildProfile).toHaveBeenLastCalledWith("child-emma", expect.objectContaining({ age: 10 }), '"v2"');
+  });
+
+  it("shows server validation errors next to their fields", async () => {
+    client.updateChildProfile.mockRejectedValue(
+      new ApiError({ status: 400, title: "Invalid profile", errors: { budget: ["Budget is too high."] }, source: "updateChildProfile" }),
+    );
+    renderEditor();
+    fireEvent.click(screen.getByText("✏️ Edit profile"));
+    fireEvent.click(screen.getByText("Save"));
+
+    await waitFor(() => expect(screen.getByRole("alert").textContent).toBe("Budget is too high."));
+    expect(cached()).toEqual(emma);
+  });
+});
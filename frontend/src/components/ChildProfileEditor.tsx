@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { ApiError, ChildProfileEdit, VersionedChildProfile, getChildProfile, updateChildProfile } from '../agentClient';
+import { getQueryState, setQueryData } from '../api/queryCache';
+import { queryKeys } from '../api/queryKeys';
+import { ApiErrorDetails, TagEditor } from './shared';
+import {
+  PROFILE_FIELD_LABELS,
+  PROFILE_LIMITS,
+  ProfileErrors,
+  serverProfileErrors,
+  validateProfileEdit,
+} from '../utils/profileValidation';
+
+interface Props {
+  childId: string;
+  profile: VersionedChildProfile | null;
+}
+
+// Numbers stay strings while typing so a half-entered value is not coerced
+interface Draft {
+  name: string;
+  age: string;
+  location: string;
+  budget: string;
+  preferences: string[];
+}
+
+const toDraft = (profile: VersionedChildProfile | null): Draft => ({
+  name: profile?.name ?? '',
+  age: profile?.age?.toString() ?? '',
+  location: profile?.location ?? '',
+  budget: profile?.constraints?.budget?.toString() ?? '',
+  preferences: profile?.preferences ?? [],
+});
+
+const toEdit = (draft: Draft): ChildProfileEdit => ({
+  name: draft.name.trim() || null,
+  age: draft.age.trim() ? Number(draft.age) : null,
+  location: draft.location.trim() || null,
+  budget: draft.budget.trim() ? Number(draft.budget) : null,
+  preferences: draft.preferences,
+});
+
+const fieldStyle: React.CSSProperties = { display: 'flex', flexDirection: 'column', gap: '0.25rem' };
+const inputStyle: React.CSSProperties = {
+  padding: '0.4rem 0.6rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+};
+const errorStyle: React.CSSProperties = { color: 'var(--santa-red)', fontSize: '0.8rem' };
+
+/**
+ * Profile tab: read-only summary with an edit mode. Saves are optimistic and
+ * conditional on the ETag the profile was loaded with, so a concurrent edit by
+ * another elf surfaces as a conflict instead of being overwritten.
+ */
+export const ChildProfileEditor: React.FC<Props> = ({ childId, profile }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(profile));
+  const [errors, setErrors] = useState<ProfileErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<unknown>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  // The other elf's version, loaded when a save was rejected as stale
+  const [conflict, setConflict] = useState<VersionedChildProfile | null>(null);
+
+  const key = queryKeys.childProfile(childId);
+
+  function startEditing() {
+    setDraft(toDraft(profile));
+    setErrors({});
+    setSaveError(null);
+    setStatus(null);
+    setConflict(null);
+    setEditing(true);
+  }
+
+  function cancel() {
+    setEditing(false);
+    setErrors({});
+    setConflict(null);
+  }
+
+  const change = <K extends keyof Draft>(field: K, value: Draft[K]) => {
+    setDraft((d) => ({ ...d, [field]: value }));
+    setErrors((e) => ({ ...e, [field]: undefined }));
+  };
+
+  async function save(e?: React.FormEvent, etag = profile?.etag) {
+    e?.preventDefault();
+    const edit = toEdit(draft);
+    const problems = validateProfileEdit(edit);
+    setErrors(problems);
+    if (Object.keys(problems).length > 0) return;
+
+    const previous = getQueryState<VersionedChildProfile | null>(key).data;
+    // Show the edit straight away; the server's copy replaces it once saved
+    setQueryData<VersionedChildProfile | null>(key, (current) => ({
+      ...(current ?? { id: childId }),
+      name: edit.name,
+      age: edit.age,
+      location: edit.location,
+      preferences: edit.preferences,
+      constraints: { budget: edit.budget },
+    }));
+    setEditing(false);
+    setConflict(null);
+    setSaveError(null);
+    setStatus(null);
+    setSaving(true);
+    try {
+      // No ETag means no profile was there to load, so there is nothing to overwrite
+      const saved = await updateChildProfile(childId, edit, etag ?? '*');
+      setQueryData(key, saved);
+      setStatus('Profile saved');
+    } catch (err) {
+      setQueryData(key, previous);
+      setEditing(true);
+      if (err instanceof ApiError && err.status === 412) {
+        try {
+          const latest = await getChildProfile(childId);
+          setQueryData(key, latest);
+          setConflict(latest ?? { id: childId });
+        } catch (loadErr) {
+          setSaveError(loadErr);
+        }
+      } else if (err instanceof ApiError && err.status === 400 && Object.keys(err.errors).length > 0) {
+        setErrors(serverProfileErrors(err.errors));
+      } else {
+        setSaveError(err);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function keepTheirs() {
+    setDraft(toDraft(conflict));
+    setConflict(null);
+    setEditing(false);
+    setStatus('Kept the other elf\'s changes');
+  }
+
+  if (!editing) {
+    return (
+      <div>
+        {profile ? (
+          <div>
+            <p><strong>Name:</strong> {profile.name ?? 'Unknown'}</p>
+            <p><strong>Age:</strong> {profile.age ?? 'Unknown'}</p>
+            <p><strong>Location:</strong> {profile.location ?? 'Unknown'}</p>
+            <p><strong>Preferences:</strong> {profile.preferences?.join(', ') || '(none)'} </p>
+            <p><strong>Budget:</strong> {profile.constraints?.budget ?? 'N/A'}</p>
+          </div>
+        ) : <p>No profile available.</p>}
+        <button onClick={startEditing} disabled={saving}>{saving ? 'Saving…' : '✏️ Edit profile'}</button>
+        {status && <p>{status}</p>}
+        {saveError != null && (
+          <div style={{ color: 'var(--santa-red)', marginTop: '0.5rem' }}>
+            <ApiErrorDetails error={saveError} context="Profile not saved" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const fieldError = (field: keyof ProfileErrors) =>
+    errors[field] && <span role="alert" style={errorStyle}>{errors[field]}</span>;
+
+  return (
+    <form onSubmit={save} noValidate style={{ display: 'grid', gap: '0.75rem', maxWidth: 420 }}>
+      {conflict && (
+        <div role="alert" style={{ padding: '0.75rem', borderRadius: 6, border: '1px solid var(--christmas-gold)', background: 'var(--bg-tertiary)' }}>
+          <strong>Another elf saved this profile while you were editing.</strong>
+          <div style={{ fontSize: '0.85rem', margin: '0.5rem 0' }}>
+            Their version: {conflict.name ?? 'no name'}, age {conflict.age ?? '?'}, {conflict.location ?? 'no location'},
+            budget {conflict.constraints?.budget ?? 'N/A'}, likes {conflict.preferences?.join(', ') || 'nothing yet'}
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="button" onClick={keepTheirs}>Use their version</button>
+            <button type="button" onClick={() => void save(undefined, conflict.etag)}>Overwrite with mine</button>
+          </div>
+        </div>
+      )}
+      <label style={fieldStyle}>
+        {PROFILE_FIELD_LABELS.name}
+        <input style={inputStyle} value={draft.name} maxLength={PROFILE_LIMITS.maxNameLength} onChange={(e) => change('name', e.target.value)} />
+        {fieldError('name')}
+      </label>
+      <label style={fieldStyle}>
+        {PROFILE_FIELD_LABELS.age}
+        <input
+          style={inputStyle}
+          type="number"
+          min={PROFILE_LIMITS.minAge}
+          max={PROFILE_LIMITS.maxAge}
+          value={draft.age}
+          onChange={(e) => change('age', e.target.value)}
+        />
+        {fieldError('age')}
+      </label>
+      <label style={fieldStyle}>
+        {PROFILE_FIELD_LABELS.location}
+        <input
+          style={inputStyle}
+          value={draft.location}
+          placeholder="e.g. Oslo, NO"
+          onChange={(e) => change('location', e.target.value)}
+        />
+        {fieldError('location')}
+      </label>
+      <label style={fieldStyle}>
+        {PROFILE_FIELD_LABELS.budget}
+        <input
+          style={inputStyle}
+          type="number"
+          min={0}
+          max={PROFILE_LIMITS.maxBudget}
+          step="any"
+          value={draft.budget}
+          onChange={(e) => change('budget', e.target.value)}
+        />
+        {fieldError('budget')}
+      </label>
+      <div style={fieldStyle}>
+        {PROFILE_FIELD_LABELS.preferences}
+        <TagEditor
+          label="Add preference"
+          placeholder="Type and press Enter"
+          tags={draft.preferences}
+          maxTags={PROFILE_LIMITS.maxPreferences}
+          maxLength={PROFILE_LIMITS.maxPreferenceLength}
+          onChange={(tags) => change('preferences', tags)}
+        />
+        {fieldError('preferences')}
+      </div>
+      {saveError != null && (
+        <div style={{ color: 'var(--santa-red)' }}>
+          <ApiErrorDetails error={saveError} context="Profile not saved" />
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button type="submit" disabled={saving || conflict !== null}>Save</button>
+        <button type="button" onClick={cancel}>Cancel</button>
+      </div>
+    </form>
+  );
+};
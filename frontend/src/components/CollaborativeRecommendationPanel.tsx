@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { getCollaborativeRecommendation, type CollaborativeRecommendation } from '../agentClient';
+import { splitCollaborativeRecommendation } from '../utils/collaborativeRecommendation';
+import { ElfAvatar } from './ElfAvatar';
+import { ApiErrorDetails } from './shared';
+
+interface Props {
+  childId: string;
+}
+
+/** Ask the multi-agent taskforce for one recommendation, shown per contributing agent */
+export const CollaborativeRecommendationPanel: React.FC<Props> = ({ childId }) => {
+  const [result, setResult] = useState<CollaborativeRecommendation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  async function ask() {
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await getCollaborativeRecommendation(childId));
+    } catch (err) {
+      setError(err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // A result for another child is not shown after switching children
+  const shown = result?.childId === childId ? result : null;
+
+  return (
+    <div style={{ marginTop: '1rem' }}>
+      <button onClick={ask} disabled={loading}>{loading ? 'The elves are conferring…' : 'Ask the elves together'}</button>
+      {error != null && <ApiErrorDetails error={error} context="Collaborative recommendation failed" />}
+      {shown && (
+        <div style={{ display: 'grid', gap: '0.5rem', marginTop: '0.5rem' }}>
+          {splitCollaborativeRecommendation(shown).map((c) => (
+            <article
+              key={`${c.agent}-${c.role}`}
+              aria-label={`${c.role} by ${c.agent}`}
+              style={{ display: 'flex', gap: 10, background: 'var(--bg-secondary)', border: '1px solid var(--border-medium)', borderRadius: 8, padding: '0.5rem' }}
+            >
+              <ElfAvatar status="complete" agentType={c.agentType} size={32} />
+              <div style={{ flex: 1 }}>
+                <strong>{c.agent}</strong> <span style={{ fontSize: '.8rem', color: 'var(--text-muted)' }}>{c.role}</span>
+                <p style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap' }}>{c.text}</p>
+              </div>
+            </article>
+          ))}
+          {shown.toolsUsed.length > 0 && (
+            <div style={{ fontSize: '.8rem', color: 'var(--text-muted)' }}>Tools: {shown.toolsUsed.join(', ')}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
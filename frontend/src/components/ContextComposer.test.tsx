@@ -0,0 +1,58 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { runAgent } from "../agentClient";
+import { useDrasiContext } from "../hooks/useDrasiContext";
+import type { DrasiInsights } from "../types/drasi";
+import { ContextComposer } from "./ContextComposer";
+
+// What each run was started with
+const runs = vi.hoisted(() => [] as any[]);
+
+vi.mock("@ag-ui/client", () => ({
+  EventType: { RUN_FINISHED: "RUN_FINISHED", RUN_ERROR: "RUN_ERROR" },
+  HttpAgent: class {
+    run(input: unknown) {
+      runs.push(input);
+      return { subscribe: () => ({ unsubscribe: () => {} }) };
+    }
+    abortRun() {}
+  },
+}));
+
+const insights: DrasiInsights = {
+  trending: [
+    { item: "Bike", frequency: 9 },
+    { item: "Ball", frequency: 5 },
+    { item: "Kite", frequency: 4 },
+  ],
+  duplicates: [{ childId: "child-emma-2015", item: "Bike", count: 3 }],
+  inactiveChildren: [],
+  behaviorChanges: [{ childId: "child-emma-2015", oldStatus: "Naughty", newStatus: "Nice" }],
+  stats: { totalEvents: 42, activeQueries: 4, lastUpdateSeconds: 7 },
+};
+
+vi.mock("../hooks/useDrasiInsights", () => ({
+  useDrasiInsights: () => ({ data: insights, isLoading: false }),
+}));
+
+let drasi: ReturnType<typeof useDrasiContext>;
+
+const Composer = () => {
+  drasi = useDrasiContext("child-emma-2015");
+  return <ContextComposer drasi={drasi} viewChildId="child-emma-2015" />;
+};
+
+describe("ContextComposer", () => {
+  it("sends the agent the context it previews", async () => {
+    render(<Composer />);
+    fireEvent.change(screen.getByLabelText("Trending gifts limit"), { target: { value: "1" } });
+    fireEvent.click(screen.getByLabelText("JSON"));
+    const preview = screen.getByLabelText("Drasi context preview").textContent;
+    expect(preview).toContain("JSON");
+    expect(preview).not.toContain("Ball");
+
+    runAgent("santa", () => {}, () => {}, drasi);
+    await waitFor(() => expect(runs).toHaveLength(1));
+    expect(runs[0].context).toEqual([expect.objectContaining({ type: "drasi-insights", format: "json", text: preview })]);
+  });
+});
@@ -0,0 +1,136 @@
+import React, { useId, useState } from 'react';
+import type { useDrasiContext } from '../hooks/useDrasiContext';
+import {
+  DRASI_SIGNALS,
+  estimateTokens,
+  type DrasiContextFormat,
+  type DrasiListSignal,
+  type DrasiSignal,
+} from '../utils/drasiContext';
+
+interface Props {
+  drasi: ReturnType<typeof useDrasiContext>;
+  /** The child the view is on, followed unless another focus is picked */
+  viewChildId?: string;
+}
+
+type FocusMode = 'view' | 'none' | 'child';
+
+const LIMITED: readonly DrasiListSignal[] = ['trending', 'inactiveChildren', 'behaviorChanges'];
+
+const controlStyle: React.CSSProperties = {
+  padding: '0.2rem 0.4rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  fontSize: '.8rem',
+};
+
+const modeOf = (focusChildId: string | null): FocusMode => (focusChildId === null ? 'view' : focusChildId === '' ? 'none' : 'child');
+
+/**
+ * Choose what Drasi context goes with the next run: which signals, how many
+ * rows of each, which child to focus on and in what format. Shows the text
+ * the prompt gets and roughly how many tokens it and the AG-UI context cost.
+ */
+export const ContextComposer: React.FC<Props> = ({ drasi, viewChildId }) => {
+  const { selection, setSelection } = drasi;
+  const [mode, setMode] = useState<FocusMode>(() => modeOf(selection.focusChildId));
+  const formatName = useId();
+  const [otherChild, setOtherChild] = useState(mode === 'child' ? selection.focusChildId ?? '' : '');
+
+  if (!drasi.hasDrasiContext) return null;
+
+  const text = drasi.contextText();
+  const contextTokens = estimateTokens(JSON.stringify(drasi.agentContext()));
+
+  const toggle = (signal: DrasiSignal) =>
+    setSelection((s) => ({ ...s, signals: { ...s.signals, [signal]: !s.signals[signal] } }));
+  const setLimit = (signal: DrasiListSignal, value: number) =>
+    setSelection((s) => ({ ...s, limits: { ...s.limits, [signal]: Math.max(1, Math.floor(value) || 1) } }));
+  const setFormat = (format: DrasiContextFormat) => setSelection((s) => ({ ...s, format }));
+
+  const changeMode = (next: FocusMode) => {
+    setMode(next);
+    setSelection((s) => ({ ...s, focusChildId: next === 'view' ? null : next === 'none' ? '' : otherChild }));
+  };
+  const changeOtherChild = (id: string) => {
+    setOtherChild(id);
+    setSelection((s) => ({ ...s, focusChildId: id }));
+  };
+
+  return (
+    <details style={{ marginTop: 12, fontSize: '.85rem' }}>
+      <summary style={{ cursor: 'pointer', opacity: 0.8, padding: 8, background: 'var(--bg-tertiary)', borderRadius: 4, color: 'var(--text-secondary)' }}>
+        📊 Drasi context · ≈{estimateTokens(text)} tokens
+      </summary>
+      <div style={{ display: 'grid', gap: 8, marginTop: 8 }}>
+        <fieldset style={{ border: '1px solid var(--border-light)', borderRadius: 4, display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+          <legend style={{ color: 'var(--text-muted)' }}>Signals</legend>
+          {(Object.keys(DRASI_SIGNALS) as DrasiSignal[]).map((signal) => (
+            <span key={signal} style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+              <label style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+                <input type="checkbox" checked={selection.signals[signal]} onChange={() => toggle(signal)} />
+                {DRASI_SIGNALS[signal]}
+              </label>
+              {(LIMITED as readonly string[]).includes(signal) && (
+                <input
+                  type="number"
+                  min={1}
+                  aria-label={`${DRASI_SIGNALS[signal]} limit`}
+                  value={selection.limits[signal as DrasiListSignal]}
+                  disabled={!selection.signals[signal]}
+                  onChange={(e) => setLimit(signal as DrasiListSignal, e.target.valueAsNumber)}
+                  style={{ ...controlStyle, width: 48 }}
+                />
+              )}
+            </span>
+          ))}
+        </fieldset>
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center' }}>
+          <label style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+            Focus
+            <select aria-label="Focus child" value={mode} onChange={(e) => changeMode(e.target.value as FocusMode)} style={controlStyle}>
+              <option value="view">This view's child ({viewChildId || 'none'})</option>
+              <option value="none">No child</option>
+              <option value="child">Another child…</option>
+            </select>
+          </label>
+          {mode === 'child' && (
+            <input aria-label="Focus child id" placeholder="childId" value={otherChild} onChange={(e) => changeOtherChild(e.target.value)} style={controlStyle} />
+          )}
+          <span role="radiogroup" aria-label="Format" style={{ display: 'inline-flex', gap: 8 }}>
+            {(['text', 'json'] as const).map((format) => (
+              <label key={format} style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+                <input type="radio" name={formatName} checked={selection.format === format} onChange={() => setFormat(format)} />
+                {format === 'text' ? 'Plain text' : 'JSON'}
+              </label>
+            ))}
+          </span>
+        </div>
+
+        <div style={{ fontSize: '.75rem', color: 'var(--text-muted)' }}>
+          Prompt ≈{estimateTokens(text)} tokens · AG-UI context ≈{contextTokens} tokens
+        </div>
+        <pre
+          aria-label="Drasi context preview"
+          style={{
+            margin: 0,
+            padding: 10,
+            background: 'var(--bg-primary)',
+            borderRadius: 4,
+            fontSize: '.75rem',
+            overflow: 'auto',
+            maxHeight: 200,
+            whiteSpace: 'pre-wrap',
+            color: 'var(--text-secondary)',
+          }}
+        >
+          {text}
+        </pre>
+      </div>
+    </details>
+  );
+};
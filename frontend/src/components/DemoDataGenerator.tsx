@@ -1,5 +1,7 @@
 import { useState } from 'react';
-import { API_URL } from '../config';
+import { addWishlistItem, submitBehaviorLetter } from '../agentClient';
+import { DEMO_CHILDREN, DEMO_ITEMS, describeDemoChild } from '../constants/demoData';
+import { ApiErrorDetails } from './shared';
 
 interface DemoDataGeneratorProps {
   onEventSent?: () => void;
@@ -8,33 +10,9 @@ interface DemoDataGeneratorProps {
 
 type BehaviorStatus = 'Nice' | 'Naughty';
 
-const DEMO_ITEMS = [
-  { name: '🎮 PlayStation 5', category: 'Electronics', budget: 500 },
-  { name: '🚴 Mountain Bike', category: 'Sports', budget: 350 },
-  { name: '🎨 Art Supply Kit', category: 'Creative', budget: 75 },
-  { name: '📚 Book Collection', category: 'Books', budget: 100 },
-  { name: '🎸 Electric Guitar', category: 'Music', budget: 400 },
-  { name: '🧸 Giant Teddy Bear', category: 'Toys', budget: 50 },
-  { name: '⚽ Soccer Ball', category: 'Sports', budget: 30 },
-  { name: '🎮 Nintendo Switch', category: 'Electronics', budget: 300 },
-  { name: '🎭 Theater Tickets', category: 'Entertainment', budget: 120 },
-  { name: '🎿 Ski Equipment', category: 'Sports', budget: 600 },
-];
-
-const DEMO_CHILDREN = [
-  'child-emma-2015',
-  'child-noah-2014',
-  'child-sophia-2013',
-  'child-liam-2016',
-  'child-olivia-2015',
-  'child-demo-01',
-  'child-demo-02',
-  'child-demo-03',
-];
-
 export const DemoDataGenerator: React.FC<DemoDataGeneratorProps> = ({ onEventSent, onChildSelected }) => {
   const [loading, setLoading] = useState(false);
-  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string; error?: unknown } | null>(null);
   const [selectedChild, setSelectedChild] = useState(DEMO_CHILDREN[0]);
   const [selectedItem, setSelectedItem] = useState(DEMO_ITEMS[0]);
   const [customChild, setCustomChild] = useState('');
@@ -53,51 +31,20 @@ export const DemoDataGenerator: React.FC<DemoDataGeneratorProps> = ({ onEventSen
     const category = useCustom && customCategory ? customCategory : selectedItem.category;
     const budget = useCustom && customBudget ? parseInt(customBudget) : selectedItem.budget;
 
-    console.log('[DemoDataGen] Sending event to:', `${API_URL}/api/v1/children/${childId}/wishlist-items`);
+    console.log('[DemoDataGen] Sending event for:', childId);
     console.log('[DemoDataGen] Payload:', { text: itemText, category, budgetEstimate: budget });
 
     try {
-      // Extract child name and age from child ID for better AI recommendations
-      // e.g., "child-emma-2015" -> name: "Emma", age: calculated from year
-      const childNameMatch = childId.match(/child-(\w+)-(\d{4})/);
-      let childName: string | undefined;
-      let childAge: number | undefined;
-      if (childNameMatch) {
-        childName = childNameMatch[1].charAt(0).toUpperCase() + childNameMatch[1].slice(1);
-        const birthYear = parseInt(childNameMatch[2]);
-        childAge = new Date().getFullYear() - birthYear;
-      }
+      // Name and age from the child ID give the AI better recommendations
+      const { name: childName, age: childAge } = describeDemoChild(childId);
 
-      const response = await fetch(`${API_URL}/api/v1/children/${childId}/wishlist-items`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Role': 'operator',
-        },
-        body: JSON.stringify({
-          text: itemText,
-          category: category,
-          budgetEstimate: budget,
-          ...(childName && { childName }),
-          ...(childAge && { childAge }),
-        }),
+      const result = await addWishlistItem(childId, {
+        toyName: itemText,
+        category,
+        budgetLimit: budget,
+        childName,
+        childAge,
       });
-
-      console.log('[DemoDataGen] Response status:', response.status, response.statusText);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[DemoDataGen] Error response:', errorText);
-        let errorData;
-        try {
-          errorData = JSON.parse(errorText);
-        } catch {
-          errorData = { detail: errorText || 'Unknown error' };
-        }
-        throw new Error(errorData.detail || errorData.message || `HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
       console.log('[DemoDataGen] Success result:', result);
       setLastSubmittedChildId(childId);
       setMessage({
@@ -105,11 +52,12 @@ export const DemoDataGenerator: React.FC<DemoDataGeneratorProps> = ({ onEventSen
         text: `✅ Event sent! Item "${itemText}" added to ${childId}'s wishlist. Drasi will process this in real-time!`,
       });
       onEventSent?.();
-    } catch (error: any) {
+    } catch (error) {
       console.error('[DemoDataGen] Exception:', error);
       setMessage({
         type: 'error',
-        text: `❌ Failed to send event: ${error.message}`,
+        text: '❌ Failed to send event',
+        error,
       });
     } finally {
       setLoading(false);
@@ -142,28 +90,13 @@ export const DemoDataGenerator: React.FC<DemoDataGeneratorProps> = ({ onEventSen
         console.log(`[DemoDataGen] Sending behavior event ${i+1}/${count}:`, randomChild, randomStatus);
         
         try {
-          const response = await fetch(`${API_URL}/api/v1/children/${randomChild}/wishlist-items`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Role': 'operator',
-            },
-            body: JSON.stringify({
-              requestType: 'behavior-update',
-              text: statusMessage,
-              statusChange: randomStatus,
-            }),
+          await submitBehaviorLetter(randomChild, {
+            text: statusMessage,
+            statusChange: randomStatus,
           });
-
-          if (response.ok) {
-            successCount++;
-            behaviorCount++;
-            console.log(`[DemoDataGen] Behavior event ${i+1}/${count} succeeded`);
-          } else {
-            failCount++;
-            const errorText = await response.text();
-            console.error(`[DemoDataGen] Behavior event ${i+1}/${count} failed:`, response.status, errorText);
-          }
+          successCount++;
+          behaviorCount++;
+          console.log(`[DemoDataGen] Behavior event ${i+1}/${count} succeeded`);
         } catch (error) {
           failCount++;
           console.error(`[DemoDataGen] Behavior event ${i+1}/${count} exception:`, error);
@@ -175,28 +108,14 @@ export const DemoDataGenerator: React.FC<DemoDataGeneratorProps> = ({ onEventSen
         console.log(`[DemoDataGen] Sending wishlist event ${i+1}/${count}:`, randomChild, randomItem.name);
 
         try {
-          const response = await fetch(`${API_URL}/api/v1/children/${randomChild}/wishlist-items`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Role': 'operator',
-            },
-            body: JSON.stringify({
-              text: randomItem.name,
-              category: randomItem.category,
-              budgetEstimate: randomItem.budget,
-            }),
+          await addWishlistItem(randomChild, {
+            toyName: randomItem.name,
+            category: randomItem.category,
+            budgetLimit: randomItem.budget,
           });
-
-          if (response.ok) {
-            successCount++;
-            wishlistCount++;
-            console.log(`[DemoDataGen] Wishlist event ${i+1}/${count} succeeded`);
-          } else {
-            failCount++;
-            const errorText = await response.text();
-            console.error(`[DemoDataGen] Wishlist event ${i+1}/${count} failed:`, response.status, errorText);
-          }
+          successCount++;
+          wishlistCount++;
+          console.log(`[DemoDataGen] Wishlist event ${i+1}/${count} succeeded`);
         } catch (error) {
           failCount++;
           console.error(`[DemoDataGen] Wishlist event ${i+1}/${count} exception:`, error);
@@ -252,7 +171,9 @@ export const DemoDataGenerator: React.FC<DemoDataGeneratorProps> = ({ onEventSen
           marginBottom: '1rem',
           color: 'var(--text-primary)'
         }}>
-          <div>{message.text}</div>
+          {message.error !== undefined
+            ? <ApiErrorDetails error={message.error} context={message.text} />
+            : <div>{message.text}</div>}
           {message.type === 'success' && lastSubmittedChildId && onChildSelected && (
             <button
               onClick={() => {
@@ -1,41 +1,26 @@
 import { useEffect, useState } from 'react';
-import { API_URL } from '../config';
+import { AgentTools, getAgentTools, getDrasiAgentDemo } from '../agentClient';
+import type { ChatThread } from '../api/chatThreads';
+import type { ToolCall } from '../utils/toolCalls';
 import { DemoDataGenerator } from './DemoDataGenerator';
 
-interface AgentTool {
-  name: string;
-  description: string;
-  parameters: string[];
-  category: string;
-  source?: string | null;
-}
+type AgentTool = AgentTools['tools'][number];
+type DrasiAgentDemoResponse = Awaited<ReturnType<typeof getDrasiAgentDemo>>;
 
-interface AgentToolsResponse {
-  tools: AgentTool[];
-  stats: {
-    drasiTools: number;
-  };
-  description: string;
-  integration: string;
-}
+type Props = {
+  childId?: string;
+  onChildSelected?: (childId: string) => void;
+  /** Calls the agent made in chat, newest first; listed under the matching catalog tool */
+  toolCalls?: { thread: ChatThread; call: ToolCall }[];
+  onOpenToolCall?: (threadId: string, toolCallId: string) => void;
+};
 
-interface DrasiAgentDemoResponse {
-  childId: string;
-  timestamp: string;
-  demonstration: string;
-  description: string;
-  drasiInsights: {
-    trending: { tool: string; result: string };
-    duplicates: { tool: string; result: string };
-    global: { tool: string; result: string };
-    inactive: { tool: string; result: string };
-  };
-  capabilities: string[];
-  nextSteps: string[];
-}
+const MAX_LISTED_CALLS = 5;
 
-export const DrasiAgentToolsShowcase: React.FC<{ childId?: string; onChildSelected?: (childId: string) => void }> = ({ childId = 'child-123', onChildSelected }) => {
-  const [tools, setTools] = useState<AgentToolsResponse | null>(null);
+const callStatusIcons: Record<ToolCall['status'], string> = { running: '⏳', done: '✓', error: '✕' };
+
+export const DrasiAgentToolsShowcase: React.FC<Props> = ({ childId = 'child-123', onChildSelected, toolCalls = [], onOpenToolCall }) => {
+  const [tools, setTools] = useState<AgentTools | null>(null);
   const [demo, setDemo] = useState<DrasiAgentDemoResponse | null>(null);
   const [loadingTools, setLoadingTools] = useState(true);
   const [loadingDemo, setLoadingDemo] = useState(false);
@@ -46,10 +31,7 @@ export const DrasiAgentToolsShowcase: React.FC<{ childId?: string; onChildSelect
   useEffect(() => {
     const fetchTools = async () => {
       try {
-        const res = await fetch(`${API_URL}/api/v1/agent-tools`);
-        if (!res.ok) throw new Error('Failed to fetch tools');
-        const data = await res.json();
-        setTools(data);
+        setTools(await getAgentTools());
         setError(null);
       } catch (e: any) {
         setError(e.message || 'Failed to load agent tools');
@@ -65,10 +47,7 @@ export const DrasiAgentToolsShowcase: React.FC<{ childId?: string; onChildSelect
     setError(null);
     setShowDataHint(false); // Hide hint after first demo run
     try {
-      const res = await fetch(`${API_URL}/api/v1/drasi-agent-demo/${childId}`);
-      if (!res.ok) throw new Error('Failed to run demo');
-      const data = await res.json();
-      setDemo(data);
+      setDemo(await getDrasiAgentDemo(childId));
     } catch (e: any) {
       setError(e.message || 'Failed to run Drasi demo');
     } finally {
@@ -168,6 +147,11 @@ export const DrasiAgentToolsShowcase: React.FC<{ childId?: string; onChildSelect
                   <strong style={{ color: 'var(--christmas-gold)' }}>Drasi Query:</strong> {tool.source}
                 </div>
               )}
+              <ToolCallLinks
+                calls={toolCalls.filter(({ call }) => call.name === tool.name)}
+                selected={selectedTool?.name === tool.name}
+                onOpen={onOpenToolCall}
+              />
             </div>
           ))}
         </div>
@@ -270,3 +254,38 @@ export const DrasiAgentToolsShowcase: React.FC<{ childId?: string; onChildSelect
     </div>
   );
 };
+
+const ToolCallLinks: React.FC<{
+  calls: { thread: ChatThread; call: ToolCall }[];
+  selected: boolean;
+  onOpen?: (threadId: string, toolCallId: string) => void;
+}> = ({ calls, selected, onOpen }) => {
+  const muted = selected ? 'rgba(255,255,255,0.85)' : 'var(--text-muted)';
+  if (calls.length === 0) {
+    return <p style={{ margin: '0.75rem 0 0', fontSize: '.8rem', color: muted }}>Not called in this child's Elf conversations yet</p>;
+  }
+  return (
+    <div style={{ marginTop: '0.75rem', fontSize: '.8rem', color: muted }}>
+      <strong>Called {calls.length}× in chat</strong>
+      <ul style={{ margin: '0.25rem 0 0', paddingLeft: '1.1rem' }}>
+        {calls.slice(0, MAX_LISTED_CALLS).map(({ thread, call }) => (
+          <li key={call.id}>
+            {callStatusIcons[call.status]} {new Date(call.startedAt).toLocaleString()} · {thread.title}{' '}
+            {onOpen && (
+              <button
+                onClick={(e) => {
+                  // Opening a call should not also select the card
+                  e.stopPropagation();
+                  onOpen(thread.id, call.id);
+                }}
+                style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: 'var(--christmas-gold)', textDecoration: 'underline', fontSize: 'inherit' }}
+              >
+                open
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
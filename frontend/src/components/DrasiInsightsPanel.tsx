@@ -1,51 +1,25 @@
 import { useEffect, useState } from 'react';
-import { API_URL } from '../config';
-import { POLLING_CONFIG } from '../constants/polling';
-import type { DrasiInsights } from '../types/drasi';
+import { apiUrl } from '../config';
+import { useDrasiInsights } from '../hooks/useDrasiInsights';
 import { logger } from '../utils/logger';
 import { Panel, PanelHeader } from './shared';
 
 export const DrasiInsightsPanel: React.FC = () => {
-  const [insights, setInsights] = useState<DrasiInsights | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const query = useDrasiInsights(15000);
+  const insights = query.data ?? null;
+  const loading = query.isLoading;
+  // Last good insights stay on screen if a background refresh fails
+  const error = !insights && query.error
+    ? (query.error as Error).message || 'Failed to load Drasi insights'
+    : null;
   const [liveUpdate, setLiveUpdate] = useState<string>('');
 
-  // Fetch insights from API
-  useEffect(() => {
-    let consecutiveFailures = 0;
-
-    const fetchInsights = async () => {
-      try {
-        const res = await fetch(`${API_URL}/api/v1/drasi/insights`);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = await res.json();
-        setInsights(data);
-        setError(null);
-        consecutiveFailures = 0; // Reset on success
-      } catch (e: any) {
-        consecutiveFailures++;
-        setError(e.message || 'Failed to load Drasi insights');
-        if (consecutiveFailures >= POLLING_CONFIG.MAX_CONSECUTIVE_FAILURES) {
-          logger.warn('DrasiInsights: Too many failures, stopping polling');
-          clearInterval(interval);
-        }
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchInsights();
-    const interval = setInterval(fetchInsights, 15000); // Refresh every 15s
-    return () => clearInterval(interval);
-  }, []);
-
   // Stream live updates
   useEffect(() => {
     let retryCount = 0;
     const MAX_RETRIES = 3;
 
-    const es = new EventSource(`${API_URL}/api/v1/drasi/insights/stream`);
+    const es = new EventSource(apiUrl('/api/v1/drasi/insights/stream'));
     es.onmessage = (e) => {
       try {
         const data = JSON.parse(e.data);
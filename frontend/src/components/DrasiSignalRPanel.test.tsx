@@ -0,0 +1,122 @@
+import { act, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { FakeHubConnection } from "../test/fakeHubConnection";
+import { DrasiSignalRPanel } from "./DrasiSignalRPanel";
+
+// The panel shares one connection per module, so the whole file uses one fake hub
+const hub = vi.hoisted(() => ({ current: null as FakeHubConnection | null }));
+
+vi.mock("@microsoft/signalr", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@microsoft/signalr")>();
+  const { FakeHubConnection } = await import("../test/fakeHubConnection");
+  hub.current = new FakeHubConnection();
+  hub.current.reloadRows.set("wishlist-trending-1h", [
+    { item: "Mountain Bike", frequency: 4 },
+    { item: "Kite", frequency: 2 },
+  ]);
+  class HubConnectionBuilder {
+    withUrl() {
+      return this;
+    }
+    withAutomaticReconnect() {
+      return this;
+    }
+    configureLogging() {
+      return this;
+    }
+    build() {
+      return hub.current!.asHubConnection();
+    }
+  }
+  return { ...actual, HubConnectionBuilder };
+});
+
+vi.mock("../hooks/useDrasiInsights", () => ({
+  useDrasiInsights: () => ({ data: undefined }),
+}));
+
+async function renderPanel() {
+  const view = render(<DrasiSignalRPanel />);
+  // Let the async connection start and the reload streams settle
+  await act(async () => {});
+  return view;
+}
+
+describe("DrasiSignalRPanel", () => {
+  it("shows reload rows once connected, sorted by frequency", async () => {
+    await renderPanel();
+    expect(screen.getByText("🟢 SignalR")).toBeTruthy();
+    const rows = screen.getAllByText(/^🎄 /).map((el) => el.textContent);
+    expect(rows).toEqual(["🎄 Mountain Bike", "🎄 Kite"]);
+    expect(hub.current!.startCalls).toBe(1);
+  });
+
+  it("applies insert, update and delete events from the hub", async () => {
+    await renderPanel();
+    const fake = hub.current!;
+
+    act(() => fake.emit("wishlist-trending-1h", { op: "i", payload: { after: { item: "Sled", frequency: 9 } } }));
+    expect(screen.getAllByText(/^🎄 /)[0].textContent).toBe("🎄 Sled");
+
+    act(() =>
+      fake.emit("wishlist-trending-1h", {
+        op: "u",
+        payload: { before: { item: "Kite", frequency: 2 }, after: { item: "Kite", frequency: 3 } },
+      })
+    );
+    expect(screen.getByText("3 requests")).toBeTruthy();
+    expect(screen.queryByText("2 requests")).toBeNull();
+
+    act(() =>
+      fake.emit("wishlist-trending-1h", { op: "d", payload: { before: { item: "Sled", frequency: 9 } } })
+    );
+    expect(screen.queryByText("🎄 Sled")).toBeNull();
+  });
+
+  it("updates a row by its key and highlights it", async () => {
+    await renderPanel();
+    expect(screen.getByText("🎄 Mountain Bike").closest("[data-changed]")).toBeNull();
+
+    // The before values are stale, but the item still identifies the row
+    act(() =>
+      hub.current!.emit("wishlist-trending-1h", {
+        op: "u",
+        payload: { before: { item: "Mountain Bike", frequency: 1 }, after: { frequency: 6, item: "Mountain Bike" } },
+      })
+    );
+    expect(screen.getAllByText("🎄 Mountain Bike")).toHaveLength(1);
+    expect(screen.getByText("6 requests")).toBeTruthy();
+    expect(screen.getByText("🎄 Mountain Bike").closest("[data-changed]")).toBeTruthy();
+  });
+
+  it("filters behavior letters out of the trending list", async () => {
+    await renderPanel();
+    act(() =>
+      hub.current!.emit("wishlist-trending-1h", {
+        op: "i",
+        payload: { after: { item: "I will try to do my chores", frequency: 5 } },
+      })
+    );
+    expect(screen.queryByText(/do my chores/)).toBeNull();
+  });
+
+  it("clears a query's rows when Drasi deletes the query", async () => {
+    await renderPanel();
+    act(() =>
+      hub.current!.emit("behavior-status-changes", {
+        op: "i",
+        payload: { after: { childId: "child-emma-2015", newStatus: "Nice", previousStatus: "Unknown", changedAt: "2025-12-01T00:00:00Z" } },
+      })
+    );
+    expect(screen.getByText(/child-emma-2015/)).toBeTruthy();
+
+    act(() => hub.current!.emit("behavior-status-changes", { op: "x", payload: { kind: "deleted" } }));
+    expect(screen.queryByText(/child-emma-2015/)).toBeNull();
+  });
+
+  it("stops delivering events after unmount", async () => {
+    const { unmount } = await renderPanel();
+    unmount();
+    expect(hub.current!.handlers.get("wishlist-trending-1h")).toBeUndefined();
+  });
+});
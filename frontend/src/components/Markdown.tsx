@@ -0,0 +1,84 @@
+import React from 'react';
+import type { MdBlock, MdInline } from '../utils/markdown';
+
+const cellStyle: React.CSSProperties = { border: '1px solid var(--border-light)', padding: '2px 6px' };
+
+const codeStyle: React.CSSProperties = { fontFamily: 'monospace', fontSize: '.85em', background: 'var(--bg-secondary)', borderRadius: 3 };
+
+export const MarkdownInline: React.FC<{ nodes: readonly MdInline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+        case 'strong': return <strong key={i}><MarkdownInline nodes={node.children} /></strong>;
+        case 'em': return <em key={i}><MarkdownInline nodes={node.children} /></em>;
+        case 'del': return <del key={i}><MarkdownInline nodes={node.children} /></del>;
+        case 'code': return <code key={i} style={{ ...codeStyle, padding: '0 3px' }}>{node.text}</code>;
+        case 'break': return <br key={i} />;
+        case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer"><MarkdownInline nodes={node.children} /></a>;
+      }
+    })}
+  </>
+);
+
+/**
+ * One parsed Markdown block as React elements. Content is only ever text
+ * nodes, so nothing in agent output is interpreted as HTML.
+ */
+export const MarkdownBlock: React.FC<{ block: MdBlock }> = ({ block }) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+      return <Tag style={{ margin: '6px 0 2px' }}><MarkdownInline nodes={block.children} /></Tag>;
+    }
+    case 'paragraph':
+      return <p style={{ margin: '4px 0', whiteSpace: 'pre-wrap' }}><MarkdownInline nodes={block.children} /></p>;
+    case 'list': {
+      const items = block.items.map((item, i) => <li key={i}><Markdown blocks={item} /></li>);
+      return block.ordered
+        ? <ol start={block.start} style={{ margin: '4px 0', paddingLeft: '1.4rem' }}>{items}</ol>
+        : <ul style={{ margin: '4px 0', paddingLeft: '1.4rem' }}>{items}</ul>;
+    }
+    case 'code':
+      return (
+        <pre data-lang={block.lang || undefined} style={{ ...codeStyle, padding: 6, margin: '4px 0', overflowX: 'auto', whiteSpace: 'pre' }}>
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'table':
+      return (
+        <div style={{ overflowX: 'auto', margin: '4px 0' }}>
+          <table style={{ borderCollapse: 'collapse', fontSize: '.85rem' }}>
+            <thead>
+              <tr>
+                {block.header.map((cell, i) => (
+                  <th key={i} style={{ ...cellStyle, textAlign: block.align[i] ?? 'left' }}><MarkdownInline nodes={cell} /></th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, i) => (
+                    <td key={i} style={{ ...cellStyle, textAlign: block.align[i] ?? undefined }}><MarkdownInline nodes={cell} /></td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'blockquote':
+      return (
+        <blockquote style={{ margin: '4px 0', paddingLeft: 8, borderLeft: '3px solid var(--border-medium)', color: 'var(--text-muted)' }}>
+          <Markdown blocks={block.children} />
+        </blockquote>
+      );
+    case 'rule':
+      return <hr style={{ border: 'none', borderTop: '1px solid var(--border-light)', margin: '6px 0' }} />;
+  }
+};
+
+export const Markdown: React.FC<{ blocks: readonly MdBlock[] }> = ({ blocks }) => (
+  <>{blocks.map((block, i) => <MarkdownBlock key={i} block={block} />)}</>
+);
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
-import { API_URL } from '../agentClient';
+import { getNotifications } from '../agentClient';
+import { apiUrl } from '../config';
 import { Panel, StatusBadge } from './shared';
 
 interface Notification {
@@ -37,7 +38,7 @@ export const NotificationStreamPanel: React.FC<NotificationStreamPanelProps> = (
         return;
       }
       try {
-        const streamUrl = `${API_URL}/api/v1/notifications/stream/${childId}`;
+        const streamUrl = apiUrl(`/api/v1/notifications/stream/${childId}`);
         console.log('[Notifications] Opening stream', streamUrl);
         es = new EventSource(streamUrl);
 
@@ -59,7 +60,7 @@ export const NotificationStreamPanel: React.FC<NotificationStreamPanelProps> = (
               return next.slice(0, 20);
             });
           } catch (e) {
-            if (process.env.NODE_ENV !== 'production') {
+            if (import.meta.env.DEV) {
               console.warn('Skipping non-JSON SSE message');
             }
           }
@@ -111,16 +112,17 @@ export const NotificationStreamPanel: React.FC<NotificationStreamPanelProps> = (
     const fetchInitial = async () => {
       try {
         // Pull recent notifications, scoped to child when available
-        const url = childId
-          ? `${API_URL}/api/v1/notifications?limit=10&childId=${encodeURIComponent(childId)}`
-          : `${API_URL}/api/v1/notifications?limit=10`;
-        console.log('[Notifications] Fetching list from', url);
-        const res = await fetch(url);
-        console.log('[Notifications] Response status', res.status);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = await res.json();
-        const items: Notification[] = Array.isArray(data?.items) ? data.items : Array.isArray(data) ? data : [];
-        setNotifications(items.slice(0, 20));
+        const items = await getNotifications({ limit: 10, childId: childId || undefined });
+        setNotifications(
+          items.slice(0, 20).map((n) => ({
+            id: n.id,
+            type: n.type,
+            message: n.message,
+            relatedId: n.relatedRecommendationSetId ?? undefined,
+            state: n.state,
+            timestamp: n.createdAt,
+          }))
+        );
       } catch (e: any) {
         console.error('[Notifications] Fetch failed for list:', e);
       }
@@ -0,0 +1,87 @@
+import { useSyncExternalStore } from 'react';
+import { discardOutboxEntry, flushOutbox, retryOutboxEntry, type OutboxStatus } from '../api/outbox';
+import { useOutbox } from '../hooks/useOutbox';
+import { Panel, PanelHeader, StatusBadge, StatusBadgeVariant } from './shared';
+
+interface OutboxPanelProps {
+  /** Only show submissions for this child */
+  childId?: string;
+}
+
+const STATUS_BADGES: Record<OutboxStatus, { label: string; variant: StatusBadgeVariant }> = {
+  pending: { label: 'Pending', variant: 'warning' },
+  failed: { label: 'Failed', variant: 'error' },
+  synced: { label: 'Synced', variant: 'success' },
+};
+
+const subscribeOnline = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  fontSize: '0.75rem',
+  background: 'var(--bg-tertiary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-medium)',
+  borderRadius: 4,
+  cursor: 'pointer',
+};
+
+/**
+ * Submissions waiting in (or recently replayed from) the offline outbox.
+ * Renders nothing until something has been submitted.
+ */
+export const OutboxPanel: React.FC<OutboxPanelProps> = ({ childId }) => {
+  const entries = useOutbox(childId);
+  const online = useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+
+  if (entries.length === 0) return null;
+
+  const pendingCount = entries.filter((e) => e.status === 'pending').length;
+  const badge = online
+    ? { label: pendingCount > 0 ? `${pendingCount} pending` : 'Up to date', variant: (pendingCount > 0 ? 'warning' : 'success') as StatusBadgeVariant }
+    : { label: 'Offline', variant: 'error' as StatusBadgeVariant };
+
+  return (
+    <Panel style={{ marginTop: '1rem' }}>
+      <PanelHeader title="Outbox" icon="📮" badge={badge} />
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: 6 }}>
+        {[...entries].reverse().map((entry) => (
+          <li key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: '0.85rem' }}>
+            <StatusBadge {...STATUS_BADGES[entry.status]} />
+            <span style={{ flex: 1, color: 'var(--text-primary)' }}>
+              {entry.label}
+              {!childId && <span style={{ color: 'var(--text-muted)' }}> · {entry.childId}</span>}
+              {entry.lastError && entry.status !== 'synced' && (
+                <span style={{ display: 'block', color: 'var(--text-muted)', fontSize: '0.75rem' }}>
+                  {entry.lastError}
+                  {entry.attempts > 1 && ` (attempt ${entry.attempts})`}
+                </span>
+              )}
+            </span>
+            <span style={{ color: 'var(--text-muted)', fontSize: '0.75rem' }}>
+              {new Date(entry.createdAt).toLocaleTimeString()}
+            </span>
+            {entry.status === 'failed' && (
+              <>
+                <button style={buttonStyle} onClick={() => void retryOutboxEntry(entry.id)}>Retry</button>
+                <button style={buttonStyle} onClick={() => void discardOutboxEntry(entry.id)}>Discard</button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+      {pendingCount > 0 && online && (
+        <button style={{ ...buttonStyle, marginTop: '0.75rem' }} onClick={() => void flushOutbox()}>
+          Sync now
+        </button>
+      )}
+    </Panel>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { getChatThreads, subscribeChatThreads } from '../api/chatThreads';
+import { templateReplies, type PromptTemplate } from '../api/promptTemplates';
+import { AgentTranscript } from './AgentTranscript';
+
+interface Props {
+  agentId: string;
+  /** Every version of one template, oldest first */
+  versions: PromptTemplate[];
+}
+
+const REPLIES_SHOWN = 3;
+
+const selectStyle: React.CSSProperties = {
+  padding: '0.2rem 0.4rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+};
+
+const VersionColumn: React.FC<{ agentId: string; versions: PromptTemplate[]; selected: PromptTemplate; onSelect: (id: string) => void }> = ({ agentId, versions, selected, onSelect }) => {
+  const threads = useSyncExternalStore(subscribeChatThreads, getChatThreads);
+  const replies = useMemo(
+    () => templateReplies(threads.filter((t) => t.agentId === agentId), { key: selected.key, version: selected.version }),
+    [threads, agentId, selected]
+  );
+  const failed = replies.filter((r) => r.reply?.outcome).length;
+
+  return (
+    <div style={{ display: 'grid', gap: 6, alignContent: 'start', minWidth: 0 }}>
+      <select aria-label="Version" value={selected.id} onChange={(e) => onSelect(e.target.value)} style={selectStyle}>
+        {versions.map((v) => <option key={v.id} value={v.id}>v{v.version}{v.builtIn ? ' (built-in)' : ''}</option>)}
+      </select>
+      <pre style={{ margin: 0, whiteSpace: 'pre-wrap', fontSize: '.8rem', color: 'var(--text-secondary)' }}>{selected.body}</pre>
+      <div style={{ fontSize: '.75rem', color: 'var(--text-muted)' }}>
+        {replies.length} prompt{replies.length === 1 ? '' : 's'} sent{failed > 0 && ` · ${failed} failed or cancelled`}
+      </div>
+      {replies.slice(0, REPLIES_SHOWN).map(({ thread, question, reply }) => (
+        <article key={question.id} style={{ padding: 6, borderRadius: 6, background: 'var(--bg-tertiary)', fontSize: '.85rem' }}>
+          <div style={{ fontSize: '.7rem', color: 'var(--text-muted)' }}>
+            {thread.childId || 'no child'} · {new Date(question.createdAt).toLocaleString()}
+          </div>
+          {reply ? <AgentTranscript text={reply.content} childId={thread.childId || undefined} /> : <em>No reply</em>}
+        </article>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Two versions of a prompt template side by side, each with the replies it
+ * got in this agent's threads, newest first.
+ */
+export const PromptTemplateCompare: React.FC<Props> = ({ agentId, versions }) => {
+  const latest = versions[versions.length - 1];
+  const [leftId, setLeftId] = useState(versions[versions.length - 2]?.id ?? latest.id);
+  const [rightId, setRightId] = useState(latest.id);
+  const pick = (id: string) => versions.find((v) => v.id === id) ?? latest;
+
+  return (
+    <div aria-label="Compare template versions" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginTop: 8 }}>
+      <VersionColumn agentId={agentId} versions={versions} selected={pick(leftId)} onSelect={setLeftId} />
+      <VersionColumn agentId={agentId} versions={versions} selected={pick(rightId)} onSelect={setRightId} />
+    </div>
+  );
+};
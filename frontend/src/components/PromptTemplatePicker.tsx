@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { PROMPT_VARIABLES, templateVersions } from '../api/promptTemplates';
+import type { usePromptTemplate } from '../hooks/usePromptTemplate';
+import { missingVariables, renderTemplate, templateVariables, type PromptVariables } from '../utils/promptTemplate';
+import { PromptTemplateCompare } from './PromptTemplateCompare';
+
+interface Props {
+  prompt: ReturnType<typeof usePromptTemplate>;
+  /** Values for the template's {{variables}} */
+  variables: PromptVariables;
+  /** The agent whose threads hold the replies to compare */
+  agentId: string;
+  /** Let the user edit the framing that wraps the request with Drasi context */
+  editFraming?: boolean;
+}
+
+const controlStyle: React.CSSProperties = {
+  padding: '0.3rem 0.6rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  fontSize: '.8rem',
+};
+
+/**
+ * Template picker for an agent prompt: choose a template version, see what
+ * its variables resolve to, save edits as a new version or template, and
+ * compare the replies different versions got.
+ */
+export const PromptTemplatePicker: React.FC<Props> = ({ prompt, variables, agentId, editFraming = false }) => {
+  const { templates, template, text, framing, edited } = prompt;
+  const [comparing, setComparing] = useState(false);
+  const groups = useMemo(() => {
+    const keys = [...new Set(templates.map((t) => t.key))];
+    return keys.map((key) => templateVersions(templates, key));
+  }, [templates]);
+  const used = templateVariables(text);
+  const missing = missingVariables(text, variables);
+  const versions = template ? templateVersions(templates, template.key) : [];
+
+  const saveAs = () => {
+    const name = window.prompt('Name for the new template', template ? `${template.name} (copy)` : '');
+    if (name?.trim()) void prompt.saveAs(name);
+  };
+
+  return (
+    <div style={{ display: 'grid', gap: 6, marginBottom: 8, fontSize: '.85rem' }}>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap' }}>
+        <select
+          aria-label="Prompt template"
+          value={template?.id ?? ''}
+          onChange={(e) => prompt.select(e.target.value || null)}
+          style={controlStyle}
+        >
+          <option value="">Own prompt</option>
+          {groups.map((versionsOf) => (
+            <optgroup key={versionsOf[0].key} label={versionsOf[versionsOf.length - 1].name}>
+              {versionsOf.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} · v{t.version}{t.builtIn ? '' : ' (saved here)'}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        {edited && <span style={{ color: 'var(--text-muted)' }}>edited</span>}
+        {template && edited && (
+          <button type="button" style={controlStyle} onClick={() => void prompt.saveVersion()}>
+            Save as v{Math.max(...versions.map((v) => v.version)) + 1}
+          </button>
+        )}
+        <button type="button" style={controlStyle} onClick={saveAs} disabled={!text.trim()}>Save as new template…</button>
+        {versions.length > 1 && (
+          <button type="button" style={controlStyle} aria-pressed={comparing} onClick={() => setComparing((c) => !c)}>
+            {comparing ? 'Hide comparison' : 'Compare versions'}
+          </button>
+        )}
+      </div>
+      <div style={{ fontSize: '.75rem', color: 'var(--text-muted)' }}>
+        Saved templates are kept in this browser only; teammates and other browsers don't see them.
+      </div>
+
+      {used.length > 0 && (
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', fontSize: '.75rem' }}>
+          {used.map((name) => (
+            <span
+              key={name}
+              title={PROMPT_VARIABLES[name] ?? 'Not a known variable'}
+              style={{ color: variables[name] ? 'var(--text-secondary)' : 'var(--status-warning)' }}
+            >
+              {`{{${name}}}`} = {variables[name] ?? 'no value'}
+            </span>
+          ))}
+        </div>
+      )}
+      {used.length > 0 && (
+        <div style={{ fontSize: '.75rem', color: 'var(--text-muted)', whiteSpace: 'pre-wrap' }}>
+          Sends: {renderTemplate(text, variables)}
+          {missing.length > 0 && <span role="alert" style={{ color: 'var(--status-warning)' }}> (no value yet for {missing.join(', ')})</span>}
+        </div>
+      )}
+
+      {editFraming && (
+        <details>
+          <summary style={{ cursor: 'pointer', color: 'var(--text-muted)' }}>Framing sent with Drasi context</summary>
+          <textarea
+            aria-label="Framing"
+            value={framing}
+            onChange={(e) => prompt.setFraming(e.target.value)}
+            rows={8}
+            style={{ ...controlStyle, width: '100%', marginTop: 4, fontFamily: 'monospace' }}
+          />
+        </details>
+      )}
+
+      {comparing && template && versions.length > 1 && <PromptTemplateCompare key={template.key} agentId={agentId} versions={versions} />}
+    </div>
+  );
+};
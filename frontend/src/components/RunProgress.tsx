@@ -0,0 +1,65 @@
+import React from 'react';
+import type { RunProgress as Progress, RunStepStatus } from '../utils/runProgress';
+
+interface Props {
+  progress: Progress;
+}
+
+const stepIcons: Record<RunStepStatus, string> = { running: '◐', done: '✓', failed: '✕', cancelled: '–' };
+
+const stepColors: Record<RunStepStatus, string> = {
+  running: 'var(--status-warning)',
+  done: 'var(--status-success)',
+  failed: 'var(--status-error)',
+  cancelled: 'var(--text-muted)',
+};
+
+/**
+ * Where a run is: a bar over the steps seen so far, the agent's reasoning
+ * while it thinks, and the error when the run failed.
+ */
+export const RunProgress: React.FC<Props> = ({ progress }) => {
+  const { steps, currentStep, thinking, reasoning, error } = progress;
+  const done = steps.filter((s) => s.status === 'done').length;
+
+  return (
+    <div style={{ display: 'grid', gap: 6, marginTop: '0.5rem' }}>
+      {error && (
+        <div role="alert" style={{ padding: '0.5rem', borderRadius: 6, border: '1px solid var(--status-error)', color: 'var(--status-error)' }}>
+          ❌ Run failed: {error}
+        </div>
+      )}
+      {steps.length > 0 && (
+        <div>
+          <div style={{ fontSize: '.8rem', color: 'var(--text-muted)' }}>
+            {done} of {steps.length} steps done{currentStep && ` · ${currentStep}`}
+          </div>
+          <div
+            role="progressbar"
+            aria-label="Run steps"
+            aria-valuemin={0}
+            aria-valuemax={steps.length}
+            aria-valuenow={done}
+            style={{ display: 'flex', gap: 2, height: 6, marginTop: 4 }}
+          >
+            {steps.map((step) => (
+              <span key={step.name} title={`${step.name}: ${step.status}`} style={{ flex: 1, borderRadius: 3, background: stepColors[step.status] }} />
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', fontSize: '.8rem', marginTop: 4 }}>
+            {steps.map((step) => (
+              <span key={step.name} style={{ color: stepColors[step.status] }}>
+                {stepIcons[step.status]} {step.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      {thinking && (
+        <div role="status" style={{ fontSize: '.85rem', color: 'var(--text-muted)', fontStyle: 'italic' }}>
+          💭 Thinking…{reasoning && <span style={{ whiteSpace: 'pre-wrap' }}> {reasoning}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
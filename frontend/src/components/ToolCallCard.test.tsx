@@ -0,0 +1,38 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import type { ToolCall } from "../utils/toolCalls";
+import { ToolCallCard } from "./ToolCallCard";
+
+const call = (extra: Partial<ToolCall> = {}): ToolCall => ({
+  id: "c1",
+  name: "GetChildWishlistItems",
+  args: "{\"childId\":\"child-ada\"}",
+  status: "done",
+  startedAt: 1000,
+  endedAt: 1250,
+  ...extra,
+});
+
+describe("ToolCallCard", () => {
+  it("shows the tool, its arguments, duration and result", () => {
+    render(<ToolCallCard call={call({ result: "[\"Kite\"]" })} />);
+
+    const card = screen.getByRole("group", { name: "Tool call GetChildWishlistItems" });
+    expect(card.id).toBe("tool-call-c1");
+    expect(card.textContent).toContain("✓ done");
+    expect(card.textContent).toContain("250 ms");
+    expect(card.textContent).toContain('"childId": "child-ada"');
+    expect(card.textContent).toContain('"Kite"');
+  });
+
+  it("shows partial arguments while running and the error once failed", () => {
+    const { rerender } = render(<ToolCallCard call={call({ args: "{\"childId\":", status: "running", endedAt: undefined })} />);
+
+    screen.getByText("⏳ running");
+    screen.getByText("{\"childId\":");
+    expect(screen.queryByText(/^\d+ ms$/)).toBeNull();
+
+    rerender(<ToolCallCard call={call({ status: "error", error: "Drasi is unavailable" })} />);
+    expect(screen.getByRole("alert").textContent).toBe("Error: Drasi is unavailable");
+  });
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { parseToolArgs, toolCallDuration, type ToolCall } from '../utils/toolCalls';
+
+interface Props {
+  call: ToolCall;
+  /** Outlined, e.g. when opened from the tool catalog */
+  highlighted?: boolean;
+}
+
+const statusBadges: Record<ToolCall['status'], { label: string; color: string }> = {
+  running: { label: '⏳ running', color: 'var(--christmas-gold)' },
+  done: { label: '✓ done', color: 'var(--christmas-green)' },
+  error: { label: '✕ failed', color: 'var(--santa-red)' },
+};
+
+const preStyle: React.CSSProperties = {
+  margin: '4px 0 0',
+  padding: 6,
+  background: 'var(--bg-tertiary)',
+  borderRadius: 4,
+  fontSize: '.75rem',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  maxHeight: 200,
+  overflow: 'auto',
+  color: 'var(--text-secondary)',
+};
+
+export function toolCallAnchor(id: string): string {
+  return `tool-call-${id}`;
+}
+
+/** Pretty-print JSON text; anything else is shown as it came */
+function pretty(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * One tool call made by an agent: name, status, duration, the arguments as
+ * they stream in and, once it returns, the result or error.
+ */
+export const ToolCallCard: React.FC<Props> = ({ call, highlighted }) => {
+  const badge = statusBadges[call.status];
+  const parsedArgs = parseToolArgs(call);
+  const duration = toolCallDuration(call);
+
+  return (
+    <div
+      id={toolCallAnchor(call.id)}
+      role="group"
+      aria-label={`Tool call ${call.name}`}
+      style={{
+        alignSelf: 'flex-start',
+        maxWidth: '85%',
+        width: '100%',
+        padding: '6px 10px',
+        borderRadius: 8,
+        background: 'var(--bg-primary)',
+        border: `1px solid ${call.status === 'error' ? 'var(--santa-red)' : 'var(--border-medium)'}`,
+        outline: highlighted ? '2px solid var(--christmas-gold)' : undefined,
+        fontSize: '.8rem',
+        color: 'var(--text-secondary)',
+      }}
+    >
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+        <strong style={{ fontFamily: 'monospace', color: 'var(--text-primary)' }}>🛠️ {call.name}</strong>
+        <span style={{ color: badge.color, fontWeight: 600 }}>{badge.label}</span>
+        {duration !== undefined && <span style={{ opacity: .7 }}>{formatDuration(duration)}</span>}
+      </div>
+      <details open={call.status === 'running'}>
+        <summary style={{ cursor: 'pointer', opacity: .8 }}>Arguments</summary>
+        <pre style={preStyle}>
+          {parsedArgs !== undefined ? JSON.stringify(parsedArgs, null, 2) : call.args || '(none yet)'}
+        </pre>
+      </details>
+      {call.error ? (
+        <div role="alert" style={{ marginTop: 4, color: 'var(--santa-red)' }}>Error: {call.error}</div>
+      ) : (
+        call.result !== undefined && (
+          <details>
+            <summary style={{ cursor: 'pointer', opacity: .8 }}>Result</summary>
+            <pre style={preStyle}>{pretty(call.result)}</pre>
+          </details>
+        )
+      )}
+    </div>
+  );
+};
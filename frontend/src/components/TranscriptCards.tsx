@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { addWishlistItem, saveRecommendation } from '../agentClient';
+import type { GiftSuggestion, LogisticsStep } from '../utils/transcriptCards';
+import { ApiErrorDetails } from './shared';
+
+interface GiftProps {
+  gifts: GiftSuggestion[];
+  /** The child the actions apply to; without one they are disabled */
+  childId?: string;
+}
+
+interface LogisticsProps {
+  title: string;
+  status?: string;
+  steps: LogisticsStep[];
+  childId?: string;
+}
+
+type ActionState = { status: 'idle' | 'pending' | 'done'; error?: unknown };
+
+const cardStyle: React.CSSProperties = {
+  border: '1px solid var(--border-medium)',
+  borderRadius: 6,
+  padding: '6px 8px',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  whiteSpace: 'normal',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  fontSize: '.75rem',
+  cursor: 'pointer',
+};
+
+const fitColors: Record<string, string> = {
+  'within-budget': 'var(--status-success)',
+  stretch: 'var(--status-warning)',
+};
+
+const formatPrice = (price: number) => `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+function useCardAction(perform: () => Promise<unknown>): [ActionState, () => void] {
+  const [state, setState] = useState<ActionState>({ status: 'idle' });
+  const run = () => {
+    setState({ status: 'pending' });
+    perform().then(
+      () => setState({ status: 'done' }),
+      (error) => setState({ status: 'idle', error })
+    );
+  };
+  return [state, run];
+}
+
+const ActionButton: React.FC<{ state: ActionState; onClick: () => void; childId?: string; label: string; doneLabel: string }> = ({ state, onClick, childId, label, doneLabel }) => (
+  <button
+    type="button"
+    style={buttonStyle}
+    onClick={onClick}
+    disabled={!childId || state.status !== 'idle'}
+    title={childId ? undefined : 'Pick a child first'}
+  >
+    {state.status === 'done' ? `✓ ${doneLabel}` : state.status === 'pending' ? `${label}…` : label}
+  </button>
+);
+
+// One gift with its own action state, so saving one card leaves the others alone
+const GiftActions: React.FC<{ gift: GiftSuggestion; childId?: string; save?: boolean }> = ({ gift, childId, save = true }) => {
+  // Kept for the card's life so a retried submission is applied once
+  const idempotencyKey = useRef(crypto.randomUUID()).current;
+  const [saved, runSave] = useCardAction(() =>
+    saveRecommendation(childId!, {
+      suggestion: gift.suggestion,
+      rationale: gift.rationale,
+      price: gift.price,
+      budgetFit: gift.budgetFit,
+    })
+  );
+  const [added, runAdd] = useCardAction(() =>
+    addWishlistItem(childId!, { toyName: gift.suggestion, budgetLimit: gift.price, notes: gift.rationale }, { idempotencyKey })
+  );
+  const error = saved.error ?? added.error;
+
+  return (
+    <>
+      <div style={{ display: 'flex', gap: 6, marginTop: 4 }}>
+        {save && <ActionButton state={saved} onClick={runSave} childId={childId} label="Save as recommendation" doneLabel="Saved" />}
+        <ActionButton state={added} onClick={runAdd} childId={childId} label="Add to wishlist" doneLabel="On the wishlist" />
+      </div>
+      {error != null && (
+        <div style={{ color: 'var(--santa-red)', fontSize: '.8rem', marginTop: 4 }}>
+          <ApiErrorDetails error={error} context={saved.error != null ? 'Recommendation not saved' : 'Wishlist not updated'} />
+        </div>
+      )}
+    </>
+  );
+};
+
+/** Gift recommendations found in an agent's reply, each with save and wishlist actions */
+export const GiftCards: React.FC<GiftProps> = ({ gifts, childId }) => (
+  <ul aria-label="Gift recommendations" style={{ listStyle: 'none', margin: '4px 0', padding: 0, display: 'grid', gap: 6 }}>
+    {gifts.map((gift, i) => (
+      <li key={`${gift.suggestion}-${i}`} style={cardStyle}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'baseline', flexWrap: 'wrap' }}>
+          <strong>🎁 {gift.suggestion}</strong>
+          {gift.price !== undefined && <span>{formatPrice(gift.price)}</span>}
+          {gift.budgetFit && (
+            <span style={{ fontSize: '.75rem', color: fitColors[gift.budgetFit] ?? 'var(--text-muted)' }}>{gift.budgetFit}</span>
+          )}
+        </div>
+        {gift.rationale && <div style={{ fontSize: '.85rem', color: 'var(--text-secondary)' }}>{gift.rationale}</div>}
+        <GiftActions gift={gift} childId={childId} />
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * A logistics plan found in an agent's reply. Steps that name a gift can put
+ * it on the wishlist.
+ */
+export const LogisticsPlanCard: React.FC<LogisticsProps> = ({ title, status, steps, childId }) => (
+  <section aria-label={title} style={{ ...cardStyle, margin: '4px 0' }}>
+    <div style={{ fontWeight: 600 }}>
+      🛷 {title}{status && <span style={{ fontWeight: 400, color: 'var(--text-muted)' }}> · {status}</span>}
+    </div>
+    <ol style={{ margin: '4px 0 0', paddingLeft: '1.4rem', display: 'grid', gap: 4 }}>
+      {steps.map((step, i) => (
+        <li key={i}>
+          <span style={{ color: step.feasible === false ? 'var(--status-error)' : undefined }}>
+            {step.feasible === true ? '✅ ' : step.feasible === false ? '⚠️ ' : ''}{step.text}
+          </span>
+          {step.gift && <GiftActions gift={{ suggestion: step.gift }} childId={childId} save={false} />}
+        </li>
+      ))}
+    </ol>
+  </section>
+);
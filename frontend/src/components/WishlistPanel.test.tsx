@@ -0,0 +1,127 @@
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError, type WishlistEntry } from "../agentClient";
+import { WishlistPanel } from "./WishlistPanel";
+
+const client = vi.hoisted(() => ({
+  listWishlistItems: vi.fn(),
+  getDrasiQuery: vi.fn(),
+  updateWishlistItem: vi.fn(),
+  deleteWishlistItem: vi.fn(),
+  reorderWishlistItems: vi.fn(),
+}));
+
+vi.mock("../agentClient", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../agentClient")>()),
+  ...client,
+}));
+
+const entry = (id: string, itemName: string, extra: Partial<WishlistEntry> = {}): WishlistEntry => ({
+  id,
+  childId: "child-ada",
+  itemName,
+  category: "Toys",
+  budgetEstimate: 20,
+  notes: null,
+  priority: null,
+  createdAt: "2025-12-01T10:00:00Z",
+  ...extra,
+});
+
+const kite = entry("kite", "Kite", { notes: "A red one" });
+const bike = entry("bike", "Bike", { category: "Outdoor", budgetEstimate: null });
+
+const names = () => screen.getAllByRole("listitem").map((li) => li.querySelector("strong")?.textContent);
+
+describe("WishlistPanel", () => {
+  beforeEach(() => {
+    Object.values(client).forEach((fn) => fn.mockReset());
+    client.listWishlistItems.mockResolvedValue([kite, bike]);
+    client.getDrasiQuery.mockResolvedValue({
+      queryName: "wishlist-duplicates-by-child",
+      results: [
+        { childId: "child-ada", item: "kite", duplicateCount: 3 },
+        { childId: "child-bo", item: "Bike", duplicateCount: 2 },
+      ],
+      count: 2,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists items with their details and flags Drasi duplicates for this child", async () => {
+    render(<WishlistPanel childId="child-ada" />);
+
+    const kiteRow = await screen.findByRole("listitem", { name: "Kite" });
+    expect(kiteRow.textContent).toContain("Toys · $20");
+    expect(kiteRow.textContent).toContain("A red one");
+    expect(await within(kiteRow).findByText("Duplicate ×3")).toBeTruthy();
+
+    const bikeRow = screen.getByRole("listitem", { name: "Bike" });
+    expect(bikeRow.textContent).toContain("Outdoor · No budget");
+    expect(within(bikeRow).queryByText(/Duplicate/)).toBeNull();
+  });
+
+  it("edits an item inline and shows server validation errors", async () => {
+    client.updateWishlistItem
+      .mockRejectedValueOnce(
+        new ApiError({ status: 400, title: "Invalid wishlist item", errors: { notes: ["Notes must be at most 500 characters."] }, source: "updateWishlistItem" }),
+      )
+      .mockResolvedValueOnce({ ...kite, itemName: "Stunt kite", budgetEstimate: 35 });
+    render(<WishlistPanel childId="child-ada" />);
+    fireEvent.click(within(await screen.findByRole("listitem", { name: "Kite" })).getByText("Edit"));
+
+    fireEvent.change(screen.getByLabelText(/^Budget estimate/), { target: { value: "-1" } });
+    fireEvent.click(screen.getByText("Save"));
+    expect(screen.getByRole("alert").textContent).toBe("Budget estimate cannot be negative.");
+    expect(client.updateWishlistItem).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText(/^Item/), { target: { value: " Stunt kite " } });
+    fireEvent.change(screen.getByLabelText(/^Budget estimate/), { target: { value: "35" } });
+    fireEvent.click(screen.getByText("Save"));
+    await waitFor(() => expect(screen.getByRole("alert").textContent).toBe("Notes must be at most 500 characters."));
+
+    fireEvent.click(screen.getByText("Save"));
+    await screen.findByText("Saved Stunt kite");
+    expect(client.updateWishlistItem).toHaveBeenLastCalledWith("child-ada", "kite", {
+      itemName: "Stunt kite",
+      category: "Toys",
+      budgetEstimate: 35,
+      notes: "A red one",
+    });
+    expect(screen.getByRole("listitem", { name: "Stunt kite" })).toBeTruthy();
+  });
+
+  it("deletes only after confirmation", async () => {
+    const confirm = vi.spyOn(window, "confirm").mockReturnValueOnce(false).mockReturnValueOnce(true);
+    client.deleteWishlistItem.mockResolvedValue(undefined);
+    render(<WishlistPanel childId="child-ada" />);
+    const bikeRow = await screen.findByRole("listitem", { name: "Bike" });
+
+    fireEvent.click(within(bikeRow).getByText("Delete"));
+    expect(client.deleteWishlistItem).not.toHaveBeenCalled();
+
+    fireEvent.click(within(bikeRow).getByText("Delete"));
+    await screen.findByText("Removed Bike");
+    expect(confirm).toHaveBeenCalledWith('Remove "Bike" from the wishlist?');
+    expect(client.deleteWishlistItem).toHaveBeenCalledWith("child-ada", "bike");
+  });
+
+  it("reorders optimistically and reloads the list when the server order is stale", async () => {
+    let reject!: (err: unknown) => void;
+    client.reorderWishlistItems.mockReturnValue(new Promise((_, fail) => (reject = fail)));
+    render(<WishlistPanel childId="child-ada" />);
+    await screen.findByRole("listitem", { name: "Bike" });
+
+    fireEvent.click(screen.getByLabelText("Move Bike up"));
+    expect(names()).toEqual(["Bike", "Kite"]);
+    expect(client.reorderWishlistItems).toHaveBeenCalledWith("child-ada", ["bike", "kite"]);
+
+    client.listWishlistItems.mockResolvedValue([kite, bike, entry("yoyo", "Yo-yo")]);
+    reject(new ApiError({ status: 409, title: "Wishlist changed", source: "reorderWishlistItems" }));
+    await screen.findByText("The wishlist changed on the server; reloaded the latest order.");
+    await waitFor(() => expect(names()).toEqual(["Kite", "Bike", "Yo-yo"]));
+  });
+});
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import {
+  ApiError,
+  WishlistEntry,
+  WishlistEntryUpdate,
+  WishlistItemInput,
+  deleteWishlistItem,
+  getDrasiQuery,
+  listWishlistItems,
+  reorderWishlistItems,
+  updateWishlistItem,
+} from '../agentClient';
+import { queueWishlistItem } from '../api/outbox';
+import { getQueryState, setQueryData } from '../api/queryCache';
+import { queryKeys } from '../api/queryKeys';
+import { useQuery } from '../hooks/useQuery';
+import { ApiErrorDetails, StatusBadge } from './shared';
+
+interface Props {
+  childId: string;
+}
+
+const DUPLICATES_QUERY = 'wishlist-duplicates-by-child';
+
+interface DuplicateRow {
+  childId: string;
+  item: string;
+  duplicateCount: number;
+}
+
+// Budget stays a string while typing, like the profile form
+interface Draft {
+  itemName: string;
+  category: string;
+  budgetEstimate: string;
+  notes: string;
+}
+
+const toDraft = (entry: WishlistEntry): Draft => ({
+  itemName: entry.itemName,
+  category: entry.category ?? '',
+  budgetEstimate: entry.budgetEstimate?.toString() ?? '',
+  notes: entry.notes ?? '',
+});
+
+const toUpdate = (draft: Draft): WishlistEntryUpdate => ({
+  itemName: draft.itemName.trim(),
+  category: draft.category.trim() || null,
+  budgetEstimate: draft.budgetEstimate.trim() ? Number(draft.budgetEstimate) : null,
+  notes: draft.notes.trim() || null,
+});
+
+function validateDraft(update: WishlistEntryUpdate): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!update.itemName) errors.itemName = 'Item name is required.';
+  if (update.budgetEstimate != null && (!Number.isFinite(update.budgetEstimate) || update.budgetEstimate < 0)) {
+    errors.budgetEstimate = 'Budget estimate cannot be negative.';
+  }
+  return errors;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.3rem 0.5rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+};
+const smallButton: React.CSSProperties = { padding: '2px 8px', fontSize: '0.75rem' };
+const errorStyle: React.CSSProperties = { color: 'var(--santa-red)', fontSize: '0.8rem' };
+
+/**
+ * Wishlist tab: the submission form plus the child's existing gift requests,
+ * most wanted first. Items can be edited inline, deleted and moved up or down;
+ * rows Drasi reports as asked-for-more-than-once carry a duplicate badge.
+ */
+export const WishlistPanel: React.FC<Props> = ({ childId }) => {
+  const key = queryKeys.childWishlist(childId);
+  const wishlistQuery = useQuery(key, () => listWishlistItems(childId));
+  const duplicatesQuery = useQuery(
+    queryKeys.drasiQuery(DUPLICATES_QUERY),
+    () => getDrasiQuery(DUPLICATES_QUERY),
+    { refetchIntervalMs: 30_000 },
+  );
+  const items = wishlistQuery.data ?? [];
+
+  const [newItem, setNewItem] = useState<WishlistItemInput>({ toyName: '' });
+  const [submitStatus, setSubmitStatus] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<unknown>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftErrors, setDraftErrors] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<unknown>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Drasi matches on the submitted text; compare case-insensitively so an edit
+  // that only changes capitalisation keeps its flag
+  const duplicateCounts = new Map<string, number>();
+  ((duplicatesQuery.data?.results ?? []) as DuplicateRow[])
+    .filter((row) => row.childId === childId)
+    .forEach((row) => duplicateCounts.set(row.item.trim().toLowerCase(), row.duplicateCount));
+
+  const refreshDuplicates = () => {
+    duplicatesQuery.refetch().catch(() => {
+      // Shown as stale badges until the next poll
+    });
+  };
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setSubmitStatus(null);
+    setSubmitError(null);
+    try {
+      // Goes through the outbox so the item survives a dropped connection
+      const outcome = await queueWishlistItem(childId, newItem);
+      if (outcome.status === 'failed') {
+        setSubmitError(outcome.error);
+        return;
+      }
+      setSubmitStatus(outcome.status === 'synced'
+        ? 'Wishlist item accepted'
+        : '📮 Saved offline - it will be sent when the connection returns');
+      setNewItem({ toyName: '' });
+      if (outcome.status === 'synced') refreshDuplicates();
+    } catch (err) {
+      setSubmitError(err);
+    }
+  }
+
+  function startEditing(entry: WishlistEntry) {
+    setEditingId(entry.id);
+    setDraft(toDraft(entry));
+    setDraftErrors({});
+    setActionError(null);
+    setNotice(null);
+  }
+
+  function stopEditing() {
+    setEditingId(null);
+    setDraft(null);
+    setDraftErrors({});
+  }
+
+  async function saveEdit(e: React.FormEvent, entry: WishlistEntry) {
+    e.preventDefault();
+    if (!draft) return;
+    const update = toUpdate(draft);
+    const problems = validateDraft(update);
+    setDraftErrors(problems);
+    if (Object.keys(problems).length > 0) return;
+
+    setBusyId(entry.id);
+    setActionError(null);
+    try {
+      const saved = await updateWishlistItem(childId, entry.id, update);
+      setQueryData<WishlistEntry[]>(key, (current = []) => current.map((i) => (i.id === saved.id ? saved : i)));
+      stopEditing();
+      setNotice(`Saved ${saved.itemName}`);
+      refreshDuplicates();
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 400 && Object.keys(err.errors).length > 0) {
+        setDraftErrors(Object.fromEntries(Object.entries(err.errors).map(([field, messages]) => [field, messages.join(' ')])));
+      } else {
+        setActionError(err);
+        // 404: another elf deleted it meanwhile
+        if (err instanceof ApiError && err.status === 404) stopEditing();
+      }
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function remove(entry: WishlistEntry) {
+    if (!window.confirm(`Remove "${entry.itemName}" from the wishlist?`)) return;
+    setBusyId(entry.id);
+    setActionError(null);
+    setNotice(null);
+    try {
+      await deleteWishlistItem(childId, entry.id);
+      setNotice(`Removed ${entry.itemName}`);
+      refreshDuplicates();
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        // Already gone; reload so the row disappears
+        wishlistQuery.refetch().catch(() => {
+          // Failure is rendered from the query state
+        });
+      } else {
+        setActionError(err);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function move(index: number, offset: -1 | 1) {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    const previous = getQueryState<WishlistEntry[]>(key).data;
+    // Move the row straight away; the server's order replaces it once saved
+    setQueryData(key, reordered);
+    setActionError(null);
+    setNotice(null);
+    try {
+      setQueryData(key, await reorderWishlistItems(childId, reordered.map((i) => i.id)));
+    } catch (err) {
+      setQueryData(key, previous);
+      if (err instanceof ApiError && err.status === 409) {
+        setNotice('The wishlist changed on the server; reloaded the latest order.');
+        wishlistQuery.refetch().catch(() => {
+          // Failure is rendered from the query state
+        });
+      } else {
+        setActionError(err);
+      }
+    }
+  }
+
+  const fieldError = (field: string) =>
+    draftErrors[field] && <span role="alert" style={errorStyle}>{draftErrors[field]}</span>;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <form onSubmit={submit} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxWidth: '320px' }}>
+        <input value={newItem.toyName} onChange={(e) => setNewItem((i) => ({ ...i, toyName: e.target.value }))} placeholder="Toy name" required />
+        <input value={newItem.category || ''} onChange={(e) => setNewItem((i) => ({ ...i, category: e.target.value }))} placeholder="Category" />
+        <textarea value={newItem.notes || ''} onChange={(e) => setNewItem((i) => ({ ...i, notes: e.target.value }))} placeholder="Notes" />
+        <input
+          type="number"
+          value={newItem.budgetLimit?.toString() || ''}
+          onChange={(e) => setNewItem((i) => ({ ...i, budgetLimit: e.target.value ? Number(e.target.value) : undefined }))}
+          placeholder="Budget limit"
+        />
+        <button disabled={!newItem.toyName.trim()}>Submit Idea</button>
+        {submitStatus && <p>{submitStatus}</p>}
+        {submitError != null && (
+          <div style={{ color: 'red' }}>
+            <ApiErrorDetails error={submitError} context="Wishlist item rejected" />
+          </div>
+        )}
+      </form>
+
+      <div>
+        <h3 style={{ margin: '0 0 0.5rem' }}>Wishlist ({items.length})</h3>
+        {wishlistQuery.isLoading && <p>Loading wishlist…</p>}
+        {wishlistQuery.error != null && (
+          <div style={{ color: 'var(--santa-red)' }}>
+            <ApiErrorDetails error={wishlistQuery.error} context="Wishlist not loaded" />
+          </div>
+        )}
+        {notice && <p>{notice}</p>}
+        {actionError != null && (
+          <div style={{ color: 'var(--santa-red)' }}>
+            <ApiErrorDetails error={actionError} context="Wishlist not updated" />
+          </div>
+        )}
+        {wishlistQuery.data && items.length === 0 && <p>Nothing on the wishlist yet.</p>}
+        <ol style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          {items.map((entry, index) => {
+            const duplicates = duplicateCounts.get(entry.itemName.trim().toLowerCase());
+            const busy = busyId === entry.id;
+            return (
+              <li
+                key={entry.id}
+                aria-label={entry.itemName}
+                style={{ padding: '0.6rem 0.8rem', borderRadius: 6, background: 'var(--bg-tertiary)', border: '1px solid var(--border-medium)' }}
+              >
+                {editingId === entry.id && draft ? (
+                  <form onSubmit={(e) => void saveEdit(e, entry)} noValidate style={{ display: 'grid', gap: '0.4rem', maxWidth: 360 }}>
+                    <label style={{ display: 'grid', gap: 2 }}>
+                      Item
+                      <input style={inputStyle} value={draft.itemName} onChange={(e) => setDraft({ ...draft, itemName: e.target.value })} />
+                      {fieldError('itemName')}
+                    </label>
+                    <label style={{ display: 'grid', gap: 2 }}>
+                      Category
+                      <input style={inputStyle} value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value })} />
+                    </label>
+                    <label style={{ display: 'grid', gap: 2 }}>
+                      Budget estimate
+                      <input
+                        style={inputStyle}
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={draft.budgetEstimate}
+                        onChange={(e) => setDraft({ ...draft, budgetEstimate: e.target.value })}
+                      />
+                      {fieldError('budgetEstimate')}
+                    </label>
+                    <label style={{ display: 'grid', gap: 2 }}>
+                      Notes
+                      <textarea style={inputStyle} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+                      {fieldError('notes')}
+                    </label>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                      <button type="submit" disabled={busy}>{busy ? 'Saving…' : 'Save'}</button>
+                      <button type="button" onClick={stopEditing}>Cancel</button>
+                    </div>
+                  </form>
+                ) : (
+                  <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'flex-start' }}>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                        <strong>{entry.itemName}</strong>
+                        {duplicates != null && <StatusBadge label={`Duplicate ×${duplicates}`} variant="warning" />}
+                      </div>
+                      <div style={{ fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+                        {entry.category || 'Uncategorised'}
+                        {' · '}
+                        {entry.budgetEstimate != null ? `$${entry.budgetEstimate}` : 'No budget'}
+                        {' · '}
+                        Submitted {new Date(entry.createdAt).toLocaleString()}
+                      </div>
+                      {entry.notes && <p style={{ margin: '0.25rem 0 0', fontSize: '0.85rem' }}>{entry.notes}</p>}
+                    </div>
+                    <div style={{ display: 'flex', gap: 4 }}>
+                      <button style={smallButton} aria-label={`Move ${entry.itemName} up`} disabled={index === 0} onClick={() => void move(index, -1)}>↑</button>
+                      <button
+                        style={smallButton}
+                        aria-label={`Move ${entry.itemName} down`}
+                        disabled={index === items.length - 1}
+                        onClick={() => void move(index, 1)}
+                      >
+                        ↓
+                      </button>
+                      <button style={smallButton} disabled={busy} onClick={() => startEditing(entry)}>Edit</button>
+                      <button style={smallButton} disabled={busy} onClick={() => void remove(entry)}>Delete</button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+};
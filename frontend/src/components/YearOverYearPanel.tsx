@@ -1,52 +1,20 @@
-import { useEffect, useState } from 'react';
-import { API_URL } from '../config';
-import type { DrasiInsights, YearOverYearTrends } from '../types/drasi';
+import { getYearOverYearTrends } from '../agentClient';
+import { queryKeys } from '../api/queryKeys';
+import { useDrasiInsights } from '../hooks/useDrasiInsights';
+import { useQuery } from '../hooks/useQuery';
 import { Panel, PanelHeader, StatusBadge } from './shared';
 
 export const YearOverYearPanel: React.FC = () => {
-  const [trends, setTrends] = useState<YearOverYearTrends | null>(null);
-  const [drasiInsights, setDrasiInsights] = useState<DrasiInsights | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchTrends = async () => {
-      try {
-        const res = await fetch(`${API_URL}/api/v1/trends/year-over-year`);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = await res.json();
-        setTrends(data);
-        setError(null);
-      } catch (e: any) {
-        setError(e.message || 'Failed to load trends');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    const fetchDrasiInsights = async () => {
-      try {
-        const res = await fetch(`${API_URL}/api/v1/drasi/insights`);
-        if (res.ok) {
-          const data = await res.json();
-          setDrasiInsights(data);
-        }
-      } catch {
-        // Silent fail - Drasi insights are optional enhancement
-      }
-    };
-
-    fetchTrends();
-    fetchDrasiInsights();
-
-    const trendsInterval = setInterval(fetchTrends, 60000); // Refresh every 60s
-    const drasiInterval = setInterval(fetchDrasiInsights, 10000); // Refresh every 10s for real-time
-
-    return () => {
-      clearInterval(trendsInterval);
-      clearInterval(drasiInterval);
-    };
-  }, []);
+  const trendsQuery = useQuery(queryKeys.yearOverYearTrends(), () => getYearOverYearTrends(), {
+    refetchIntervalMs: 60000,
+  });
+  // Faster than the default interval for real-time trend badges; shared with other Drasi panels
+  const { data: drasiInsights } = useDrasiInsights(10000);
+  const trends = trendsQuery.data;
+  const loading = trendsQuery.isLoading;
+  const error = trendsQuery.error
+    ? (trendsQuery.error as Error).message || 'Failed to load trends'
+    : null;
 
   if (loading) {
     return (
@@ -57,7 +25,8 @@ export const YearOverYearPanel: React.FC = () => {
     );
   }
 
-  if (error || !trends) {
+  // Keep rendering the last good trends if a background refresh fails
+  if (!trends) {
     return (
       <Panel>
         <PanelHeader title="Year-over-Year Trends" icon="📊" />
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ApiError } from '../../api/http';
+
+export interface ApiErrorDetailsProps {
+  error: unknown;
+  /** Shown before the error title, e.g. "Failed to send event" */
+  context?: string;
+}
+
+/**
+ * Renders a failed API call: Problem Details title and detail, any
+ * validation errors, and the status/trace id for support lookups.
+ */
+export const ApiErrorDetails: React.FC<ApiErrorDetailsProps> = ({ error, context }) => {
+  if (!(error instanceof ApiError)) {
+    const text = error instanceof Error ? error.message : String(error);
+    return <div>{context ? `${context}: ${text}` : text}</div>;
+  }
+
+  const validation = error.validationMessages;
+  return (
+    <div>
+      <div style={{ fontWeight: 600 }}>
+        {context ? `${context}: ${error.title}` : error.title}
+      </div>
+      {error.detail && <div style={{ marginTop: '0.25rem' }}>{error.detail}</div>}
+      {validation.length > 0 && (
+        <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem' }}>
+          {validation.map((v) => (
+            <li key={v}>{v}</li>
+          ))}
+        </ul>
+      )}
+      <div style={{ marginTop: '0.25rem', fontSize: '0.75rem', color: 'var(--text-muted)' }}>
+        {error.status > 0 ? `HTTP ${error.status}` : 'No response'}
+        {error.traceId && <> · trace <code>{error.traceId}</code></>}
+      </div>
+    </div>
+  );
+};
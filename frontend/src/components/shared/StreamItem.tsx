@@ -1,21 +1,25 @@
 import React from 'react';
+import { ROW_CHANGED_ANIMATION } from '../../utils/queryChanges';
 
 export interface StreamItemProps {
   children: React.ReactNode;
   style?: React.CSSProperties;
+  /** Flash the item, e.g. a live row the event graph just changed */
+  changed?: boolean;
 }
 
 /**
  * A single item in a stream list with consistent styling.
  */
-export const StreamItem: React.FC<StreamItemProps> = ({ children, style }) => {
+export const StreamItem: React.FC<StreamItemProps> = ({ children, style, changed = false }) => {
   return (
-    <div style={{
+    <div data-changed={changed || undefined} style={{
       display: 'flex',
       justifyContent: 'space-between',
       padding: '0.25rem 0',
       borderBottom: '1px solid var(--border-light)',
       color: 'var(--text-primary)',
+      ...(changed ? { animation: ROW_CHANGED_ANIMATION } : {}),
       ...style,
     }}>
       {children}
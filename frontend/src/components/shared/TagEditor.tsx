@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+
+export interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Accessible name for the text input */
+  label: string;
+  placeholder?: string;
+  maxTags?: number;
+  maxLength?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Chip list with a text input: Enter or comma adds a tag, Backspace on an
+ * empty input removes the last one. Duplicates are ignored case-insensitively.
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  onChange,
+  label,
+  placeholder,
+  maxTags,
+  maxLength,
+  disabled,
+}) => {
+  const [input, setInput] = useState('');
+  const full = maxTags !== undefined && tags.length >= maxTags;
+
+  function add(raw: string) {
+    const tag = raw.trim();
+    if (!tag || full) return;
+    if (!tags.some((t) => t.toLowerCase() === tag.toLowerCase())) onChange([...tags, tag]);
+    setInput('');
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexWrap: 'wrap',
+      gap: '0.35rem',
+      alignItems: 'center',
+      padding: '0.3rem',
+      borderRadius: 4,
+      border: '1px solid var(--border-medium)',
+      background: 'var(--bg-primary)',
+    }}>
+      {tags.map((tag) => (
+        <span key={tag} style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: '0.25rem',
+          padding: '2px 8px',
+          borderRadius: 12,
+          fontSize: '0.8rem',
+          background: 'var(--bg-tertiary)',
+          color: 'var(--text-primary)',
+        }}>
+          {tag}
+          <button
+            type="button"
+            aria-label={`Remove ${tag}`}
+            disabled={disabled}
+            onClick={() => onChange(tags.filter((t) => t !== tag))}
+            style={{ background: 'none', border: 'none', padding: 0, color: 'var(--text-muted)', cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        aria-label={label}
+        value={input}
+        maxLength={maxLength}
+        disabled={disabled || full}
+        placeholder={full ? `Limit of ${maxTags} reached` : placeholder}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={onKeyDown}
+        onBlur={() => add(input)}
+        style={{ flex: '1 1 120px', minWidth: 80, border: 'none', outline: 'none', background: 'transparent', color: 'var(--text-primary)' }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+
+export interface VirtualListProps {
+  count: number;
+  /** Height of every row in px; rows are clipped to it */
+  rowHeight: number;
+  /** Height of the scrolling viewport in px */
+  height: number;
+  renderRow: (index: number) => React.ReactNode;
+  /** Rows rendered past each edge of the viewport */
+  overscan?: number;
+  /** Keep the newest rows in view, unless the user scrolled up to read */
+  followTail?: boolean;
+  style?: React.CSSProperties;
+  'aria-label'?: string;
+}
+
+/**
+ * A scrolling list that only renders the rows in view, so logs with
+ * thousands of rows stay cheap to render and to append to.
+ */
+export const VirtualList: React.FC<VirtualListProps> = ({
+  count,
+  rowHeight,
+  height,
+  renderRow,
+  overscan = 10,
+  followTail = false,
+  style,
+  'aria-label': ariaLabel,
+}) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const atBottomRef = useRef(true);
+
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    if (!followTail || !viewport || !atBottomRef.current) return;
+    viewport.scrollTop = viewport.scrollHeight;
+    setScrollTop(viewport.scrollTop);
+  }, [count, followTail]);
+
+  const onScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const viewport = e.currentTarget;
+    atBottomRef.current = viewport.scrollTop + viewport.clientHeight >= viewport.scrollHeight - rowHeight;
+    setScrollTop(viewport.scrollTop);
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(count, Math.ceil((scrollTop + height) / rowHeight) + overscan);
+  const rows: React.ReactNode[] = [];
+  for (let i = first; i < last; i++) {
+    rows.push(
+      <div key={i} style={{ position: 'absolute', top: i * rowHeight, left: 0, right: 0, height: rowHeight, overflow: 'hidden' }}>
+        {renderRow(i)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={viewportRef} role="list" aria-label={ariaLabel} onScroll={onScroll} style={{ height, overflowY: 'auto', ...style }}>
+      <div style={{ position: 'relative', height: count * rowHeight }}>{rows}</div>
+    </div>
+  );
+};
@@ -12,3 +12,12 @@ export type { StreamListProps } from './StreamList';
 
 export { StreamItem } from './StreamItem';
 export type { StreamItemProps } from './StreamItem';
+
+export { ApiErrorDetails } from './ApiErrorDetails';
+export type { ApiErrorDetailsProps } from './ApiErrorDetails';
+
+export { TagEditor } from './TagEditor';
+export type { TagEditorProps } from './TagEditor';
+
+export { VirtualList } from './VirtualList';
+export type { VirtualListProps } from './VirtualList';
@@ -1,6 +1,214 @@
-// Centralized API configuration
-// Frontend is served from the same Container App as the API (same-origin deployment)
-// All API calls use relative URLs (/api/*) which works for:
-//   - Production: same-origin Container App
-//   - Development: Vite dev server proxy (/api/* -> localhost:8080)
-export const API_URL = "";
+// Centralized runtime configuration
+// One built bundle can be pointed at different backends without a rebuild.
+// Values are resolved in layers, later layers winning:
+//   1. Defaults: same-origin relative URLs (/api/*, /api/hub) and constants/polling.ts
+//   2. window.__API_BASE__ / window.__SIGNALR_HUB__, set by a script in index.html at page load
+//   3. Build-time env (VITE_API_URL, VITE_SIGNALR_URL, VITE_SANTA_AGENT_ID, VITE_ELF_AGENT_ID)
+//   4. /config.json fetched once at startup (see loadRuntimeConfig in main.tsx)
+// The API and hub URLs from layers 2 and 3 are skipped on Azure Static Web Apps /
+// Container Apps hosts, where the frontend is always same-origin with the API;
+// the agent ids from layer 3 and everything in config.json apply on every host.
+// Development: relative URLs go through the Vite dev server proxy (/api/* -> localhost:8080).
+// Mock backend: VITE_MOCK_API=true, `"mockBackend": true` in config.json, or ?mock=1 in the
+// page URL (remembered for the tab; ?mock=0 turns it off) serves every /api call in-browser.
+
+import { z } from "zod";
+import { POLLING_CONFIG } from "./constants/polling";
+import { logger } from "./utils/logger";
+
+export interface PollingConfig {
+  drasiInsightsIntervalMs: number;
+  notificationPollIntervalMs: number;
+  sseRetryDelayMs: number;
+  maxConsecutiveFailures: number;
+}
+
+export interface RuntimeConfig {
+  /** Prefix for /api/* routes; empty string means same-origin relative URLs */
+  apiBaseUrl: string;
+  /** Full URL (or same-origin path) of the SignalR hub */
+  signalRHubUrl: string;
+  santaAgentId: string;
+  elfAgentId: string;
+  polling: PollingConfig;
+  /** Serve /api/*, SSE streams and the SignalR hub from the in-browser mock (src/mock) */
+  mockBackend: boolean;
+}
+
+// Shape of /config.json; every field is optional so operators only override what they need
+const RuntimeConfigFileSchema = z
+  .object({
+    apiBaseUrl: z.string(),
+    signalRHubUrl: z.string(),
+    santaAgentId: z.string().min(1),
+    elfAgentId: z.string().min(1),
+    mockBackend: z.boolean(),
+    polling: z
+      .object({
+        drasiInsightsIntervalMs: z.number().int().positive(),
+        notificationPollIntervalMs: z.number().int().positive(),
+        sseRetryDelayMs: z.number().int().positive(),
+        maxConsecutiveFailures: z.number().int().positive(),
+      })
+      .partial(),
+  })
+  .partial();
+
+const CONFIG_FILE_URL = "/config.json";
+const CONFIG_FILE_TIMEOUT_MS = 3000;
+
+const MOCK_SESSION_KEY = "santa.mockBackend";
+
+const trimTrailingSlash = (url: string): string => url.trim().replace(/\/$/, "");
+
+// Azure hosts serve the frontend from the same origin as the API
+const isSameOriginHost = (): boolean => {
+  if (typeof window === "undefined") return false;
+  const host = window.location.hostname || "";
+  return host.includes("azurestaticapps") || host.includes("azurecontainerapps");
+};
+
+// An http:// hub on an https:// page would be blocked as mixed content
+const isBlockedMixedContent = (url: string): boolean =>
+  typeof window !== "undefined" &&
+  window.location.protocol === "https:" &&
+  url.toLowerCase().startsWith("http://");
+
+// ?mock=1 / ?mock=0 in the page URL; the choice sticks for the rest of the tab session
+function readMockQueryFlag(): boolean | undefined {
+  if (typeof window === "undefined") return undefined;
+  const param = new URLSearchParams(window.location.search).get("mock");
+  try {
+    if (param !== null) {
+      const enabled = param === "1" || param === "true";
+      if (enabled) sessionStorage.setItem(MOCK_SESSION_KEY, "1");
+      else sessionStorage.removeItem(MOCK_SESSION_KEY);
+      return enabled;
+    }
+    return sessionStorage.getItem(MOCK_SESSION_KEY) === "1" ? true : undefined;
+  } catch {
+    // Storage can be blocked; the query parameter alone still applies
+    return param === null ? undefined : param === "1" || param === "true";
+  }
+}
+
+function resolveStaticConfig(): RuntimeConfig {
+  const env = import.meta.env;
+  const inBrowser = typeof window !== "undefined";
+
+  // Outside a browser there is no origin to be relative to
+  let apiBaseUrl = inBrowser ? "" : "http://localhost:8080";
+  let signalRHubUrl: string | undefined;
+
+  if (inBrowser && !isSameOriginHost()) {
+    if (window.__API_BASE__) {
+      apiBaseUrl = trimTrailingSlash(window.__API_BASE__.toString());
+    }
+    if (window.__SIGNALR_HUB__) {
+      const hub = window.__SIGNALR_HUB__.toString();
+      if (isBlockedMixedContent(hub)) {
+        logger.warn("[config] Skipping insecure window.__SIGNALR_HUB__ on HTTPS page:", hub);
+      } else {
+        signalRHubUrl = hub;
+      }
+    }
+  }
+
+  if (!isSameOriginHost()) {
+    // Empty string is valid - means use relative URLs
+    if (env.VITE_API_URL !== undefined && env.VITE_API_URL !== null) {
+      apiBaseUrl = trimTrailingSlash(env.VITE_API_URL);
+    }
+    if (env.VITE_SIGNALR_URL?.trim()) {
+      const hub = `${trimTrailingSlash(env.VITE_SIGNALR_URL)}/hub`;
+      if (isBlockedMixedContent(hub)) {
+        logger.warn("[config] Skipping insecure VITE_SIGNALR_URL on HTTPS page:", hub);
+      } else {
+        signalRHubUrl = hub;
+      }
+    }
+  }
+
+  return {
+    apiBaseUrl,
+    signalRHubUrl: signalRHubUrl ?? `${apiBaseUrl}/api/hub`,
+    santaAgentId: env.VITE_SANTA_AGENT_ID || "santa",
+    elfAgentId: env.VITE_ELF_AGENT_ID || "elf",
+    polling: {
+      drasiInsightsIntervalMs: POLLING_CONFIG.DRASI_INSIGHTS_INTERVAL_MS,
+      notificationPollIntervalMs: POLLING_CONFIG.NOTIFICATION_POLL_INTERVAL_MS,
+      sseRetryDelayMs: POLLING_CONFIG.SSE_RETRY_DELAY_MS,
+      maxConsecutiveFailures: POLLING_CONFIG.MAX_CONSECUTIVE_FAILURES,
+    },
+    mockBackend: readMockQueryFlag() ?? env.VITE_MOCK_API === "true",
+  };
+}
+
+let current: RuntimeConfig = resolveStaticConfig();
+
+/**
+ * Fetch /config.json and layer it over the build-time configuration.
+ * Never rejects: a missing or malformed file leaves the static configuration in place.
+ */
+export async function loadRuntimeConfig(): Promise<RuntimeConfig> {
+  try {
+    const res = await fetch(CONFIG_FILE_URL, {
+      cache: "no-store",
+      signal: AbortSignal.timeout(CONFIG_FILE_TIMEOUT_MS),
+    });
+    // Dev servers answer unknown paths with index.html, so check the content type too
+    const contentType = res.headers.get("content-type") || "";
+    if (res.ok && contentType.includes("json")) {
+      const parsed = RuntimeConfigFileSchema.safeParse(await res.json());
+      if (parsed.success) {
+        const file = parsed.data;
+        const apiBaseUrl =
+          file.apiBaseUrl !== undefined ? trimTrailingSlash(file.apiBaseUrl) : current.apiBaseUrl;
+        let signalRHubUrl = current.signalRHubUrl;
+        if (file.signalRHubUrl && !isBlockedMixedContent(file.signalRHubUrl)) {
+          signalRHubUrl = file.signalRHubUrl;
+        } else if (file.apiBaseUrl !== undefined && signalRHubUrl === `${current.apiBaseUrl}/api/hub`) {
+          // The hub follows a relocated API unless it was configured separately
+          signalRHubUrl = `${apiBaseUrl}/api/hub`;
+        }
+        current = {
+          apiBaseUrl,
+          signalRHubUrl,
+          santaAgentId: file.santaAgentId ?? current.santaAgentId,
+          elfAgentId: file.elfAgentId ?? current.elfAgentId,
+          polling: { ...current.polling, ...file.polling },
+          // An explicit ?mock= in the page URL beats the deployed file
+          mockBackend: readMockQueryFlag() ?? file.mockBackend ?? current.mockBackend,
+        };
+      } else {
+        logger.warn("[config] Ignoring invalid config.json:", parsed.error.issues);
+      }
+    }
+  } catch (err) {
+    logger.debug("[config] No runtime config.json loaded:", err);
+  }
+
+  logger.info("[config] API base:", current.apiBaseUrl || "(empty/relative)");
+  logger.info("[config] SignalR hub:", current.signalRHubUrl);
+  if (current.mockBackend) logger.info("[config] Mock backend enabled");
+  return current;
+}
+
+export function getRuntimeConfig(): RuntimeConfig {
+  return current;
+}
+
+// Resolve an /api/* path against the configured base (relative when same-origin)
+export function apiUrl(path: string): string {
+  return `${current.apiBaseUrl}${path}`;
+}
+
+// Absolute form for clients that cannot take relative URLs (e.g. AG-UI HttpAgent)
+export function absoluteApiUrl(path: string): string {
+  const url = apiUrl(path);
+  if (/^https?:\/\//i.test(url)) return url;
+  if (typeof window !== "undefined" && window.location?.origin) {
+    return `${window.location.origin}${url}`;
+  }
+  return url;
+}
@@ -0,0 +1,44 @@
+// Sample children and gifts shared by the demo data generator and the mock backend
+
+export interface DemoItem {
+  name: string;
+  category: string;
+  budget: number;
+}
+
+export const DEMO_ITEMS: DemoItem[] = [
+  { name: '🎮 PlayStation 5', category: 'Electronics', budget: 500 },
+  { name: '🚴 Mountain Bike', category: 'Sports', budget: 350 },
+  { name: '🎨 Art Supply Kit', category: 'Creative', budget: 75 },
+  { name: '📚 Book Collection', category: 'Books', budget: 100 },
+  { name: '🎸 Electric Guitar', category: 'Music', budget: 400 },
+  { name: '🧸 Giant Teddy Bear', category: 'Toys', budget: 50 },
+  { name: '⚽ Soccer Ball', category: 'Sports', budget: 30 },
+  { name: '🎮 Nintendo Switch', category: 'Electronics', budget: 300 },
+  { name: '🎭 Theater Tickets', category: 'Entertainment', budget: 120 },
+  { name: '🎿 Ski Equipment', category: 'Sports', budget: 600 },
+];
+
+export const DEMO_CHILDREN = [
+  'child-emma-2015',
+  'child-noah-2014',
+  'child-sophia-2013',
+  'child-liam-2016',
+  'child-olivia-2015',
+  'child-demo-01',
+  'child-demo-02',
+  'child-demo-03',
+];
+
+/**
+ * Name and age encoded in a demo child id,
+ * e.g. "child-emma-2015" -> { name: "Emma", age: <years since 2015> }.
+ */
+export function describeDemoChild(childId: string): { name?: string; age?: number } {
+  const match = childId.match(/child-(\w+)-(\d{4})/);
+  if (!match) return {};
+  return {
+    name: match[1].charAt(0).toUpperCase() + match[1].slice(1),
+    age: new Date().getFullYear() - parseInt(match[2]),
+  };
+}
@@ -2,5 +2,5 @@ export const POLLING_CONFIG = {
   DRASI_INSIGHTS_INTERVAL_MS: 30000,
   MAX_CONSECUTIVE_FAILURES: 5,
   SSE_RETRY_DELAY_MS: 5000,
-  NOTIFICATION_POLL_INTERVAL_MS: 30000,
+  NOTIFICATION_POLL_INTERVAL_MS: 15000,
 } as const;
@@ -0,0 +1,265 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { cancelAgentRun, runAgentWithPrompt, submitAgentToolResult, type AgentConversation } from "../agentClient";
+import { getChatThreads } from "../api/chatThreads";
+import { templateReplies } from "../api/promptTemplates";
+import { defineFrontendTool } from "../utils/frontendTools";
+import { useAgentChat } from "./useAgentChat";
+
+vi.mock("../agentClient", () => ({
+  runAgentWithPrompt: vi.fn(),
+  submitAgentToolResult: vi.fn(),
+  cancelAgentRun: vi.fn(),
+}));
+
+type Handlers = { onEvent: (ev: any) => void; onFinished: () => void };
+
+const runMock = vi.mocked(runAgentWithPrompt);
+const submitMock = vi.mocked(submitAgentToolResult);
+const cancelMock = vi.mocked(cancelAgentRun);
+const close = vi.fn();
+
+function lastRun() {
+  const [agentId, conversation, handlers] = runMock.mock.calls[runMock.mock.calls.length - 1];
+  return { agentId, conversation: conversation as AgentConversation, handlers: handlers as Handlers };
+}
+
+function reply(text: string) {
+  const { handlers } = lastRun();
+  act(() => {
+    handlers.onEvent({ type: "TEXT_MESSAGE_CONTENT", delta: text });
+    handlers.onEvent({ type: "RUN_FINISHED", result: { status: "succeeded" } });
+    handlers.onFinished();
+  });
+}
+
+describe("useAgentChat", () => {
+  beforeEach(() => {
+    runMock.mockReset();
+    runMock.mockReturnValue({ runId: "run-1", threadId: "thread-1", close });
+    close.mockClear();
+    submitMock.mockReset();
+    submitMock.mockResolvedValue(undefined);
+    cancelMock.mockReset();
+    cancelMock.mockResolvedValue(true);
+  });
+
+  it("resends the thread history on follow-up turns", () => {
+    const { result } = renderHook(() => useAgentChat("santa-history", undefined, "child-ada"));
+
+    act(() => result.current.start("What is trending?"));
+    const first = lastRun().conversation;
+    reply("Kites are trending.");
+    expect(result.current.status).toBe("done");
+
+    act(() => result.current.start("And for Ada?"));
+    const second = lastRun().conversation;
+
+    expect(second.threadId).toBe(first.threadId);
+    expect(second.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "What is trending?"],
+      ["assistant", "Kites are trending."],
+      ["user", "And for Ada?"],
+    ]);
+    expect(result.current.thread?.title).toBe("What is trending?");
+  });
+
+  it("sends the enriched prompt for the current turn only", () => {
+    const { result } = renderHook(() => useAgentChat("elf-prompt", undefined, "child-bo"));
+
+    act(() => result.current.start("Suggest gifts", { prompt: "Suggest gifts\n\nDRASI: kites" }));
+    expect(lastRun().conversation.messages[0].content).toBe("Suggest gifts\n\nDRASI: kites");
+    reply("A kite.");
+
+    act(() => result.current.start("Cheaper?"));
+    expect(lastRun().conversation.messages[0].content).toBe("Suggest gifts");
+    expect(result.current.messages[0].content).toBe("Suggest gifts");
+  });
+
+  it("records the template version a prompt was sent from, to compare replies", () => {
+    const { result } = renderHook(() => useAgentChat("elf-templates", undefined, "child-fay"));
+    const ref = { key: "elf-gift-options", version: 2 };
+
+    act(() => result.current.start("Propose 3 gift options for child-fay", { template: ref }));
+    reply("| Gift | Price |");
+    expect(result.current.messages[0].template).toEqual(ref);
+    expect(lastRun().conversation.messages[0]).not.toHaveProperty("template");
+
+    const [found] = templateReplies(getChatThreads(), ref);
+    expect(found.question.content).toBe("Propose 3 gift options for child-fay");
+    expect(found.reply?.content).toBe("| Gift | Price |");
+    expect(templateReplies(getChatThreads(), { ...ref, version: 1 })).toEqual([]);
+  });
+
+  it("stores tool calls and results and keeps cancelled replies out of later runs", async () => {
+    const { result } = renderHook(() => useAgentChat("elf-tools", undefined, "child-cy"));
+
+    act(() => result.current.start("Check the wishlist"));
+    act(() => {
+      const { handlers } = lastRun();
+      handlers.onEvent({ type: "TOOL_CALL_START", toolCallId: "call-1", toolCallName: "GetChildWishlistItems" });
+      handlers.onEvent({ type: "TOOL_CALL_ARGS", toolCallId: "call-1", delta: "{\"childId\":" });
+      handlers.onEvent({ type: "TOOL_CALL_ARGS", toolCallId: "call-1", delta: "\"child-cy\"}" });
+      handlers.onEvent({ type: "TOOL_CALL_END", toolCallId: "call-1" });
+      handlers.onEvent({ type: "TOOL_CALL_RESULT", toolCallId: "call-1", messageId: "tool-1", content: "[\"Kite\"]" });
+      handlers.onEvent({ type: "TOOL_CALL_START", toolCallId: "call-2", toolCallName: "FindInactiveChildren" });
+      handlers.onEvent({ type: "TEXT_MESSAGE_CONTENT", delta: "Half an ans" });
+    });
+    // Published on the next animation frame
+    expect(result.current.transcript).toBe("");
+    await waitFor(() => expect(result.current.transcript).toBe("Half an ans"));
+    expect(result.current.toolCalls.map((c) => [c.name, c.status])).toEqual([
+      ["GetChildWishlistItems", "done"],
+      ["FindInactiveChildren", "running"],
+    ]);
+    await act(async () => result.current.cancel());
+    expect(cancelMock).toHaveBeenCalledWith("elf-tools", "run-1", "thread-1");
+    expect(result.current.status).toBe("cancelling");
+
+    act(() => {
+      const { handlers } = lastRun();
+      handlers.onEvent({ type: "RUN_FINISHED", result: { status: "cancelled" } });
+      handlers.onFinished();
+    });
+    expect(result.current.status).toBe("idle");
+    expect(result.current.messages.map((m) => [m.role, m.toolName ?? null, m.outcome ?? null])).toEqual([
+      ["user", null, null],
+      ["assistant", null, "cancelled"],
+      ["tool", "GetChildWishlistItems", null],
+    ]);
+    expect(result.current.messages[1].toolCalls).toMatchObject([
+      { id: "call-1", args: "{\"childId\":\"child-cy\"}", result: "[\"Kite\"]", status: "done" },
+      { id: "call-2", status: "error", error: "Cancelled" },
+    ]);
+
+    act(() => result.current.start("Try again"));
+    expect(lastRun().conversation.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "Check the wishlist"],
+      ["user", "Try again"],
+    ]);
+  });
+
+  it("ends a cancelled run locally when the backend no longer knows it", async () => {
+    cancelMock.mockResolvedValue(false);
+    const { result } = renderHook(() => useAgentChat("elf-gone", undefined, "child-dee"));
+
+    act(() => result.current.start("Anything new?"));
+    act(() => lastRun().handlers.onEvent({ type: "TEXT_MESSAGE_CONTENT", delta: "Let me" }));
+    await act(async () => result.current.cancel());
+
+    expect(close).toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
+    expect(result.current.messages.map((m) => [m.role, m.outcome ?? null])).toEqual([
+      ["user", null],
+      ["assistant", "cancelled"],
+    ]);
+  });
+
+  it("keeps reasoning out of the reply and reports run errors", () => {
+    const { result } = renderHook(() => useAgentChat("elf-reasoning", undefined, "child-eve"));
+
+    act(() => result.current.start("Plan the route"));
+    act(() => {
+      const { handlers } = lastRun();
+      handlers.onEvent({ type: "THINKING_START" });
+      handlers.onEvent({ type: "THINKING_TEXT_MESSAGE_CONTENT", delta: "Which sleigh is free?" });
+    });
+    expect(result.current.thinking).toBe(true);
+    expect(result.current.transcript).toBe("");
+
+    act(() => {
+      const { handlers } = lastRun();
+      handlers.onEvent({ type: "THINKING_END" });
+      handlers.onEvent({ type: "TEXT_MESSAGE_CONTENT", delta: "Route A" });
+      handlers.onEvent({ type: "RUN_ERROR", message: "Quota exceeded" });
+      handlers.onFinished();
+    });
+    expect(result.current.thinking).toBe(false);
+    expect(result.current.status).toBe("error");
+    expect(result.current.messages[1]).toMatchObject({ content: "Route A\n\n❌ Quota exceeded", outcome: "error" });
+  });
+
+  it("replays completed tool calls with the assistant message that made them", () => {
+    const { result } = renderHook(() => useAgentChat("elf-replay", undefined, "child-fay"));
+
+    act(() => result.current.start("Any duplicates?"));
+    act(() => {
+      const { handlers } = lastRun();
+      handlers.onEvent({ type: "TOOL_CALL_START", toolCallId: "call-9", toolCallName: "FindChildrenWithDuplicateWishlists" });
+      handlers.onEvent({ type: "TOOL_CALL_ARGS", toolCallId: "call-9", delta: "{}" });
+      handlers.onEvent({ type: "TOOL_CALL_END", toolCallId: "call-9" });
+      handlers.onEvent({ type: "TOOL_CALL_RESULT", toolCallId: "call-9", messageId: "tool-9", content: "none" });
+    });
+    reply("No duplicates.");
+
+    act(() => result.current.start("Thanks"));
+    const sent = lastRun().conversation.messages;
+    expect(sent.map((m) => m.role)).toEqual(["user", "assistant", "tool", "user"]);
+    expect(sent[1].toolCalls).toEqual([
+      { id: "call-9", type: "function", function: { name: "FindChildrenWithDuplicateWishlists", arguments: "{}" } },
+    ]);
+    expect(sent[2]).toMatchObject({ toolCallId: "call-9", content: "none" });
+  });
+
+  it("offers frontend tools and answers calls to them", async () => {
+    const focusChild = vi.fn();
+    const tools = [
+      defineFrontendTool({
+        name: "focus_child",
+        description: "Focus a child",
+        args: z.object({ childId: z.string() }),
+        execute: ({ childId }) => {
+          focusChild(childId);
+          return { focusedChildId: childId };
+        },
+      }),
+    ];
+    const { result } = renderHook(() => useAgentChat("santa-tools", undefined, "", tools));
+
+    act(() => result.current.start("Show me child-gus"));
+    expect(lastRun().conversation.tools?.map((t) => t.name)).toEqual(["focus_child"]);
+    act(() => {
+      const { handlers } = lastRun();
+      handlers.onEvent({ type: "TOOL_CALL_START", toolCallId: "call-f", toolCallName: "focus_child" });
+      handlers.onEvent({ type: "TOOL_CALL_ARGS", toolCallId: "call-f", delta: "{\"childId\":\"child-gus\"}" });
+      // A server tool: left to the backend
+      handlers.onEvent({ type: "TOOL_CALL_START", toolCallId: "call-s", toolCallName: "FindInactiveChildren" });
+      handlers.onEvent({ type: "TOOL_CALL_END", toolCallId: "call-s" });
+      handlers.onEvent({ type: "TOOL_CALL_END", toolCallId: "call-f" });
+    });
+
+    await waitFor(() => expect(submitMock).toHaveBeenCalledTimes(1));
+    expect(focusChild).toHaveBeenCalledWith("child-gus");
+    expect(submitMock).toHaveBeenCalledWith("santa-tools", "run-1", "call-f", "{\"focusedChildId\":\"child-gus\"}");
+  });
+
+  it("keeps threads per child and lets you start, switch and delete them", async () => {
+    const { result, rerender } = renderHook(({ childId }) => useAgentChat("santa-threads", undefined, childId), {
+      initialProps: { childId: "child-dee" },
+    });
+
+    act(() => result.current.start("First question"));
+    reply("First answer");
+    act(() => result.current.newThread());
+    expect(result.current.thread).toBeNull();
+    act(() => result.current.start("Second question"));
+    const secondThreadId = lastRun().conversation.threadId;
+    expect(lastRun().conversation.messages).toHaveLength(1);
+    reply("Second answer");
+    expect(result.current.threads.map((t) => t.title)).toEqual(["Second question", "First question"]);
+
+    rerender({ childId: "child-eve" });
+    expect(result.current.threads).toEqual([]);
+    expect(result.current.messages).toEqual([]);
+
+    rerender({ childId: "child-dee" });
+    const first = result.current.threads[1];
+    act(() => result.current.selectThread(first.id));
+    expect(result.current.messages.map((m) => m.content)).toEqual(["First question", "First answer"]);
+
+    await act(() => result.current.deleteThread(first.id));
+    expect(result.current.threads.map((t) => t.id)).toEqual([secondThreadId]);
+    expect(result.current.thread?.id).toBe(secondThreadId);
+  });
+});
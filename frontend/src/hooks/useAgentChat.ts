@@ -1,5 +1,23 @@
-import { useCallback, useRef, useState } from "react";
-import { runAgentWithPrompt } from "../agentClient";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { runAgentWithPrompt, submitAgentToolResult, type AgentMessage, type AgentRunHandle } from "../agentClient";
+import {
+  createChatThread,
+  deleteChatThread,
+  getChatThreads,
+  loadChatThreads,
+  newChatId,
+  saveChatThread,
+  subscribeChatThreads,
+  threadsFor,
+  titleFor,
+  type ChatMessage,
+  type ChatThread,
+} from "../api/chatThreads";
+import type { TemplateRef } from "../api/promptTemplates";
+import { requestCancellation } from "../api/runCancellation";
+import { createEventBuffer, createTranscriptStore } from "../utils/frameBuffer";
+import { answerFrontendToolCall, toolDefinition, type FrontendTool } from "../utils/frontendTools";
+import { abortToolCalls, reduceToolCalls, type ToolCall } from "../utils/toolCalls";
 
 export type ChatEvent = {
   type: string;
@@ -7,67 +25,301 @@ export type ChatEvent = {
   delta?: string;
 };
 
-export function useAgentChat(agentId: string, drasiContext?: any) {
-  const [status, setStatus] = useState<"idle" | "running" | "done" | "error">(
-    "idle"
-  );
-  const [transcript, setTranscript] = useState<string>("");
-  const [events, setEvents] = useState<ChatEvent[]>([]);
-  const runRef = useRef<{ close: () => void } | null>(null);
+export type ChatStatus = "idle" | "running" | "cancelling" | "done" | "error";
+
+export interface StartOptions {
+  /**
+   * What the agent receives for this turn when it differs from what the user
+   * typed (e.g. the task wrapped in Drasi context). The thread keeps the typed
+   * text, so later turns do not resend stale context.
+   */
+  prompt?: string;
+  /** The template version the text came from, recorded to compare replies across versions */
+  template?: TemplateRef;
+}
+
+// Protocol events that never carry reply text
+const NON_TEXT_EVENTS = new Set([
+  "RUN_STARTED",
+  "STEP_STARTED",
+  "STEP_FINISHED",
+  "STATE_SNAPSHOT",
+  "STATE_DELTA",
+  "MESSAGES_SNAPSHOT",
+  "ACTIVITY_SNAPSHOT",
+  "ACTIVITY_DELTA",
+  "RAW",
+  "CUSTOM",
+]);
+
+const isReasoningEvent = (type: unknown) => typeof type === "string" && /^(THINKING|REASONING)_/.test(type);
+
+// undefined: follow the most recent thread; null: a new thread not saved yet
+type Selection = { scope: string; threadId: string | null | undefined };
+
+// Only completed turns are replayed; failed or cancelled replies (and the
+// results of tools they called) would mislead the agent
+function toAgentMessages(messages: ChatMessage[]): AgentMessage[] {
+  const dropped = new Set(messages.filter((m) => m.outcome).flatMap((m) => m.toolCalls?.map((c) => c.id) ?? []));
+  return messages
+    .filter((m) => !m.outcome && !(m.toolCallId && dropped.has(m.toolCallId)))
+    .map((m) => ({
+      id: m.id,
+      role: m.role,
+      content: m.content,
+      ...(m.toolCallId ? { toolCallId: m.toolCallId } : {}),
+      ...(m.toolCalls?.length
+        ? {
+            toolCalls: m.toolCalls.map((c) => ({
+              id: c.id,
+              type: "function" as const,
+              function: { name: c.name, arguments: c.args },
+            })),
+          }
+        : {}),
+    }));
+}
+
+/**
+ * Threaded chat with one agent about one focused child. Each run sends the
+ * selected thread's history and appends the reply (and any tool results) to
+ * it; threads persist per agent and child. Calls to the given frontend tools
+ * run in the browser and their results are posted back to the waiting run.
+ * cancel() stops the run on the server; the reply is kept as cancelled once
+ * the stream confirms it. `thinking` is true while the agent streams
+ * reasoning, which is not part of the reply. Events, reply text and tool
+ * calls are published once per animation frame rather than per token.
+ */
+export function useAgentChat(agentId: string, drasiContext?: any, childId = "", tools: FrontendTool[] = []) {
+  const [status, setStatus] = useState<ChatStatus>("idle");
+  const [thinking, setThinking] = useState(false);
+  const [buffers] = useState(() => ({ events: createEventBuffer<ChatEvent>(), transcript: createTranscriptStore() }));
+  const events = useSyncExternalStore(buffers.events.subscribe, buffers.events.getSnapshot);
+  const transcript = useSyncExternalStore(buffers.transcript.subscribe, buffers.transcript.getSnapshot);
+  // Tool calls of the current (or last) run, rebuilt from its events and
+  // published with them
+  const [toolCalls, setToolCalls] = useState<ToolCall[]>([]);
+  const callsRef = useRef<ToolCall[]>([]);
+  const runRef = useRef<AgentRunHandle | null>(null);
+  // Set while a cancel waits for the stream to confirm it
+  const confirmCancelRef = useRef<(() => void) | null>(null);
+  const finishRef = useRef<((outcome?: ChatMessage["outcome"]) => void) | null>(null);
+
+  const scope = `${agentId}|${childId}`;
+  const allThreads = useSyncExternalStore(subscribeChatThreads, getChatThreads);
+  const threads = useMemo(() => threadsFor(allThreads, agentId, childId), [allThreads, agentId, childId]);
+  const [selection, setSelection] = useState<Selection>({ scope, threadId: undefined });
+  const selectedId = selection.scope === scope ? selection.threadId : undefined;
+  const thread: ChatThread | null =
+    selectedId === null ? null : threads.find((t) => t.id === selectedId) ?? threads[0] ?? null;
+  const threadRef = useRef(thread);
+  threadRef.current = thread;
+  const toolsRef = useRef(tools);
+  toolsRef.current = tools;
+
+  useEffect(() => {
+    void loadChatThreads();
+  }, []);
+
+  useEffect(() => buffers.events.subscribe(() => setToolCalls(callsRef.current)), [buffers]);
 
   const start = useCallback(
-    (prompt: string) => {
+    (text: string, options: StartOptions = {}) => {
+      if (finishRef.current) return;
+      const now = Date.now();
+      const base = threadRef.current ?? createChatThread(agentId, childId);
+      const question: ChatMessage = {
+        id: newChatId(),
+        role: "user",
+        content: text,
+        ...(options.template ? { template: options.template } : {}),
+        createdAt: now,
+      };
+      const asked: ChatThread = { ...base, messages: [...base.messages, question], updatedAt: now };
+      asked.title = titleFor(asked);
+      void saveChatThread(asked);
+      setSelection({ scope, threadId: asked.id });
+
+      const outgoing = toAgentMessages(asked.messages);
+      if (options.prompt) outgoing[outgoing.length - 1] = { ...outgoing[outgoing.length - 1], content: options.prompt };
+
+      const frontendTools = toolsRef.current;
       setStatus("running");
-      setTranscript("");
-      setEvents([]);
-      runRef.current = runAgentWithPrompt(
+      setThinking(false);
+      buffers.events.clear();
+      buffers.transcript.clear();
+      callsRef.current = [];
+      setToolCalls([]);
+      let reply = "";
+      let failed = false;
+      let calls: ToolCall[] = [];
+      const toolResults: ChatMessage[] = [];
+
+      // Runs once, whether the run finishes, errors or is cancelled
+      const finish = (outcome?: ChatMessage["outcome"]) => {
+        if (finishRef.current !== finish) return;
+        finishRef.current = null;
+        setThinking(false);
+        confirmCancelRef.current?.();
+        confirmCancelRef.current = null;
+        if (outcome === "cancelled") {
+          calls = abortToolCalls(calls, "Cancelled");
+          callsRef.current = calls;
+        }
+        buffers.events.flush();
+        buffers.transcript.flush();
+        setToolCalls(calls);
+        const finalOutcome = outcome ?? (failed ? "error" : undefined);
+        // Tool messages follow the assistant message that called them, as in AG-UI
+        const answer: ChatMessage[] = reply.trim() || calls.length > 0
+          ? [{
+              id: newChatId(),
+              role: "assistant",
+              content: reply.trim(),
+              ...(calls.length > 0 ? { toolCalls: calls } : {}),
+              outcome: finalOutcome,
+              createdAt: Date.now(),
+            }]
+          : [];
+        // The thread may have been deleted while the agent was answering
+        const latest = getChatThreads().find((t) => t.id === asked.id);
+        if (latest) {
+          void saveChatThread({ ...latest, messages: [...latest.messages, ...answer, ...toolResults], updatedAt: Date.now() });
+        }
+      };
+      finishRef.current = finish;
+
+      const append = (text: string) => {
+        reply += text;
+        buffers.transcript.append(text);
+        setThinking(false);
+      };
+
+      const run = runAgentWithPrompt(
         agentId,
-        prompt,
+        { threadId: asked.id, messages: outgoing, tools: frontendTools.map(toolDefinition) },
         {
           onEvent: (ev: any) => {
-            setEvents((prev) => [...prev, ev]);
-            
-            // Handle ERROR events
-            if (ev.type === "ERROR") {
+            buffers.events.append(ev);
+            calls = reduceToolCalls(calls, ev);
+            callsRef.current = calls;
+
+            // Arguments are complete: run the frontend tool and answer the call
+            if (ev.type === "TOOL_CALL_END" && ev.toolCallId) {
+              const call = calls.find((c) => c.id === ev.toolCallId);
+              if (call) {
+                answerFrontendToolCall(frontendTools, call, (toolCallId, content) =>
+                  submitAgentToolResult(agentId, run.runId, toolCallId, content)
+                );
+              }
+              return;
+            }
+
+            if (isReasoningEvent(ev.type)) {
+              setThinking(ev.type !== "THINKING_END" && ev.type !== "REASONING_END");
+              return;
+            }
+
+            // From the server, or standing in for a failed stream
+            if (ev.type === "RUN_ERROR") {
+              failed = true;
+              const errorMsg = ev.message || "Unknown error occurred";
+              append(`\n\n❌ ${errorMsg}`);
+              buffers.transcript.flush();
               setStatus("error");
-              const errorMsg = ev.delta || ev.error || ev.message || "Unknown error occurred";
-              setTranscript((prev) => prev + `\n\n❌ ${errorMsg}`);
               return;
             }
-            
+
+            // The server confirmed a cancel
+            if (ev.type === "RUN_FINISHED" && ev.result?.status === "cancelled") {
+              finish("cancelled");
+              setStatus("idle");
+              return;
+            }
+
             // Handle RUN_FINISHED with error status
             if (ev.type === "RUN_FINISHED" && ev.result?.status === "failed") {
-              setStatus("error");
+              failed = true;
               const errorMsg = ev.result.error || "Agent execution failed";
-              if (!transcript.includes(errorMsg)) {
-                setTranscript((prev) => prev + `\n\n❌ Error: ${errorMsg}`);
-              }
+              if (!reply.includes(errorMsg)) append(`\n\n❌ Error: ${errorMsg}`);
+              buffers.transcript.flush();
+              setStatus("error");
+              return;
+            }
+
+            // Tool results also become tool messages, so the next turn can refer to them
+            if (ev.type === "TOOL_CALL_RESULT" && ev.toolCallId) {
+              const call = calls.find((c) => c.id === ev.toolCallId);
+              toolResults.push({
+                id: ev.messageId ?? newChatId(),
+                role: "tool",
+                content: call?.result ?? String(ev.content ?? ""),
+                toolCallId: ev.toolCallId,
+                toolName: call?.name,
+                createdAt: Date.now(),
+              });
               return;
             }
-            
+            // Arguments stream as TOOL_CALL_ARGS deltas; they are not reply text
+            if (typeof ev.type === "string" && ev.type.startsWith("TOOL_CALL_")) return;
+            if (NON_TEXT_EVENTS.has(ev.type)) return;
+
             const text =
               ev.delta ||
               ev.text ||
               (typeof ev.data === "string" ? ev.data : "");
-            if (text) setTranscript((prev) => prev + text);
+            if (typeof text === "string" && text) append(text);
           },
           onFinished: () => {
+            // A stream that ends while cancelling was cancelled, confirmed or not
+            finish(confirmCancelRef.current ? "cancelled" : undefined);
             // Only set to "done" if not already in error state
-            setStatus((current) => current === "error" ? "error" : "done");
+            setStatus((current) => current === "error" ? "error" : current === "running" ? "done" : current === "cancelling" ? "idle" : current);
           },
         },
         drasiContext
       ); // Pass Drasi context
+      runRef.current = run;
     },
-    [agentId, drasiContext]
+    [agentId, childId, drasiContext, scope, buffers]
   );
 
   const cancel = useCallback(() => {
-    try {
-      runRef.current?.close();
-    } catch {}
-    setStatus("idle");
-  }, []);
+    const run = runRef.current;
+    const finish = finishRef.current;
+    if (!run || !finish || confirmCancelRef.current) return;
+    setStatus("cancelling");
+    confirmCancelRef.current = requestCancellation(agentId, run, () => {
+      confirmCancelRef.current = null;
+      if (finishRef.current !== finish) return;
+      finish("cancelled");
+      setStatus("idle");
+    });
+  }, [agentId]);
+
+  const newThread = useCallback(() => setSelection({ scope, threadId: null }), [scope]);
+  const selectThread = useCallback((threadId: string) => setSelection({ scope, threadId }), [scope]);
+  const deleteThread = useCallback(
+    (threadId: string) => {
+      if (threadRef.current?.id === threadId) setSelection({ scope, threadId: undefined });
+      return deleteChatThread(threadId);
+    },
+    [scope]
+  );
 
-  return { status, transcript, events, start, cancel };
+  return {
+    status,
+    thinking,
+    transcript,
+    events,
+    toolCalls,
+    start,
+    cancel,
+    threads,
+    thread,
+    messages: thread?.messages ?? [],
+    newThread,
+    selectThread,
+    deleteThread,
+  };
 }
@@ -0,0 +1,338 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { cancelAgentRun, runAgent, submitAgentToolResult } from "../agentClient";
+import { getAgentRuns, type AgentRunRecord } from "../api/runHistory";
+import { defineFrontendTool } from "../utils/frontendTools";
+import { mapRaw, useAgentRun } from "./useAgentRun";
+
+vi.mock("../agentClient", () => ({
+  runAgent: vi.fn(),
+  cancelAgentRun: vi.fn(),
+  submitAgentToolResult: vi.fn(),
+}));
+
+describe("mapRaw", () => {
+  it("maps run lifecycle events", () => {
+    expect(mapRaw({ type: "RUN_STARTED", runId: "r1", threadId: "t1" })).toMatchObject({
+      phase: "run",
+      kind: "started",
+      runId: "r1",
+      threadId: "t1",
+    });
+    expect(
+      mapRaw({ type: "RUN_FINISHED", runId: "r1", threadId: "t1", result: { status: "cancelled" } })
+    ).toMatchObject({ phase: "run", kind: "finished", status: "cancelled" });
+    expect(mapRaw({ type: "RUN_ERROR", message: "Boom", code: "agent_error" })).toMatchObject({
+      phase: "run",
+      kind: "error",
+      status: "failed",
+      error: "Boom",
+    });
+  });
+
+  it("maps text message events and defaults a missing runId", () => {
+    expect(mapRaw({ type: "TEXT_MESSAGE_START", messageId: "m1" })).toMatchObject({
+      phase: "message",
+      kind: "started",
+      runId: "unknown",
+      messageId: "m1",
+    });
+    expect(mapRaw({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "Ho" })).toMatchObject({
+      phase: "message",
+      kind: "delta",
+      deltaText: "Ho",
+    });
+    expect(mapRaw({ type: "TEXT_MESSAGE_END", messageId: "m1" })).toMatchObject({
+      phase: "message",
+      kind: "end",
+    });
+  });
+
+  it("maps shared-state prediction events", () => {
+    expect(
+      mapRaw({ type: "STATE_UPDATE_DELTA", runId: "r1", field: "recommendationDraft", delta: "Bi" })
+    ).toMatchObject({ phase: "state", kind: "delta", field: "recommendationDraft", deltaText: "Bi" });
+    expect(mapRaw({ type: "STATE_UPDATE_PREDICT_START", runId: "r1" })?.kind).toBe("predict-start");
+    expect(mapRaw({ type: "STATE_UPDATE_COMPLETE", runId: "r1" })?.kind).toBe("predict-complete");
+  });
+
+  it("maps AG-UI state snapshots and deltas", () => {
+    expect(mapRaw({ type: "STATE_SNAPSHOT", snapshot: {} })).toMatchObject({ phase: "state", kind: "snapshot" });
+    expect(mapRaw({ type: "STATE_DELTA", delta: [] })).toMatchObject({ phase: "state", kind: "patch" });
+  });
+
+  it("maps tool call events", () => {
+    expect(
+      mapRaw({ type: "TOOL_CALL_START", runId: "r1", toolCallId: "c1", toolName: "GetTrendingItems" })
+    ).toMatchObject({ phase: "tool", kind: "tool-start", toolCallId: "c1", toolName: "GetTrendingItems" });
+    expect(mapRaw({ type: "TOOL_CALL_OUTPUT_DELTA", toolCallId: "c1", delta: "{}" })).toMatchObject({
+      kind: "tool-delta",
+      deltaText: "{}",
+    });
+    expect(mapRaw({ type: "TOOL_CALL_END", toolCallId: "c1" })?.kind).toBe("tool-end");
+  });
+
+  it("maps sub-agent steps", () => {
+    expect(mapRaw({ type: "STEP_STARTED", stepName: "profile-elf" })).toMatchObject({
+      phase: "step",
+      kind: "step-start",
+      stepName: "profile-elf",
+    });
+    expect(mapRaw({ type: "STEP_FINISHED", stepName: "profile-elf" })?.kind).toBe("step-end");
+  });
+
+  it("maps reasoning events under either name", () => {
+    expect(mapRaw({ type: "THINKING_START" })).toMatchObject({ phase: "reasoning", kind: "started" });
+    expect(mapRaw({ type: "THINKING_TEXT_MESSAGE_CONTENT", delta: "Hmm" })).toMatchObject({
+      phase: "reasoning",
+      kind: "delta",
+      deltaText: "Hmm",
+    });
+    expect(mapRaw({ type: "REASONING_MESSAGE_START", messageId: "r1" })?.kind).toBe("message-start");
+    expect(mapRaw({ type: "REASONING_END", messageId: "r1" })).toMatchObject({ phase: "reasoning", kind: "end" });
+  });
+
+  it("maps chunks, snapshots and custom events", () => {
+    expect(mapRaw({ type: "TEXT_MESSAGE_CHUNK", messageId: "m1", delta: "Ho" })).toMatchObject({
+      phase: "message",
+      kind: "delta",
+      deltaText: "Ho",
+    });
+    expect(mapRaw({ type: "TOOL_CALL_CHUNK", toolCallId: "c1", toolCallName: "CheckInventory", delta: "{" })).toMatchObject({
+      phase: "tool",
+      kind: "tool-args",
+      toolName: "CheckInventory",
+    });
+    expect(mapRaw({ type: "MESSAGES_SNAPSHOT", messages: [] })).toMatchObject({ phase: "message", kind: "snapshot" });
+    expect(mapRaw({ type: "RAW", source: "drasi", event: {} })).toMatchObject({ phase: "custom", kind: "raw", name: "drasi" });
+    expect(mapRaw({ type: "CUSTOM", name: "sleigh-eta", value: 3 })).toMatchObject({ phase: "custom", kind: "custom", name: "sleigh-eta" });
+  });
+
+  it("keeps the raw event for debugging", () => {
+    const raw = { type: "RUN_STARTED", runId: "r1" };
+    expect(mapRaw(raw)?.raw).toBe(raw);
+  });
+
+  it("ignores event types the timeline does not show", () => {
+    expect(mapRaw({ type: "SOMETHING_NEW" })).toBeNull();
+  });
+});
+
+describe("useAgentRun", () => {
+  let emit: (ev: any) => void;
+  let endStream: () => void;
+  const close = vi.fn();
+
+  beforeEach(() => {
+    vi.mocked(runAgent).mockImplementation((_agentId, onEvent, onFinished) => {
+      emit = onEvent;
+      endStream = onFinished;
+      return { runId: "r1", threadId: "t1", close };
+    });
+    close.mockClear();
+    vi.mocked(cancelAgentRun).mockReset();
+    vi.mocked(cancelAgentRun).mockResolvedValue(true);
+  });
+
+  it("accumulates the transcript and finishes on RUN_FINISHED", () => {
+    const { result } = renderHook(() => useAgentRun("santa"));
+    act(() => result.current.start());
+    expect(result.current.status).toBe("running");
+
+    act(() => {
+      emit({ type: "RUN_STARTED", runId: "r1", threadId: "t1" });
+      emit({ type: "TEXT_MESSAGE_START", messageId: "m1" });
+      emit({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "Ho ho " });
+      emit({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "ho" });
+      emit({ type: "NOT_MAPPED" });
+      emit({ type: "RUN_FINISHED", runId: "r1", threadId: "t1", result: { status: "succeeded" } });
+    });
+
+    expect(result.current.transcript).toBe("Ho ho ho");
+    expect(result.current.events).toHaveLength(5);
+    expect(result.current.status).toBe("finished");
+  });
+
+  it("offers frontend tools and answers calls to them with the run id", async () => {
+    vi.mocked(submitAgentToolResult).mockResolvedValue(undefined);
+    const openTab = vi.fn();
+    const tools = [
+      defineFrontendTool({
+        name: "open_tab",
+        description: "Open a tab",
+        args: z.object({ tab: z.string() }),
+        execute: ({ tab }) => {
+          openTab(tab);
+          return { opened: tab };
+        },
+      }),
+    ];
+    const { result } = renderHook(() => useAgentRun("taskforce", undefined, {}, tools));
+    act(() => result.current.start());
+    expect(vi.mocked(runAgent).mock.calls[0][6]?.map((t) => t.name)).toEqual(["open_tab"]);
+
+    act(() => {
+      emit({ type: "TOOL_CALL_START", toolCallId: "call-t", toolCallName: "open_tab" });
+      emit({ type: "TOOL_CALL_ARGS", toolCallId: "call-t", delta: "{\"tab\":\"wishlist\"}" });
+      // A server tool: left to the backend
+      emit({ type: "TOOL_CALL_START", toolCallId: "call-s", toolCallName: "FindInactiveChildren" });
+      emit({ type: "TOOL_CALL_END", toolCallId: "call-s" });
+      emit({ type: "TOOL_CALL_END", toolCallId: "call-t" });
+    });
+
+    await waitFor(() => expect(submitAgentToolResult).toHaveBeenCalledTimes(1));
+    expect(openTab).toHaveBeenCalledWith("wishlist");
+    expect(submitAgentToolResult).toHaveBeenCalledWith("taskforce", "r1", "call-t", "{\"opened\":\"wishlist\"}");
+  });
+
+  it("streams the recommendation draft into shared state", () => {
+    const { result } = renderHook(() => useAgentRun("santa"));
+    act(() => result.current.start());
+    act(() => {
+      emit({ type: "STATE_UPDATE_DELTA", runId: "r1", field: "recommendationDraft", delta: "Mountain " });
+      emit({ type: "STATE_UPDATE_DELTA", runId: "r1", field: "recommendationDraft", delta: "Bike" });
+    });
+    expect(result.current.sharedState.recommendationDraft).toBe("Mountain Bike");
+
+    act(() => emit({ type: "STATE_UPDATE_COMPLETE", runId: "r1", state: { recommendationDraft: "Kite" } }));
+    expect(result.current.sharedState.recommendationDraft).toBe("Kite");
+  });
+
+  it("applies snapshots and patches and sends the user's edits with the next run", () => {
+    const { result } = renderHook(() => useAgentRun("santa", undefined, { childId: "child-1" }));
+    act(() => result.current.start());
+    expect(vi.mocked(runAgent).mock.calls[0][4]).toEqual({ childId: "child-1" });
+
+    act(() => {
+      emit({ type: "STATE_SNAPSHOT", snapshot: { childId: "child-1", recommendations: [], budget: { limit: 100 } } });
+      emit({ type: "STATE_DELTA", delta: [{ op: "add", path: "/recommendations/-", value: { id: "r1", suggestion: "Kite" } }] });
+      emit({ type: "STATE_DELTA", delta: [{ op: "remove", path: "/missing" }] });
+      emit({ type: "RUN_FINISHED", runId: "r1", result: { status: "succeeded" } });
+    });
+    expect(result.current.sharedState.recommendations).toEqual([{ id: "r1", suggestion: "Kite" }]);
+
+    act(() =>
+      result.current.stateStore.update((s) => ({ ...s, recommendations: [{ id: "r1", suggestion: "Red kite", price: 20 }] }))
+    );
+    expect(result.current.stateStore.isEdited()).toBe(true);
+
+    act(() => result.current.start());
+    expect(vi.mocked(runAgent).mock.calls[1][4]).toEqual({
+      childId: "child-1",
+      recommendations: [{ id: "r1", suggestion: "Red kite", price: 20 }],
+      budget: { limit: 100 },
+    });
+  });
+
+  it("records the run with its prompt, context and timed events", () => {
+    const { result } = renderHook(() => useAgentRun("santa", { insights: { trending: [] } }, { childId: "child-7" }));
+    act(() => result.current.start({ prompt: " Why a kite? " }));
+    expect(vi.mocked(runAgent).mock.calls[0][5]).toBe("Why a kite?");
+
+    act(() => {
+      emit({ type: "RUN_STARTED", runId: "r1", threadId: "t1" });
+      emit({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "Because" });
+      emit({ type: "RUN_FINISHED", runId: "r1", result: { status: "succeeded" } });
+    });
+
+    const [run] = getAgentRuns();
+    expect(run).toMatchObject({
+      agentId: "santa",
+      childId: "child-7",
+      prompt: "Why a kite?",
+      drasiContext: { insights: { trending: [] } },
+      initialState: { childId: "child-7" },
+      status: "succeeded",
+    });
+    expect(run.events.map((e) => e.event.kind)).toEqual(["started", "delta", "finished"]);
+    expect(run.endedAt).toBeGreaterThanOrEqual(run.startedAt);
+  });
+
+  it("replays a recorded run at the requested speed without calling the agent", () => {
+    vi.useFakeTimers();
+    try {
+      const run: AgentRunRecord = {
+        id: "run-1",
+        agentId: "santa",
+        childId: "",
+        prompt: "",
+        drasiContext: null,
+        initialState: {},
+        events: [
+          { at: 0, event: mapRaw({ type: "STATE_SNAPSHOT", snapshot: { budget: { limit: 40 } } })! },
+          { at: 1000, event: mapRaw({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "Ho" })! },
+          { at: 2000, event: mapRaw({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: " ho" })! },
+        ],
+        startedAt: 0,
+        endedAt: 3000,
+        status: "cancelled",
+      };
+      const { result } = renderHook(() => useAgentRun("santa"));
+      act(() => result.current.replay(run, 2));
+      expect(result.current.replaying).toBe(true);
+
+      act(() => vi.advanceTimersByTime(500));
+      // Deltas show on the next animation frame
+      expect(result.current.transcript).toBe("");
+      act(() => vi.advanceTimersToNextFrame());
+      expect(result.current.transcript).toBe("Ho");
+      expect(result.current.sharedState.budget).toEqual({ limit: 40 });
+
+      act(() => vi.advanceTimersByTime(1000));
+      expect(result.current.transcript).toBe("Ho ho");
+      expect(result.current.status).toBe("cancelled");
+      expect(runAgent).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("cancels the run on the backend and waits for the stream to confirm", async () => {
+    const { result } = renderHook(() => useAgentRun("santa"));
+    act(() => result.current.start());
+    await act(async () => result.current.cancel());
+
+    expect(cancelAgentRun).toHaveBeenCalledWith("santa", "r1", "t1");
+    expect(result.current.status).toBe("cancelling");
+    expect(close).not.toHaveBeenCalled();
+
+    act(() => emit({ type: "RUN_FINISHED", runId: "r1", threadId: "t1", result: { status: "cancelled" } }));
+    expect(result.current.status).toBe("cancelled");
+    expect(getAgentRuns()[0]).toMatchObject({ agentId: "santa", status: "cancelled" });
+  });
+
+  it("ends the run locally when the backend no longer knows it", async () => {
+    vi.mocked(cancelAgentRun).mockResolvedValue(false);
+    const { result } = renderHook(() => useAgentRun("santa"));
+    act(() => result.current.start());
+    await act(async () => result.current.cancel());
+
+    expect(close).toHaveBeenCalled();
+    expect(result.current.status).toBe("cancelled");
+  });
+
+  it("fails the run on RUN_ERROR", () => {
+    const { result } = renderHook(() => useAgentRun("santa"));
+    act(() => result.current.start());
+    act(() => emit({ type: "RUN_ERROR", runId: "r1", message: "Boom" }));
+    expect(result.current.status).toBe("failed");
+    expect(getAgentRuns()[0]).toMatchObject({ status: "failed" });
+  });
+
+  it("fails the run when the stream ends without RUN_FINISHED, and can start again", () => {
+    const { result } = renderHook(() => useAgentRun("santa"));
+    act(() => result.current.start({ prompt: "Dropped" }));
+    act(() => {
+      emit({ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "Ho" });
+      endStream();
+    });
+    expect(result.current.status).toBe("failed");
+    expect(result.current.transcript).toBe("Ho");
+    expect(getAgentRuns()[0]).toMatchObject({ prompt: "Dropped", status: "failed" });
+
+    act(() => result.current.start());
+    expect(result.current.status).toBe("running");
+    expect(runAgent).toHaveBeenCalledTimes(2);
+  });
+});
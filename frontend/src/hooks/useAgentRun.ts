@@ -1,18 +1,42 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import { cancelAgentRun, runAgent } from "../agentClient";
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { runAgent, submitAgentToolResult, type AgentRunHandle } from "../agentClient";
+import { createAgentStateStore, type AgentSharedState, type AgentStateStore } from "../api/agentState";
+import {
+  saveAgentRun,
+  snapshotOf,
+  type AgentRunRecord,
+  type RecordedRunStatus,
+} from "../api/runHistory";
+import { requestCancellation } from "../api/runCancellation";
+import { createEventBuffer, createTranscriptStore } from "../utils/frameBuffer";
+import { answerFrontendToolCall, toolDefinition, type FrontendTool } from "../utils/frontendTools";
+import { reduceToolCalls, type ToolCall } from "../utils/toolCalls";
+import { useAgentState } from "./useAgentState";
 
 export interface NormalizedRunEvent {
-  phase: "run" | "message" | "state" | "tool";
+  phase: "run" | "step" | "message" | "reasoning" | "state" | "tool" | "custom";
   kind:
     | "started"
     | "delta"
     | "end"
+    | "snapshot"
+    | "message-start"
+    | "message-end"
     | "finished"
+    | "error"
     | "predict-start"
     | "predict-complete"
+    | "patch"
+    | "step-start"
+    | "step-end"
     | "tool-start"
+    | "tool-args"
     | "tool-delta"
-    | "tool-end";
+    | "tool-end"
+    | "tool-result"
+    | "raw"
+    | "custom"
+    | "activity";
   runId: string;
   threadId?: string;
   messageId?: string;
@@ -21,14 +45,28 @@ export interface NormalizedRunEvent {
   field?: string;
   toolCallId?: string;
   toolName?: string;
+  /** Sub-agent step, for STEP_STARTED / STEP_FINISHED */
+  stepName?: string;
+  /** Why the run failed, for RUN_ERROR (and RUN_FINISHED "failed") */
+  error?: string;
+  /** CUSTOM event name, RAW event source or ACTIVITY type */
+  name?: string;
+  /** When the event arrived (or the server's timestamp), in ms since the epoch */
+  receivedAt?: number;
   raw?: any;
 }
 
-interface SharedState {
-  recommendationDraft?: string;
+/**
+ * Map a raw AG-UI event to the run timeline shape; null for types outside the
+ * protocol. Reasoning comes as THINKING_* or, in newer servers, REASONING_*.
+ */
+export function mapRaw(ev: any): NormalizedRunEvent | null {
+  const mapped = mapEvent(ev);
+  if (mapped) mapped.receivedAt = typeof ev.timestamp === "number" ? ev.timestamp : Date.now();
+  return mapped;
 }
 
-function mapRaw(ev: any): NormalizedRunEvent | null {
+function mapEvent(ev: any): NormalizedRunEvent | null {
   switch (ev.type) {
     case "RUN_STARTED":
       return {
@@ -64,6 +102,40 @@ function mapRaw(ev: any): NormalizedRunEvent | null {
         threadId: ev.threadId,
         raw: ev,
       };
+    case "STATE_SNAPSHOT":
+      return {
+        phase: "state",
+        kind: "snapshot",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        raw: ev,
+      };
+    case "STATE_DELTA":
+      return {
+        phase: "state",
+        kind: "patch",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        raw: ev,
+      };
+    case "STEP_STARTED":
+      return {
+        phase: "step",
+        kind: "step-start",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        stepName: ev.stepName,
+        raw: ev,
+      };
+    case "STEP_FINISHED":
+      return {
+        phase: "step",
+        kind: "step-end",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        stepName: ev.stepName,
+        raw: ev,
+      };
     case "TOOL_CALL_START":
       return {
         phase: "tool",
@@ -71,7 +143,17 @@ function mapRaw(ev: any): NormalizedRunEvent | null {
         runId: ev.runId,
         threadId: ev.threadId,
         toolCallId: ev.toolCallId,
-        toolName: ev.toolName,
+        toolName: ev.toolCallName ?? ev.toolName,
+        raw: ev,
+      };
+    case "TOOL_CALL_ARGS":
+      return {
+        phase: "tool",
+        kind: "tool-args",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        toolCallId: ev.toolCallId,
+        deltaText: ev.delta,
         raw: ev,
       };
     case "TOOL_CALL_OUTPUT_DELTA":
@@ -93,6 +175,15 @@ function mapRaw(ev: any): NormalizedRunEvent | null {
         toolCallId: ev.toolCallId,
         raw: ev,
       };
+    case "TOOL_CALL_RESULT":
+      return {
+        phase: "tool",
+        kind: "tool-result",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        toolCallId: ev.toolCallId,
+        raw: ev,
+      };
     case "TEXT_MESSAGE_START":
       return {
         phase: "message",
@@ -125,6 +216,118 @@ function mapRaw(ev: any): NormalizedRunEvent | null {
         runId: ev.runId,
         threadId: ev.threadId,
         status: ev.result?.status,
+        error: ev.result?.status === "failed" ? ev.result.error ?? "Agent execution failed" : undefined,
+        raw: ev,
+      };
+    // ERROR is what the backend sent before it used RUN_ERROR
+    case "RUN_ERROR":
+    case "ERROR":
+      return {
+        phase: "run",
+        kind: "error",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        status: "failed",
+        error: ev.message ?? ev.error ?? "Unknown error",
+        raw: ev,
+      };
+    case "TEXT_MESSAGE_CHUNK":
+      return {
+        phase: "message",
+        kind: "delta",
+        runId: ev.runId ?? "unknown",
+        messageId: ev.messageId,
+        deltaText: ev.delta,
+        raw: ev,
+      };
+    case "MESSAGES_SNAPSHOT":
+      return {
+        phase: "message",
+        kind: "snapshot",
+        runId: ev.runId ?? "unknown",
+        raw: ev,
+      };
+    case "THINKING_START":
+    case "REASONING_START":
+      return {
+        phase: "reasoning",
+        kind: "started",
+        runId: ev.runId ?? "unknown",
+        messageId: ev.messageId,
+        raw: ev,
+      };
+    case "THINKING_TEXT_MESSAGE_START":
+    case "REASONING_MESSAGE_START":
+      return {
+        phase: "reasoning",
+        kind: "message-start",
+        runId: ev.runId ?? "unknown",
+        messageId: ev.messageId,
+        raw: ev,
+      };
+    case "THINKING_TEXT_MESSAGE_CONTENT":
+    case "REASONING_MESSAGE_CONTENT":
+      return {
+        phase: "reasoning",
+        kind: "delta",
+        runId: ev.runId ?? "unknown",
+        messageId: ev.messageId,
+        deltaText: ev.delta,
+        raw: ev,
+      };
+    case "THINKING_TEXT_MESSAGE_END":
+    case "REASONING_MESSAGE_END":
+      return {
+        phase: "reasoning",
+        kind: "message-end",
+        runId: ev.runId ?? "unknown",
+        messageId: ev.messageId,
+        raw: ev,
+      };
+    case "THINKING_END":
+    case "REASONING_END":
+      return {
+        phase: "reasoning",
+        kind: "end",
+        runId: ev.runId ?? "unknown",
+        messageId: ev.messageId,
+        raw: ev,
+      };
+    case "TOOL_CALL_CHUNK":
+      return {
+        phase: "tool",
+        kind: "tool-args",
+        runId: ev.runId,
+        threadId: ev.threadId,
+        toolCallId: ev.toolCallId,
+        toolName: ev.toolCallName,
+        deltaText: ev.delta,
+        raw: ev,
+      };
+    case "RAW":
+      return {
+        phase: "custom",
+        kind: "raw",
+        runId: ev.runId ?? "unknown",
+        name: ev.source,
+        raw: ev,
+      };
+    case "CUSTOM":
+      return {
+        phase: "custom",
+        kind: "custom",
+        runId: ev.runId ?? "unknown",
+        name: ev.name,
+        raw: ev,
+      };
+    case "ACTIVITY_SNAPSHOT":
+    case "ACTIVITY_DELTA":
+      return {
+        phase: "custom",
+        kind: "activity",
+        runId: ev.runId ?? "unknown",
+        messageId: ev.messageId,
+        name: ev.activityType,
         raw: ev,
       };
     default:
@@ -132,83 +335,230 @@ function mapRaw(ev: any): NormalizedRunEvent | null {
   }
 }
 
-export function useAgentRun(agentId: string, drasiContext?: any) {
-  const [events, setEvents] = useState<NormalizedRunEvent[]>([]);
-  const [sharedState, setSharedState] = useState<SharedState>({});
-  const [status, setStatus] = useState<
-    "idle" | "running" | "finished" | "cancelled"
-  >("idle");
+export interface StartRunOptions {
+  /** Sent as the user message; the agent's default prompt when empty */
+  prompt?: string;
+  /** The child the run is about, for the run history; defaults to the shared state's childId */
+  childId?: string;
+}
+
+type RunStatus = "idle" | "running" | "cancelling" | "finished" | "failed" | "cancelled";
+
+/** Whether the run has ended: RUN_FINISHED or RUN_ERROR */
+const isRunEnd = (e: NormalizedRunEvent) => e.phase === "run" && (e.kind === "finished" || e.kind === "error");
+
+/** The hook status a run ends in, from how it was recorded (or its final event's status) */
+const endStatus = (status: string | undefined): RunStatus =>
+  status === "cancelled" ? "cancelled" : status === "failed" ? "failed" : "finished";
+
+const recordedStatus = (status: string | undefined): RecordedRunStatus =>
+  status === "failed" || status === "cancelled" ? status : "succeeded";
+
+/**
+ * One agent run at a time with its event timeline and shared state. Each run
+ * gets a fresh state store seeded with the previous run's state, including
+ * the user's edits, which is also what the run sends to the agent. Runs are
+ * recorded to the run history; replay() plays a recorded run back through
+ * the same timeline, transcript and state. Calls to the given frontend tools
+ * run in the browser and their results are posted back to the waiting run,
+ * as in useAgentChat; replays never run them. cancel() asks the server to stop
+ * the run and stays "cancelling" until the stream confirms it. Events and
+ * transcript text are published once per animation frame, so fast token
+ * streams don't re-render per token.
+ */
+export function useAgentRun(
+  agentId: string,
+  drasiContext?: any,
+  initialState: AgentSharedState = {},
+  tools: FrontendTool[] = []
+) {
+  const [buffers] = useState(() => ({
+    events: createEventBuffer<NormalizedRunEvent>(),
+    transcript: createTranscriptStore(),
+  }));
+  const events = useSyncExternalStore(buffers.events.subscribe, buffers.events.getSnapshot);
+  const transcript = useSyncExternalStore(buffers.transcript.subscribe, buffers.transcript.getSnapshot);
+  const [stateStore, setStateStore] = useState(() => createAgentStateStore(initialState));
+  const sharedState = useAgentState(stateStore, (state) => state);
+  const [status, setStatus] = useState<RunStatus>("idle");
+  const [replaying, setReplaying] = useState(false);
   const streamRef = useRef<{ close: () => void } | null>(null);
+  // The live run, for cancelling it on the server
+  const runRef = useRef<AgentRunHandle | null>(null);
+  // Stops waiting for the server to confirm a cancel
+  const confirmCancelRef = useRef<(() => void) | null>(null);
+  // The live run being recorded; null while idle or replaying
+  const recordRef = useRef<AgentRunRecord | null>(null);
+  const toolsRef = useRef(tools);
+  toolsRef.current = tools;
 
-  const start = useCallback(() => {
-    if (status === "running") return;
+  const finishRecording = useCallback((runStatus: RecordedRunStatus) => {
+    const record = recordRef.current;
+    if (!record) return;
+    recordRef.current = null;
+    void saveAgentRun({ ...record, events: [...record.events], endedAt: Date.now(), status: runStatus });
+  }, []);
+
+  const show = (store: AgentStateStore, mapped: NormalizedRunEvent) => {
+    buffers.events.append(mapped);
+    if (mapped.phase === "message" && mapped.deltaText) buffers.transcript.append(mapped.deltaText);
+    if (mapped.phase === "state") store.applyEvent(mapped.raw);
+    if (isRunEnd(mapped)) {
+      flushTimeline();
+      setStatus(endStatus(mapped.status));
+    }
+  };
+
+  // The end of a run shows with everything before it
+  const flushTimeline = () => {
+    buffers.events.flush();
+    buffers.transcript.flush();
+  };
+
+  const clearTimeline = useCallback(() => {
+    buffers.events.clear();
+    buffers.transcript.clear();
+  }, [buffers]);
+
+  const stopWaitingForCancel = () => {
+    confirmCancelRef.current?.();
+    confirmCancelRef.current = null;
+  };
+
+  const start = useCallback((options: StartRunOptions = {}) => {
+    if (status === "running" || status === "cancelling") return;
+    stopWaitingForCancel();
     setStatus("running");
-    setEvents([]);
+    setReplaying(false);
+    clearTimeline();
+    const store = createAgentStateStore(stateStore.getState());
+    setStateStore(store);
+    const prompt = options.prompt?.trim() ?? "";
+    const state = store.getState();
+    const record: AgentRunRecord = {
+      id: crypto.randomUUID(),
+      agentId,
+      childId: options.childId ?? (typeof state.childId === "string" ? state.childId : ""),
+      prompt,
+      drasiContext: snapshotOf(drasiContext),
+      initialState: snapshotOf(state) as AgentSharedState,
+      events: [],
+      startedAt: Date.now(),
+      status: "running",
+    };
+    recordRef.current = record;
+    const frontendTools = toolsRef.current;
+    let calls: ToolCall[] = [];
     const s = runAgent(
       agentId,
       (raw) => {
+        calls = reduceToolCalls(calls, raw);
+        // Arguments are complete: run the frontend tool and answer the call
+        if (raw.type === "TOOL_CALL_END" && raw.toolCallId) {
+          const call = calls.find((c) => c.id === raw.toolCallId);
+          if (call) {
+            answerFrontendToolCall(frontendTools, call, (toolCallId, content) =>
+              submitAgentToolResult(agentId, s.runId, toolCallId, content)
+            );
+          }
+        }
         const mapped = mapRaw(raw);
         if (mapped) {
-          setEvents((prev) => [...prev, mapped]);
-          // Update shared state if we have prediction deltas or final snapshot
-          if (mapped.phase === "state") {
-            if (
-              raw.type === "STATE_UPDATE_DELTA" &&
-              mapped.field === "recommendationDraft"
-            ) {
-              setSharedState((prev) => ({
-                ...prev,
-                recommendationDraft:
-                  (prev.recommendationDraft ?? "") + (mapped.deltaText ?? ""),
-              }));
-            }
-            if (
-              raw.type === "STATE_UPDATE_COMPLETE" &&
-              raw.state?.recommendationDraft
-            ) {
-              setSharedState((prev) => ({
-                ...prev,
-                recommendationDraft: raw.state.recommendationDraft,
-              }));
-            }
+          if (recordRef.current === record) {
+            record.events.push({ at: Date.now() - record.startedAt, event: mapped });
           }
-          if (mapped.kind === "finished") {
-            setStatus(mapped.status === "cancelled" ? "cancelled" : "finished");
+          show(store, mapped);
+          if (isRunEnd(mapped) && recordRef.current === record) {
+            stopWaitingForCancel();
+            finishRecording(recordedStatus(mapped.status));
           }
         }
       },
       () => {
-        /* finished callback already handled in mapping */
+        // The stream ended without RUN_FINISHED or RUN_ERROR: a pending cancel has
+        // still happened, otherwise the run failed
+        if (recordRef.current !== record) return;
+        const cancelled = confirmCancelRef.current !== null;
+        stopWaitingForCancel();
+        finishRecording(cancelled ? "cancelled" : "failed");
+        flushTimeline();
+        setStatus(cancelled ? "cancelled" : "failed");
       },
-      drasiContext
-    ); // Pass Drasi context
+      drasiContext, // Pass Drasi context
+      state,
+      prompt,
+      frontendTools.map(toolDefinition)
+    );
     streamRef.current = s;
-  }, [agentId, status, drasiContext]);
+    runRef.current = s;
+  }, [agentId, status, drasiContext, stateStore, finishRecording, clearTimeline]);
+
+  /** Play a recorded run back at `speed` times its real pace */
+  const replay = useCallback((run: AgentRunRecord, speed = 1) => {
+    streamRef.current?.close();
+    runRef.current = null;
+    stopWaitingForCancel();
+    finishRecording("cancelled");
+    setStatus("running");
+    setReplaying(true);
+    clearTimeline();
+    const store = createAgentStateStore(run.initialState);
+    setStateStore(store);
+    const timers = run.events.map(({ at, event }) => setTimeout(() => show(store, event), at / speed));
+    // Runs recorded without RUN_FINISHED (cancelled, closed tab) still end
+    const end = Math.max(run.endedAt === undefined ? 0 : run.endedAt - run.startedAt, run.events[run.events.length - 1]?.at ?? 0);
+    timers.push(
+      setTimeout(() => {
+        flushTimeline();
+        setStatus((current) => (current === "running" ? endStatus(run.status) : current));
+      }, end / speed)
+    );
+    streamRef.current = { close: () => timers.forEach(clearTimeout) };
+  }, [finishRecording, clearTimeline]);
 
-  const cancel = useCallback(async () => {
+  const cancel = useCallback(() => {
     if (status !== "running") return;
-    try {
-      await cancelAgentRun(agentId);
-    } catch {
-      /* swallow */
-    }
-    try {
+    const run = runRef.current;
+    // Replays have nothing to cancel on the server
+    if (replaying || !run) {
       streamRef.current?.close();
-    } catch {}
-    setStatus("cancelled");
-  }, [agentId, status]);
+      finishRecording("cancelled");
+      flushTimeline();
+      setStatus("cancelled");
+      return;
+    }
+    setStatus("cancelling");
+    confirmCancelRef.current = requestCancellation(agentId, run, () => {
+      confirmCancelRef.current = null;
+      if (runRef.current !== run) return;
+      finishRecording("cancelled");
+      flushTimeline();
+      setStatus("cancelled");
+    });
+  }, [agentId, status, replaying, finishRecording]);
+
+  /** Drop the current run and start over from `state`, e.g. when the run's subject changes */
+  const reset = useCallback((state: AgentSharedState = {}) => {
+    streamRef.current?.close();
+    streamRef.current = null;
+    runRef.current = null;
+    stopWaitingForCancel();
+    finishRecording("cancelled");
+    clearTimeline();
+    setStatus("idle");
+    setReplaying(false);
+    setStateStore(createAgentStateStore(state));
+  }, [finishRecording, clearTimeline]);
 
   useEffect(
     () => () => {
       streamRef.current?.close();
+      confirmCancelRef.current?.();
+      finishRecording("cancelled");
+      clearTimeline();
     },
-    []
+    [finishRecording, clearTimeline]
   );
 
-  const transcript = events
-    .filter((e) => e.phase === "message" && e.deltaText)
-    .map((e) => e.deltaText)
-    .join("");
-
-  return { start, cancel, status, events, transcript, sharedState };
+  return { start, cancel, reset, replay, replaying, status, events, transcript, sharedState, stateStore };
 }
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import type { AgentSharedState, AgentStateStore } from "../api/agentState";
+
+/**
+ * One slice of a run's shared state; re-renders only when that slice changes.
+ * `select` must return a part of the state or a primitive, not a new object.
+ */
+export function useAgentState<T>(store: AgentStateStore, select: (state: AgentSharedState) => T): T {
+  return useSyncExternalStore(store.subscribe, () => select(store.getState()));
+}
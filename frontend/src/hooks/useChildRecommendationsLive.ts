@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { API_URL } from "../agentClient";
+import { apiUrl } from "../config";
 
 interface LiveRecommendation {
   id: string;
@@ -16,7 +16,7 @@ export function useChildRecommendationsLive(childId: string) {
       return;
     }
     const es = new EventSource(
-      `${API_URL}/api/v1/stream/children/${encodeURIComponent(childId)}`
+      apiUrl(`/api/v1/stream/children/${encodeURIComponent(childId)}`)
     );
     es.onmessage = (e) => {
       try {
@@ -0,0 +1,88 @@
+import { useMemo, useRef } from "react";
+import { z } from "zod";
+import { addWishlistItem, updateChildBehavior } from "../agentClient";
+import { CHILD_TABS, ELF_VIEWS, isChildTab, type ChildTab, type ElfViewTab } from "../paths";
+import { defineFrontendTool, type FrontendTool } from "../utils/frontendTools";
+import { highlightTrendingItem } from "./useTrendingHighlight";
+
+/** What the tools need from the dashboard; it owns the URL state */
+export interface DashboardToolActions {
+  /** Focus a child in the Elf view, on the given detail tab (the profile by default) */
+  focusChild: (childId: string, tab?: ChildTab) => void;
+  openTab: (tab: ChildTab | ElfViewTab) => void;
+}
+
+const childId = z.string().trim().min(1).describe("Child id, e.g. child-123");
+
+/**
+ * The frontend tools offered to the Santa and Elf agents. Navigation runs
+ * straight away; anything that writes data asks the user first.
+ */
+export function useDashboardTools(actions: DashboardToolActions): FrontendTool[] {
+  // The tools stay stable while always calling the latest actions
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  return useMemo(
+    () => [
+      defineFrontendTool({
+        name: "focus_child",
+        description: "Focus the dashboard on a child, opening their profile in the Elf view.",
+        args: z.object({ childId }),
+        execute: ({ childId }) => {
+          actionsRef.current.focusChild(childId);
+          return { focusedChildId: childId };
+        },
+      }),
+      defineFrontendTool({
+        name: "open_tab",
+        description: `Open a tab: a tab of the focused child (${CHILD_TABS.join(", ")}) or an Elf view (${ELF_VIEWS.join(", ")}).`,
+        args: z.object({ tab: z.enum([...CHILD_TABS, ...ELF_VIEWS]) }),
+        execute: ({ tab }) => {
+          actionsRef.current.openTab(tab);
+          return { openedTab: tab, kind: isChildTab(tab) ? "child" : "view" };
+        },
+      }),
+      defineFrontendTool({
+        name: "highlight_trending_item",
+        description: "Highlight a wishlist item in the live trending list so the user can spot it.",
+        args: z.object({ item: z.string().trim().min(1).describe("Item name as shown in the trending list") }),
+        execute: ({ item }) => {
+          highlightTrendingItem(item);
+          return { highlighted: item };
+        },
+      }),
+      defineFrontendTool({
+        name: "draft_wishlist_item",
+        description: "Propose a wishlist item for a child. The user reviews the draft and it is only added if they accept.",
+        args: z.object({
+          childId,
+          item: z.string().trim().min(1).max(200).describe("The gift, e.g. a red kite"),
+          notes: z.string().max(500).optional(),
+        }),
+        confirm: ({ childId, item, notes }) =>
+          `The agent drafted a wishlist item for ${childId}:\n\n${item}${notes ? `\n${notes}` : ""}\n\nAdd it to the wishlist?`,
+        execute: async ({ childId, item, notes }) => {
+          const res = await addWishlistItem(childId, { toyName: item, notes });
+          actionsRef.current.focusChild(childId, "wishlist");
+          return { status: "added", itemId: res.wishlistItem.id };
+        },
+      }),
+      defineFrontendTool({
+        name: "confirm_behavior_change",
+        description: "Ask the user to confirm changing a child's naughty/nice status; it is only changed if they accept.",
+        args: z.object({
+          childId,
+          newStatus: z.enum(["Nice", "Naughty", "Unknown"]),
+          reason: z.string().max(500).describe("Why the status should change; shown to the user and kept with the change"),
+        }),
+        confirm: ({ childId, newStatus, reason }) => `Change ${childId} to ${newStatus}?\n\nReason: ${reason}`,
+        execute: async ({ childId, newStatus, reason }) => {
+          const res = await updateChildBehavior(childId, { newStatus, message: reason });
+          return { status: "changed", result: res };
+        },
+      }),
+    ],
+    []
+  );
+}
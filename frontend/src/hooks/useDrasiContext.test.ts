@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { DrasiInsights } from "../types/drasi";
+import { buildDrasiContextString } from "./useDrasiContext";
+
+const insights: DrasiInsights = {
+  trending: [
+    { item: "Bike", frequency: 9 },
+    { item: "Ball", frequency: 5 },
+    { item: "Kite", frequency: 4 },
+    { item: "Yo-yo", frequency: 1 },
+  ],
+  duplicates: [
+    { childId: "child-emma-2015", item: "Bike", count: 3 },
+    { childId: "child-noah-2014", item: "Ball", count: 2 },
+  ],
+  inactiveChildren: [{ childId: "child-demo-03", lastEventDays: 4 }],
+  behaviorChanges: [
+    { childId: "child-emma-2015", oldStatus: "Naughty", newStatus: "Nice", reason: "Did chores" },
+    { childId: "child-noah-2014", oldStatus: "Nice", newStatus: "Naughty" },
+  ],
+  stats: { totalEvents: 42, activeQueries: 4, lastUpdateSeconds: 7 },
+};
+
+describe("buildDrasiContextString", () => {
+  it("reports missing insights", () => {
+    expect(buildDrasiContextString(null)).toBe("DRASI INSIGHTS: Not available");
+  });
+
+  it("lists only the top three trending items", () => {
+    const text = buildDrasiContextString(insights);
+    expect(text).toContain("1. Bike - 9 requests");
+    expect(text).toContain("3. Kite - 4 requests");
+    expect(text).not.toContain("Yo-yo");
+  });
+
+  it("summarises global patterns and metrics without a focus child", () => {
+    const text = buildDrasiContextString(insights);
+    expect(text).toContain("2 children with duplicate requests detected");
+    expect(text).toContain("child-demo-03 (last seen 4 days ago)");
+    expect(text).toContain("2 children with status changes detected");
+    expect(text).toContain("Total events processed: 42");
+    expect(text).toContain("Data freshness: 7s ago");
+    expect(text).not.toContain("DUPLICATE ALERTS FOR CHILD");
+    expect(text).not.toContain("BEHAVIOR STATUS FOR CHILD");
+  });
+
+  it("adds duplicate and behavior sections for the focus child only", () => {
+    const text = buildDrasiContextString(insights, "child-emma-2015");
+    expect(text).toContain("DUPLICATE ALERTS FOR CHILD child-emma-2015:\n   - Bike requested 3 times");
+    expect(text).toContain("BEHAVIOR STATUS FOR CHILD child-emma-2015:");
+    expect(text).toContain("😇 Status changed: Naughty → Nice 📈");
+    expect(text).toContain("Reason: Did chores");
+    expect(text).not.toContain("Ball requested 2 times");
+  });
+
+  it("skips empty sections", () => {
+    const text = buildDrasiContextString({
+      ...insights,
+      trending: [],
+      duplicates: [],
+      inactiveChildren: [],
+      behaviorChanges: [],
+    });
+    expect(text).not.toContain("TRENDING GIFTS");
+    expect(text).not.toContain("INACTIVE CHILDREN");
+    expect(text).toContain("WORKSHOP METRICS");
+  });
+});
@@ -0,0 +1,15 @@
+import { getDrasiInsights } from "../agentClient";
+import { queryKeys } from "../api/queryKeys";
+import { getRuntimeConfig } from "../config";
+import { useQuery } from "./useQuery";
+
+/**
+ * Shared, polled view of /drasi/insights. Every caller reads the same cache
+ * entry, so several panels on one page cost a single request per interval.
+ */
+export function useDrasiInsights(refetchIntervalMs?: number) {
+  return useQuery(queryKeys.drasiInsights(), () => getDrasiInsights(), {
+    refetchIntervalMs:
+      refetchIntervalMs ?? getRuntimeConfig().polling.drasiInsightsIntervalMs,
+  });
+}
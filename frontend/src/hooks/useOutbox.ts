@@ -0,0 +1,11 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { getOutboxEntries, subscribeOutbox } from "../api/outbox";
+
+/** Outbox entries in submission order, optionally limited to one child */
+export function useOutbox(childId?: string) {
+  const entries = useSyncExternalStore(subscribeOutbox, getOutboxEntries);
+  return useMemo(
+    () => (childId ? entries.filter((e) => e.childId === childId) : entries),
+    [entries, childId]
+  );
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import {
+  DEFAULT_FRAMING,
+  getPromptTemplates,
+  loadPromptTemplates,
+  savePromptTemplate,
+  subscribePromptTemplates,
+  type PromptAgent,
+  type PromptTemplate,
+  type TemplateRef,
+} from "../api/promptTemplates";
+
+const framingOf = (template: PromptTemplate | undefined) => template?.framing ?? DEFAULT_FRAMING;
+
+/**
+ * The prompt being written for one agent and the template it started from.
+ * Picking a template copies its text (and framing) into the prompt; once
+ * edited, the prompt no longer counts as that template's, and can be saved
+ * as its next version or as a new template.
+ */
+export function usePromptTemplate(agent: PromptAgent, initialId: string) {
+  const all = useSyncExternalStore(subscribePromptTemplates, getPromptTemplates);
+  const templates = useMemo(() => all.filter((t) => t.agent === agent), [all, agent]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialId);
+  const [text, setText] = useState(() => getPromptTemplates().find((t) => t.id === initialId)?.body ?? "");
+  const [framing, setFraming] = useState(() => framingOf(getPromptTemplates().find((t) => t.id === initialId)));
+
+  useEffect(() => {
+    void loadPromptTemplates();
+  }, []);
+
+  const template = templates.find((t) => t.id === selectedId) ?? null;
+  const edited = template !== null && (text !== template.body || framing !== framingOf(template));
+  const ref: TemplateRef | undefined = template && !edited ? { key: template.key, version: template.version } : undefined;
+
+  /** Start from a template; null for a prompt of your own */
+  const select = useCallback((id: string | null) => {
+    setSelectedId(id);
+    const picked = getPromptTemplates().find((t) => t.id === id);
+    if (picked) {
+      setText(picked.body);
+      setFraming(framingOf(picked));
+    }
+  }, []);
+
+  const save = async (input: { key?: string; name: string }) => {
+    const saved = await savePromptTemplate({
+      ...input,
+      agent,
+      body: text,
+      framing: framing === DEFAULT_FRAMING ? undefined : framing,
+    });
+    setSelectedId(saved.id);
+    return saved;
+  };
+
+  /** Save the prompt as the next version of the template it came from */
+  const saveVersion = () => (template ? save({ key: template.key, name: template.name }) : Promise.resolve(null));
+
+  /** Save the prompt as a template of its own */
+  const saveAs = (name: string) => save({ name });
+
+  /** Empty the prompt, e.g. once it was sent */
+  const clear = useCallback(() => {
+    setSelectedId(null);
+    setText("");
+  }, []);
+
+  return { templates, template, text, setText, framing, setFraming, edited, ref, select, saveVersion, saveAs, clear };
+}
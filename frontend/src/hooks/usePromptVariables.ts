@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { getChildProfile } from "../agentClient";
+import { queryKeys } from "../api/queryKeys";
+import type { DrasiInsights } from "../types/drasi";
+import type { PromptVariables } from "../utils/promptTemplate";
+import { useQuery } from "./useQuery";
+
+/**
+ * Values for prompt template variables: the focused child's id, name and
+ * budget (from their profile) and what is trending in Drasi. Variables
+ * without a value are left out.
+ */
+export function usePromptVariables(childId: string, insights: DrasiInsights | null): PromptVariables {
+  const profileQuery = useQuery(queryKeys.childProfile(childId), () => getChildProfile(childId), {
+    enabled: childId !== "",
+    staleTimeMs: 60_000,
+  });
+  const profile = childId ? profileQuery.data : null;
+
+  return useMemo(() => {
+    const budget = profile?.constraints?.budget;
+    return {
+      childId: childId || undefined,
+      childName: profile?.name ?? undefined,
+      budget: budget == null ? undefined : `$${budget}`,
+      trendingTop3: insights?.trending.slice(0, 3).map((t) => t.item).join(", ") || undefined,
+    };
+  }, [childId, profile, insights]);
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  fetchQuery,
+  getQueryState,
+  hashKey,
+  subscribeQuery,
+  type QueryKey,
+} from "../api/queryCache";
+import { getRuntimeConfig } from "../config";
+
+export interface UseQueryOptions {
+  /** Skip fetching (e.g. until a required param is known) */
+  enabled?: boolean;
+  /** Cached data younger than this is served without a request */
+  staleTimeMs?: number;
+  /** Poll interval; paused while the tab is hidden */
+  refetchIntervalMs?: number;
+}
+
+/**
+ * Subscribe to a cached query. Components asking for the same key share one
+ * request and one result; cached data stays visible while it revalidates.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+) {
+  const { enabled = true, staleTimeMs = 0, refetchIntervalMs } = options;
+  const hash = hashKey(key);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(keyRef.current, listener),
+    [hash]
+  );
+  const state = useSyncExternalStore(subscribe, () =>
+    getQueryState<T>(keyRef.current)
+  );
+
+  const run = useCallback(
+    (stale: number) =>
+      fetchQuery(keyRef.current, () => fetcherRef.current(), {
+        staleTimeMs: stale,
+      }),
+    [hash]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const quiet = (stale: number) => {
+      run(stale).catch(() => {
+        // Failure is recorded on the cache entry and rendered from state
+      });
+    };
+    quiet(staleTimeMs);
+    if (!refetchIntervalMs) return;
+
+    const { maxConsecutiveFailures } = getRuntimeConfig().polling;
+    // Half the interval: skip a tick only when another subscriber refreshed recently
+    const pollStaleMs = refetchIntervalMs / 2;
+    const tick = () => {
+      if (document.hidden) return;
+      if (getQueryState(keyRef.current).failureCount >= maxConsecutiveFailures) return;
+      quiet(pollStaleMs);
+    };
+    const onVisibilityChange = () => {
+      if (!document.hidden) quiet(pollStaleMs);
+    };
+
+    const interval = setInterval(tick, refetchIntervalMs);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [hash, enabled, staleTimeMs, refetchIntervalMs, run]);
+
+  const refetch = useCallback(() => run(0), [run]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    updatedAt: state.updatedAt,
+    isFetching: state.isFetching,
+    /** No data yet and a request is pending (or about to be) */
+    isLoading: state.data === undefined && enabled && state.error == null,
+    refetch,
+  };
+}
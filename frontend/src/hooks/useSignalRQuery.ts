@@ -0,0 +1,177 @@
+import * as signalR from '@microsoft/signalr';
+import React from 'react';
+import { getSharedConnection, registerQueryHandler, unregisterQueryHandler } from '../api/drasiHub';
+import { findDrasiQuery } from '../api/drasiQueries';
+import { logger } from '../utils/logger';
+import {
+  applyQueryChange,
+  CHANGE_HIGHLIGHT_MS,
+  keyByFields,
+  recentChanges,
+  type QueryChangeEvent,
+  type ResultEntry,
+  type RowKeyFn,
+} from '../utils/queryChanges';
+
+/** One change event as it arrived from the hub */
+export interface QueryChangeLogEntry<T = unknown> {
+  seq: number;
+  at: number;
+  event: QueryChangeEvent<T>;
+}
+
+export interface SignalRQueryOptions {
+  /** Keep the last `logLimit` change events, newest first; none are kept by default */
+  logLimit?: number;
+  /** The fields that identify a row; the query's catalog entry's by default, else the whole row */
+  keyFields?: readonly string[];
+}
+
+let nextSeq = 1;
+
+// Run the hub's reload stream for a query into a fresh result set
+function loadSnapshot<T>(conn: signalR.HubConnection, queryId: string, key: RowKeyFn<T>): Promise<Map<string, ResultEntry<T>>> {
+  return new Promise((resolve, reject) => {
+    let rows = new Map<string, ResultEntry<T>>();
+    conn.stream('reload', queryId).subscribe({
+      next: (event: QueryChangeEvent<T>) => {
+        if (event.op === 'r') rows = applyQueryChange(rows, event, key);
+      },
+      complete: () => resolve(rows),
+      error: reject,
+    });
+  });
+}
+
+/**
+ * Live result set of one Drasi continuous query over the shared SignalR
+ * connection: the hub's reload snapshot first, then every change event
+ * applied as it arrives, rows matched by their key fields. reload() fetches
+ * a fresh snapshot on demand.
+ */
+export function useSignalRQuery<T>(queryId: string, sortFn?: (item: T) => number, options: SignalRQueryOptions = {}) {
+  const { logLimit = 0 } = options;
+  const keyFields = options.keyFields ?? findDrasiQuery(queryId)?.keyFields ?? [];
+  const keySignature = keyFields.join('\u0000');
+  // Rebuilt only when the fields change, not for every new options object
+  const key = React.useMemo(() => keyByFields<T>(keyFields), [keySignature]);
+  const [data, setData] = React.useState<Map<string, ResultEntry<T>>>(new Map());
+  const [recent, setRecent] = React.useState<ReadonlySet<string>>(new Set());
+  const [changes, setChanges] = React.useState<QueryChangeLogEntry<T>[]>([]);
+  const [error, setError] = React.useState<unknown>(null);
+  const [connection, setConnection] = React.useState<signalR.HubConnection | null>(null);
+  // The query being shown, null after unmount; reload() drops snapshots of any other
+  const current = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    current.current = queryId;
+    // False once this query is no longer shown
+    let live = true;
+    const active = () => live;
+    setData(new Map());
+    setChanges([]);
+    setError(null);
+
+    const handleUpdate = (event: QueryChangeEvent<T>) => {
+      if (!active()) return;
+
+      try {
+        // Use functional state update to avoid stale closure issue
+        setData(prevData => applyQueryChange(prevData, event, key));
+        if (logLimit > 0) {
+          setChanges(prev => [{ seq: nextSeq++, at: Date.now(), event }, ...prev].slice(0, logLimit));
+        }
+      } catch (err) {
+        logger.error(`[SignalR ${queryId}] Update error:`, err);
+      }
+    };
+
+    const startConnection = async () => {
+      try {
+        const conn = await getSharedConnection();
+        if (!active()) return;
+
+        // Register this query's handler FIRST so we don't miss events
+        registerQueryHandler(queryId, handleUpdate);
+
+        // Set connection immediately so UI shows as connected
+        setConnection(conn);
+
+        // Request initial data via reload stream (async, non-blocking)
+        loadSnapshot<T>(conn, queryId, key)
+          .then((reloadData) => {
+            // Only update if we got data (don't clear existing fallback data)
+            if (active() && reloadData.size > 0) setData(reloadData);
+          })
+          .catch((err) => {
+            logger.error(`[SignalR ${queryId}] Reload error:`, err);
+            if (active()) setError(err);
+          });
+      } catch (err) {
+        logger.error(`[SignalR ${queryId}] Connection error:`, err);
+        if (active()) setError(err);
+      }
+    };
+
+    startConnection();
+
+    return () => {
+      live = false;
+      current.current = null;
+      unregisterQueryHandler(queryId, handleUpdate);
+    };
+  }, [queryId, logLimit, key]);
+
+  /** Replace the result set with a fresh reload snapshot */
+  const reload = React.useCallback(async () => {
+    try {
+      const conn = await getSharedConnection();
+      const rows = await loadSnapshot<T>(conn, queryId, key);
+      if (current.current === queryId) {
+        setData(rows);
+        setError(null);
+      }
+    } catch (err) {
+      logger.error(`[SignalR ${queryId}] Reload error:`, err);
+      if (current.current === queryId) setError(err);
+    }
+  }, [queryId, key]);
+
+  // Rows leave the just-changed set when their window ends
+  const [clock, setClock] = React.useState(0);
+  React.useEffect(() => {
+    const { keys, expiresInMs } = recentChanges(data, Date.now(), CHANGE_HIGHLIGHT_MS);
+    setRecent(keys);
+    if (expiresInMs === null) return;
+    const timer = setTimeout(() => setClock((c) => c + 1), expiresInMs);
+    return () => clearTimeout(timer);
+  }, [data, clock]);
+
+  // Convert map to sorted array
+  const entries = React.useMemo(() => {
+    const arr = Array.from(data.values());
+    if (sortFn) {
+      arr.sort((a, b) => sortFn(a.row) - sortFn(b.row));
+    }
+    return arr;
+  }, [data, sortFn]);
+  const items = React.useMemo(() => entries.map((e) => e.row), [entries]);
+
+  /** When an insert or update last touched the row; undefined for rows as reloaded */
+  const lastChangedAt = React.useCallback((row: T) => data.get(key(row))?.lastChangedAt, [data, key]);
+  /** Whether the row changed within the last CHANGE_HIGHLIGHT_MS */
+  const justChanged = React.useCallback((row: T) => recent.has(key(row)), [recent, key]);
+
+  return {
+    items,
+    entries,
+    /** The key rows are matched by */
+    keyOf: key,
+    lastChangedAt,
+    justChanged,
+    changes,
+    error,
+    reload,
+    connected: connection?.state === signalR.HubConnectionState.Connected,
+  };
+}
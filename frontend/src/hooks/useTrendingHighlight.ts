@@ -0,0 +1,32 @@
+import { useSyncExternalStore } from "react";
+
+// Trending item an agent pointed at (see the highlight_trending_item tool);
+// the live panel outlines it until HIGHLIGHT_MS pass or another is picked.
+const HIGHLIGHT_MS = 15_000;
+
+let highlighted: string | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+function set(item: string | null) {
+  highlighted = item;
+  listeners.forEach((l) => l());
+}
+
+export function highlightTrendingItem(item: string): void {
+  clearTimeout(timer);
+  set(item);
+  timer = setTimeout(() => set(null), HIGHLIGHT_MS);
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** The highlighted trending item, or null */
+export function useTrendingHighlight(): string | null {
+  return useSyncExternalStore(subscribe, () => highlighted);
+}
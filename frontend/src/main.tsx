@@ -1,11 +1,26 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
+import { BrowserRouter } from 'react-router-dom';
 import App from './App';
 import { ErrorBoundary } from './ErrorBoundary';
+import { startOutbox } from './api/outbox';
+import { loadRuntimeConfig } from './config';
 import './styles/theme.css';
 
-createRoot(document.getElementById('root')!).render(
-	<ErrorBoundary>
-		<App />
-	</ErrorBoundary>
-);
+// Resolve runtime config (config.json) before anything reads API or hub URLs
+void loadRuntimeConfig().then(async (config) => {
+	if (config.mockBackend) {
+		// Install before the outbox replays or any component fetches
+		const { installMockBackend } = await import('./mock');
+		installMockBackend();
+	}
+	// Replay submissions left in the outbox by a previous session
+	startOutbox();
+	createRoot(document.getElementById('root')!).render(
+		<ErrorBoundary>
+			<BrowserRouter>
+				<App />
+			</BrowserRouter>
+		</ErrorBoundary>
+	);
+});
@@ -0,0 +1,321 @@
+// AG-UI run endpoint for the mock backend.
+// Streams the same event vocabulary as AgUiEndpoints.cs (RUN_STARTED,
+// THINKING_*, TOOL_CALL_START/ARGS/END/RESULT, TEXT_MESSAGE_START/CONTENT/END,
+// RUN_FINISHED) with canned tool calls and an answer built from the mock
+// Drasi insights, paced so the UI sees a live stream. The taskforce agent
+// answers as profile, recommendation and logistics elves in turn, each in
+// its own STEP_STARTED/STEP_FINISHED, then sums up as the coordinator. Calls to frontend tools
+// (RunAgentInput.tools) wait for the client to post their result, as the
+// backend's do. Runs that send RunAgentInput.state get it back as a
+// STATE_SNAPSHOT, then drafted recommendations and a logistics plan as
+// STATE_DELTA patches; recommendations the user already edited are kept.
+
+import type { AgentSharedState, DraftRecommendation, LogisticsStep } from '../api/agentState';
+import type { JsonPatchOperation } from '../utils/jsonPatch';
+import { ensureChild, getMockInsights, getWishlist, type MockChild } from './db';
+
+const CHUNK_DELAY_MS = 40;
+const WORDS_PER_CHUNK = 3;
+const TOOL_DELAY_MS = 250;
+
+interface MockToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  /** Server tools only; a frontend tool's result comes from the client */
+  result?: unknown;
+  frontend?: boolean;
+}
+
+/** One agent's turn: its reasoning, its tool calls, then its message */
+interface MockSegment {
+  /** Sub-agent step name; the segment is the coordinator's when absent */
+  step?: string;
+  reasoning?: string;
+  toolCalls: MockToolCall[];
+  text: string;
+}
+
+interface MockAnswer {
+  segments: MockSegment[];
+  /** Only for runs that sent state */
+  state?: { snapshot: AgentSharedState; deltas: JsonPatchOperation[][] };
+}
+
+// Active runs keyed by runId, mirroring the backend's cancel endpoint
+const activeRuns = new Map<string, { agentId: string; threadId: string; cancel: () => void }>();
+
+// Frontend tool calls waiting for a result, keyed by "{runId}:{toolCallId}"
+const pendingToolResults = new Map<string, (content: string) => void>();
+
+function composeState(state: AgentSharedState, child: MockChild | null, trending: string[]): MockAnswer['state'] {
+  const kept = Array.isArray(state.recommendations) ? state.recommendations : [];
+  const snapshot: AgentSharedState = {
+    ...state,
+    recommendations: kept,
+    budget: { limit: child?.budget ?? 150, currency: 'USD', ...state.budget },
+    logisticsPlan: [],
+  };
+  const deltas: JsonPatchOperation[][] = [];
+  if (kept.length === 0) {
+    const drafts: DraftRecommendation[] = child
+      ? child.recommendations.map((r) => ({ id: r.id, suggestion: r.suggestion, rationale: r.rationale, price: r.price ?? undefined }))
+      : trending.map((item, i) => ({ id: `trending-${i + 1}`, suggestion: item, rationale: 'Trending in the last hour' }));
+    drafts.forEach((value) => deltas.push([{ op: 'add', path: '/recommendations/-', value }]));
+  }
+  const plan: LogisticsStep[] = [
+    { id: 'pick', title: 'Pick gifts from the workshop stock', status: 'pending' },
+    { id: 'wrap', title: 'Wrap and label', status: 'pending', eta: 'Dec 20' },
+    { id: 'load', title: 'Load the sleigh', status: 'pending', eta: 'Dec 24' },
+  ];
+  deltas.push(
+    plan.map((value) => ({ op: 'add', path: '/logisticsPlan/-', value })),
+    [{ op: 'replace', path: '/logisticsPlan/0/status', value: 'in-progress' }],
+  );
+  return { snapshot, deltas };
+}
+
+function composeAnswer(agentId: string, input: any): MockAnswer {
+  const messages: any[] = Array.isArray(input?.messages) ? input.messages : [];
+  const userTurns = messages.filter((m) => m?.role === 'user' && typeof m.content === 'string').map((m) => m.content as string);
+  const prompt = userTurns[userTurns.length - 1] ?? '';
+  const insights = getMockInsights();
+  const trending = insights.trending.slice(0, 3).map((t) => `${t.item} (${t.frequency})`);
+  // Follow-ups often drop the child id, so fall back to earlier turns of the thread
+  const stateChild = typeof input?.state?.childId === 'string' ? input.state.childId.match(/child-[\w-]+/) : null;
+  const childMatch = [...userTurns].reverse().map((text) => text.match(/child-[\w-]+/)).find(Boolean)
+    ?? agentId.match(/child-[\w-]+/) ?? stateChild;
+  const child = childMatch ? ensureChild(childMatch[0]) : null;
+  const offered = new Set<string>(Array.isArray(input?.tools) ? input.tools.map((t: any) => t?.name) : []);
+  const askedChild = prompt.match(/child-[\w-]+/);
+
+  // Named after the AgentToolLibrary functions the real agents call
+  const profileCalls: MockToolCall[] = [];
+  const insightCalls: MockToolCall[] = [];
+  const profileLines: string[] = [];
+  const insightLines: string[] = [];
+  const closingLines: string[] = [];
+
+  if (askedChild && offered.has('focus_child')) {
+    profileCalls.push({ name: 'focus_child', args: { childId: askedChild[0] }, frontend: true });
+  }
+  if (userTurns.length > 1) {
+    profileLines.push(`Picking up our conversation (${userTurns.length - 1} earlier question${userTurns.length > 2 ? 's' : ''}): "${prompt.slice(0, 80)}"`);
+  }
+  if (child) {
+    const top = child.recommendations[0];
+    const dupes = insights.duplicates.filter((d) => d.childId === child.id);
+    profileLines.push(`Looking at ${child.name} (${child.age ?? 'age unknown'}, ${child.location ?? 'location unknown'}), currently on the ${child.status} list.`);
+    profileCalls.push({
+      name: 'GetChildWishlistItems',
+      args: { childId: child.id },
+      result: getWishlist(child.id).map((e) => ({ item: e.text, category: e.category ?? null })),
+    });
+    if (top) {
+      insightLines.push([
+        `**Top picks** for ${child.name}:`,
+        '',
+        '| Gift | Price | Budget fit | Why |',
+        '|---|---:|---|---|',
+        ...child.recommendations.slice(0, 3).map((r) => `| ${r.suggestion} | ${r.price != null ? `$${r.price}` : '–'} | ${r.budgetFit} | ${r.rationale} |`),
+      ].join('\n'));
+    }
+    insightCalls.push({ name: 'FindChildrenWithDuplicateWishlists', args: { childId: child.id }, result: dupes });
+    if (dupes.length > 0) {
+      insightLines.push(`Heads up: ${dupes.map((d) => `${d.item} was requested ${d.count}x`).join(', ')}.`);
+    }
+  } else {
+    profileLines.push(`Here is the workshop picture from Drasi right now.`);
+  }
+  insightCalls.push({ name: 'QueryTrendingWishlistItems', args: { minFrequency: 1 }, result: insights.trending });
+  if (trending.length > 0) insightLines.push(`Trending in the last hour: ${trending.join(', ')}.`);
+  if (/trend/i.test(prompt) && insights.trending.length > 0 && offered.has('highlight_trending_item')) {
+    insightCalls.push({ name: 'highlight_trending_item', args: { item: insights.trending[0].item }, frontend: true });
+    insightLines.push(`I've highlighted ${insights.trending[0].item} in the live trending list.`);
+  }
+  if (insights.inactiveChildren.length > 0) {
+    closingLines.push(`${insights.inactiveChildren.length} child(ren) have gone quiet for 3+ days; a gentle nudge letter might help.`);
+  }
+
+  const state = typeof input?.state === 'object' && input.state !== null
+    ? composeState(input.state, child, insights.trending.slice(0, 3).map((t) => t.item))
+    : undefined;
+  if (state && state.snapshot.recommendations?.length) {
+    closingLines.push(`I kept the ${state.snapshot.recommendations.length} recommendation(s) in your draft and planned the logistics around them.`);
+  }
+  closingLines.push(`(Mock ${agentId} agent: responses are generated in the browser.)`);
+
+  if (agentId === 'taskforce' && child) {
+    const recs = child.recommendations;
+    const inStock = recs.filter((r) => r.availability?.inStock ?? true);
+    const leadTime = Math.max(0, ...recs.map((r) => r.availability?.leadTimeDays ?? 0));
+    return {
+      segments: [
+        { step: 'profile-elf', reasoning: `Reading ${child.name}'s profile and wishlist.`, toolCalls: profileCalls, text: profileLines.join('\n\n') },
+        {
+          step: 'recommendation-elf',
+          reasoning: 'Weighing the wishlist against what is trending.',
+          toolCalls: insightCalls,
+          text: insightLines.join('\n\n') || 'No standout picks yet.',
+        },
+        {
+          step: 'logistics-elf',
+          reasoning: 'Checking stock and lead times for each pick.',
+          toolCalls: [],
+          text: [
+            `${inStock.length} of ${recs.length} pick(s) are in stock at the North Pole warehouse; the longest lead time is ${leadTime} day(s).`,
+            '### Delivery plan',
+            recs
+              .map((r, i) => `${i + 1}. **${r.suggestion}** ${r.availability?.inStock ?? true ? 'in stock' : 'out of stock'}, ${r.availability?.leadTimeDays ?? 0}-day lead time`)
+              .join('\n'),
+          ].join('\n\n'),
+        },
+        { toolCalls: [], text: [`Taskforce summary for ${child.name}: ${recs[0]?.suggestion ?? 'no pick yet'}.`, ...closingLines].join('\n\n') },
+      ],
+      state,
+    };
+  }
+  return {
+    segments: [{
+      reasoning: 'Checking the wishlists and the latest Drasi insights.',
+      toolCalls: [...profileCalls, ...insightCalls],
+      text: [...profileLines, ...insightLines, ...closingLines].join('\n\n'),
+    }],
+    state,
+  };
+}
+
+export function mockAgentRun(agentId: string, input: any, signal?: AbortSignal | null): Response {
+  const threadId: string = input?.threadId ?? crypto.randomUUID();
+  const runId: string = input?.runId ?? crypto.randomUUID();
+  const answer = composeAnswer(agentId, input);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      // The message being streamed and whether the agent is mid-thought, closed on cancel
+      let openMessageId: string | undefined;
+      let thinking = false;
+      let waitingFor: string | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const send = (payload: object) => {
+        if (!closed) controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      };
+      // Never resolves once the run is closed, which ends the script below
+      const sleep = (ms: number) => new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, ms);
+      });
+      const finish = (status: 'succeeded' | 'cancelled') => {
+        if (closed) return;
+        if (status === 'cancelled' && thinking) {
+          send({ type: 'THINKING_TEXT_MESSAGE_END' });
+          send({ type: 'THINKING_END' });
+        }
+        if (status === 'cancelled' && openMessageId) send({ type: 'TEXT_MESSAGE_END', messageId: openMessageId });
+        send({ type: 'RUN_FINISHED', threadId, runId, result: { status } });
+        closed = true;
+        clearTimeout(timer);
+        activeRuns.delete(runId);
+        if (waitingFor) pendingToolResults.delete(waitingFor);
+        controller.close();
+      };
+      const cancel = () => finish('cancelled');
+
+      activeRuns.set(runId, { agentId, threadId, cancel });
+      signal?.addEventListener('abort', () => {
+        closed = true;
+        clearTimeout(timer);
+        activeRuns.delete(runId);
+        if (waitingFor) pendingToolResults.delete(waitingFor);
+      });
+
+      const callTool = async (call: MockToolCall, messageId: string) => {
+        const toolCallId = crypto.randomUUID();
+        send({ type: 'TOOL_CALL_START', toolCallId, toolCallName: call.name, parentMessageId: messageId });
+        send({ type: 'TOOL_CALL_ARGS', toolCallId, delta: JSON.stringify(call.args) });
+        send({ type: 'TOOL_CALL_END', toolCallId });
+        let content: string;
+        if (call.frontend) {
+          const key = `${runId}:${toolCallId}`;
+          waitingFor = key;
+          content = await new Promise<string>((resolve) => pendingToolResults.set(key, resolve));
+          waitingFor = undefined;
+        } else {
+          await sleep(TOOL_DELAY_MS);
+          content = JSON.stringify(call.result);
+        }
+        send({ type: 'TOOL_CALL_RESULT', messageId: crypto.randomUUID(), toolCallId, content, role: 'tool' });
+      };
+
+      // Reasoning goes out whole, a moment before the agent acts on it
+      const think = async (text: string) => {
+        thinking = true;
+        send({ type: 'THINKING_START' });
+        send({ type: 'THINKING_TEXT_MESSAGE_START' });
+        send({ type: 'THINKING_TEXT_MESSAGE_CONTENT', delta: text });
+        await sleep(TOOL_DELAY_MS);
+        send({ type: 'THINKING_TEXT_MESSAGE_END' });
+        send({ type: 'THINKING_END' });
+        thinking = false;
+      };
+
+      const streamText = async (messageId: string, text: string) => {
+        const words = text.split(/(?<=\s)/);
+        openMessageId = messageId;
+        send({ type: 'TEXT_MESSAGE_START', messageId, role: 'assistant' });
+        for (let index = 0; index < words.length; index += WORDS_PER_CHUNK) {
+          await sleep(CHUNK_DELAY_MS);
+          send({ type: 'TEXT_MESSAGE_CONTENT', messageId, delta: words.slice(index, index + WORDS_PER_CHUNK).join('') });
+        }
+        send({ type: 'TEXT_MESSAGE_END', messageId });
+        openMessageId = undefined;
+      };
+
+      // Each segment: tool calls one per TOOL_DELAY_MS, then the message that
+      // uses them; state deltas go out at the same pace before the last message
+      const run = async () => {
+        send({ type: 'RUN_STARTED', threadId, runId });
+        if (answer.state) send({ type: 'STATE_SNAPSHOT', snapshot: answer.state.snapshot });
+        for (const [i, segment] of answer.segments.entries()) {
+          const messageId = crypto.randomUUID();
+          if (segment.step) send({ type: 'STEP_STARTED', stepName: segment.step });
+          if (segment.reasoning) await think(segment.reasoning);
+          for (const call of segment.toolCalls) await callTool(call, messageId);
+          if (i === answer.segments.length - 1) {
+            for (const delta of answer.state?.deltas ?? []) {
+              send({ type: 'STATE_DELTA', delta });
+              await sleep(TOOL_DELAY_MS);
+            }
+          }
+          await streamText(messageId, segment.text);
+          if (segment.step) send({ type: 'STEP_FINISHED', stepName: segment.step });
+        }
+        finish('succeeded');
+      };
+      void run();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
+
+/** Answer a waiting frontend tool call; false when that run of the agent is not waiting for it */
+export function resolveMockToolCall(agentId: string, runId: string, toolCallId: string, content: string): boolean {
+  const key = `${runId}:${toolCallId}`;
+  const resolve = pendingToolResults.get(key);
+  if (!resolve || activeRuns.get(runId)?.agentId !== agentId) return false;
+  pendingToolResults.delete(key);
+  resolve(content);
+  return true;
+}
+
+/** Cancel one run; false when it is not active or belongs to another agent or thread */
+export function cancelMockAgentRun(agentId: string, runId: string, threadId?: string | null): boolean {
+  const run = activeRuns.get(runId);
+  if (!run || run.agentId !== agentId || (threadId && run.threadId !== threadId)) return false;
+  run.cancel();
+  return true;
+}
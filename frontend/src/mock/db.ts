@@ -0,0 +1,414 @@
+// In-memory data behind the mock backend.
+// Seeded deterministically from the demo children and gifts, mutated by the
+// mock REST routes, and projected into the same rows the Drasi continuous
+// queries produce so the SignalR panels and REST insights agree.
+
+import type { NotificationDto, Recommendation } from '../agentClient';
+import { DEMO_CHILDREN, DEMO_ITEMS, describeDemoChild } from '../constants/demoData';
+
+export type BehaviorStatus = 'Nice' | 'Naughty' | 'Unknown';
+
+export interface MockWishlistEvent {
+  id: string;
+  childId: string;
+  text: string;
+  category: string;
+  budgetEstimate?: number;
+  notes?: string;
+  /** Set once an elf reorders the list; lower is more wanted */
+  priority?: number;
+  /** 'wishlist' or 'behavior-update', as stored in the wishlist container */
+  type: string;
+  statusChange?: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+export interface MockChild {
+  id: string;
+  name: string;
+  // Nullable like ChildProfile: an elf can clear them from the profile form
+  age: number | null;
+  location: string | null;
+  preferences: string[];
+  budget: number | null;
+  status: BehaviorStatus;
+  behaviorSummary: string;
+  recommendations: Recommendation[];
+}
+
+export interface MockBehaviorChange {
+  childId: string;
+  previousStatus: BehaviorStatus;
+  newStatus: BehaviorStatus;
+  reason?: string;
+  changedAt: number;
+}
+
+const SEED = 20251224;
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+const LOCATIONS = ['Reykjavik, IS', 'Wellington, NZ', 'Toronto, CA', 'Oslo, NO', 'Dublin, IE', 'Sapporo, JP'];
+
+// Small seeded PRNG so every mock session starts from the same workshop
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const random = mulberry32(SEED);
+
+export function pick<T>(items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+let idCounter = 0;
+export function mockId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${idCounter}`;
+}
+
+const children = new Map<string, MockChild>();
+const events: MockWishlistEvent[] = [];
+const behaviorChanges: MockBehaviorChange[] = [];
+const notifications: NotificationDto[] = [];
+const listeners = new Set<() => void>();
+const startedAt = Date.now();
+
+function recommendationsFor(child: MockChild): Recommendation[] {
+  const fits = (price: number) => child.budget == null || price <= child.budget;
+  const affordable = DEMO_ITEMS.filter((item) => fits(item.budget));
+  const pool = affordable.length > 0 ? affordable : DEMO_ITEMS;
+  return pool.slice(0, 3).map((item, i) => ({
+    id: `${child.id}-rec-${i + 1}`,
+    childId: child.id,
+    suggestion: item.name,
+    rationale: `${child.name} asked for ${item.category.toLowerCase()} gifts and it fits the ${child.budget ?? 'open'} budget.`,
+    price: item.budget,
+    budgetFit: child.budget == null ? 'unknown' : fits(item.budget) ? 'within' : 'over',
+    availability: { inStock: random() > 0.2, leadTimeDays: 1 + Math.floor(random() * 6) },
+  }));
+}
+
+export function ensureChild(childId: string): MockChild {
+  let child = children.get(childId);
+  if (!child) {
+    const { name, age } = describeDemoChild(childId);
+    child = {
+      id: childId,
+      name: name ?? childId,
+      age: age ?? 6 + Math.floor(random() * 6),
+      location: pick(LOCATIONS),
+      preferences: [],
+      budget: pick([100, 250, 400, 600]),
+      status: 'Unknown',
+      behaviorSummary: 'No behavior letters yet.',
+      recommendations: [],
+    };
+    child.recommendations = recommendationsFor(child);
+    children.set(childId, child);
+  }
+  return child;
+}
+
+function seed() {
+  const now = Date.now();
+  DEMO_CHILDREN.forEach((childId, index) => {
+    const child = ensureChild(childId);
+    // The last demo child has gone quiet, so the inactivity query has a row
+    const inactive = index === DEMO_CHILDREN.length - 1;
+    const count = 2 + Math.floor(random() * 3);
+    for (let i = 0; i < count; i++) {
+      const item = pick(DEMO_ITEMS);
+      events.push({
+        id: mockId('wish'),
+        childId,
+        text: item.name,
+        category: item.category,
+        budgetEstimate: item.budget,
+        type: 'wishlist',
+        createdAt: inactive ? now - 4 * DAY - i * 90 * MINUTE : now - Math.floor(random() * 50 * MINUTE),
+      });
+      if (!child.preferences.includes(item.category)) child.preferences.push(item.category);
+    }
+  });
+  // A couple of children asking twice for the same thing
+  [DEMO_CHILDREN[0], DEMO_CHILDREN[2]].forEach((childId) => {
+    const first = events.find((e) => e.childId === childId)!;
+    events.push({ ...first, id: mockId('wish'), createdAt: now - 5 * MINUTE });
+  });
+  ['Nice', 'Naughty', 'Nice'].forEach((status, i) => {
+    recordBehavior(DEMO_CHILDREN[i + 1], status as BehaviorStatus, 'Seeded demo letter', now - (i + 1) * 12 * MINUTE);
+  });
+  events.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+/** Called after every mutation; the fake hub diffs query rows from here */
+export function subscribeMockDb(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getChildren(): MockChild[] {
+  return [...children.values()];
+}
+
+export function getEvents(): MockWishlistEvent[] {
+  return events;
+}
+
+export function getBehaviorChanges(): MockBehaviorChange[] {
+  return behaviorChanges;
+}
+
+export function getNotifications(): NotificationDto[] {
+  return notifications;
+}
+
+function recordBehavior(childId: string, newStatus: BehaviorStatus, reason: string | undefined, at: number) {
+  const child = ensureChild(childId);
+  behaviorChanges.push({ childId, previousStatus: child.status, newStatus, reason, changedAt: at });
+  child.status = newStatus;
+  child.behaviorSummary = reason ? `${newStatus}: ${reason}` : `Marked ${newStatus}`;
+}
+
+export function addNotification(childId: string, type: string, message: string): NotificationDto {
+  const notification: NotificationDto = {
+    id: mockId('ntf'),
+    childId,
+    type,
+    message,
+    createdAt: new Date().toISOString(),
+    state: 'unread',
+    relatedRecommendationSetId: null,
+  };
+  notifications.unshift(notification);
+  notifications.splice(50);
+  return notification;
+}
+
+export function addWishlistEvent(input: Omit<MockWishlistEvent, 'id' | 'createdAt'>): MockWishlistEvent {
+  const child = ensureChild(input.childId);
+  const event: MockWishlistEvent = { ...input, id: mockId('wish'), createdAt: Date.now() };
+  events.push(event);
+  if (event.type === 'behavior-update' && event.statusChange) {
+    recordBehavior(event.childId, event.statusChange as BehaviorStatus, event.text, event.createdAt);
+    addNotification(event.childId, 'behavior', `${child.name} is now on the ${event.statusChange} list`);
+  } else {
+    if (event.category && !child.preferences.includes(event.category)) child.preferences.push(event.category);
+    addNotification(event.childId, 'wishlist', `${child.name} wished for ${event.text}`);
+  }
+  notify();
+  return event;
+}
+
+/** A child's gift requests in priority order, like WishlistService.ListAsync */
+export function getWishlist(childId: string): MockWishlistEvent[] {
+  return events
+    .filter((e) => e.childId === childId && e.type !== 'behavior-update')
+    .sort((a, b) => (a.priority ?? Infinity) - (b.priority ?? Infinity) || a.createdAt - b.createdAt);
+}
+
+export type MockWishlistEdit = Pick<MockWishlistEvent, 'text' | 'category' | 'budgetEstimate' | 'notes'>;
+
+export function updateWishlistEvent(childId: string, id: string, edit: MockWishlistEdit): MockWishlistEvent | undefined {
+  const event = getWishlist(childId).find((e) => e.id === id);
+  if (!event) return undefined;
+  Object.assign(event, edit, { updatedAt: Date.now() });
+  notify();
+  return event;
+}
+
+export function deleteWishlistEvent(childId: string, id: string): boolean {
+  const index = events.findIndex((e) => e.id === id && e.childId === childId && e.type !== 'behavior-update');
+  if (index < 0) return false;
+  events.splice(index, 1);
+  notify();
+  return true;
+}
+
+/** Returns undefined unless `ids` is exactly the child's current wishlist */
+export function reorderWishlist(childId: string, ids: string[]): MockWishlistEvent[] | undefined {
+  const current = getWishlist(childId);
+  const byId = new Map(current.map((e) => [e.id, e]));
+  if (ids.length !== current.length || new Set(ids).size !== ids.length || ids.some((id) => !byId.has(id))) {
+    return undefined;
+  }
+  ids.forEach((id, priority) => {
+    byId.get(id)!.priority = priority;
+  });
+  notify();
+  return getWishlist(childId);
+}
+
+export type MockProfileEdit = Partial<Pick<MockChild, 'name' | 'age' | 'location' | 'preferences' | 'budget'>>;
+
+export function updateProfile(childId: string, edit: MockProfileEdit): MockChild {
+  const child = ensureChild(childId);
+  Object.assign(child, edit);
+  notify();
+  return child;
+}
+
+export function updateBehavior(childId: string, newStatus: BehaviorStatus, message?: string): MockBehaviorChange {
+  recordBehavior(childId, newStatus, message, Date.now());
+  events.push({
+    id: mockId('wish'),
+    childId,
+    text: message ?? `Status changed to ${newStatus}`,
+    category: 'behavior',
+    type: 'behavior-update',
+    statusChange: newStatus,
+    createdAt: Date.now(),
+  });
+  addNotification(childId, 'behavior', `${ensureChild(childId).name} is now on the ${newStatus} list`);
+  notify();
+  return behaviorChanges[behaviorChanges.length - 1];
+}
+
+// ---------------------------------------------------------------------------
+// Continuous query projections (see drasi/resources/drasi-resources.yaml)
+// ---------------------------------------------------------------------------
+
+export interface MockQuery {
+  /** Fields that identify a row, used to diff snapshots into i/u/d changes */
+  key: (row: any) => string;
+  rows: () => unknown[];
+}
+
+const wishes = () => events.filter((e) => e.type !== 'behavior-update');
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, { first: T; count: number }> {
+  const counts = new Map<string, { first: T; count: number }>();
+  items.forEach((item) => {
+    const k = key(item);
+    const existing = counts.get(k);
+    if (existing) existing.count += 1;
+    else counts.set(k, { first: item, count: 1 });
+  });
+  return counts;
+}
+
+function lastEventByChild(): Map<string, number> {
+  const last = new Map<string, number>();
+  events.forEach((e) => last.set(e.childId, Math.max(last.get(e.childId) ?? 0, e.createdAt)));
+  return last;
+}
+
+export const mockQueries: Record<string, MockQuery> = {
+  'wishlist-updates': {
+    key: (r) => r.id,
+    rows: () =>
+      wishes().map((e) => ({
+        id: e.id,
+        childId: e.childId,
+        schemaVersion: 'v1',
+        text: e.text,
+        category: e.category,
+        budgetEstimate: e.budgetEstimate ?? null,
+        createdAt: new Date(e.createdAt).toISOString(),
+        type: e.type,
+        dedupeKey: e.id,
+        lastChanged: new Date(e.createdAt).toISOString(),
+      })),
+  },
+  'wishlist-trending-1h': {
+    key: (r) => r.item,
+    rows: () => {
+      const since = Date.now() - 60 * MINUTE;
+      return [...countBy(wishes().filter((e) => e.createdAt >= since), (e) => e.text)].map(
+        ([item, { count }]) => ({ item, frequency: count })
+      );
+    },
+  },
+  'wishlist-duplicates-global': {
+    key: (r) => r.item,
+    rows: () =>
+      [...countBy(wishes(), (e) => e.text)]
+        .filter(([, { count }]) => count > 1)
+        .map(([item, { count }]) => ({ item, itemCount: count })),
+  },
+  'wishlist-duplicates-by-child': {
+    key: (r) => `${r.childId}|${r.item}`,
+    rows: () =>
+      [...countBy(wishes(), (e) => `${e.childId}|${e.text}`).values()]
+        .filter(({ count }) => count > 1)
+        .map(({ first, count }) => ({ childId: first.childId, item: first.text, duplicateCount: count })),
+  },
+  'wishlist-inactive-children-3d': {
+    key: (r) => r.childId,
+    rows: () =>
+      [...lastEventByChild()]
+        .filter(([, at]) => at <= Date.now() - 3 * DAY)
+        .map(([childId, at]) => ({
+          childId,
+          lastEvent: new Date(at).toISOString(),
+          daysSinceLastEvent: Math.floor((Date.now() - at) / DAY),
+        })),
+  },
+  'recommendation-trending-30m': {
+    key: (r) => r.suggestion,
+    rows: () => {
+      const since = Date.now() - 30 * MINUTE;
+      return [...countBy(wishes().filter((e) => e.createdAt >= since), (e) => e.text)].map(
+        ([suggestion, { count }]) => ({ suggestion, freq: count })
+      );
+    },
+  },
+  'behavior-status-changes': {
+    key: (r) => `${r.childId}|${r.changedAt}`,
+    rows: () =>
+      behaviorChanges.map((c) => ({
+        childId: c.childId,
+        newStatus: c.newStatus,
+        previousStatus: c.previousStatus,
+        changedAt: new Date(c.changedAt).toISOString(),
+      })),
+  },
+};
+
+export function getQueryRows(queryName: string): unknown[] | undefined {
+  return mockQueries[queryName]?.rows();
+}
+
+export function getMockInsights() {
+  const trending = (mockQueries['wishlist-trending-1h'].rows() as { item: string; frequency: number }[])
+    .sort((a, b) => b.frequency - a.frequency);
+  const duplicates = (mockQueries['wishlist-duplicates-by-child'].rows() as {
+    childId: string;
+    item: string;
+    duplicateCount: number;
+  }[]).map((d) => ({ childId: d.childId, item: d.item, count: d.duplicateCount }));
+  const inactiveChildren = (mockQueries['wishlist-inactive-children-3d'].rows() as {
+    childId: string;
+    daysSinceLastEvent: number;
+  }[]).map((c) => ({ childId: c.childId, lastEventDays: c.daysSinceLastEvent }));
+  const last = events.reduce((max, e) => Math.max(max, e.createdAt), startedAt);
+  return {
+    trending,
+    duplicates,
+    inactiveChildren,
+    behaviorChanges: behaviorChanges
+      .slice(-10)
+      .reverse()
+      .map((c) => ({ childId: c.childId, oldStatus: c.previousStatus, newStatus: c.newStatus, reason: c.reason ?? null })),
+    stats: {
+      totalEvents: events.length,
+      activeQueries: Object.keys(mockQueries).length,
+      lastUpdateSeconds: Math.max(0, Math.round((Date.now() - last) / 1000)),
+    },
+  };
+}
+
+seed();
@@ -0,0 +1,167 @@
+// EventSource stand-in for the mock backend's SSE endpoints.
+// Streams are fed from mock db changes so a wishlist submission shows up in
+// the live panels the same way a Cosmos change feed event would.
+
+import type { NotificationDto } from '../agentClient';
+import { ensureChild, getMockInsights, getNotifications, subscribeMockDb } from './db';
+
+type Feed = (source: MockEventSource, params: Record<string, string>, query: URLSearchParams) => () => void;
+
+const INSIGHTS_HEARTBEAT_MS = 20000;
+const THOUGHT_DELAY_MS = 400;
+
+const feeds: { pattern: RegExp; names: string[]; feed: Feed }[] = [
+  {
+    // useChildRecommendationsLive
+    pattern: /^\/api\/v1\/stream\/children\/([^/]+)$/,
+    names: ['childId'],
+    feed: (source, { childId }) => {
+      const push = () => {
+        const child = ensureChild(childId);
+        source.emit({ type: 'recommendation-update', childId, recommendations: child.recommendations });
+      };
+      push();
+      return subscribeMockDb(push);
+    },
+  },
+  {
+    // NotificationStreamPanel
+    pattern: /^\/api\/v1\/notifications\/stream\/([^/]+)$/,
+    names: ['childId'],
+    feed: (source, { childId }) => {
+      const forChild = () => getNotifications().filter((n) => n.childId === childId);
+      const seen = new Set(forChild().map((n) => n.id));
+      return subscribeMockDb(() => {
+        const fresh = forChild().filter((n) => !seen.has(n.id));
+        fresh.forEach((n) => seen.add(n.id));
+        if (fresh.length > 0) source.emit(fresh.map(toStreamNotification));
+      });
+    },
+  },
+  {
+    // DrasiInsightsPanel live banner
+    pattern: /^\/api\/v1\/drasi\/insights\/stream$/,
+    names: [],
+    feed: (source) => {
+      const push = () => {
+        const top = getMockInsights().trending[0];
+        if (top) source.emit(top);
+      };
+      const heartbeat = setInterval(push, INSIGHTS_HEARTBEAT_MS);
+      const unsubscribe = subscribeMockDb(push);
+      return () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+    },
+  },
+  {
+    // streamRecommendations: StreamingAgentUpdate objects (PascalCase, default
+    // System.Text.Json) followed by a final lowercase "done" marker
+    pattern: /^\/api\/v1\/children\/([^/]+)\/recommendations\/stream$/,
+    names: ['childId'],
+    feed: (source, { childId }, query) => {
+      const child = ensureChild(childId);
+      const status = query.get('status') ?? 'Unknown';
+      const updates: object[] = [
+        { Type: 'thought', Content: `Reviewing ${child.name}'s wishlist and ${status} status...`, AgentName: 'SantaAgent' },
+        { Type: 'progress', Content: 'Checking Drasi trends', AgentName: 'SantaAgent', Metadata: { step: 1, total: 2 } },
+        ...child.recommendations.map((r) => ({
+          Type: 'text-delta',
+          Content: `🎁 ${r.suggestion}: ${r.rationale}\n`,
+          AgentName: 'SantaAgent',
+        })),
+        { Type: 'completed', Content: `${child.recommendations.length} recommendations ready`, AgentName: 'SantaAgent' },
+        { type: 'done' },
+      ];
+      let index = 0;
+      const timer = setInterval(() => {
+        source.emit(updates[index++]);
+        if (index >= updates.length) clearInterval(timer);
+      }, THOUGHT_DELAY_MS);
+      return () => clearInterval(timer);
+    },
+  },
+];
+
+const toStreamNotification = (n: NotificationDto) => ({
+  id: n.id,
+  type: n.type,
+  message: n.message,
+  state: n.state,
+  timestamp: n.createdAt,
+  relatedId: n.relatedRecommendationSetId ?? undefined,
+});
+
+export class MockEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 2;
+
+  readonly url: string;
+  readonly withCredentials = false;
+  readyState: number = MockEventSource.CONNECTING;
+  onopen: ((this: EventSource, ev: Event) => any) | null = null;
+  onmessage: ((this: EventSource, ev: MessageEvent) => any) | null = null;
+  onerror: ((this: EventSource, ev: Event) => any) | null = null;
+  private stop: (() => void) | null = null;
+
+  constructor(url: string) {
+    super();
+    this.url = url;
+    const parsed = new URL(url, window.location.href);
+    const match = feeds
+      .map((f) => ({ f, m: f.pattern.exec(parsed.pathname) }))
+      .find((x) => x.m !== null);
+
+    // Connect asynchronously, after the caller has attached its handlers
+    setTimeout(() => {
+      if (this.readyState === MockEventSource.CLOSED) return;
+      if (!match) {
+        this.readyState = MockEventSource.CLOSED;
+        this.fire('error', new Event('error'));
+        return;
+      }
+      this.readyState = MockEventSource.OPEN;
+      this.fire('open', new Event('open'));
+      const params: Record<string, string> = {};
+      match.f.names.forEach((name, i) => (params[name] = decodeURIComponent(match.m![i + 1])));
+      this.stop = match.f.feed(this, params, parsed.searchParams);
+    }, 0);
+  }
+
+  /** Deliver one `data:` frame */
+  emit(data: unknown): void {
+    if (this.readyState !== MockEventSource.OPEN) return;
+    this.fire('message', new MessageEvent('message', { data: JSON.stringify(data) }));
+  }
+
+  close(): void {
+    this.readyState = MockEventSource.CLOSED;
+    this.stop?.();
+    this.stop = null;
+  }
+
+  private fire(type: 'open' | 'message' | 'error', event: Event) {
+    const handler = type === 'open' ? this.onopen : type === 'message' ? this.onmessage : this.onerror;
+    handler?.call(this as unknown as EventSource, event as MessageEvent);
+    this.dispatchEvent(event);
+  }
+}
+
+/** Route EventSource connections under /api/ to the mock feeds */
+export function installMockEventSource(): void {
+  const NetworkEventSource = window.EventSource;
+  window.EventSource = new Proxy(NetworkEventSource, {
+    construct(target, args: [string | URL, EventSourceInit?]) {
+      const url = String(args[0]);
+      if (new URL(url, window.location.href).pathname.startsWith('/api/')) {
+        return new MockEventSource(url);
+      }
+      return Reflect.construct(target, args);
+    },
+  });
+}
@@ -0,0 +1,108 @@
+// window.fetch interceptor for the mock backend.
+// Requests whose path starts with /api/ are answered by the mock routes with
+// a little latency; everything else (config.json, assets) goes to the network.
+
+import { cancelMockAgentRun, mockAgentRun, resolveMockToolCall } from './agentRun';
+import { MockHttpError, etagOf, matchRoute } from './routes';
+
+const LATENCY_MS = 120;
+const AGENT_RUN = /^\/api\/v1\/agents\/([^/]+)\/run$/;
+const AGENT_CANCEL = /^\/api\/v1\/agents\/([^/]+)\/runs\/([^/]+)$/;
+const AGENT_TOOL_RESULT = /^\/api\/v1\/agents\/([^/]+)\/runs\/([^/]+)\/tool-results\/([^/]+)$/;
+
+// Idempotency-Key -> first response body, like InMemoryIdempotencyStore
+const idempotentReplies = new Map<string, { status: number; body: string }>();
+
+const json = (status: number, body: unknown, contentType = 'application/json') =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: body === undefined ? {} : { 'Content-Type': contentType },
+  });
+
+const problem = (status: number, title: string, detail?: string, errors?: Record<string, string[]>) =>
+  json(status, { type: `https://httpstatuses.io/${status}`, title, status, detail, errors, traceId: `mock-${Date.now()}` }, 'application/problem+json');
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    });
+  });
+}
+
+async function readBody(req: Request): Promise<any> {
+  const text = await req.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function handle(req: Request, url: URL): Promise<Response> {
+  const method = req.method.toUpperCase();
+  const run = AGENT_RUN.exec(url.pathname);
+  if (run && method === 'POST') {
+    return mockAgentRun(decodeURIComponent(run[1]), await readBody(req), req.signal);
+  }
+  const cancel = AGENT_CANCEL.exec(url.pathname);
+  if (cancel && method === 'DELETE') {
+    const [agentId, runId] = [cancel[1], cancel[2]].map(decodeURIComponent);
+    return cancelMockAgentRun(agentId, runId, url.searchParams.get('threadId'))
+      ? json(202, undefined)
+      : problem(404, 'No active run', `${agentId} has no active run ${runId}; it may have finished already.`);
+  }
+  const toolResult = AGENT_TOOL_RESULT.exec(url.pathname);
+  if (toolResult && method === 'POST') {
+    const body = await readBody(req);
+    if (typeof body?.content !== 'string') {
+      return problem(400, 'One or more validation errors occurred.', undefined, { content: ['content is required.'] });
+    }
+    const [agentId, runId, toolCallId] = [toolResult[1], toolResult[2], toolResult[3]].map(decodeURIComponent);
+    return resolveMockToolCall(agentId, runId, toolCallId, body.content)
+      ? json(204, undefined)
+      : problem(404, 'No pending tool call', `Run ${runId} of ${agentId} is not waiting for tool call ${toolCallId}`);
+  }
+
+  const route = matchRoute(method, url.pathname);
+  if (!route) return problem(404, 'Not Found', `No mock route for ${method} ${url.pathname}`);
+
+  const key = req.headers.get('Idempotency-Key');
+  const replay = key ? idempotentReplies.get(key) : undefined;
+  if (replay) {
+    return new Response(replay.body, { status: replay.status, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  try {
+    const result = route.handler({
+      params: route.params,
+      query: url.searchParams,
+      body: await readBody(req),
+      headers: req.headers,
+    });
+    const status = result === undefined ? (method === 'DELETE' ? 204 : 202) : method === 'POST' ? 201 : 200;
+    if (key && result !== undefined) idempotentReplies.set(key, { status, body: JSON.stringify(result) });
+    const response = json(status, result);
+    // Reads and replacements carry an ETag, like the profile endpoints
+    if (status === 200) response.headers.set('ETag', etagOf(result));
+    return response;
+  } catch (err) {
+    if (err instanceof MockHttpError) return problem(err.status, err.title, err.detail, err.errors);
+    return problem(500, 'Mock handler failed', err instanceof Error ? err.message : String(err));
+  }
+}
+
+export function installMockFetch(): void {
+  const networkFetch = window.fetch.bind(window);
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const req = new Request(input, init);
+    const url = new URL(req.url, window.location.href);
+    if (!url.pathname.startsWith('/api/')) return networkFetch(input, init);
+    await delay(LATENCY_MS, req.signal);
+    return handle(req, url);
+  };
+}
@@ -0,0 +1,156 @@
+// Fake SignalR hub connection for the mock backend.
+// Implements the slice of HubConnection the Drasi panels use (on/off, start,
+// stream('reload', queryId), state) and turns mock db mutations into the
+// i/u/d change events the Drasi SignalR reaction sends. A timer adds a random
+// wishlist letter now and then so the dashboards have something to show.
+
+import { HubConnectionState, type HubConnection, type IStreamSubscriber } from '@microsoft/signalr';
+import { DEMO_CHILDREN, DEMO_ITEMS } from '../constants/demoData';
+import { addWishlistEvent, mockQueries, pick, random, subscribeMockDb, updateBehavior } from './db';
+import { logger } from '../utils/logger';
+
+const ACTIVITY_INTERVAL_MS = 8000;
+const BEHAVIOR_SHARE = 0.25;
+
+type Handler = (...args: any[]) => void;
+
+class MockHubConnection {
+  state: HubConnectionState = HubConnectionState.Disconnected;
+  readonly connectionId = 'mock-connection';
+  private handlers = new Map<string, Set<Handler>>();
+  private reconnectedCallbacks: ((connectionId?: string) => void)[] = [];
+  private closeCallbacks: ((error?: Error) => void)[] = [];
+  // Last rows seen per query, keyed by the query's identity fields
+  private snapshots = new Map<string, Map<string, unknown>>();
+  private unsubscribeDb: (() => void) | null = null;
+  private activity: ReturnType<typeof setInterval> | null = null;
+
+  on(method: string, handler: Handler): void {
+    if (!this.handlers.has(method)) this.handlers.set(method, new Set());
+    this.handlers.get(method)!.add(handler);
+    if (mockQueries[method]) {
+      this.snapshot(method);
+      // Same control signal the reaction sends when a query is (re)started
+      setTimeout(() => this.dispatch(method, { op: 'x', payload: { kind: 'running' } }), 0);
+    }
+  }
+
+  off(method: string, handler?: Handler): void {
+    if (handler) this.handlers.get(method)?.delete(handler);
+    else this.handlers.delete(method);
+  }
+
+  onreconnected(callback: (connectionId?: string) => void): void {
+    this.reconnectedCallbacks.push(callback);
+  }
+
+  onreconnecting(): void {
+    // The mock never drops its connection
+  }
+
+  onclose(callback: (error?: Error) => void): void {
+    this.closeCallbacks.push(callback);
+  }
+
+  async start(): Promise<void> {
+    if (this.state === HubConnectionState.Connected) return;
+    this.state = HubConnectionState.Connected;
+    this.unsubscribeDb = subscribeMockDb(() => this.publishChanges());
+    this.activity = setInterval(() => this.simulateActivity(), ACTIVITY_INTERVAL_MS);
+    setTimeout(() => this.dispatch('hub.info', { hub: 'mock', queries: Object.keys(mockQueries) }), 0);
+    logger.info('[mock] SignalR hub connected');
+  }
+
+  async stop(): Promise<void> {
+    this.state = HubConnectionState.Disconnected;
+    this.unsubscribeDb?.();
+    this.unsubscribeDb = null;
+    if (this.activity) clearInterval(this.activity);
+    this.activity = null;
+    this.closeCallbacks.forEach((cb) => cb());
+  }
+
+  stream<T = any>(methodName: string, ...args: any[]) {
+    return {
+      subscribe: (subscriber: IStreamSubscriber<T>) => {
+        let cancelled = false;
+        setTimeout(() => {
+          if (cancelled) return;
+          const query = mockQueries[String(args[0])];
+          if (methodName !== 'reload' || !query) {
+            subscriber.error(new Error(`Mock hub has no stream '${methodName}' for '${args[0]}'`));
+            return;
+          }
+          query.rows().forEach((after) => subscriber.next({ op: 'r', payload: { after } } as T));
+          subscriber.complete();
+        }, 0);
+        return {
+          dispose: () => {
+            cancelled = true;
+          },
+        };
+      },
+    };
+  }
+
+  async invoke(): Promise<void> {
+    // No server methods to call in mock mode
+  }
+
+  async send(): Promise<void> {
+    // No server methods to call in mock mode
+  }
+
+  // Deliver a server-to-client message to everything registered with on()
+  private dispatch(method: string, payload: unknown) {
+    this.handlers.get(method)?.forEach((h) => h(payload));
+  }
+
+  private snapshot(queryId: string): Map<string, unknown> {
+    const query = mockQueries[queryId];
+    const rows = new Map(query.rows().map((row) => [query.key(row), row] as const));
+    this.snapshots.set(queryId, rows);
+    return rows;
+  }
+
+  // Diff every subscribed query against its last snapshot
+  private publishChanges() {
+    this.handlers.forEach((_, queryId) => {
+      if (!mockQueries[queryId]) return;
+      const before = this.snapshots.get(queryId) ?? new Map();
+      const after = this.snapshot(queryId);
+      after.forEach((row, key) => {
+        const previous = before.get(key);
+        if (previous === undefined) {
+          this.dispatch(queryId, { op: 'i', payload: { after: row } });
+        } else if (JSON.stringify(previous) !== JSON.stringify(row)) {
+          this.dispatch(queryId, { op: 'u', payload: { before: previous, after: row } });
+        }
+      });
+      before.forEach((row, key) => {
+        if (!after.has(key)) this.dispatch(queryId, { op: 'd', payload: { before: row } });
+      });
+    });
+  }
+
+  private simulateActivity() {
+    const childId = pick(DEMO_CHILDREN.slice(0, -1));
+    if (random() < BEHAVIOR_SHARE) {
+      updateBehavior(childId, random() > 0.3 ? 'Nice' : 'Naughty', 'Simulated letter from the mock workshop');
+    } else {
+      const item = pick(DEMO_ITEMS);
+      addWishlistEvent({
+        childId,
+        text: item.name,
+        category: item.category,
+        budgetEstimate: item.budget,
+        type: 'wishlist',
+      });
+    }
+  }
+}
+
+/** Stand-in for HubConnectionBuilder().build() when the mock backend is on */
+export function createMockHubConnection(): HubConnection {
+  return new MockHubConnection() as unknown as HubConnection;
+}
@@ -0,0 +1,20 @@
+// In-browser mock backend: serves /api/* REST routes, the SSE streams and the
+// Drasi SignalR hub from seeded demo data so the dashboard runs with no API,
+// Drasi or agents deployed. Enabled via RuntimeConfig.mockBackend (config.ts)
+// and loaded lazily from main.tsx, so it never ships in the normal startup path.
+
+import { logger } from '../utils/logger';
+import { installMockEventSource } from './eventSource';
+import { installMockFetch } from './fetch';
+
+export { createMockHubConnection } from './hub';
+
+let installed = false;
+
+export function installMockBackend(): void {
+  if (installed || typeof window === 'undefined') return;
+  installed = true;
+  installMockFetch();
+  installMockEventSource();
+  logger.info('[mock] Mock backend installed: /api/* is served in the browser');
+}
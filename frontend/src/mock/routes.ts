@@ -0,0 +1,611 @@
+// REST handlers for the mock backend, one per route in api/contract.ts.
+// Handlers return the contract's response type, so a contract change that
+// the mock does not follow fails the type-check instead of the demo.
+
+import { endpoints, type EndpointName, type ResponseOf } from '../api/contract';
+import type { ReportMeta } from '../agentClient';
+import { DEMO_ITEMS } from '../constants/demoData';
+import {
+  addNotification,
+  addWishlistEvent,
+  deleteWishlistEvent,
+  ensureChild,
+  getChildren,
+  getEvents,
+  getMockInsights,
+  getNotifications,
+  getQueryRows,
+  getWishlist,
+  mockId,
+  mockQueries,
+  random,
+  reorderWishlist,
+  updateBehavior,
+  updateProfile,
+  updateWishlistEvent,
+  type BehaviorStatus,
+  type MockChild,
+  type MockWishlistEvent,
+} from './db';
+import { validateProfileEdit } from '../utils/profileValidation';
+
+export interface MockRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  headers: Headers;
+}
+
+/** Thrown by handlers; rendered as application/problem+json like ProblemDetailsMiddleware */
+export class MockHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly title: string,
+    public readonly detail?: string,
+    public readonly errors?: Record<string, string[]>,
+  ) {
+    super(title);
+    this.name = 'MockHttpError';
+  }
+}
+
+/** Strong ETag over the JSON body, standing in for ETagService's SHA-256 */
+export function etagOf(body: unknown): string {
+  const json = JSON.stringify(body) ?? '';
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash = Math.imul(hash ^ json.charCodeAt(i), 0x01000193);
+  }
+  return `"${(hash >>> 0).toString(16)}"`;
+}
+
+type Handlers = {
+  [K in EndpointName]: (req: MockRequest) => ResponseOf<(typeof endpoints)[K]>;
+};
+
+const reports = new Map<string, ReportMeta>();
+const now = () => new Date().toISOString();
+
+function requireChildId(req: MockRequest): string {
+  const childId = req.params.childId;
+  if (!childId?.trim()) throw new MockHttpError(400, 'Validation failed', 'childId is required');
+  return childId;
+}
+
+function knownChild(req: MockRequest) {
+  const childId = requireChildId(req);
+  if (!getChildren().some((c) => c.id === childId)) {
+    throw new MockHttpError(404, 'Not Found', `Child '${childId}' was not found`);
+  }
+  return ensureChild(childId);
+}
+
+function profileOf(child: MockChild): ResponseOf<typeof endpoints.getChildProfile> {
+  return {
+    id: child.id,
+    name: child.name,
+    age: child.age,
+    location: child.location,
+    preferences: child.preferences,
+    constraints: { budget: child.budget },
+    privacyFlags: { optOut: false },
+    // camelCase, as the API's JsonStringEnumConverter writes NiceStatus
+    status: child.status.toLowerCase(),
+    behaviorSummary: child.behaviorSummary,
+  };
+}
+
+function wishlistEntryOf(event: MockWishlistEvent): ResponseOf<typeof endpoints.updateWishlistItem> {
+  return {
+    id: event.id,
+    childId: event.childId,
+    itemName: event.text,
+    category: event.category,
+    budgetEstimate: event.budgetEstimate ?? null,
+    notes: event.notes ?? null,
+    priority: event.priority ?? null,
+    createdAt: new Date(event.createdAt).toISOString(),
+    updatedAt: event.updatedAt ? new Date(event.updatedAt).toISOString() : null,
+  };
+}
+
+const wishlistListOf = (childId: string) => {
+  const items = getWishlist(childId).map(wishlistEntryOf);
+  return { items, count: items.length };
+};
+
+const trendingItems = () => getMockInsights().trending;
+
+type ChildSummary = ResponseOf<typeof endpoints.listChildren>['items'][number];
+const DIRECTORY_SORTS = ['name', 'age', 'location', 'budget', 'status', 'wishlistCount', 'lastActivity'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function childSummaries(): ChildSummary[] {
+  const events = getEvents();
+  return getChildren().map((child) => {
+    const own = events.filter((e) => e.childId === child.id);
+    const last = Math.max(...own.map((e) => e.createdAt));
+    return {
+      childId: child.id,
+      name: child.name,
+      age: child.age,
+      location: child.location,
+      budget: child.budget,
+      status: child.status.toLowerCase(),
+      wishlistCount: own.filter((e) => e.type !== 'behavior-update').length,
+      lastActivity: own.length > 0 ? new Date(last).toISOString() : null,
+    };
+  });
+}
+
+// Same rules as ChildDirectoryService: missing values sort last, childId breaks ties,
+// and the cursor remembers the last child returned plus its offset
+function listChildren(query: URLSearchParams): ResponseOf<typeof endpoints.listChildren> {
+  const sort = query.get('sort') || 'name';
+  if (!DIRECTORY_SORTS.includes(sort as (typeof DIRECTORY_SORTS)[number])) {
+    throw new MockHttpError(400, 'Invalid directory query', `Unknown sort field '${sort}'`);
+  }
+  const descending = query.get('order') === 'desc';
+  let cursor: { sort: string; descending: boolean; after: string; offset: number } | null = null;
+  if (query.get('cursor')) {
+    try {
+      cursor = JSON.parse(atob(query.get('cursor')!));
+    } catch {
+      throw new MockHttpError(400, 'Invalid directory query', 'Invalid cursor.');
+    }
+    if (cursor!.sort !== sort || cursor!.descending !== descending) {
+      throw new MockHttpError(400, 'Invalid directory query', 'Cursor was issued for a different sort order.');
+    }
+  }
+
+  const search = query.get('search')?.trim().toLowerCase();
+  const status = query.get('status');
+  const inactiveDays = query.get('inactiveDays');
+  const rows = childSummaries().filter((c) =>
+    (!search || [c.childId, c.name, c.location].some((v) => v?.toLowerCase().includes(search))) &&
+    (!status || c.status.toLowerCase() === status.toLowerCase()) &&
+    (!inactiveDays || !c.lastActivity || Date.now() - Date.parse(c.lastActivity) >= Number(inactiveDays) * DAY_MS)
+  );
+
+  const value = (c: ChildSummary) =>
+    sort === 'name' ? c.name ?? c.childId
+      : sort === 'status' ? ['nice', 'naughty', 'unknown'].indexOf(c.status) // NiceStatus enum order
+        : c[sort as keyof ChildSummary];
+  rows.sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    const cmp = va == null || vb == null
+      ? Number(va == null) - Number(vb == null)
+      : (typeof va === 'string' ? va.localeCompare(String(vb)) : Number(va) - Number(vb)) * (descending ? -1 : 1);
+    return cmp || a.childId.localeCompare(b.childId);
+  });
+
+  let start = 0;
+  if (cursor) {
+    const index = rows.findIndex((r) => r.childId === cursor!.after);
+    start = index >= 0 ? index + 1 : Math.min(cursor.offset, rows.length);
+  }
+  const limit = Math.min(Math.max(Number(query.get('limit') ?? 25) || 25, 1), 100);
+  const items = rows.slice(start, start + limit);
+  const end = start + items.length;
+  const nextCursor = end < rows.length
+    ? btoa(JSON.stringify({ sort, descending, after: items[items.length - 1].childId, offset: end }))
+    : null;
+  return { items, count: items.length, total: rows.length, nextCursor };
+}
+
+const handlers: Handlers = {
+  listChildren: (req) => listChildren(req.query),
+  createChild: (req) => {
+    const childId = String(req.body?.childId ?? '').trim();
+    if (!childId) throw new MockHttpError(400, 'Validation failed', 'childId is required');
+    ensureChild(childId);
+    return { childId };
+  },
+  getChild: (req) => ({ childId: knownChild(req).id }),
+
+  getChildProfile: (req) => profileOf(knownChild(req)),
+  updateChildProfile: (req) => {
+    const child = knownChild(req);
+    const ifMatch = req.headers.get('If-Match');
+    if (!ifMatch) {
+      throw new MockHttpError(428, 'If-Match header required', `Send the ETag from GET children/${child.id}/profile as If-Match, or * to overwrite the current profile.`);
+    }
+    if (ifMatch !== '*' && ifMatch !== etagOf(profileOf(child))) {
+      throw new MockHttpError(412, 'Profile was changed by someone else', `The profile for '${child.id}' changed since it was loaded. Reload it and apply the edit again.`);
+    }
+    const body = req.body ?? {};
+    const edit = {
+      name: body.name ?? null,
+      age: body.age ?? null,
+      location: body.location ?? null,
+      preferences: Array.isArray(body.preferences) ? body.preferences.map(String) as string[] : [],
+      budget: body.budget ?? null,
+    };
+    const errors = validateProfileEdit(edit);
+    if (Object.keys(errors).length > 0) {
+      const fields = Object.fromEntries(Object.entries(errors).map(([field, message]) => [field, [message]]));
+      throw new MockHttpError(400, 'Invalid profile', 'One or more validation errors occurred.', fields);
+    }
+    const clean = (value: string | null) => value?.trim() || null;
+    return profileOf(updateProfile(child.id, {
+      // Directory rows and agent runs fall back to the id, so the mock keeps a name
+      name: clean(edit.name) ?? child.id,
+      age: edit.age,
+      location: clean(edit.location),
+      preferences: [...new Set(edit.preferences.map((p) => p.trim()).filter(Boolean))],
+      budget: edit.budget,
+    }));
+  },
+  createProfileSnapshot: (req) => {
+    const child = knownChild(req);
+    return {
+      id: mockId('snap'),
+      childId: child.id,
+      createdAt: now(),
+      preferences: child.preferences,
+      budgetCeiling: child.budget,
+      behaviorSummary: child.behaviorSummary,
+      enrichmentSource: req.query.get('ai') === 'true' ? 'mock-ai' : 'mock',
+      fallbackUsed: false,
+    };
+  },
+
+  addWishlistItem: (req) => {
+    const childId = requireChildId(req);
+    const body = req.body ?? {};
+    const text = String(body.text ?? '').trim();
+    if (!text) throw new MockHttpError(400, 'Validation failed', 'text is required');
+    const isBehavior = body.requestType === 'behavior-update';
+    const event = addWishlistEvent({
+      childId,
+      text,
+      category: isBehavior ? 'behavior' : body.category ?? 'General',
+      budgetEstimate: typeof body.budgetEstimate === 'number' ? body.budgetEstimate : undefined,
+      notes: isBehavior ? undefined : body.notes?.trim() || undefined,
+      type: isBehavior ? 'behavior-update' : 'wishlist',
+      statusChange: isBehavior ? body.statusChange : undefined,
+    });
+    const child = ensureChild(childId);
+    if (typeof body.childAge === 'number') child.age = body.childAge;
+    if (typeof body.childName === 'string') child.name = body.childName;
+    return {
+      wishlistItem: {
+        id: event.id,
+        itemName: event.text,
+        category: event.category,
+        requestType: event.type,
+        statusChange: event.statusChange ?? null,
+      },
+      recommendationSetId: mockId('recset'),
+      recommendations: child.recommendations,
+      fallbackUsed: false,
+    };
+  },
+  submitWishlistEvent: (req) => {
+    const childId = requireChildId(req);
+    const toyName = String(req.body?.toyName ?? '').trim();
+    if (!toyName) throw new MockHttpError(400, 'Bad Request', 'toyName required');
+    const event = addWishlistEvent({ childId, text: toyName, category: req.body?.category ?? 'General', type: 'wishlist' });
+    return { childId, dedupeKey: event.id, status: 'accepted' };
+  },
+  listWishlistItems: (req) => wishlistListOf(requireChildId(req)),
+  updateWishlistItem: (req) => {
+    const childId = requireChildId(req);
+    const body = req.body ?? {};
+    const itemName = String(body.itemName ?? '').trim();
+    const errors: Record<string, string[]> = {};
+    if (!itemName || itemName.length > 200) errors.itemName = ['Item name is required and must be at most 200 characters.'];
+    if (typeof body.budgetEstimate === 'number' && body.budgetEstimate < 0) {
+      errors.budgetEstimate = ['Budget estimate cannot be negative.'];
+    }
+    if (typeof body.notes === 'string' && body.notes.length > 500) errors.notes = ['Notes must be at most 500 characters.'];
+    if (Object.keys(errors).length > 0) {
+      throw new MockHttpError(400, 'Invalid wishlist item', 'One or more validation errors occurred.', errors);
+    }
+    const event = updateWishlistEvent(childId, req.params.itemId, {
+      text: itemName,
+      category: body.category?.trim() || 'General',
+      budgetEstimate: typeof body.budgetEstimate === 'number' ? body.budgetEstimate : undefined,
+      notes: body.notes?.trim() || undefined,
+    });
+    if (!event) throw new MockHttpError(404, 'Not Found', `Wishlist item '${req.params.itemId}' was not found`);
+    return wishlistEntryOf(event);
+  },
+  deleteWishlistItem: (req) => {
+    if (!deleteWishlistEvent(requireChildId(req), req.params.itemId)) {
+      throw new MockHttpError(404, 'Not Found', `Wishlist item '${req.params.itemId}' was not found`);
+    }
+    return undefined;
+  },
+  reorderWishlistItems: (req) => {
+    const childId = requireChildId(req);
+    const ids = req.body?.itemIds;
+    if (!Array.isArray(ids)) {
+      throw new MockHttpError(400, 'Validation failed', 'One or more validation errors occurred.', { itemIds: ['itemIds is required.'] });
+    }
+    if (!reorderWishlist(childId, ids.map(String))) {
+      throw new MockHttpError(409, 'Wishlist changed', 'itemIds must list every wishlist item exactly once');
+    }
+    return wishlistListOf(childId);
+  },
+  updateChildBehavior: (req) => {
+    const childId = requireChildId(req);
+    const status = req.body?.newStatus as BehaviorStatus | undefined;
+    if (status !== 'Nice' && status !== 'Naughty' && status !== 'Unknown') {
+      throw new MockHttpError(400, 'Validation failed', 'newStatus must be Nice, Naughty or Unknown');
+    }
+    const change = updateBehavior(childId, status, req.body?.message);
+    return {
+      childId,
+      letterId: mockId('letter'),
+      requestType: 'behavior-update',
+      statusChange: change.newStatus,
+      message: req.body?.message ?? null,
+    };
+  },
+
+  getChildRecommendations: (req) => {
+    const child = knownChild(req);
+    const limit = Number(req.query.get('limit')) || child.recommendations.length;
+    const items = child.recommendations.slice(0, limit);
+    return { items, count: items.length };
+  },
+  saveRecommendation: (req) => {
+    const child = knownChild(req);
+    const body = req.body ?? {};
+    const suggestion = String(body.suggestion ?? '').trim();
+    if (!suggestion) {
+      throw new MockHttpError(400, 'Invalid recommendation', 'One or more validation errors occurred.', { suggestion: ['Suggestion must be 1-200 characters.'] });
+    }
+    const saved = {
+      id: mockId('rec'),
+      childId: child.id,
+      suggestion,
+      rationale: String(body.rationale ?? '').trim(),
+      price: typeof body.price === 'number' ? body.price : null,
+      budgetFit: body.budgetFit ?? 'unknown',
+      availability: null,
+    };
+    // Listed first, like the backend lists saved recommendations ahead of generated ones
+    child.recommendations = [saved, ...child.recommendations];
+    return saved;
+  },
+  getCollaborativeRecommendation: (req) => {
+    const child = ensureChild(requireChildId(req));
+    const top = child.recommendations[0];
+    const insights = getMockInsights();
+    return {
+      childId: child.id,
+      status: req.query.get('status') ?? child.status,
+      optimized: true,
+      // Laid out like MultiAgentOrchestrator's optimized result, one section per agent
+      collaborativeRecommendation: [
+        `=== Multi-Agent Collaborative Recommendation (Optimized) ===`,
+        `Child: ${child.id} | Status: ${child.status}`,
+        '',
+        '📊 Analyst Insights:',
+        `${child.name} (${child.age ?? 'age unknown'}) is on the ${child.status} list with a ${child.budget ?? 'open'} budget.`,
+        '',
+        '💡 Creative Suggestions:',
+        child.recommendations.map((r) => `- ${r.suggestion}`).join('\n') || '- Nothing yet',
+        '',
+        '🎁 Final Recommendations:',
+        top ? `${top.suggestion}: ${top.rationale}` : `No recommendation yet for ${child.name}.`,
+      ].join('\n'),
+      agentTypes: ['BehaviorAnalyst', 'CreativeGiftElf', 'QualityReviewerElf'],
+      toolsUsed: ['GetChildBehaviorHistory', 'SearchGiftInventory', 'CheckBudgetConstraints', 'QueryDrasiGraph'],
+      drasiContext: {
+        trendingItems: insights.trending.slice(0, 5),
+        duplicateAlerts: insights.duplicates.filter((d) => d.childId === child.id),
+        lastUpdate: now(),
+      },
+    };
+  },
+
+  runLogisticsAssessment: (req) => {
+    const child = knownChild(req);
+    const items = child.recommendations.map((r) => {
+      const feasible = r.availability?.inStock ?? true;
+      return {
+        recommendationItemId: r.id,
+        feasible,
+        reason: feasible
+          ? `In stock, ships in ${r.availability?.leadTimeDays ?? 2} days`
+          : 'Out of stock at the North Pole warehouse',
+      };
+    });
+    return {
+      id: mockId('assess'),
+      childId: child.id,
+      recommendationSetId: `${child.id}-recset`,
+      checkedAt: now(),
+      overallStatus: items.every((i) => i.feasible) ? 'feasible' : 'partial',
+      fallbackUsed: false,
+      items,
+    };
+  },
+
+  getReport: (req) => {
+    const report = reports.get(requireChildId(req));
+    if (!report) throw new MockHttpError(404, 'Not Found', 'No report has been generated yet');
+    return report;
+  },
+  createJob: (req) => {
+    const childId = String(req.body?.childId ?? '').trim();
+    if (!childId) throw new MockHttpError(400, 'Validation failed', 'childId is required');
+    // Reports are "generated" a moment later, like the background job
+    setTimeout(() => {
+      reports.set(childId, {
+        childId,
+        path: `reports/${childId}/${Date.now()}.md`,
+        createdAt: now(),
+        label: 'Gift report',
+        topN: 3,
+      });
+      addNotification(childId, 'report', `Report ready for ${ensureChild(childId).name}`);
+    }, 1500);
+    return undefined;
+  },
+
+  getNotifications: (req) => {
+    const childId = req.query.get('childId');
+    const state = req.query.get('state');
+    const limit = Number(req.query.get('limit')) || 50;
+    const items = getNotifications()
+      .filter((n) => (!childId || n.childId === childId) && (!state || n.state === state))
+      .slice(0, limit);
+    return { items, count: items.length, continuationToken: null };
+  },
+  createNotification: (req) =>
+    addNotification(String(req.body?.childId ?? 'unknown'), req.body?.type ?? 'info', req.body?.message ?? ''),
+
+  getDrasiInsights: () => getMockInsights(),
+  getDrasiQuery: (req) => {
+    const rows = getQueryRows(req.params.queryName);
+    if (!rows) throw new MockHttpError(404, 'Not Found', `Unknown query '${req.params.queryName}'`);
+    return { queryName: req.params.queryName, results: rows, count: rows.length };
+  },
+  getDrasiQueryDebug: (req) => {
+    const rows = getQueryRows(req.params.queryName) ?? [];
+    return {
+      queryName: req.params.queryName,
+      queryContainerId: 'mock',
+      baseUrl: 'mock://drasi',
+      resolvedUrl: `mock://drasi/queries/${req.params.queryName}`,
+      resultCount: rows.length,
+      results: rows,
+      message: 'Served by the in-browser mock backend',
+    };
+  },
+  getDrasiAgentDemo: (req) => {
+    const childId = requireChildId(req);
+    const insights = getMockInsights();
+    const describe = (items: unknown[]) => JSON.stringify(items.slice(0, 5));
+    return {
+      childId,
+      timestamp: now(),
+      demonstration: 'drasi-agent-tools',
+      description: 'Agent tools reading Drasi continuous query results (mock)',
+      drasiInsights: {
+        trending: { tool: 'GetTrendingItems', result: describe(insights.trending) },
+        duplicates: { tool: 'GetDuplicateRequests', result: describe(insights.duplicates.filter((d) => d.childId === childId)) },
+        global: { tool: 'GetGlobalDuplicates', result: describe(mockQueries['wishlist-duplicates-global'].rows()) },
+        inactive: { tool: 'GetInactiveChildren', result: describe(insights.inactiveChildren) },
+      },
+      capabilities: ['Trending analysis', 'Duplicate detection', 'Inactivity alerts'],
+      nextSteps: ['Run the Santa agent with Drasi context'],
+    };
+  },
+
+  getYearOverYearTrends: () => {
+    const year = new Date().getFullYear();
+    const current = trendingItems().map((t) => ({ ...t, period: `${year}` }));
+    // Last year is the catalogue in reverse with made-up counts
+    const historical = [...DEMO_ITEMS]
+      .reverse()
+      .slice(0, 6)
+      .map((item, i) => ({ item: item.name, frequency: 12 - i * 2, period: `${year - 1}` }));
+    const currentNames = new Set(current.map((c) => c.item));
+    const historicalNames = new Set(historical.map((h) => h.item));
+    const currentTotal = current.reduce((s, c) => s + c.frequency, 0);
+    const historicalTotal = historical.reduce((s, h) => s + h.frequency, 0);
+    const percentChange = historicalTotal ? Math.round(((currentTotal - historicalTotal) / historicalTotal) * 100) : 0;
+    return {
+      current,
+      historical,
+      insights: {
+        returningFavorites: [...currentNames].filter((n) => historicalNames.has(n)),
+        newTrends: [...currentNames].filter((n) => !historicalNames.has(n)),
+        noLongerTrending: [...historicalNames].filter((n) => !currentNames.has(n)),
+        volumeChange: {
+          current: currentTotal,
+          historical: historicalTotal,
+          percentChange,
+          trend: percentChange > 5 ? 'up' : percentChange < -5 ? 'down' : 'stable',
+        },
+      },
+      metadata: {
+        currentPeriod: 'last hour',
+        historicalPeriod: `December ${year - 1}`,
+        currentYear: year,
+        comparisonYear: year - 1,
+      },
+    };
+  },
+
+  getAgentTools: () => ({
+    // Mirrors the catalog in EnhancedAgentApi.cs, so tool calls in the chat match its names
+    tools: [
+      { name: 'QueryTrendingWishlistItems', description: 'Top wishlist items in the last hour', parameters: ['minFrequency?'], category: 'Drasi Real-Time', source: 'wishlist-trending-1h' },
+      { name: 'FindChildrenWithDuplicateWishlists', description: 'Children requesting the same item more than once', parameters: ['childId?'], category: 'Drasi Real-Time', source: 'wishlist-duplicates-by-child' },
+      { name: 'FindInactiveChildren', description: 'Children with no letters in 3+ days', parameters: ['minDaysInactive?'], category: 'Drasi Real-Time', source: 'wishlist-inactive-children-3d' },
+      { name: 'QueryGlobalWishlistDuplicates', description: 'Most commonly requested items across all children', parameters: ['minChildren?'], category: 'Drasi Real-Time', source: 'wishlist-duplicates-global' },
+      { name: 'QueryBehaviorStatusChanges', description: 'Recent naughty/nice status changes', parameters: [], category: 'Drasi Real-Time', source: 'behavior-status-changes' },
+    ],
+    stats: { drasiTools: 5 },
+    description: 'Tools available to the workshop agents (mock)',
+    integration: 'mock',
+  }),
+
+  getRationaleAudit: (req) => {
+    const child = knownChild(req);
+    const entries = child.recommendations.map((r) => ({
+      recommendationSetId: `${child.id}-recset`,
+      createdAt: now(),
+      itemId: r.id,
+      suggestion: r.suggestion,
+      rationale: r.rationale,
+      fallbackUsed: false,
+    }));
+    return { childId: child.id, count: entries.length, entries };
+  },
+  getAssessmentAudit: (req) => {
+    const child = knownChild(req);
+    return { childId: child.id, count: 0, entries: [] };
+  },
+
+  getElfAgentsStatus: () => ({
+    environment: 'mock',
+    backlogDepth: Math.floor(random() * 5),
+    p95ProcessingLatencySeconds: 1.2,
+    errorRate: 0,
+    roles: ['santa', 'elf', 'logistics'],
+  }),
+  getElfAgentsReadiness: () => ({ status: 'ready' }),
+  triggerElfAgent: (req) => {
+    const { childId, type } = req.body ?? {};
+    if (!childId || !['profile', 'recommendation', 'logistics', 'notification'].includes(type)) {
+      throw new MockHttpError(400, 'Bad Request', 'invalid payload');
+    }
+    return { status: 'accepted', childId, type };
+  },
+  getDiagnosticsInsights: () => ({ trending: [], duplicates: [], inactiveChildren: [], stats: {} }),
+};
+
+// Path templates compiled once, e.g. /api/v1/children/{childId} -> ^/api/v1/children/([^/]+)$
+// Fewer parameters first, so a literal segment like wishlist-items/order wins
+// over wishlist-items/{itemId} as it does in ASP.NET routing.
+const routes = (Object.keys(endpoints) as EndpointName[]).map((name) => {
+  const ep = endpoints[name];
+  const paramNames: string[] = [];
+  const pattern = ep.path.replace(/\{(\w+)\}/g, (_, param: string) => {
+    paramNames.push(param);
+    return '([^/]+)';
+  });
+  return { name, method: ep.method, regex: new RegExp(`^${pattern}$`), paramNames };
+}).sort((a, b) => a.paramNames.length - b.paramNames.length);
+
+export function matchRoute(method: string, pathname: string) {
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const match = route.regex.exec(pathname);
+    if (match) {
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((p, i) => (params[p] = decodeURIComponent(match[i + 1])));
+      return { name: route.name, params, handler: handlers[route.name] as (req: MockRequest) => unknown };
+    }
+  }
+  return null;
+}
+
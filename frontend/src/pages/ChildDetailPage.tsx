@@ -1,63 +1,53 @@
 import React, { useEffect, useState } from 'react';
-import { ChildProfile, Recommendation, getChildProfile, getChildRecommendations, addWishlistItem, WishlistItemInput, createJob } from '../agentClient';
+import { Link } from 'react-router-dom';
+import { Recommendation, VersionedChildProfile, getChildProfile, getChildRecommendations } from '../agentClient';
+import { queueJob } from '../api/outbox';
 import { useChildRecommendationsLive } from '../hooks/useChildRecommendationsLive';
 import { useAgentRun } from '../hooks/useAgentRun';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys } from '../api/queryKeys';
+import { ApiErrorDetails } from '../components/shared';
+import { OutboxPanel } from '../components/OutboxPanel';
+import { ChildProfileEditor } from '../components/ChildProfileEditor';
+import { WishlistPanel } from '../components/WishlistPanel';
+import { AgentRunView } from '../components/AgentRunView';
+import { CollaborativeRecommendationPanel } from '../components/CollaborativeRecommendationPanel';
+import { CHILD_TABS, paths, type ChildTab } from '../paths';
+import type { FrontendTool } from '../utils/frontendTools';
 
-interface Props { childId: string }
+interface Props {
+  childId: string;
+  // Controlled by the URL when routed; falls back to local state otherwise
+  tab?: ChildTab;
+  onTabChange?: (tab: ChildTab) => void;
+  /** Frontend tools the task force may call */
+  agentTools?: FrontendTool[];
+}
 
-type Tab = 'profile' | 'wishlist' | 'recommendations' | 'logistics' | 'agent';
-
-export const ChildDetailPage: React.FC<Props> = ({ childId }) => {
-  const [tab, setTab] = useState<Tab>('profile');
-  const [profile, setProfile] = useState<ChildProfile | null>(null);
-  const [recs, setRecs] = useState<Recommendation[]>([]);
+export const ChildDetailPage: React.FC<Props> = ({ childId, tab: routedTab, onTabChange, agentTools }) => {
+  const [localTab, setLocalTab] = useState<ChildTab>('profile');
+  const tab = routedTab ?? localTab;
+  const setTab = (next: ChildTab) => (onTabChange ? onTabChange(next) : setLocalTab(next));
+  const profileQuery = useQuery(queryKeys.childProfile(childId), () => getChildProfile(childId));
+  const recsQuery = useQuery(queryKeys.childRecommendations(childId), () => getChildRecommendations(childId));
+  const profile: VersionedChildProfile | null = profileQuery.data ?? null;
+  // Keys are per child, so switching children never shows the previous child's recommendations
+  const recs: Recommendation[] = recsQuery.data ?? [];
   const liveRecs = useChildRecommendationsLive(childId) as Recommendation[];
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [wishlistItem, setWishlistItem] = useState<WishlistItemInput>({ toyName: '' });
-  const [wishlistStatus, setWishlistStatus] = useState<string | null>(null);
-  const { start, cancel, status, events, transcript } = useAgentRun('taskforce');
+  const loading = profileQuery.isFetching || recsQuery.isFetching;
+  const error = profileQuery.error ?? recsQuery.error ?? null;
+  const { start, cancel, reset: resetAgentRun, status, events, transcript, stateStore } = useAgentRun('taskforce', undefined, { childId }, agentTools);
+  // The shared state (draft recommendations, budget) belongs to one child
+  useEffect(() => resetAgentRun({ childId }), [childId, resetAgentRun]);
   const [logisticsResult, setLogisticsResult] = useState<any>(null);
   const [logisticsStatus, setLogisticsStatus] = useState<string | null>(null);
   const [reportStatus, setReportStatus] = useState<string | null>(null);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
 
-  async function load() {
-    setLoading(true); setError(null);
-    // Clear old recommendations immediately when loading new child
-    setRecs([]);
-    try {
-      const [p, rRaw] = await Promise.all([
-        getChildProfile(childId),
-        getChildRecommendations(childId)
-      ]);
-      // Ensure normalized recommendation objects (defensive in case legacy shapes leak)
-      const r = (rRaw || []).map(rec => ({
-        id: rec.id,
-        childId: rec.childId || childId,
-        suggestion: (rec as any).suggestion || (rec as any).Suggestion || rec.suggestion,
-        rationale: (rec as any).rationale || (rec as any).Rationale || rec.rationale,
-        price: rec.price,
-        budgetFit: (rec as any).budgetFit || (rec as any).BudgetFit || rec.budgetFit || 'unknown'
-      })) as Recommendation[];
-      setProfile(p); setRecs(r);
-    } catch (e: any) {
-      setError(e.message || 'Load failed');
-    } finally { setLoading(false); }
-  }
-
-  useEffect(() => { void load(); }, [childId]);
-
-  async function submitWishlist(e: React.FormEvent) {
-    e.preventDefault();
-    setWishlistStatus(null);
-    try {
-      const res = await addWishlistItem(childId, wishlistItem);
-      setWishlistStatus(`Wishlist item accepted (dedupeKey=${res.dedupeKey})`);
-      setWishlistItem({ toyName: '' });
-    } catch (err: any) {
-      setWishlistStatus(err.message);
-    }
+  function load() {
+    void Promise.all([profileQuery.refetch(), recsQuery.refetch()]).catch(() => {
+      // Errors are surfaced from the query state
+    });
   }
 
   async function generateReport() {
@@ -65,13 +55,12 @@ export const ChildDetailPage: React.FC<Props> = ({ childId }) => {
     setReportStatus('Creating job to generate report...');
     try {
       // Create a job which will trigger report generation
-      const dedupeKey = `manual-${Date.now()}`;
-      await createJob({ 
-        childId, 
-        dedupeKey,
-        schemaVersion: 'v1'
-      });
-      setReportStatus('✅ Job created! Report will be generated shortly. Check Santa view in 5-10 seconds.');
+      // The outbox entry id becomes the job's dedupeKey, so replays never double-submit
+      const outcome = await queueJob({ childId, schemaVersion: 'v1' });
+      if (outcome.status === 'failed') throw outcome.error;
+      setReportStatus(outcome.status === 'synced'
+        ? '✅ Job created! Report will be generated shortly. Check Santa view in 5-10 seconds.'
+        : '📮 Offline - the report job is queued and will be sent when the connection returns.');
     } catch (err: any) {
       setReportStatus(`❌ Failed to create job: ${err.message}`);
     } finally {
@@ -83,34 +72,18 @@ export const ChildDetailPage: React.FC<Props> = ({ childId }) => {
     <section>
       <h2>Child: {childId}</h2>
       <nav style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
-        {(['profile','wishlist','recommendations','logistics','agent'] as Tab[]).map(t => (
+        {CHILD_TABS.map(t => (
           <button key={t} onClick={() => setTab(t)} disabled={tab===t}>{t}</button>
         ))}
       </nav>
       {loading && <p>Loading…</p>}
-      {error && <p style={{ color:'red' }}>{error}</p>}
-      {tab === 'profile' && (
-        <div>
-          {profile ? (
-            <div>
-              <p><strong>Name:</strong> {profile.name ?? 'Unknown'}</p>
-              <p><strong>Age:</strong> {profile.age ?? 'Unknown'}</p>
-              <p><strong>Preferences:</strong> {profile.preferences?.join(', ') || '(none)'} </p>
-              <p><strong>Budget:</strong> {profile.constraints?.budget ?? 'N/A'}</p>
-            </div>
-          ) : <p>No profile available.</p>}
+      {error != null && (
+        <div style={{ color:'red', margin:'1em 0' }}>
+          <ApiErrorDetails error={error} context="Load failed" />
         </div>
       )}
-      {tab === 'wishlist' && (
-        <form onSubmit={submitWishlist} style={{ display:'flex', flexDirection:'column', gap:'0.5rem', maxWidth:'320px' }}>
-          <input value={wishlistItem.toyName} onChange={e=>setWishlistItem(i=>({ ...i, toyName:e.target.value }))} placeholder="Toy name" required />
-          <input value={wishlistItem.category||''} onChange={e=>setWishlistItem(i=>({ ...i, category:e.target.value }))} placeholder="Category" />
-          <textarea value={wishlistItem.notes||''} onChange={e=>setWishlistItem(i=>({ ...i, notes:e.target.value }))} placeholder="Notes" />
-            <input type="number" value={wishlistItem.budgetLimit?.toString()||''} onChange={e=>setWishlistItem(i=>({ ...i, budgetLimit: e.target.value? Number(e.target.value): undefined }))} placeholder="Budget limit" />
-          <button disabled={!wishlistItem.toyName.trim()}>Submit Idea</button>
-          {wishlistStatus && <p>{wishlistStatus}</p>}
-        </form>
-      )}
+      {tab === 'profile' && <ChildProfileEditor key={childId} childId={childId} profile={profile} />}
+      {tab === 'wishlist' && <WishlistPanel key={childId} childId={childId} />}
       {tab === 'recommendations' && (
         <div>
           <div style={{ 
@@ -233,16 +206,15 @@ export const ChildDetailPage: React.FC<Props> = ({ childId }) => {
       {tab === 'agent' && (
         <div>
           <div style={{ display:'flex', gap:'0.5rem' }}>
-            <button onClick={start} disabled={status==='running'}>Start Run</button>
-            <button onClick={cancel} disabled={status!=='running'}>Cancel</button>
+            <button onClick={() => start({ childId })} disabled={status==='running' || status==='cancelling'}>Start Run</button>
+            <button onClick={cancel} disabled={status!=='running'}>{status==='cancelling' ? 'Cancelling…' : 'Cancel'}</button>
+            <Link to={paths.runHistory()}>Run history</Link>
           </div>
-          <div style={{ marginTop:'0.5rem' }}><strong>Status:</strong> {status}</div>
-          <pre style={{ background:'#222', color:'#0f0', padding:'0.5rem', minHeight:'120px' }}>
-            {events.map((e,i)=>(<div key={i}>{e.kind==='delta'? e.deltaText : `${e.phase}:${e.kind}`}</div>))}
-          </pre>
-          <div><strong>Transcript:</strong> {transcript||'(none)'}</div>
+          <AgentRunView status={status} events={events} transcript={transcript} stateStore={stateStore} childId={childId} />
+          <CollaborativeRecommendationPanel childId={childId} />
         </div>
       )}
+      <OutboxPanel childId={childId} />
     </section>
   );
 };
@@ -0,0 +1,130 @@
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { MemoryRouter, Route, Routes, useLocation } from "react-router-dom";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChildDirectoryPage } from "../agentClient";
+import { ChildrenDashboardPage } from "./ChildrenDashboardPage";
+
+const listChildren = vi.hoisted(() => vi.fn());
+
+vi.mock("../agentClient", () => ({ listChildren, createChild: vi.fn() }));
+
+const page = (items: ChildDirectoryPage["items"], nextCursor: string | null = null, total = items.length): ChildDirectoryPage => ({
+  items,
+  count: items.length,
+  total,
+  nextCursor,
+});
+
+const ada = {
+  childId: "child-ada",
+  name: "Ada",
+  age: 8,
+  location: "Oslo, NO",
+  budget: 250,
+  status: "Nice",
+  wishlistCount: 3,
+  lastActivity: new Date(Date.now() - 2 * 3600_000).toISOString(),
+};
+const ben = { ...ada, childId: "child-ben", name: "Ben", location: "Leeds, UK", budget: 40, status: "Naughty", wishlistCount: 1, lastActivity: null };
+
+const Location = () => {
+  const location = useLocation();
+  return <output>{location.pathname + location.search}</output>;
+};
+
+function renderDirectory(url = "/children") {
+  return render(
+    <MemoryRouter initialEntries={[url]}>
+      <Routes>
+        <Route path="/children" element={<ChildrenDashboardPage />} />
+        <Route path="/children/:id/:tab" element={<p>detail page</p>} />
+      </Routes>
+      <Location />
+    </MemoryRouter>,
+  );
+}
+
+describe("ChildrenDashboardPage", () => {
+  beforeEach(() => {
+    listChildren.mockReset();
+  });
+
+  it("lists children with their directory columns", async () => {
+    listChildren.mockResolvedValue(page([ada, ben]));
+    renderDirectory();
+
+    await screen.findByText("Ada");
+    expect(screen.getByText("Oslo, NO")).toBeTruthy();
+    expect(screen.getByText("$250")).toBeTruthy();
+    expect(screen.getByText("2h ago")).toBeTruthy();
+    expect(screen.getByText("never")).toBeTruthy();
+    expect(screen.getByText("Showing 1–2 of 2")).toBeTruthy();
+    expect(listChildren).toHaveBeenCalledWith({ sort: "name", order: "asc", limit: 10, search: undefined, status: undefined, inactiveDays: undefined, cursor: undefined });
+  });
+
+  it("sends filters and sort from the URL to the server", async () => {
+    listChildren.mockResolvedValue(page([ben]));
+    renderDirectory("/children?status=Naughty&inactive=3&sort=budget&order=desc&q=be");
+
+    await screen.findByText("Ben");
+    expect(listChildren).toHaveBeenLastCalledWith(
+      expect.objectContaining({ search: "be", status: "Naughty", inactiveDays: 3, sort: "budget", order: "desc" }),
+    );
+  });
+
+  it("toggles sort order from the column headers", async () => {
+    listChildren.mockResolvedValue(page([ada, ben]));
+    renderDirectory();
+    await screen.findByText("Ada");
+
+    fireEvent.click(screen.getByRole("button", { name: "Age" }));
+    await waitFor(() => expect(listChildren).toHaveBeenLastCalledWith(expect.objectContaining({ sort: "age", order: "asc" })));
+
+    fireEvent.click(screen.getByRole("button", { name: "Age ▲" }));
+    await waitFor(() => expect(listChildren).toHaveBeenLastCalledWith(expect.objectContaining({ sort: "age", order: "desc" })));
+    expect(screen.getByRole("status").textContent).toBe("/children?sort=age&order=desc");
+  });
+
+  it("pages forward with the server cursor and back again", async () => {
+    listChildren.mockImplementation(async ({ cursor }) =>
+      cursor === "page-2" ? page([ben], null, 2) : page([ada], "page-2", 2),
+    );
+    renderDirectory();
+    await screen.findByText("Ada");
+
+    fireEvent.click(screen.getByText("Next →"));
+    await screen.findByText("Ben");
+    expect(listChildren).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: "page-2" }));
+    expect(screen.getByText("Showing 2–2 of 2")).toBeTruthy();
+    expect((screen.getByText("Next →") as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.click(screen.getByText("← Previous"));
+    await screen.findByText("Ada");
+  });
+
+  it("debounces search into the URL", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    try {
+      listChildren.mockResolvedValue(page([]));
+      renderDirectory();
+      fireEvent.change(screen.getByLabelText("Search children"), { target: { value: "oslo" } });
+      expect(screen.getByRole("status").textContent).toBe("/children");
+
+      await act(async () => {
+        vi.advanceTimersByTime(300);
+      });
+      expect(screen.getByRole("status").textContent).toBe("/children?q=oslo");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("opens the child detail page when a row is clicked", async () => {
+    listChildren.mockResolvedValue(page([ada]));
+    renderDirectory();
+
+    fireEvent.click(await screen.findByText("Ada"));
+    expect(screen.getByText("detail page")).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe("/children/child-ada/profile");
+  });
+});
@@ -1,33 +1,231 @@
-import React, { useState } from 'react';
-import { createChild } from '../agentClient';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { ChildDirectoryPage, ChildDirectoryQuery, ChildDirectorySort, createChild, listChildren } from '../agentClient';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { queryKeys } from '../api/queryKeys';
+import { ApiErrorDetails, Panel, StatusBadge, type StatusBadgeVariant } from '../components/shared';
+import { useQuery } from '../hooks/useQuery';
+import { paths } from '../paths';
+
+const PAGE_SIZES = [10, 25, 50];
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface PageRef {
+  cursor?: string;
+  offset: number;
+}
+const FIRST_PAGE: PageRef = { offset: 0 };
+
+const COLUMNS: { sort: ChildDirectorySort; label: string; align?: 'right' }[] = [
+  { sort: 'name', label: 'Name' },
+  { sort: 'age', label: 'Age', align: 'right' },
+  { sort: 'location', label: 'Location' },
+  { sort: 'budget', label: 'Budget', align: 'right' },
+  { sort: 'status', label: 'Status' },
+  { sort: 'wishlistCount', label: 'Wishlist', align: 'right' },
+  { sort: 'lastActivity', label: 'Last activity' },
+];
+
+const statusVariant = (status: string): StatusBadgeVariant =>
+  status === 'Nice' ? 'success' : status === 'Naughty' ? 'error' : 'neutral';
+
+function timeAgo(iso: string | null | undefined): string {
+  if (!iso) return 'never';
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+  return `${Math.floor(minutes / (60 * 24))}d ago`;
+}
+
+const cellStyle: React.CSSProperties = { padding: '0.45rem 0.6rem', borderBottom: '1px solid var(--border-medium)' };
+const inputStyle: React.CSSProperties = {
+  padding: '0.4rem 0.6rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+};
 
 export const ChildrenDashboardPage: React.FC = () => {
   const [newChildId, setNewChildId] = useState('');
   const [status, setStatus] = useState<string | null>(null);
   const navigate = useNavigate();
 
+  // Filters and sort live in the URL so a filtered directory can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get('q') ?? '';
+  const statusFilter = searchParams.get('status') ?? '';
+  const inactiveDays = searchParams.get('inactive') ?? '';
+  const sort = (searchParams.get('sort') as ChildDirectorySort | null) ?? 'name';
+  const order = searchParams.get('order') === 'desc' ? 'desc' : 'asc';
+  const limit = Number(searchParams.get('limit')) || PAGE_SIZES[0];
+
+  const [searchInput, setSearchInput] = useState(search);
+  // One entry per page visited: the cursor that fetches it and its first row's
+  // offset. Any filter or sort change starts over, since cursors are tied to a sort.
+  const filterHash = [search, statusFilter, inactiveDays, sort, order, limit].join('|');
+  const [paging, setPaging] = useState<{ hash: string; pages: PageRef[] }>({ hash: filterHash, pages: [FIRST_PAGE] });
+  const pages = paging.hash === filterHash ? paging.pages : [FIRST_PAGE];
+  const current = pages[pages.length - 1];
+  const setPages = (next: PageRef[]) => setPaging({ hash: filterHash, pages: next });
+
+  function updateParams(changes: Record<string, string>) {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+    setSearchParams(next, { replace: true });
+  }
+
+  // Follow back/forward navigation, then push typing to the URL once it settles
+  useEffect(() => setSearchInput(search), [search]);
+  useEffect(() => {
+    if (searchInput === search) return;
+    const timer = setTimeout(() => updateParams({ q: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const query: ChildDirectoryQuery = {
+    search: search || undefined,
+    status: statusFilter || undefined,
+    inactiveDays: inactiveDays ? Number(inactiveDays) : undefined,
+    sort,
+    order,
+    cursor: current.cursor,
+    limit,
+  };
+  const directory = useQuery(queryKeys.childDirectory(query), () => listChildren(query));
+  // Keep the previous page on screen while the next one loads
+  const lastPage = useRef<ChildDirectoryPage | undefined>(undefined);
+  if (directory.data) lastPage.current = directory.data;
+  const data = directory.data ?? lastPage.current;
+
+  function toggleSort(column: ChildDirectorySort) {
+    if (column === sort) updateParams({ order: order === 'asc' ? 'desc' : '' });
+    else updateParams({ sort: column === 'name' ? '' : column, order: '' });
+  }
+
   async function add(e: React.FormEvent) {
     e.preventDefault();
     if (!newChildId.trim()) return;
     try {
       await createChild(newChildId.trim());
       setStatus('Child registered');
-      navigate(`/children/${encodeURIComponent(newChildId.trim())}`);
+      navigate(paths.child(newChildId.trim()));
     } catch (err: any) {
       setStatus(err.message);
     }
   }
 
+  const firstRow = current.offset + 1;
+
   return (
-    <section>
-      <h2>Children</h2>
-      <form onSubmit={add} style={{ display: 'flex', gap: '0.5rem' }}>
-        <input value={newChildId} onChange={e => setNewChildId(e.target.value)} placeholder="child id" />
-        <button disabled={!newChildId.trim()}>Add Child</button>
-      </form>
-      {status && <p>{status}</p>}
-      <p>Enter a child id to create and jump to its detail view.</p>
+    <section style={{ display: 'grid', gap: '1rem' }}>
+      <Panel>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '0.75rem' }}>
+          <h2 style={{ margin: 0 }}>Children</h2>
+          <form onSubmit={add} style={{ display: 'flex', gap: '0.5rem' }}>
+            <input style={inputStyle} value={newChildId} onChange={e => setNewChildId(e.target.value)} placeholder="child id" />
+            <button disabled={!newChildId.trim()}>Add Child</button>
+          </form>
+        </div>
+        {status && <p>{status}</p>}
+      </Panel>
+
+      <Panel>
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+          <input
+            style={{ ...inputStyle, flex: '1 1 220px' }}
+            placeholder="Search name, id or location"
+            aria-label="Search children"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+          />
+          <select style={inputStyle} aria-label="Status" value={statusFilter} onChange={e => updateParams({ status: e.target.value })}>
+            <option value="">Any status</option>
+            <option value="Nice">Nice</option>
+            <option value="Naughty">Naughty</option>
+            <option value="Unknown">Unknown</option>
+          </select>
+          <select style={inputStyle} aria-label="Inactivity" value={inactiveDays} onChange={e => updateParams({ inactive: e.target.value })}>
+            <option value="">Any activity</option>
+            <option value="3">Quiet 3+ days</option>
+            <option value="7">Quiet 7+ days</option>
+          </select>
+          <select style={inputStyle} aria-label="Page size" value={limit} onChange={e => updateParams({ limit: e.target.value === String(PAGE_SIZES[0]) ? '' : e.target.value })}>
+            {PAGE_SIZES.map(size => <option key={size} value={size}>{size} per page</option>)}
+          </select>
+        </div>
+
+        {directory.error != null && (
+          <div style={{ color: 'var(--santa-red)', marginBottom: '0.75rem' }}>
+            <ApiErrorDetails error={directory.error} context="Could not load children" />
+          </div>
+        )}
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '.9rem', opacity: directory.isFetching ? 0.7 : 1 }}>
+          <thead>
+            <tr>
+              {COLUMNS.map(col => (
+                <th
+                  key={col.sort}
+                  aria-sort={col.sort === sort ? (order === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  style={{ ...cellStyle, textAlign: col.align ?? 'left', whiteSpace: 'nowrap' }}
+                >
+                  <button
+                    onClick={() => toggleSort(col.sort)}
+                    style={{ background: 'none', border: 'none', padding: 0, color: 'var(--text-secondary)', fontWeight: 600, cursor: 'pointer' }}
+                  >
+                    {col.label}{col.sort === sort ? (order === 'asc' ? ' ▲' : ' ▼') : ''}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data?.items.map(child => (
+              <tr
+                key={child.childId}
+                onClick={() => navigate(paths.child(child.childId))}
+                style={{ cursor: 'pointer' }}
+              >
+                <td style={cellStyle}>
+                  <div>{child.name ?? child.childId}</div>
+                  {child.name && <div style={{ fontSize: '.75rem', color: 'var(--text-muted)' }}>{child.childId}</div>}
+                </td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{child.age ?? '—'}</td>
+                <td style={cellStyle}>{child.location ?? '—'}</td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{child.budget != null ? `$${child.budget}` : '—'}</td>
+                <td style={cellStyle}><StatusBadge label={child.status} variant={statusVariant(child.status)} /></td>
+                <td style={{ ...cellStyle, textAlign: 'right' }}>{child.wishlistCount}</td>
+                <td style={cellStyle} title={child.lastActivity ?? undefined}>{timeAgo(child.lastActivity)}</td>
+              </tr>
+            ))}
+            {data && data.items.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length} style={{ ...cellStyle, textAlign: 'center', color: 'var(--text-muted)' }}>
+                  No children match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '0.75rem', fontSize: '.85rem' }}>
+          <span style={{ color: 'var(--text-muted)' }}>
+            {data && data.total > 0
+              ? `Showing ${firstRow}–${firstRow + data.count - 1} of ${data.total}`
+              : directory.isFetching ? 'Loading…' : ''}
+          </span>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button disabled={pages.length === 1} onClick={() => setPages(pages.slice(0, -1))}>← Previous</button>
+            <button
+              disabled={!directory.data?.nextCursor}
+              onClick={() => setPages([...pages, { cursor: directory.data!.nextCursor!, offset: current.offset + directory.data!.count }])}
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      </Panel>
     </section>
   );
 };
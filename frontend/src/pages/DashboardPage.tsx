@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { getNotifications, getReport, NotificationDto } from '../agentClient';
+import { queryKeys } from '../api/queryKeys';
+import { getRuntimeConfig } from '../config';
+import { useDashboardTools } from '../hooks/useDashboardTools';
+import { useQuery } from '../hooks/useQuery';
+import { dashboardSearch, isChildTab, isElfViewTab, type ChildTab, type DashboardState, type ElfViewTab } from '../paths';
+import { logger } from '../utils/logger';
+import { ElfView } from './ElfView';
+import { SantaView } from './SantaView';
+
+// Santa + Elf side-by-side view. The focused child (?child=), its detail tab
+// (?tab=) and the Elf view tab (?view=) are read from the URL so the exact
+// screen can be shared or restored after a refresh.
+export const DashboardPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeChildId = searchParams.get('child') ?? '';
+  const childTabParam = searchParams.get('tab');
+  const viewParam = searchParams.get('view');
+  const childTab: ChildTab = isChildTab(childTabParam) ? childTabParam : 'profile';
+  const elfTab: ElfViewTab = isElfViewTab(viewParam) ? viewParam : 'operations';
+
+  const [childIdInput, setChildIdInput] = useState(activeChildId);
+  const [reportMeta, setReportMeta] = useState<any>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const notificationsQuery = useQuery(queryKeys.notifications(), () => getNotifications(), {
+    refetchIntervalMs: getRuntimeConfig().polling.notificationPollIntervalMs,
+  });
+  const notifications: NotificationDto[] = notificationsQuery.data ?? [];
+  const notifLoading = notificationsQuery.isFetching;
+  const notifError = notificationsQuery.error ? (notificationsQuery.error as Error).message || 'Failed to load' : null;
+
+  function navigateTo(state: DashboardState) {
+    setSearchParams(dashboardSearch({ child: activeChildId, tab: childTab, view: elfTab, ...state }));
+  }
+
+  async function loadReport(id: string) {
+    setReportLoading(true);
+    try {
+      const meta = await getReport(id);
+      setReportMeta(meta);
+      if (!meta) {
+        logger.debug(`No report found for ${id}. User may need to generate one.`);
+      }
+    } catch (err) {
+      logger.error('Failed to load report:', err);
+      setReportMeta(null);
+    } finally {
+      setReportLoading(false);
+    }
+  }
+
+  // Follow the URL, so back/forward and pasted links load the right child
+  useEffect(() => {
+    setChildIdInput(activeChildId);
+    setReportMeta(null);
+    if (activeChildId) void loadReport(activeChildId);
+  }, [activeChildId]);
+
+  function handleOpenChild(id: string, tab: ChildTab = 'profile') {
+    // A newly focused child starts on its profile, with Elf operations in front
+    navigateTo({ child: id, tab, view: 'operations' });
+  }
+
+  // Tools the Santa and Elf agents can call to drive this page
+  const agentTools = useDashboardTools({
+    focusChild: handleOpenChild,
+    // Child tabs live in the operations view
+    openTab: (tab) => navigateTo(isChildTab(tab) ? { tab, view: 'operations' } : { view: tab }),
+  });
+
+  return (
+    <div style={{
+      display:'grid',
+      gap:'1.25rem',
+      gridTemplateColumns:'minmax(320px, 1.2fr) minmax(420px, 2fr)'
+    }}>
+      <div>
+        <SantaView
+          childIdInput={childIdInput}
+          setChildIdInput={setChildIdInput}
+          onOpenChild={(id) => handleOpenChild(id)}
+          agentTools={agentTools}
+          reportMeta={reportMeta}
+          reportLoading={reportLoading}
+          notifications={notifications}
+          notifLoading={notifLoading}
+          notifError={notifError}
+          onRefreshNotifications={()=>void notificationsQuery.refetch().catch(()=>{})}
+          onRefreshReport={() => activeChildId && void loadReport(activeChildId)}
+        />
+      </div>
+      <div>
+        <ElfView
+          activeChildId={activeChildId}
+          activeTab={elfTab}
+          onTabChange={(view) => navigateTo({ view })}
+          childTab={childTab}
+          onChildTabChange={(tab) => navigateTo({ tab })}
+          onChildSelected={(id) => handleOpenChild(id)}
+          agentTools={agentTools}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DashboardPage;
@@ -0,0 +1,16 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { DrasiInsightsPanel } from '../components/DrasiInsightsPanel';
+import { DrasiSignalRPanel } from '../components/DrasiSignalRPanel';
+import { paths } from '../paths';
+
+// Full-width home for the live Drasi panels, linkable as /drasi
+export const DrasiPage: React.FC = () => (
+  <div style={{ display: 'grid', gap: '1.25rem' }}>
+    <Link to={paths.drasiQueries()} style={{ color: 'var(--christmas-gold)', justifySelf: 'end' }}>Explore every continuous query ↗</Link>
+    <DrasiSignalRPanel />
+    <DrasiInsightsPanel />
+  </div>
+);
+
+export default DrasiPage;
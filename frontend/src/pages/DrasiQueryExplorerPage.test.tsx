@@ -0,0 +1,109 @@
+import { act, fireEvent, render, screen, within } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { describe, expect, it, vi } from "vitest";
+import { FakeHubConnection } from "../test/fakeHubConnection";
+import { DrasiQueryExplorerPage } from "./DrasiQueryExplorerPage";
+
+// One fake hub for the file, as the connection is shared per module
+const hub = vi.hoisted(() => ({ current: null as FakeHubConnection | null }));
+
+vi.mock("@microsoft/signalr", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@microsoft/signalr")>();
+  const { FakeHubConnection } = await import("../test/fakeHubConnection");
+  hub.current = new FakeHubConnection();
+  hub.current.reloadRows.set("recommendation-trending-30m", [
+    { suggestion: "Kite", freq: 2 },
+    { suggestion: "Sled", freq: 7 },
+    { suggestion: "Yo-yo", freq: 4 },
+  ]);
+  class HubConnectionBuilder {
+    withUrl() {
+      return this;
+    }
+    withAutomaticReconnect() {
+      return this;
+    }
+    configureLogging() {
+      return this;
+    }
+    build() {
+      return hub.current!.asHubConnection();
+    }
+  }
+  return { ...actual, HubConnectionBuilder };
+});
+
+vi.mock("../agentClient", () => ({
+  getDrasiQuery: vi.fn(async (queryName: string) => ({
+    queryName,
+    results: [{ freq: 7, suggestion: "Sled" }, { suggestion: "Kite", freq: 1 }],
+    count: 2,
+  })),
+  getDrasiQueryDebug: vi.fn(async (queryName: string) => ({
+    queryName,
+    queryContainerId: "default",
+    baseUrl: "",
+    resolvedUrl: `http://default-view-svc/${queryName}`,
+    resultCount: 2,
+    results: [],
+    message: "OK",
+  })),
+}));
+
+async function renderExplorer(url: string) {
+  const view = render(
+    <MemoryRouter initialEntries={[url]}>
+      <Routes>
+        <Route path="/drasi/queries" element={<DrasiQueryExplorerPage />} />
+        <Route path="/drasi/queries/:queryName" element={<DrasiQueryExplorerPage />} />
+      </Routes>
+    </MemoryRouter>
+  );
+  // Let the connection start and the reload stream settle
+  await act(async () => {});
+  return view;
+}
+
+const cells = (column: number) =>
+  within(screen.getByRole("table")).getAllByRole("row").slice(1).map((row) => row.querySelectorAll("td")[column].textContent);
+
+describe("DrasiQueryExplorerPage", () => {
+  it("lists the deployed continuous queries", async () => {
+    await renderExplorer("/drasi/queries");
+    const nav = screen.getByRole("navigation", { name: "Continuous queries" });
+    expect(within(nav).getByText("wishlist-duplicates-global")).toBeTruthy();
+    expect(within(nav).getByText("recommendation-trending-30m")).toBeTruthy();
+    expect(within(nav).getByText("wishlist-updates")).toBeTruthy();
+    expect(screen.getByText("Pick a continuous query to subscribe to it.")).toBeTruthy();
+  });
+
+  it("shows the live result set as a table sorted by the clicked column", async () => {
+    await renderExplorer("/drasi/queries/recommendation-trending-30m");
+    expect(cells(0)).toEqual(["Kite", "Sled", "Yo-yo"]);
+
+    fireEvent.click(screen.getByRole("button", { name: "freq" }));
+    expect(cells(1)).toEqual(["2", "4", "7"]);
+    fireEvent.click(screen.getByRole("button", { name: "freq ▲" }));
+    expect(cells(1)).toEqual(["7", "4", "2"]);
+  });
+
+  it("logs raw change events as they arrive", async () => {
+    await renderExplorer("/drasi/queries/recommendation-trending-30m");
+    act(() => hub.current!.emit("recommendation-trending-30m", { op: "i", payload: { after: { suggestion: "Drum", freq: 1 } } }));
+
+    fireEvent.click(screen.getByRole("tab", { name: "Change stream (1)" }));
+    const log = screen.getByRole("list", { name: "Change stream" });
+    expect(log.textContent).toContain("insert");
+    expect(log.textContent).toContain('"suggestion":"Drum"');
+  });
+
+  it("compares the live rows with the REST snapshot", async () => {
+    await renderExplorer("/drasi/queries/recommendation-trending-30m");
+    fireEvent.click(screen.getByRole("tab", { name: "Compare with REST" }));
+
+    expect((await screen.findByRole("status")).textContent).toBe("1 matching · 1 changed · 1 only live · 0 only in snapshot");
+    const changed = screen.getByRole("table", { name: "Changed" });
+    expect(within(changed).getAllByRole("row").slice(1).map((row) => row.textContent)).toEqual(["liveKite2", "snapshotKite1"]);
+    expect(within(screen.getByRole("table", { name: "Only live" })).getByText("Yo-yo")).toBeTruthy();
+  });
+});
@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { getDrasiQuery, getDrasiQueryDebug } from '../agentClient';
+import { DRASI_QUERIES, findDrasiQuery } from '../api/drasiQueries';
+import { queryKeys } from '../api/queryKeys';
+import { ApiErrorDetails, Panel, PanelHeader, StatusBadgeVariant } from '../components/shared';
+import { useQuery } from '../hooks/useQuery';
+import { useSignalRQuery, type QueryChangeLogEntry } from '../hooks/useSignalRQuery';
+import { paths } from '../paths';
+import { keyByFields, ROW_CHANGED_ANIMATION, type QueryChangeOp } from '../utils/queryChanges';
+import {
+  cellOf,
+  compareResultSets,
+  nextSort,
+  resultColumns,
+  sortRows,
+  type ResultRow,
+  type ResultSort,
+} from '../utils/queryResults';
+
+const CHANGE_LOG_LIMIT = 200;
+
+const OPS: Record<QueryChangeOp, { label: string; color: string }> = {
+  i: { label: 'insert', color: 'var(--status-success)' },
+  u: { label: 'update', color: 'var(--status-warning)' },
+  d: { label: 'delete', color: 'var(--status-error)' },
+  x: { label: 'control', color: 'var(--text-muted)' },
+  r: { label: 'reload', color: 'var(--text-muted)' },
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.3rem 0.7rem',
+  borderRadius: 4,
+  border: '1px solid var(--border-medium)',
+  background: 'var(--bg-tertiary)',
+  color: 'var(--text-primary)',
+  cursor: 'pointer',
+  fontSize: '.8rem',
+};
+
+const cellText = (value: unknown) =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+interface ResultTableProps {
+  rows: readonly unknown[];
+  columns: readonly string[];
+  label: string;
+  /** Live rows: their key, and when they last changed */
+  live?: {
+    keyOf: (row: ResultRow) => string;
+    lastChangedAt: (row: ResultRow) => number | undefined;
+    justChanged: (row: ResultRow) => boolean;
+  };
+}
+
+const ResultTable: React.FC<ResultTableProps> = ({ rows, columns, label, live }) => {
+  const [sort, setSort] = useState<ResultSort | null>(null);
+  const sorted = useMemo(() => sortRows(rows, sort), [rows, sort]);
+
+  if (rows.length === 0) return <p style={{ color: 'var(--text-muted)' }}>No rows.</p>;
+  return (
+    <div style={{ overflow: 'auto', maxHeight: 360 }}>
+      <table aria-label={label} style={{ borderCollapse: 'collapse', width: '100%', fontSize: '.8rem' }}>
+        <thead>
+          <tr>
+            {columns.map((column) => (
+              <th
+                key={column}
+                aria-sort={sort?.column === column ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                style={{ textAlign: 'left', borderBottom: '1px solid var(--border-medium)', position: 'sticky', top: 0, background: 'var(--bg-secondary)' }}
+              >
+                <button
+                  type="button"
+                  onClick={() => setSort((s) => nextSort(s, column))}
+                  style={{ background: 'none', border: 'none', color: 'var(--text-secondary)', cursor: 'pointer', fontWeight: 600, padding: '4px 6px' }}
+                >
+                  {column}{sort?.column === column ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : ''}
+                </button>
+              </th>
+            ))}
+            {live && (
+              <th style={{ textAlign: 'left', borderBottom: '1px solid var(--border-medium)', position: 'sticky', top: 0, background: 'var(--bg-secondary)', padding: '4px 6px', color: 'var(--text-muted)' }}>
+                Last changed
+              </th>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row, i) => {
+            const r = row as ResultRow;
+            const changedAt = live?.lastChangedAt(r);
+            const changed = live?.justChanged(r) ?? false;
+            return (
+              <tr
+                key={live ? live.keyOf(r) : i}
+                data-changed={changed || undefined}
+                style={{ borderBottom: '1px solid var(--border-light)', ...(changed ? { animation: ROW_CHANGED_ANIMATION } : {}) }}
+              >
+                {columns.map((column) => (
+                  <td key={column} style={{ padding: '3px 6px', whiteSpace: 'nowrap' }}>{cellText(cellOf(row, column))}</td>
+                ))}
+                {live && (
+                  <td style={{ padding: '3px 6px', whiteSpace: 'nowrap', color: 'var(--text-muted)' }}>
+                    {changedAt === undefined ? '–' : new Date(changedAt).toLocaleTimeString()}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const ChangeStream: React.FC<{ changes: readonly QueryChangeLogEntry[] }> = ({ changes }) => {
+  if (changes.length === 0) return <p style={{ color: 'var(--text-muted)' }}>No change events since subscribing.</p>;
+  return (
+    <ol aria-label="Change stream" style={{ listStyle: 'none', margin: 0, padding: 0, maxHeight: 320, overflow: 'auto', fontFamily: 'monospace', fontSize: '.75rem' }}>
+      {changes.map(({ seq, at, event }) => {
+        const op = OPS[event.op] ?? { label: event.op, color: 'var(--text-muted)' };
+        return (
+          <li key={seq} style={{ padding: '3px 0', borderBottom: '1px solid var(--border-light)' }}>
+            <span style={{ color: 'var(--text-muted)' }}>{new Date(at).toLocaleTimeString()}</span>{' '}
+            <strong style={{ color: op.color }}>{op.label}</strong>{' '}
+            <span style={{ color: 'var(--text-secondary)', wordBreak: 'break-all' }}>{JSON.stringify(event.payload ?? {})}</span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+// The REST snapshot of the query next to the live rows
+const SnapshotCompare: React.FC<{ queryId: string; live: readonly ResultRow[]; columns: readonly string[] }> = ({ queryId, live, columns }) => {
+  const snapshot = useQuery(queryKeys.drasiQuery(queryId), () => getDrasiQuery(queryId));
+  const debug = useQuery(queryKeys.drasiQueryDebug(queryId), () => getDrasiQueryDebug(queryId));
+  const rows = (snapshot.data?.results ?? []) as ResultRow[];
+  const key = useMemo(() => keyByFields<ResultRow>(findDrasiQuery(queryId)?.keyFields), [queryId]);
+  const comparison = useMemo(() => compareResultSets(live, rows, key), [live, rows, key]);
+  // Each changed row twice, live then snapshot
+  const changedRows = comparison.changed.flatMap(({ live: l, snapshot: r }) => [{ source: 'live', ...l }, { source: 'snapshot', ...r }]);
+
+  return (
+    <div style={{ display: 'grid', gap: 8 }}>
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', fontSize: '.85rem' }}>
+        <button type="button" style={buttonStyle} onClick={() => snapshot.refetch().catch(() => {})} disabled={snapshot.isFetching}>
+          {snapshot.isFetching ? 'Fetching…' : 'Refresh snapshot'}
+        </button>
+        {snapshot.data && (
+          <span role="status">
+            {comparison.matching.length} matching · {comparison.changed.length} changed · {comparison.onlyLive.length} only live · {comparison.onlySnapshot.length} only in snapshot
+          </span>
+        )}
+        {snapshot.updatedAt > 0 && <span style={{ color: 'var(--text-muted)' }}>as of {new Date(snapshot.updatedAt).toLocaleTimeString()}</span>}
+      </div>
+      {snapshot.error != null && <ApiErrorDetails error={snapshot.error} context="Snapshot not loaded" />}
+      {changedRows.length > 0 && (
+        <>
+          <h4 style={{ margin: 0 }}>Same key, different values</h4>
+          <ResultTable rows={changedRows} columns={['source', ...columns]} label="Changed" />
+        </>
+      )}
+      {comparison.onlyLive.length > 0 && (
+        <>
+          <h4 style={{ margin: 0 }}>Only in the live result set</h4>
+          <ResultTable rows={comparison.onlyLive} columns={columns} label="Only live" />
+        </>
+      )}
+      {comparison.onlySnapshot.length > 0 && (
+        <>
+          <h4 style={{ margin: 0 }}>Only in the REST snapshot</h4>
+          <ResultTable rows={comparison.onlySnapshot} columns={columns} label="Only in snapshot" />
+        </>
+      )}
+      <details>
+        <summary style={{ cursor: 'pointer', color: 'var(--text-muted)' }}>View service debug</summary>
+        {debug.error != null && <ApiErrorDetails error={debug.error} context="Debug info not loaded" />}
+        {debug.data && (
+          <dl style={{ display: 'grid', gridTemplateColumns: 'max-content 1fr', gap: '2px 12px', fontSize: '.8rem', margin: '6px 0' }}>
+            <dt>Container</dt><dd style={{ margin: 0 }}>{debug.data.queryContainerId}</dd>
+            <dt>Resolved URL</dt><dd style={{ margin: 0 }}><code>{debug.data.resolvedUrl}</code></dd>
+            <dt>Rows</dt><dd style={{ margin: 0 }}>{debug.data.resultCount}</dd>
+            <dt>Message</dt><dd style={{ margin: 0 }}>{debug.data.message}</dd>
+          </dl>
+        )}
+      </details>
+    </div>
+  );
+};
+
+type Tab = 'results' | 'changes' | 'compare';
+
+const QueryExplorer: React.FC<{ queryId: string }> = ({ queryId }) => {
+  const info = findDrasiQuery(queryId);
+  const live = useSignalRQuery<ResultRow>(queryId, undefined, { logLimit: CHANGE_LOG_LIMIT });
+  const [tab, setTab] = useState<Tab>('results');
+  const columns = useMemo(() => resultColumns(live.items, info?.columns), [live.items, info]);
+
+  const badge: { label: string; variant: StatusBadgeVariant } = live.error
+    ? { label: '🔴 Hub error', variant: 'error' }
+    : live.connected
+    ? { label: '🟢 Live', variant: 'success' }
+    : { label: '🟡 Connecting', variant: 'warning' };
+
+  return (
+    <Panel>
+      <PanelHeader title={queryId} icon="🔎" badge={badge} />
+      <p style={{ marginTop: 0, color: 'var(--text-secondary)', fontSize: '.85rem' }}>
+        {info?.description ?? 'Not in the deployed catalog; subscribing by name, rows keyed by all their fields.'}
+        {info && <> Rows are keyed by <code>{info.keyFields.join(' + ')}</code>.</>}
+        {info && !info.signalR && ' The SignalR reaction does not publish this query, so live rows may stay empty; compare with the REST snapshot.'}
+      </p>
+      {live.error != null && <ApiErrorDetails error={live.error} context="Live subscription" />}
+
+      <div role="tablist" style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        {([
+          ['results', `Result set (${live.items.length})`],
+          ['changes', `Change stream (${live.changes.length})`],
+          ['compare', 'Compare with REST'],
+        ] as const).map(([id, label]) => (
+          <button
+            key={id}
+            type="button"
+            role="tab"
+            aria-selected={tab === id}
+            onClick={() => setTab(id)}
+            style={{ ...buttonStyle, background: tab === id ? 'var(--christmas-green)' : buttonStyle.background }}
+          >
+            {label}
+          </button>
+        ))}
+        <button type="button" style={{ ...buttonStyle, marginLeft: 'auto' }} onClick={() => void live.reload()}>
+          Reload from hub
+        </button>
+      </div>
+
+      {tab === 'results' && <ResultTable rows={live.items} columns={columns} label={`${queryId} results`} live={live} />}
+      {tab === 'changes' && <ChangeStream changes={live.changes} />}
+      {tab === 'compare' && <SnapshotCompare queryId={queryId} live={live.items} columns={columns} />}
+    </Panel>
+  );
+};
+
+/**
+ * Any Drasi continuous query, live: the deployed queries to pick from, the
+ * chosen one's result set over SignalR as a sortable table, its raw change
+ * events, and a comparison with the REST snapshot. Linkable per query.
+ */
+export const DrasiQueryExplorerPage: React.FC = () => {
+  const { queryName } = useParams();
+  const navigate = useNavigate();
+  const [other, setOther] = useState('');
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'minmax(200px, 260px) 1fr', gap: '1.25rem', alignItems: 'start' }}>
+      <nav aria-label="Continuous queries" style={{ display: 'grid', gap: 6 }}>
+        <h2 style={{ margin: 0 }}>Continuous queries</h2>
+        {DRASI_QUERIES.map((q) => (
+          <Link
+            key={q.id}
+            to={paths.drasiQueries(q.id)}
+            aria-current={q.id === queryName ? 'page' : undefined}
+            style={{
+              display: 'block',
+              padding: '6px 8px',
+              borderRadius: 6,
+              textDecoration: 'none',
+              background: q.id === queryName ? 'var(--bg-tertiary)' : 'transparent',
+              border: '1px solid var(--border-light)',
+              color: 'var(--text-primary)',
+            }}
+          >
+            <div style={{ fontFamily: 'monospace', fontSize: '.8rem' }}>{q.id}</div>
+            <div style={{ fontSize: '.75rem', color: 'var(--text-muted)' }}>
+              {q.description}{q.signalR ? '' : ' · REST only'}
+            </div>
+          </Link>
+        ))}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (other.trim()) navigate(paths.drasiQueries(other.trim()));
+          }}
+          style={{ display: 'flex', gap: 4 }}
+        >
+          <input aria-label="Query name" placeholder="Other query…" value={other} onChange={(e) => setOther(e.target.value)} style={{ flex: 1, minWidth: 0 }} />
+          <button type="submit" style={buttonStyle} disabled={!other.trim()}>Open</button>
+        </form>
+      </nav>
+
+      {queryName ? (
+        <QueryExplorer key={queryName} queryId={queryName} />
+      ) : (
+        <p style={{ color: 'var(--text-muted)' }}>Pick a continuous query to subscribe to it.</p>
+      )}
+    </div>
+  );
+};
+
+export default DrasiQueryExplorerPage;
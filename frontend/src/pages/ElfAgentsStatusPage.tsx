@@ -1,12 +1,11 @@
 import React, { useEffect, useState } from 'react';
-import { API_URL } from '../config';
+import { getElfAgentsStatus } from '../agentClient';
 
 export const ElfAgentsStatusPage: React.FC = () => {
   const [data, setData] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   useEffect(()=>{
-    fetch(`${API_URL}/api/v1/elf-agents/status`).then(r=> r.ok? r.json(): Promise.reject(r.statusText))
-      .then(setData).catch(e=> setError(String(e)));
+    getElfAgentsStatus().then(setData).catch(e=> setError(e.message || String(e)));
   }, []);
   return (
     <section>
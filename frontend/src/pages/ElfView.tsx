@@ -1,37 +1,55 @@
 import React, { Suspense, lazy, useState } from 'react';
-import { ELF_AGENT_ID } from '../agentClient';
+import { Link } from 'react-router-dom';
+import { getRuntimeConfig } from '../config';
+import { ChatTranscript } from '../components/ChatTranscript';
+import { ContextComposer } from '../components/ContextComposer';
 import { DrasiAgentToolsShowcase } from '../components/DrasiAgentToolsShowcase';
 import { ElfAvatar, ElfStatus } from '../components/ElfAvatar';
 import { DrasiSignalRPanel } from '../components/DrasiSignalRPanel';
+import { PromptTemplatePicker } from '../components/PromptTemplatePicker';
+import { toolCallsIn } from '../api/chatThreads';
 import { useAgentChat } from '../hooks/useAgentChat';
 import { useDrasiContext } from '../hooks/useDrasiContext';
+import { usePromptTemplate } from '../hooks/usePromptTemplate';
+import { usePromptVariables } from '../hooks/usePromptVariables';
+import { paths, type ChildTab, type ElfViewTab } from '../paths';
+import type { FrontendTool } from '../utils/frontendTools';
+import { renderTemplate } from '../utils/promptTemplate';
 import { ChildDetailPage } from './ChildDetailPage';
 
 const Assistant = lazy(() => import('../assistant/AssistantProvider'));
 
 type Props = {
   activeChildId: string;
+  // View and detail tabs are owned by the URL (see DashboardPage)
+  activeTab: ElfViewTab;
+  onTabChange: (tab: ElfViewTab) => void;
+  childTab: ChildTab;
+  onChildTabChange: (tab: ChildTab) => void;
+  // Expected to bring the operations tab forward along with the child
   onChildSelected?: (childId: string) => void;
+  /** Frontend tools the Elf agent may call */
+  agentTools?: FrontendTool[];
 };
 
-type TabView = 'operations' | 'drasi-tools';
-
-export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) => {
+export const ElfView: React.FC<Props> = ({ activeChildId, activeTab, onTabChange, childTab, onChildTabChange, onChildSelected, agentTools }) => {
   const drasiContext = useDrasiContext(activeChildId);
-  const elfChat = useAgentChat(ELF_AGENT_ID, drasiContext); // Pass Drasi context to agent
-  const [task, setTask] = useState('Given the focused child, propose 3 gift options with rationale and price estimates.');
-  const [activeTab, setActiveTab] = useState<TabView>('operations');
+  const elfAgentId = getRuntimeConfig().elfAgentId;
+  const elfChat = useAgentChat(elfAgentId, drasiContext, activeChildId, agentTools); // Pass Drasi context to agent
+  const busy = elfChat.status === 'running' || elfChat.status === 'cancelling';
+  const taskTemplate = usePromptTemplate('elf', 'elf-gift-options@1');
+  const promptVariables = usePromptVariables(activeChildId, drasiContext.insights);
 
-  // Enhance the onChildSelected to also switch to operations tab
   const handleChildSelected = React.useCallback((childId: string) => {
-    setActiveTab('operations'); // Switch to operations tab to show recommendations
-    onChildSelected?.(childId);
-  }, [onChildSelected]);
+    if (onChildSelected) onChildSelected(childId);
+    else onTabChange('operations');
+  }, [onChildSelected, onTabChange]);
 
   // Map agent status to elf avatar status
   const getElfStatus = (): ElfStatus => {
     switch (elfChat.status) {
-      case 'running': return 'working';
+      case 'running':
+      case 'cancelling': return elfChat.thinking ? 'thinking' : 'working';
       case 'done': return 'complete';
       case 'error': return 'error';
       default: return 'idle';
@@ -39,26 +57,33 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
   };
 
   const handleRunTask = () => {
-    // Build enhanced prompt with Drasi context
+    const task = renderTemplate(taskTemplate.text, promptVariables);
+    // Build enhanced prompt with Drasi context, in the template's framing
     const enhancedPrompt = drasiContext.hasDrasiContext
-      ? drasiContext.buildEnhancedPrompt(task)
-      : `${task}\n\nFocused child: ${activeChildId || '(none)'}`;
+      ? drasiContext.buildEnhancedPrompt(task, taskTemplate.framing)
+      : `${task}\n\nFocused child: ${drasiContext.focusChildId || '(none)'}`;
 
-    elfChat.start(enhancedPrompt);
+    // The thread keeps the task as typed; only this turn carries the Drasi snapshot
+    elfChat.start(task, { prompt: enhancedPrompt, template: taskTemplate.ref });
   };
 
-  // Extract tool calls from agent response for visualization
-  const toolCallsDetected = React.useMemo(() => {
-    const tools: string[] = [];
-    if (elfChat.result && typeof elfChat.result === 'string') {
-      // Parse common tool patterns from agent output
-      if (elfChat.result.match(/GetChildWishlistItems|retrieved.*wishlist/i)) tools.push('GetChildWishlistItems');
-      if (elfChat.result.match(/GetChildBehaviorHistory|behavior.*history/i)) tools.push('GetChildBehaviorHistory');
-      if (elfChat.result.match(/QueryDrasiGraph|Drasi.*query/i)) tools.push('QueryDrasiGraph');
-      if (elfChat.result.match(/trending|duplicate|inactive/i)) tools.push('Drasi Insights');
-    }
-    return tools;
-  }, [elfChat.result]);
+  // Real tool calls from the AG-UI stream: the selected thread's, plus the run in progress
+  const threadToolCalls = React.useMemo(
+    () => [
+      ...elfChat.messages.flatMap((m) => m.toolCalls ?? []),
+      ...(busy ? elfChat.toolCalls : []),
+    ],
+    [elfChat.messages, busy, elfChat.toolCalls]
+  );
+  const catalogToolCalls = React.useMemo(() => toolCallsIn(elfChat.threads), [elfChat.threads]);
+  const [highlightedCall, setHighlightedCall] = useState<string | null>(null);
+  const { selectThread } = elfChat;
+
+  const openToolCall = React.useCallback((threadId: string, toolCallId: string) => {
+    selectThread(threadId);
+    setHighlightedCall(toolCallId);
+    onTabChange('operations');
+  }, [selectThread, onTabChange]);
 
   return (
     <div style={{ display: 'grid', gap: '1rem' }}>
@@ -68,7 +93,7 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
       {/* Tab Navigation */}
       <div style={{ display: 'flex', gap: 8, background: 'var(--bg-secondary)', padding: '8px', borderRadius: 8, boxShadow: '0 2px 4px rgba(0,0,0,0.5)', border: '1px solid var(--border-medium)' }}>
         <button
-          onClick={() => setActiveTab('operations')}
+          onClick={() => onTabChange('operations')}
           style={{
             flex: 1,
             padding: '12px 16px',
@@ -85,7 +110,7 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
           🎄 Elf Operations
         </button>
         <button
-          onClick={() => setActiveTab('drasi-tools')}
+          onClick={() => onTabChange('drasi-tools')}
           style={{
             flex: 1,
             padding: '12px 16px',
@@ -121,9 +146,16 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
       {activeTab === 'operations' && (
         <>
           <section style={{ background:'var(--bg-secondary)', padding:'1rem', borderRadius:8, boxShadow:'0 2px 4px rgba(0,0,0,0.5)', minHeight: 180, border: '1px solid var(--border-medium)' }}>
-            <h2 style={{ marginTop:0, color: 'var(--text-primary)' }}>Elf Operations</h2>
+            <h2 style={{ marginTop:0, color: 'var(--text-primary)', display:'flex', justifyContent:'space-between', alignItems:'baseline' }}>
+              Elf Operations
+              {activeChildId && (
+                <Link to={paths.child(activeChildId, childTab)} style={{ fontSize:'.8rem', fontWeight:400, color:'var(--christmas-gold)' }}>
+                  Open full page ↗
+                </Link>
+              )}
+            </h2>
             {activeChildId ? (
-              <ChildDetailPage childId={activeChildId} />
+              <ChildDetailPage childId={activeChildId} tab={childTab} onTabChange={onChildTabChange} agentTools={agentTools} />
             ) : (
               <div style={{ gridColumn:'1/-1', background:'var(--bg-tertiary)', padding:'2rem', borderRadius:8, textAlign:'center', border:'1px dashed var(--border-light)' }}>
                 <p style={{ opacity:0.6, color: 'var(--text-muted)' }}>Select a child in the Santa panel to get started.</p>
@@ -147,23 +179,25 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
               Runs Microsoft Agent Framework with real-time Drasi context.
               Focused child: <code>{activeChildId || 'none'}</code>
             </p>
+            <PromptTemplatePicker prompt={taskTemplate} variables={promptVariables} agentId={elfAgentId} editFraming />
             <textarea
-              value={task}
-              onChange={e=>setTask(e.target.value)}
+              aria-label="Elf task"
+              value={taskTemplate.text}
+              onChange={e=>taskTemplate.setText(e.target.value)}
               rows={3}
               style={{ width:'100%', background:'var(--bg-primary)', color:'var(--text-primary)', border:'1px solid var(--border-medium)', borderRadius:6, padding:8 }}
             />
             <div style={{ display:'flex', gap:8, marginTop:8 }}>
               <button
-                disabled={elfChat.status==='running'}
+                disabled={busy}
                 onClick={handleRunTask}
                 style={{
                   padding:'0.5rem 0.9rem',
-                  background: elfChat.status==='running' ? 'var(--border-medium)' : 'var(--christmas-green)',
+                  background: busy ? 'var(--border-medium)' : 'var(--christmas-green)',
                   color:'var(--text-primary)',
                   border:'none',
                   borderRadius:4,
-                  cursor: elfChat.status==='running' ? 'not-allowed' : 'pointer',
+                  cursor: busy ? 'not-allowed' : 'pointer',
                   fontWeight: 600
                 }}
               >
@@ -182,38 +216,17 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
                   fontWeight: 600
                 }}
               >
-                Cancel
+                {elfChat.status==='cancelling' ? 'Cancelling…' : 'Cancel'}
               </button>
             </div>
 
-            {/* Show Drasi context preview when available */}
-            {drasiContext.hasDrasiContext && activeChildId && (
-              <details style={{ marginTop: 12, fontSize: '.85rem' }}>
-                <summary style={{ cursor: 'pointer', opacity: 0.8, padding: 8, background: 'var(--bg-tertiary)', borderRadius: 4, color: 'var(--text-secondary)' }}>
-                  📊 Preview Drasi Context (Click to expand)
-                </summary>
-                <pre style={{
-                  marginTop: 8,
-                  padding: 10,
-                  background: 'var(--bg-primary)',
-                  borderRadius: 4,
-                  fontSize: '.75rem',
-                  overflow: 'auto',
-                  maxHeight: 200,
-                  whiteSpace: 'pre-wrap',
-                  color: 'var(--text-secondary)'
-                }}>
-                  {drasiContext.buildDrasiContextString(activeChildId)}
-                </pre>
-              </details>
-            )}
+            {/* What Drasi context goes with the task, in the prompt and the AG-UI context */}
+            <ContextComposer drasi={drasiContext} viewChildId={activeChildId} />
 
-            <div style={{ marginTop:8, fontSize:'.9rem', whiteSpace:'pre-wrap', background:'var(--bg-tertiary)', padding:10, borderRadius:6, minHeight:64, color: 'var(--text-secondary)' }}>
-              {elfChat.transcript || <span style={{ opacity:.6, color: 'var(--text-muted)' }}>Task output will appear here…</span>}
-            </div>
+            <ChatTranscript chat={elfChat} agentLabel="Elf" placeholder="Task output will appear here…" highlightToolCallId={highlightedCall} childId={activeChildId || undefined} />
 
-            {/* Tool Calls Indicator */}
-            {toolCallsDetected.length > 0 && (
+            {/* Tools the agent actually called in this conversation; each links to its card */}
+            {threadToolCalls.length > 0 && (
               <div style={{
                 marginTop: 12,
                 padding: '12px',
@@ -225,18 +238,20 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
                   🛠️ Agent Tools Used:
                 </div>
                 <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-                  {toolCallsDetected.map((tool, idx) => (
-                    <span key={idx} style={{
-                      background: 'var(--christmas-green)',
+                  {threadToolCalls.map((call) => (
+                    <button key={call.id} onClick={() => setHighlightedCall(call.id)} style={{
+                      background: call.status === 'error' ? 'var(--santa-red)' : 'var(--christmas-green)',
                       color: 'white',
+                      border: 'none',
+                      cursor: 'pointer',
                       padding: '4px 10px',
                       borderRadius: 12,
                       fontSize: '.75rem',
                       fontWeight: 600,
                       boxShadow: '0 2px 4px rgba(0,0,0,0.3)'
                     }}>
-                      {tool}
-                    </span>
+                      {call.name}{call.status === 'running' ? ' ⏳' : ''}
+                    </button>
                   ))}
                 </div>
               </div>
@@ -246,7 +261,12 @@ export const ElfView: React.FC<Props> = ({ activeChildId, onChildSelected }) =>
       )}
 
       {activeTab === 'drasi-tools' && (
-        <DrasiAgentToolsShowcase childId={activeChildId || 'child-123'} onChildSelected={handleChildSelected} />
+        <DrasiAgentToolsShowcase
+          childId={activeChildId || 'child-123'}
+          onChildSelected={handleChildSelected}
+          toolCalls={catalogToolCalls}
+          onOpenToolCall={openToolCall}
+        />
       )}
 
       <Suspense fallback={<div style={{position:'fixed',bottom:16,right:16}}>Loading assistant…</div>}>
@@ -1,15 +1,21 @@
 import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { getReport } from '../agentClient';
+import { AgentRunView } from '../components/AgentRunView';
 import { useAgentRun } from '../hooks/useAgentRun';
+import { paths } from '../paths';
 
 interface LogEntry { ts: number; text: string }
 
 export const RunAgent: React.FC = () => {
   const [agentId, setAgentId] = useState('taskforce');
-  const [childId, setChildId] = useState('child-123');
+  const [searchParams] = useSearchParams();
+  // /agents/run?child=... preselects the child, e.g. from a shared link
+  const [childId, setChildId] = useState(searchParams.get('child') ?? 'child-123');
+  const [prompt, setPrompt] = useState('');
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [reportMeta, setReportMeta] = useState<any>(null);
-  const { start, cancel, status, events, transcript } = useAgentRun(agentId);
+  const { start, cancel, status, events, transcript, stateStore } = useAgentRun(agentId);
 
   const append = (text: string) => setLogs(l => [...l, { ts: Date.now(), text }]);
 
@@ -18,6 +24,7 @@ export const RunAgent: React.FC = () => {
     if (status === 'finished') {
       getReport(childId).then(meta => meta && setReportMeta(meta)).catch(() => {});
     }
+    if (status === 'cancelled') append('Cancelled.');
   }, [status, childId]);
 
   return (
@@ -26,16 +33,12 @@ export const RunAgent: React.FC = () => {
       <div style={{ display: 'flex', gap: '0.5rem' }}>
         <input value={agentId} onChange={e => setAgentId(e.target.value)} />
         <input value={childId} onChange={e => setChildId(e.target.value)} />
-        <button onClick={() => { append('Starting run...'); start(); }} disabled={status === 'running'}>Start</button>
-        <button onClick={() => { cancel(); append('Cancelled.'); }} disabled={status !== 'running'}>Cancel</button>
-      </div>
-      <pre style={{ background: '#222', color: '#0f0', padding: '0.5rem', minHeight: '120px' }}>
-        {events.map((e, i) => <div key={i}>{e.kind === 'delta' ? e.deltaText : e.kind}</div>)}
-      </pre>
-      <div style={{ marginTop: '0.5rem' }}>
-        <strong>Status:</strong> {status} <br />
-        <strong>Transcript:</strong> {transcript || '(none yet)'}
+        <input value={prompt} onChange={e => setPrompt(e.target.value)} placeholder="Prompt (optional)" style={{ flex: 1 }} />
+        <button onClick={() => { append('Starting run...'); start({ prompt, childId }); }} disabled={status === 'running' || status === 'cancelling'}>Start</button>
+        <button onClick={() => { cancel(); append('Cancelling...'); }} disabled={status !== 'running'}>{status === 'cancelling' ? 'Cancelling…' : 'Cancel'}</button>
+        <Link to={paths.runHistory()}>Run history</Link>
       </div>
+      <AgentRunView status={status} events={events} transcript={transcript} stateStore={stateStore} childId={childId} />
       {reportMeta && (
         <div>
           <h3>Report Metadata</h3>
@@ -0,0 +1,117 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  deleteAgentRun,
+  getAgentRuns,
+  loadAgentRuns,
+  runDuration,
+  subscribeAgentRuns,
+  timeToFirstText,
+  type AgentRunRecord,
+} from '../api/runHistory';
+import { AgentRunView } from '../components/AgentRunView';
+import { useAgentRun } from '../hooks/useAgentRun';
+import { paths } from '../paths';
+
+const SPEEDS = [1, 2, 5, 10, 50];
+
+const statusColors: Record<AgentRunRecord['status'], string> = {
+  running: 'var(--status-warning)',
+  succeeded: 'var(--status-success)',
+  failed: 'var(--status-error)',
+  cancelled: 'var(--text-muted)',
+};
+
+function seconds(ms: number | undefined): string {
+  return ms === undefined ? '–' : `${(ms / 1000).toFixed(1)} s`;
+}
+
+const JsonDetails: React.FC<{ label: string; value: unknown }> = ({ label, value }) => (
+  <details>
+    <summary>{label}</summary>
+    <pre style={{ background: '#222', color: '#fff', padding: '0.5rem', maxHeight: 240, overflow: 'auto' }}>
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  </details>
+);
+
+const RunReplay: React.FC<{ run: AgentRunRecord }> = ({ run }) => {
+  const [speed, setSpeed] = useState(1);
+  const { replay, cancel, status, events, transcript, stateStore } = useAgentRun(run.agentId, undefined, run.initialState);
+
+  return (
+    <div>
+      <h3 style={{ marginBottom: 4 }}>{run.prompt || 'Default prompt'}</h3>
+      <div style={{ fontSize: '.85rem', color: 'var(--text-secondary)' }}>
+        {run.agentId}
+        {run.childId && <> · <Link to={paths.child(run.childId, 'agent')}>{run.childId}</Link></>}
+        {' · '}{new Date(run.startedAt).toLocaleString()}
+        {' · '}{seconds(runDuration(run))} total, first text after {seconds(timeToFirstText(run))}
+        {' · '}{run.events.length} events
+        {' · '}<span style={{ color: statusColors[run.status] }}>{run.status}</span>
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', margin: '0.5rem 0' }}>
+        <label>
+          Speed{' '}
+          <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
+            {SPEEDS.map((s) => <option key={s} value={s}>{s}×</option>)}
+          </select>
+        </label>
+        <button onClick={() => replay(run, speed)} disabled={status === 'running'}>▶ Replay</button>
+        <button onClick={cancel} disabled={status !== 'running'}>Stop</button>
+        <button onClick={() => void deleteAgentRun(run.id)}>Delete</button>
+      </div>
+      <JsonDetails label="Drasi context" value={run.drasiContext} />
+      <JsonDetails label="Shared state sent" value={run.initialState} />
+      <AgentRunView status={status} events={events} transcript={transcript} stateStore={stateStore} childId={run.childId} />
+    </div>
+  );
+};
+
+/** Past agent runs, newest first, with a replay of the selected one */
+export const RunHistoryPage: React.FC = () => {
+  const runs = useSyncExternalStore(subscribeAgentRuns, getAgentRuns);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get('run');
+  const selected = runs.find((r) => r.id === selectedId) ?? null;
+
+  useEffect(() => {
+    void loadAgentRuns();
+  }, []);
+
+  return (
+    <section>
+      <h2>Agent Run History</h2>
+      {runs.length === 0 ? (
+        <p>No runs recorded yet. Runs started from <Link to={paths.runAgent()}>Run Agent</Link> or a child's agent tab show up here.</p>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: 'minmax(240px, 1fr) 3fr', gap: '1rem' }}>
+          <ul aria-label="Recorded runs" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {runs.map((run) => (
+              <li key={run.id}>
+                <button
+                  onClick={() => setSearchParams({ run: run.id })}
+                  aria-current={run.id === selectedId ? 'true' : undefined}
+                  style={{
+                    width: '100%',
+                    textAlign: 'left',
+                    marginBottom: 4,
+                    border: run.id === selectedId ? '1px solid var(--christmas-gold)' : '1px solid var(--border-medium)',
+                  }}
+                >
+                  <div><strong>{run.agentId}</strong>{run.childId && ` · ${run.childId}`}</div>
+                  <div style={{ fontSize: '.8rem' }}>
+                    {new Date(run.startedAt).toLocaleTimeString()} · {seconds(runDuration(run))} ·{' '}
+                    <span style={{ color: statusColors[run.status] }}>{run.status}</span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {/* Keyed so switching runs stops the previous replay */}
+          {selected ? <RunReplay key={selected.id} run={selected} /> : <p>Select a run to inspect and replay it.</p>}
+        </div>
+      )}
+    </section>
+  );
+};
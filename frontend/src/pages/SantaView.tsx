@@ -1,11 +1,19 @@
 import React from 'react';
-import { NotificationDto, SANTA_AGENT_ID } from '../agentClient';
+import { NotificationDto } from '../agentClient';
+import { getRuntimeConfig } from '../config';
+import { ChatTranscript } from '../components/ChatTranscript';
+import { ContextComposer } from '../components/ContextComposer';
 import { DrasiSignalRPanel } from '../components/DrasiSignalRPanel';
 import { ElfAvatar, ElfStatus } from '../components/ElfAvatar';
 import { NotificationStreamPanel } from '../components/NotificationStreamPanel';
+import { PromptTemplatePicker } from '../components/PromptTemplatePicker';
 import { YearOverYearPanel } from '../components/YearOverYearPanel';
 import { useAgentChat } from '../hooks/useAgentChat';
 import { useDrasiContext } from '../hooks/useDrasiContext';
+import { usePromptTemplate } from '../hooks/usePromptTemplate';
+import { usePromptVariables } from '../hooks/usePromptVariables';
+import type { FrontendTool } from '../utils/frontendTools';
+import { renderTemplate } from '../utils/promptTemplate';
 import { AddChild } from './AddChild';
 import { ParentPortalPage } from './ParentPortalPage';
 
@@ -20,6 +28,8 @@ type Props = {
   notifError: string | null;
   onRefreshNotifications: () => void;
   onRefreshReport: () => void;
+  /** Frontend tools the Santa agent may call */
+  agentTools?: FrontendTool[];
 };
 
 export const SantaView: React.FC<Props> = ({
@@ -33,14 +43,27 @@ export const SantaView: React.FC<Props> = ({
   notifError,
   onRefreshNotifications,
   onRefreshReport,
+  agentTools,
 }) => {
   const drasiContext = useDrasiContext(childIdInput);
-  const santaChat = useAgentChat(SANTA_AGENT_ID, drasiContext);
-  const [prompt, setPrompt] = React.useState('Summarize current wishlist trends and potential budget risks.');
+  // One set of threads per focused child
+  const santaAgentId = getRuntimeConfig().santaAgentId;
+  const santaChat = useAgentChat(santaAgentId, drasiContext, childIdInput.trim(), agentTools);
+  const promptTemplate = usePromptTemplate('santa', 'santa-trends@1');
+  const promptVariables = usePromptVariables(childIdInput.trim(), drasiContext.insights);
+  const prompt = promptTemplate.text;
+  const busy = santaChat.status === 'running' || santaChat.status === 'cancelling';
+
+  const ask = () => {
+    if (!prompt.trim()) return;
+    santaChat.start(renderTemplate(prompt, promptVariables).trim(), { template: promptTemplate.ref });
+    promptTemplate.clear();
+  };
 
   const getSantaStatus = (): ElfStatus => {
     switch (santaChat.status) {
-      case 'running': return 'working';
+      case 'running':
+      case 'cancelling': return santaChat.thinking ? 'thinking' : 'working';
       case 'done': return 'complete';
       case 'error': return 'error';
       default: return 'idle';
@@ -86,27 +109,28 @@ export const SantaView: React.FC<Props> = ({
             </span>
           )}
         </h2>
+        <PromptTemplatePicker prompt={promptTemplate} variables={promptVariables} agentId={santaAgentId} />
         <div style={{ display:'flex', gap:8, alignItems:'flex-start' }}>
           <textarea
+            aria-label="Santa prompt"
             value={prompt}
-            onChange={e=>setPrompt(e.target.value)}
+            onChange={e=>promptTemplate.setText(e.target.value)}
             rows={3}
             style={{ flex:1, width:'100%', background:'var(--bg-primary)', color:'var(--text-primary)', border:'1px solid var(--border-medium)', borderRadius:6, padding:8 }}
             placeholder="Ask Santa about trends, budget risks, or workshop intelligence..."
           />
           <div style={{ display:'grid', gap:6 }}>
-            <button disabled={santaChat.status==='running'} onClick={()=>santaChat.start(prompt)} style={{ padding:'0.5rem 0.9rem', background: santaChat.status==='running' ? 'var(--border-medium)' : 'var(--christmas-green)', color:'var(--text-primary)', border:'none', borderRadius:4, fontWeight: 600, cursor: santaChat.status==='running' ? 'not-allowed' : 'pointer' }}>Start</button>
-            <button disabled={santaChat.status!=='running'} onClick={()=>santaChat.cancel()} style={{ padding:'0.5rem 0.9rem', background: santaChat.status!=='running' ? 'var(--border-medium)' : 'var(--santa-red)', color:'var(--text-primary)', border:'none', borderRadius:4, fontWeight: 600, cursor: santaChat.status!=='running' ? 'not-allowed' : 'pointer' }}>Cancel</button>
+            <button disabled={busy || !prompt.trim()} onClick={ask} style={{ padding:'0.5rem 0.9rem', background: busy ? 'var(--border-medium)' : 'var(--christmas-green)', color:'var(--text-primary)', border:'none', borderRadius:4, fontWeight: 600, cursor: busy ? 'not-allowed' : 'pointer' }}>{santaChat.messages.length > 0 ? 'Send' : 'Start'}</button>
+            <button disabled={santaChat.status!=='running'} onClick={()=>santaChat.cancel()} style={{ padding:'0.5rem 0.9rem', background: santaChat.status!=='running' ? 'var(--border-medium)' : 'var(--santa-red)', color:'var(--text-primary)', border:'none', borderRadius:4, fontWeight: 600, cursor: santaChat.status!=='running' ? 'not-allowed' : 'pointer' }}>{santaChat.status==='cancelling' ? 'Cancelling…' : 'Cancel'}</button>
           </div>
         </div>
         {drasiContext.hasDrasiContext && (
           <div style={{ marginTop: 8, padding: 6, background: 'rgba(46, 125, 50, 0.1)', borderRadius: 4, fontSize: '.85rem', color: 'var(--text-secondary)' }}>
-            ✨ Santa can now see real-time Drasi insights: {drasiContext.insights?.stats?.totalEventsProcessed || 0} events, {drasiContext.insights?.trending?.length || 0} trending items
+            ✨ Santa can now see real-time Drasi insights: {drasiContext.insights?.stats.totalEvents ?? 0} events, {drasiContext.insights?.trending?.length || 0} trending items
           </div>
         )}
-        <div style={{ marginTop:8, fontSize:'.9rem', whiteSpace:'pre-wrap', background:'var(--bg-tertiary)', padding:10, borderRadius:6, minHeight:64, color: 'var(--text-secondary)' }}>
-          {santaChat.transcript || <span style={{ opacity:.6, color: 'var(--text-muted)' }}>Agent response will appear here…</span>}
-        </div>
+        <ContextComposer drasi={drasiContext} viewChildId={childIdInput.trim()} />
+        <ChatTranscript chat={santaChat} agentLabel="Santa" placeholder="Agent response will appear here…" childId={childIdInput.trim() || undefined} />
       </section>
 
       <section style={{ background:'var(--bg-secondary)', padding:'1rem', borderRadius:8, boxShadow:'0 2px 4px rgba(0,0,0,0.5)', border: '1px solid var(--border-medium)' }}>
@@ -0,0 +1,52 @@
+// URL builders and the URL-backed view state shared by pages and the route
+// table. Kept apart from routes.tsx so pages can link to each other without
+// importing the route table that imports them.
+
+export const CHILD_TABS = ['profile', 'wishlist', 'recommendations', 'logistics', 'agent'] as const;
+export type ChildTab = (typeof CHILD_TABS)[number];
+
+export const ELF_VIEWS = ['operations', 'drasi-tools'] as const;
+export type ElfViewTab = (typeof ELF_VIEWS)[number];
+
+export function isChildTab(value: string | null | undefined): value is ChildTab {
+  return (CHILD_TABS as readonly string[]).includes(value ?? '');
+}
+
+export function isElfViewTab(value: string | null | undefined): value is ElfViewTab {
+  return (ELF_VIEWS as readonly string[]).includes(value ?? '');
+}
+
+export interface DashboardState {
+  child?: string;
+  tab?: ChildTab;
+  view?: ElfViewTab;
+}
+
+/** Query string for the dashboard; defaults are left out to keep links short */
+export function dashboardSearch(state: DashboardState): URLSearchParams {
+  const search = new URLSearchParams();
+  if (state.child) search.set('child', state.child);
+  if (state.tab && state.tab !== 'profile') search.set('tab', state.tab);
+  if (state.view && state.view !== 'operations') search.set('view', state.view);
+  return search;
+}
+
+/** Path builders, so links and navigate() calls never hand-assemble URLs */
+export const paths = {
+  home: (state: DashboardState = {}) => {
+    const query = dashboardSearch(state).toString();
+    return query ? `/?${query}` : '/';
+  },
+  children: () => '/children',
+  child: (childId: string, tab: ChildTab = 'profile') =>
+    `/children/${encodeURIComponent(childId)}/${tab}`,
+  runAgent: (childId?: string) =>
+    childId ? `/agents/run?child=${encodeURIComponent(childId)}` : '/agents/run',
+  runHistory: (runId?: string) =>
+    runId ? `/agents/history?run=${encodeURIComponent(runId)}` : '/agents/history',
+  agentStatus: () => '/agents/status',
+  parent: () => '/parent',
+  drasi: () => '/drasi',
+  drasiQueries: (queryName?: string) =>
+    queryName ? `/drasi/queries/${encodeURIComponent(queryName)}` : '/drasi/queries',
+};
@@ -0,0 +1,88 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter, useLocation } from "react-router-dom";
+import { describe, expect, it, vi } from "vitest";
+import { dashboardSearch, paths } from "./paths";
+import { AppRoutes } from "./routes";
+
+// Pages are stubbed so the test only exercises the route table
+vi.mock("./pages/ChildDetailPage", () => ({
+  ChildDetailPage: ({ childId, tab, onTabChange }: any) => (
+    <div>
+      <p>detail {childId} {tab}</p>
+      <button onClick={() => onTabChange("wishlist")}>wishlist</button>
+    </div>
+  ),
+}));
+vi.mock("./pages/DashboardPage", () => ({ DashboardPage: () => <p>dashboard</p> }));
+vi.mock("./pages/ChildrenDashboardPage", () => ({ ChildrenDashboardPage: () => <p>children</p> }));
+vi.mock("./pages/DrasiPage", () => ({ DrasiPage: () => <p>drasi</p> }));
+vi.mock("./pages/ElfAgentsStatusPage", () => ({ ElfAgentsStatusPage: () => <p>agent status</p> }));
+vi.mock("./pages/ParentPortalPage", () => ({ ParentPortalPage: () => <p>parent</p> }));
+vi.mock("./pages/RunAgent", () => ({ RunAgent: () => <p>run agent</p> }));
+
+const Location = () => {
+  const location = useLocation();
+  return <output>{location.pathname + location.search}</output>;
+};
+
+function renderAt(url: string) {
+  return render(
+    <MemoryRouter initialEntries={[url]}>
+      <AppRoutes />
+      <Location />
+    </MemoryRouter>,
+  );
+}
+
+describe("AppRoutes", () => {
+  it.each([
+    ["/", "dashboard"],
+    ["/children", "children"],
+    ["/agents/run", "run agent"],
+    ["/agents/status", "agent status"],
+    ["/parent", "parent"],
+    ["/drasi", "drasi"],
+  ])("renders %s", (url, text) => {
+    renderAt(url);
+    expect(screen.getByText(text)).toBeTruthy();
+  });
+
+  it("opens a child on the tab named in the URL", () => {
+    renderAt("/children/child%20one/logistics");
+    expect(screen.getByText("detail child one logistics")).toBeTruthy();
+  });
+
+  it("redirects a bare or unknown child tab to the profile", () => {
+    renderAt("/children/child-1");
+    expect(screen.getByRole("status").textContent).toBe("/children/child-1/profile");
+
+    renderAt("/children/child-2/bogus");
+    expect(screen.getByText("detail child-2 profile")).toBeTruthy();
+  });
+
+  it("puts tab changes in the URL", () => {
+    renderAt("/children/child-1/profile");
+    fireEvent.click(screen.getByText("wishlist"));
+    expect(screen.getByText("detail child-1 wishlist")).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe("/children/child-1/wishlist");
+  });
+
+  it("sends unknown paths home", () => {
+    renderAt("/nowhere");
+    expect(screen.getByText("dashboard")).toBeTruthy();
+  });
+});
+
+describe("paths", () => {
+  it("leaves default dashboard state out of the query string", () => {
+    expect(paths.home()).toBe("/");
+    expect(paths.home({ child: "child-1", tab: "profile", view: "operations" })).toBe("/?child=child-1");
+    expect(dashboardSearch({ child: "a b", tab: "agent", view: "drasi-tools" }).toString()).toBe(
+      "child=a+b&tab=agent&view=drasi-tools",
+    );
+  });
+
+  it("encodes child ids in detail paths", () => {
+    expect(paths.child("child/1", "wishlist")).toBe("/children/child%2F1/wishlist");
+  });
+});
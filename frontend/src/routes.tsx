@@ -0,0 +1,42 @@
+// Route table for the dashboard.
+// Anything worth sharing as a link (focused child, detail tab, Elf view tab)
+// lives in the path or query string so it survives a refresh; the backend
+// serves index.html for unknown paths (MapFallbackToFile in Program.cs).
+
+import React from 'react';
+import { Navigate, Route, Routes, useNavigate, useParams } from 'react-router-dom';
+import { ChildDetailPage } from './pages/ChildDetailPage';
+import { ChildrenDashboardPage } from './pages/ChildrenDashboardPage';
+import { DashboardPage } from './pages/DashboardPage';
+import { DrasiPage } from './pages/DrasiPage';
+import { DrasiQueryExplorerPage } from './pages/DrasiQueryExplorerPage';
+import { ElfAgentsStatusPage } from './pages/ElfAgentsStatusPage';
+import { ParentPortalPage } from './pages/ParentPortalPage';
+import { RunAgent } from './pages/RunAgent';
+import { RunHistoryPage } from './pages/RunHistoryPage';
+import { isChildTab, paths } from './paths';
+
+// /children/:id/:tab with the tab validated; unknown or missing tabs land on the profile
+const ChildDetailRoute: React.FC = () => {
+  const { id = '', tab } = useParams();
+  const navigate = useNavigate();
+  if (!isChildTab(tab)) return <Navigate to={paths.child(id)} replace />;
+  return <ChildDetailPage childId={id} tab={tab} onTabChange={(next) => navigate(paths.child(id, next))} />;
+};
+
+export const AppRoutes: React.FC = () => (
+  <Routes>
+    <Route path="/" element={<DashboardPage />} />
+    <Route path="/children" element={<ChildrenDashboardPage />} />
+    <Route path="/children/:id" element={<ChildDetailRoute />} />
+    <Route path="/children/:id/:tab" element={<ChildDetailRoute />} />
+    <Route path="/agents/run" element={<RunAgent />} />
+    <Route path="/agents/history" element={<RunHistoryPage />} />
+    <Route path="/agents/status" element={<ElfAgentsStatusPage />} />
+    <Route path="/parent" element={<ParentPortalPage />} />
+    <Route path="/drasi" element={<DrasiPage />} />
+    <Route path="/drasi/queries" element={<DrasiQueryExplorerPage />} />
+    <Route path="/drasi/queries/:queryName" element={<DrasiQueryExplorerPage />} />
+    <Route path="*" element={<Navigate to={paths.home()} replace />} />
+  </Routes>
+);
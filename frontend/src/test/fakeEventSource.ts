@@ -0,0 +1,61 @@
+// Deterministic EventSource stand-in: tests open, push and fail streams by hand.
+// Install with vi.stubGlobal("EventSource", FakeEventSource).
+
+export class FakeEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  /** Every source constructed since the last reset, oldest first */
+  static instances: FakeEventSource[] = [];
+
+  static latest(): FakeEventSource {
+    const source = FakeEventSource.instances[FakeEventSource.instances.length - 1];
+    if (!source) throw new Error("No EventSource has been opened");
+    return source;
+  }
+
+  static reset(): void {
+    FakeEventSource.instances = [];
+  }
+
+  readonly url: string;
+  readyState = FakeEventSource.CONNECTING;
+  onopen: ((ev: Event) => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  onerror: ((ev: Event) => void) | null = null;
+
+  constructor(url: string | URL) {
+    super();
+    this.url = String(url);
+    FakeEventSource.instances.push(this);
+  }
+
+  open(): void {
+    this.readyState = FakeEventSource.OPEN;
+    const ev = new Event("open");
+    this.onopen?.(ev);
+    this.dispatchEvent(ev);
+  }
+
+  /** Push a frame; objects are JSON-encoded like the backend's `data:` lines */
+  message(data: unknown, type = "message"): void {
+    if (this.readyState === FakeEventSource.CLOSED) return;
+    const ev = new MessageEvent(type, { data: typeof data === "string" ? data : JSON.stringify(data) });
+    if (type === "message") this.onmessage?.(ev);
+    this.dispatchEvent(ev);
+  }
+
+  fail(): void {
+    const ev = new Event("error");
+    this.onerror?.(ev);
+    this.dispatchEvent(ev);
+  }
+
+  close(): void {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  get closed(): boolean {
+    return this.readyState === FakeEventSource.CLOSED;
+  }
+}
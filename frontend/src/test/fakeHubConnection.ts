@@ -0,0 +1,64 @@
+// Deterministic SignalR HubConnection stand-in for component tests.
+// Tests decide when start() resolves, what the reload stream returns and
+// which change events the server pushes.
+
+// Type-only import: test files mock @microsoft/signalr and build this fake
+// inside the mock factory, so a runtime import here would be circular.
+import type { HubConnection, HubConnectionState, IStreamSubscriber } from "@microsoft/signalr";
+
+type Handler = (...args: any[]) => void;
+
+export class FakeHubConnection {
+  state = "Disconnected" as HubConnectionState;
+  readonly handlers = new Map<string, Set<Handler>>();
+  /** Rows served by stream('reload', queryId) */
+  readonly reloadRows = new Map<string, unknown[]>();
+  readonly reconnectedCallbacks: Handler[] = [];
+  startCalls = 0;
+
+  on(method: string, handler: Handler): void {
+    if (!this.handlers.has(method)) this.handlers.set(method, new Set());
+    this.handlers.get(method)!.add(handler);
+  }
+
+  off(method: string, handler?: Handler): void {
+    if (handler) this.handlers.get(method)?.delete(handler);
+    else this.handlers.delete(method);
+  }
+
+  onreconnected(callback: Handler): void {
+    this.reconnectedCallbacks.push(callback);
+  }
+
+  onclose(): void {}
+
+  async start(): Promise<void> {
+    this.startCalls += 1;
+    this.state = "Connected" as HubConnectionState;
+  }
+
+  async stop(): Promise<void> {
+    this.state = "Disconnected" as HubConnectionState;
+  }
+
+  stream(methodName: string, ...args: unknown[]) {
+    const rows = methodName === "reload" ? this.reloadRows.get(String(args[0])) ?? [] : [];
+    return {
+      subscribe: (subscriber: IStreamSubscriber<unknown>) => {
+        // Delivered synchronously; tests wrap renders in act() anyway
+        rows.forEach((after) => subscriber.next({ op: "r", payload: { after } }));
+        subscriber.complete();
+        return { dispose: () => {} };
+      },
+    };
+  }
+
+  /** Simulate a server push to everything registered for `method` */
+  emit(method: string, payload: unknown): void {
+    this.handlers.get(method)?.forEach((h) => h(payload));
+  }
+
+  asHubConnection(): HubConnection {
+    return this as unknown as HubConnection;
+  }
+}
@@ -0,0 +1,7 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// Unmount rendered trees between tests (vitest globals are off, so RTL can't self-register)
+afterEach(() => {
+  cleanup();
+});
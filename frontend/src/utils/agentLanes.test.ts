@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { mapRaw } from "../hooks/useAgentRun";
+import { agentTypeFor, splitIntoLanes } from "./agentLanes";
+
+const events = (raws: any[]) => raws.map((raw, i) => ({ ...mapRaw({ timestamp: i * 100, ...raw })! }));
+
+describe("splitIntoLanes", () => {
+  it("has no lanes for single-agent runs", () => {
+    expect(splitIntoLanes(events([{ type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "Hi" }])).lanes).toEqual([]);
+  });
+
+  it("gives each step its messages and tool calls and records hand-offs", () => {
+    const { lanes, handoffs } = splitIntoLanes(
+      events([
+        { type: "RUN_STARTED", runId: "r1" },
+        { type: "STEP_STARTED", stepName: "profile-elf" },
+        { type: "TOOL_CALL_START", toolCallId: "c1", toolCallName: "GetChildWishlistItems" },
+        { type: "TOOL_CALL_ARGS", toolCallId: "c1", delta: "{}" },
+        { type: "TOOL_CALL_RESULT", toolCallId: "c1", content: "[]" },
+        { type: "TEXT_MESSAGE_START", messageId: "m1" },
+        { type: "TEXT_MESSAGE_CONTENT", messageId: "m1", delta: "Ada is nice" },
+        { type: "STEP_FINISHED", stepName: "profile-elf" },
+        { type: "STEP_STARTED", stepName: "logistics-elf" },
+        { type: "TOOL_CALL_START", toolCallId: "c2", toolCallName: "CheckInventory" },
+      ])
+    );
+
+    expect(lanes.map((l) => [l.name, l.agentType, l.status])).toEqual([
+      ["profile-elf", "profile", "complete"],
+      ["logistics-elf", "logistics", "working"],
+    ]);
+    expect(lanes[0].items.map((i) => i.kind)).toEqual(["tool", "message"]);
+    expect(lanes[0].items[0]).toMatchObject({ kind: "tool", call: { name: "GetChildWishlistItems", status: "done", result: "[]" } });
+    expect(lanes[0].items[1]).toMatchObject({ kind: "message", text: "Ada is nice" });
+    expect(lanes[1].items[0]).toEqual({ kind: "handoff", from: "profile-elf" });
+    expect(handoffs).toEqual([{ from: "profile-elf", to: "logistics-elf" }]);
+  });
+
+  it("puts messages outside steps in the coordinator lane and fails unfinished lanes with the run", () => {
+    const { lanes, handoffs } = splitIntoLanes(
+      events([
+        { type: "STEP_STARTED", stepName: "recommendation-elf" },
+        { type: "STEP_FINISHED", stepName: "recommendation-elf" },
+        { type: "TEXT_MESSAGE_CONTENT", messageId: "m9", delta: "Summary" },
+        { type: "STEP_STARTED", stepName: "profile-elf" },
+        { type: "RUN_FINISHED", result: { status: "failed" } },
+      ])
+    );
+
+    expect(lanes.map((l) => [l.name, l.status])).toEqual([
+      ["recommendation-elf", "complete"],
+      ["coordinator", "error"],
+      ["profile-elf", "error"],
+    ]);
+    expect(handoffs.map((h) => `${h.from}>${h.to}`)).toEqual(["recommendation-elf>coordinator", "coordinator>profile-elf"]);
+  });
+
+  it("shows an agent as thinking while it reasons, even with a tool call open", () => {
+    const reasoning = events([
+      { type: "STEP_STARTED", stepName: "recommendation-elf" },
+      { type: "TOOL_CALL_START", toolCallId: "c1", toolCallName: "QueryTrendingWishlistItems" },
+      { type: "THINKING_START" },
+    ]);
+    expect(splitIntoLanes(reasoning).lanes[0].status).toBe("thinking");
+    expect(splitIntoLanes([...reasoning, ...events([{ type: "THINKING_END" }])]).lanes[0].status).toBe("working");
+  });
+
+  it("picks an avatar from the agent's name", () => {
+    expect(agentTypeFor("CreativeGiftElf")).toBe("recommendation");
+    expect(agentTypeFor("QualityReviewerElf")).toBe("santa");
+    expect(agentTypeFor("sleigh-router")).toBe("logistics");
+    expect(agentTypeFor("BehaviorAnalyst")).toBe("profile");
+  });
+});
@@ -0,0 +1,166 @@
+// Swimlanes for multi-agent runs such as the taskforce.
+// A sub-agent's turn is an AG-UI step: STEP_STARTED opens its lane and the
+// messages and tool calls that follow belong to it until STEP_FINISHED.
+// Events outside any step belong to the coordinator. A step starting after
+// another agent's is a hand-off from that agent. An agent is thinking while
+// it reasons (THINKING_* / REASONING_*), even with tool calls in flight.
+
+import type { ElfStatus } from "../components/ElfAvatar";
+import type { NormalizedRunEvent } from "../hooks/useAgentRun";
+import { reduceToolCalls, type ToolCall } from "./toolCalls";
+
+export type LaneAgentType = "profile" | "recommendation" | "logistics" | "santa";
+
+export type LaneItem =
+  | { kind: "message"; id: string; text: string }
+  | { kind: "tool"; call: ToolCall }
+  | { kind: "handoff"; from: string };
+
+export interface AgentLane {
+  name: string;
+  agentType: LaneAgentType;
+  status: ElfStatus;
+  /** In arrival order */
+  items: LaneItem[];
+}
+
+export interface Handoff {
+  from: string;
+  to: string;
+}
+
+export const COORDINATOR_LANE = "coordinator";
+
+/** The ElfAvatar type for a sub-agent, from its name */
+export function agentTypeFor(name: string): LaneAgentType {
+  if (/santa|coordinator|review/i.test(name)) return "santa";
+  if (/logist|deliver|sleigh|inventory/i.test(name)) return "logistics";
+  if (/recommend|gift|creative|wishlist/i.test(name)) return "recommendation";
+  return "profile";
+}
+
+// Tool items hold the call id while building; the call is looked up at the end
+type PendingItem = Exclude<LaneItem, { kind: "tool" }> | { kind: "tool"; id: string };
+
+interface LaneBuilder {
+  name: string;
+  items: PendingItem[];
+  calls: ToolCall[];
+  finished: boolean;
+  reasoning: boolean;
+}
+
+/** Split a run's events into per-agent lanes; no lanes when the run has no steps */
+export function splitIntoLanes(events: readonly NormalizedRunEvent[]): { lanes: AgentLane[]; handoffs: Handoff[] } {
+  if (!events.some((e) => e.phase === "step")) return { lanes: [], handoffs: [] };
+
+  const lanes = new Map<string, LaneBuilder>();
+  const handoffs: Handoff[] = [];
+  const active: string[] = [];
+  const laneOfCall = new Map<string, LaneBuilder>();
+  const messages = new Map<string, { kind: "message"; id: string; text: string }>();
+  let lastAgent: string | undefined;
+  let runStatus: string | undefined;
+
+  const lane = (name: string) => {
+    let found = lanes.get(name);
+    if (!found) {
+      found = { name, items: [], calls: [], finished: false, reasoning: false };
+      lanes.set(name, found);
+    }
+    return found;
+  };
+  const current = () => {
+    const name = active[active.length - 1] ?? COORDINATOR_LANE;
+    // The coordinator speaking after a sub-agent takes the run back
+    if (name === COORDINATOR_LANE && lastAgent !== COORDINATOR_LANE) {
+      if (lastAgent) {
+        handoffs.push({ from: lastAgent, to: COORDINATOR_LANE });
+        lane(COORDINATOR_LANE).items.push({ kind: "handoff", from: lastAgent });
+      }
+      lastAgent = COORDINATOR_LANE;
+    }
+    return lane(name);
+  };
+
+  for (const ev of events) {
+    const at = ev.receivedAt;
+    switch (ev.phase) {
+      case "step": {
+        const name = ev.stepName || "step";
+        if (ev.kind === "step-start") {
+          const target = lane(name);
+          target.finished = false;
+          if (lastAgent && lastAgent !== name) {
+            handoffs.push({ from: lastAgent, to: name });
+            target.items.push({ kind: "handoff", from: lastAgent });
+          }
+          active.push(name);
+          lastAgent = name;
+        } else {
+          lane(name).finished = true;
+          const index = active.lastIndexOf(name);
+          if (index >= 0) active.splice(index, 1);
+        }
+        break;
+      }
+      case "message": {
+        if (!ev.messageId) break;
+        let message = messages.get(ev.messageId);
+        if (!message) {
+          message = { kind: "message", id: ev.messageId, text: "" };
+          messages.set(ev.messageId, message);
+          current().items.push(message);
+        }
+        if (ev.kind === "delta") message.text += ev.deltaText ?? "";
+        break;
+      }
+      case "tool": {
+        if (!ev.toolCallId) break;
+        let owner = laneOfCall.get(ev.toolCallId);
+        if (!owner) {
+          owner = current();
+          laneOfCall.set(ev.toolCallId, owner);
+          owner.items.push({ kind: "tool", id: ev.toolCallId });
+        }
+        owner.calls = reduceToolCalls(owner.calls, ev.raw ?? {}, at);
+        break;
+      }
+      case "reasoning":
+        lane(active[active.length - 1] ?? COORDINATOR_LANE).reasoning = ev.kind !== "end";
+        break;
+      case "run":
+        if (ev.kind === "finished" || ev.kind === "error") {
+          runStatus = ev.status ?? "succeeded";
+          lanes.forEach((l) => {
+            l.calls = reduceToolCalls(l.calls, ev.raw ?? { type: "RUN_FINISHED", result: { status: runStatus } }, at);
+          });
+        }
+        break;
+    }
+  }
+
+  const statusOf = (l: LaneBuilder): ElfStatus => {
+    if (runStatus === "failed" && !l.finished) return "error";
+    if (l.finished || runStatus) return "complete";
+    if (!active.includes(l.name) && l.name !== COORDINATOR_LANE) return "idle";
+    if (l.reasoning) return "thinking";
+    return l.calls.some((c) => c.status === "running") ? "working" : "thinking";
+  };
+
+  return {
+    lanes: [...lanes.values()]
+      .filter((l) => l.name !== COORDINATOR_LANE || l.items.length > 0)
+      .map((l) => ({
+        name: l.name,
+        agentType: agentTypeFor(l.name),
+        status: statusOf(l),
+        items: l.items.flatMap((item): LaneItem[] => {
+          if (item.kind !== "tool") return [{ ...item }];
+          const call = l.calls.find((c) => c.id === item.id);
+          return call ? [{ kind: "tool", call }] : [];
+        }),
+      })),
+    handoffs,
+  };
+}
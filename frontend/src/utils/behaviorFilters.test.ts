@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { isBehaviorMessage } from "./behaviorFilters";
+
+describe("isBehaviorMessage", () => {
+  it.each([
+    "I will try to behave better and do my chores.",
+    "I will continue to be helpful and kind!",
+    "BEHAVIOR REPORT: improved this week",
+    "Please put me on the Nice List",
+  ])("flags behavior letters: %s", (text) => {
+    expect(isBehaviorMessage(text)).toBe(true);
+  });
+
+  it.each(["🎮 PlayStation 5", "Mountain Bike", "Art Supply Kit"])(
+    "passes gift names through: %s",
+    (text) => {
+      expect(isBehaviorMessage(text)).toBe(false);
+    }
+  );
+
+  it("treats empty text as not behavior", () => {
+    expect(isBehaviorMessage("")).toBe(false);
+  });
+
+  it("matches keywords inside longer words", () => {
+    // Substring matching is deliberate: "misbehaved" should be filtered too
+    expect(isBehaviorMessage("Sorry I misbehaved")).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { CollaborativeRecommendation } from "../agentClient";
+import { splitCollaborativeRecommendation } from "./collaborativeRecommendation";
+
+const result = (text: string): CollaborativeRecommendation => ({
+  childId: "child-1",
+  status: "Nice",
+  optimized: true,
+  collaborativeRecommendation: text,
+  agentTypes: ["BehaviorAnalyst", "CreativeGiftElf", "QualityReviewerElf"],
+  toolsUsed: [],
+  drasiContext: { trendingItems: [], duplicateAlerts: [], lastUpdate: "2025-12-01T00:00:00Z" },
+});
+
+describe("splitCollaborativeRecommendation", () => {
+  it("attributes each section of the optimized layout to its agent", () => {
+    const sections = splitCollaborativeRecommendation(
+      result(
+        [
+          "=== Multi-Agent Collaborative Recommendation (Optimized) ===",
+          "Child: child-1 | Status: Nice",
+          "📊 Analyst Insights:",
+          "Loves kites.",
+          "💡 Creative Suggestions:",
+          "- Red kite",
+          "- Kite reel",
+          "🎁 Final Recommendations:",
+          "Red kite: it flies.",
+        ].join("\n")
+      )
+    );
+    expect(sections.map((s) => [s.agent, s.agentType, s.role])).toEqual([
+      ["BehaviorAnalyst", "profile", "Analyst Insights"],
+      ["CreativeGiftElf", "recommendation", "Creative Suggestions"],
+      ["QualityReviewerElf", "santa", "Final Recommendations"],
+    ]);
+    expect(sections[1].text).toBe("- Red kite\n- Kite reel");
+  });
+
+  it("reads the sequential layout's bracketed headings", () => {
+    const sections = splitCollaborativeRecommendation(
+      result("[Analyst Insights]\nA\n[Creative Suggestions]\nB\n[Final Refined Recommendations]\nC")
+    );
+    expect(sections.map((s) => `${s.agent}=${s.text}`)).toEqual(["BehaviorAnalyst=A", "CreativeGiftElf=B", "QualityReviewerElf=C"]);
+  });
+
+  it("attributes unstructured text to the taskforce", () => {
+    expect(splitCollaborativeRecommendation(result("Collaborative recommendation failed: timeout"))).toEqual([
+      { agent: "Taskforce", agentType: "santa", role: "Recommendation", text: "Collaborative recommendation failed: timeout" },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+// Per-agent attribution for the collaborative (multi-agent) recommendation.
+// MultiAgentOrchestrator returns one text with a section per agent, headed
+// "[Analyst Insights]" or "📊 Analyst Insights:" and so on, in the order of
+// the response's agentTypes. Text that doesn't follow that layout (e.g. an
+// error) is attributed to the taskforce as a whole.
+
+import type { CollaborativeRecommendation } from "../agentClient";
+import { agentTypeFor, type LaneAgentType } from "./agentLanes";
+
+export interface AgentContribution {
+  agent: string;
+  agentType: LaneAgentType;
+  /** The section heading, e.g. "Analyst Insights" */
+  role: string;
+  text: string;
+}
+
+const SECTIONS = [
+  { pattern: /analyst insights/i, agentType: "profile" },
+  { pattern: /creative suggestions/i, agentType: "recommendation" },
+  { pattern: /final (refined )?recommendations/i, agentType: "santa" },
+] as const;
+
+// A heading line: "[Title]" or an optional emoji then "Title:"
+const HEADING = /^\s*(?:\[([^\]]+)\]|(?:[^\p{L}\p{N}\s]+\s*)?([\p{L} ]+):)\s*$/u;
+
+export function splitCollaborativeRecommendation(result: CollaborativeRecommendation): AgentContribution[] {
+  const contributions: AgentContribution[] = [];
+  let open: AgentContribution | null = null;
+  for (const line of result.collaborativeRecommendation.split(/\r?\n/)) {
+    const heading = line.match(HEADING);
+    const title = heading ? (heading[1] ?? heading[2]).trim() : "";
+    const index = title ? SECTIONS.findIndex((s) => s.pattern.test(title)) : -1;
+    if (index >= 0) {
+      open = {
+        agent: result.agentTypes[index] ?? title,
+        agentType: SECTIONS[index].agentType,
+        role: title,
+        text: "",
+      };
+      contributions.push(open);
+    } else if (open) {
+      open.text += `${line.trim()}\n`;
+    }
+  }
+  if (contributions.length === 0) {
+    return [{ agent: "Taskforce", agentType: agentTypeFor("coordinator"), role: "Recommendation", text: result.collaborativeRecommendation.trim() }];
+  }
+  return contributions.map((c) => ({ ...c, text: c.text.trim() }));
+}
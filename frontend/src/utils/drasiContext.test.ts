@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { DrasiInsights } from "../types/drasi";
+import {
+  composeDrasiContext,
+  DEFAULT_DRASI_SELECTION,
+  drasiAgentContext,
+  estimateTokens,
+  focusOf,
+  selectDrasiData,
+  type DrasiContextSelection,
+} from "./drasiContext";
+
+const insights: DrasiInsights = {
+  trending: [
+    { item: "Bike", frequency: 9 },
+    { item: "Ball", frequency: 5 },
+    { item: "Kite", frequency: 4 },
+  ],
+  duplicates: [
+    { childId: "child-emma-2015", item: "Bike", count: 3 },
+    { childId: "child-noah-2014", item: "Ball", count: 2 },
+  ],
+  inactiveChildren: [
+    { childId: "child-demo-03", lastEventDays: 4 },
+    { childId: "child-demo-04", lastEventDays: 6 },
+  ],
+  behaviorChanges: [{ childId: "child-emma-2015", oldStatus: "Naughty", newStatus: "Nice" }],
+  stats: { totalEvents: 42, activeQueries: 4, lastUpdateSeconds: 7 },
+};
+
+const select = (changes: Partial<DrasiContextSelection>): DrasiContextSelection => ({ ...DEFAULT_DRASI_SELECTION, ...changes });
+
+describe("Drasi context composer", () => {
+  it("leaves out signals that are off and trims lists to their limits", () => {
+    const selection = select({
+      signals: { ...DEFAULT_DRASI_SELECTION.signals, duplicates: false, stats: false },
+      limits: { ...DEFAULT_DRASI_SELECTION.limits, trending: 1, inactiveChildren: 1 },
+    });
+    const text = composeDrasiContext(insights, selection);
+    expect(text).toContain("1. Bike - 9 requests");
+    expect(text).not.toContain("Ball");
+    expect(text).toContain("child-demo-03");
+    expect(text).not.toContain("child-demo-04");
+    expect(text).not.toContain("DUPLICATE");
+    expect(text).not.toContain("WORKSHOP METRICS");
+  });
+
+  it("resolves the focus child from the selection, then the view", () => {
+    expect(focusOf(DEFAULT_DRASI_SELECTION, "child-emma-2015")).toBe("child-emma-2015");
+    expect(focusOf(select({ focusChildId: "" }), "child-emma-2015")).toBeUndefined();
+    expect(focusOf(select({ focusChildId: " child-noah-2014 " }), "child-emma-2015")).toBe("child-noah-2014");
+  });
+
+  it("selects the focus child's duplicates and status changes", () => {
+    const data = selectDrasiData(insights, DEFAULT_DRASI_SELECTION, "child-noah-2014");
+    expect(data.focusChildId).toBe("child-noah-2014");
+    expect(data.duplicates).toEqual([{ childId: "child-noah-2014", item: "Ball", count: 2 }]);
+    expect(data.duplicateChildren).toBe(2);
+    expect(data.focusBehaviorChanges).toEqual([]);
+  });
+
+  it("renders the same selection as JSON for the prompt and the AG-UI context", () => {
+    const selection = select({ signals: { ...DEFAULT_DRASI_SELECTION.signals, behaviorChanges: false }, format: "json" });
+    const text = composeDrasiContext(insights, selection, "child-emma-2015");
+    const entry = drasiAgentContext(insights, selection, "child-emma-2015", new Date("2025-12-01T00:00:00Z"));
+
+    expect(JSON.parse(text.slice(text.indexOf("\n") + 1))).toEqual(entry.data);
+    expect(entry.text).toBe(text);
+    expect(entry).toMatchObject({ type: "drasi-insights", source: "drasi-event-graph", timestamp: "2025-12-01T00:00:00.000Z", format: "json" });
+    expect(entry.data).not.toHaveProperty("behaviorChanges");
+  });
+
+  it("estimates about four characters a token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("12345")).toBe(2);
+  });
+});
@@ -0,0 +1,176 @@
+// Composes the Drasi context sent with agent runs. A selection says which
+// signals go in, how many rows of each, which child to focus on and whether
+// the prompt gets plain text or JSON. One selection drives both the text
+// prepended to the prompt and the `drasi-insights` entry of the AG-UI
+// `context` array, so the agent never sees two different pictures.
+
+import type { DrasiInsights } from "../types/drasi";
+
+export type DrasiSignal = "trending" | "duplicates" | "inactiveChildren" | "behaviorChanges" | "stats";
+
+/** Signals that list rows, and so take a limit */
+export type DrasiListSignal = "trending" | "inactiveChildren" | "behaviorChanges";
+
+export type DrasiContextFormat = "text" | "json";
+
+export interface DrasiContextSelection {
+  signals: Record<DrasiSignal, boolean>;
+  limits: Record<DrasiListSignal, number>;
+  /** The child to focus on: null follows the view's child, "" focuses on none */
+  focusChildId: string | null;
+  format: DrasiContextFormat;
+}
+
+export const DRASI_SIGNALS: Record<DrasiSignal, string> = {
+  trending: "Trending gifts",
+  duplicates: "Duplicate requests",
+  inactiveChildren: "Inactive children",
+  behaviorChanges: "Naughty/nice changes",
+  stats: "Workshop metrics",
+};
+
+/** What the prompt carried before the composer: everything, three rows of each list, as text */
+export const DEFAULT_DRASI_SELECTION: DrasiContextSelection = {
+  signals: { trending: true, duplicates: true, inactiveChildren: true, behaviorChanges: true, stats: true },
+  limits: { trending: 3, inactiveChildren: 3, behaviorChanges: 3 },
+  focusChildId: null,
+  format: "text",
+};
+
+type Row<K extends keyof DrasiInsights> = DrasiInsights[K] extends (infer R)[] ? R : never;
+
+/** The selected part of the insights; signals that are off are left out */
+export interface DrasiContextData {
+  focusChildId?: string;
+  trending?: Row<"trending">[];
+  /** The focus child's duplicate requests */
+  duplicates?: Row<"duplicates">[];
+  /** How many children have duplicate requests */
+  duplicateChildren?: number;
+  inactiveChildren?: Row<"inactiveChildren">[];
+  /** The focus child's status changes */
+  focusBehaviorChanges?: Row<"behaviorChanges">[];
+  /** The most recent status changes, any child */
+  behaviorChanges?: Row<"behaviorChanges">[];
+  behaviorChangeCount?: number;
+  stats?: DrasiInsights["stats"];
+}
+
+/** The child a selection focuses on, given the child the view is on */
+export function focusOf(selection: DrasiContextSelection, viewChildId?: string): string | undefined {
+  return (selection.focusChildId ?? viewChildId)?.trim() || undefined;
+}
+
+export function selectDrasiData(insights: DrasiInsights, selection: DrasiContextSelection, focusChildId?: string): DrasiContextData {
+  const { signals, limits } = selection;
+  const data: DrasiContextData = focusChildId ? { focusChildId } : {};
+  if (signals.trending) data.trending = insights.trending.slice(0, limits.trending);
+  if (signals.duplicates) {
+    if (focusChildId) data.duplicates = insights.duplicates.filter((d) => d.childId === focusChildId);
+    data.duplicateChildren = insights.duplicates.length;
+  }
+  if (signals.inactiveChildren) data.inactiveChildren = insights.inactiveChildren.slice(0, limits.inactiveChildren);
+  if (signals.behaviorChanges) {
+    if (focusChildId) data.focusBehaviorChanges = insights.behaviorChanges.filter((b) => b.childId === focusChildId);
+    data.behaviorChanges = insights.behaviorChanges.slice(0, limits.behaviorChanges);
+    data.behaviorChangeCount = insights.behaviorChanges.length;
+  }
+  if (signals.stats) data.stats = insights.stats;
+  return data;
+}
+
+const statusEmoji = (status: string) => (status === "Nice" ? "😇" : status === "Naughty" ? "😈" : "❓");
+
+function formatText(data: DrasiContextData): string {
+  const lines: string[] = ["DRASI INSIGHTS (Real-time from Event Graph):"];
+  const focus = data.focusChildId;
+
+  if (data.trending?.length) {
+    lines.push(`\n🔥 TRENDING GIFTS (Past Hour):`);
+    data.trending.forEach((t, i) => lines.push(`   ${i + 1}. ${t.item} - ${t.frequency} requests`));
+  }
+
+  if (focus && data.duplicates?.length) {
+    lines.push(`\n⚠️ DUPLICATE ALERTS FOR CHILD ${focus}:`);
+    data.duplicates.forEach((d) => lines.push(`   - ${d.item} requested ${d.count} times`));
+  }
+
+  if (data.duplicateChildren) {
+    lines.push(`\n⚠️ GLOBAL DUPLICATE PATTERNS:`);
+    lines.push(`   - ${data.duplicateChildren} children with duplicate requests detected`);
+  }
+
+  if (data.inactiveChildren?.length) {
+    lines.push(`\n😴 INACTIVE CHILDREN (3+ days no activity):`);
+    data.inactiveChildren.forEach((c) => lines.push(`   - ${c.childId} (last seen ${c.lastEventDays} days ago)`));
+  }
+
+  if (focus && data.focusBehaviorChanges?.length) {
+    lines.push(`\n🎅 BEHAVIOR STATUS FOR CHILD ${focus}:`);
+    data.focusBehaviorChanges.forEach((b) => {
+      const arrow = b.oldStatus === "Nice" ? "📉" : "📈";
+      lines.push(`   ${statusEmoji(b.newStatus)} Status changed: ${b.oldStatus} → ${b.newStatus} ${arrow}`);
+      if (b.reason) lines.push(`      Reason: ${b.reason}`);
+    });
+  }
+
+  if (data.behaviorChangeCount) {
+    lines.push(`\n🎅 RECENT NAUGHTY/NICE STATUS CHANGES:`);
+    lines.push(`   - ${data.behaviorChangeCount} children with status changes detected`);
+    data.behaviorChanges?.forEach((b) => lines.push(`   ${statusEmoji(b.newStatus)} ${b.childId}: ${b.oldStatus} → ${b.newStatus}`));
+  }
+
+  if (data.stats) {
+    lines.push(`\n📊 WORKSHOP METRICS:`);
+    lines.push(`   - Total events processed: ${data.stats.totalEvents}`);
+    lines.push(`   - Active continuous queries: ${data.stats.activeQueries}`);
+    lines.push(`   - Data freshness: ${data.stats.lastUpdateSeconds}s ago`);
+  }
+
+  return lines.join("\n");
+}
+
+/** The Drasi block for the prompt, in the selected format */
+export function composeDrasiContext(
+  insights: DrasiInsights | null,
+  selection: DrasiContextSelection,
+  focusChildId?: string
+): string {
+  if (!insights) return "DRASI INSIGHTS: Not available";
+  const data = selectDrasiData(insights, selection, focusChildId);
+  return selection.format === "json"
+    ? `DRASI INSIGHTS (Real-time from Event Graph, JSON):\n${JSON.stringify(data, null, 2)}`
+    : formatText(data);
+}
+
+/** The `drasi-insights` entry of an AG-UI run's context array */
+export interface DrasiAgentContext {
+  type: "drasi-insights";
+  source: "drasi-event-graph";
+  timestamp: string;
+  format: DrasiContextFormat;
+  /** The block as the composer previews it; the agent's prompt uses it verbatim */
+  text: string;
+  data: DrasiContextData;
+}
+
+export function drasiAgentContext(
+  insights: DrasiInsights,
+  selection: DrasiContextSelection,
+  focusChildId?: string,
+  now = new Date()
+): DrasiAgentContext {
+  return {
+    type: "drasi-insights",
+    source: "drasi-event-graph",
+    timestamp: now.toISOString(),
+    format: selection.format,
+    text: composeDrasiContext(insights, selection, focusChildId),
+    data: selectDrasiData(insights, selection, focusChildId),
+  };
+}
+
+/** A rough token count: about four characters a token, as for English text and JSON */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
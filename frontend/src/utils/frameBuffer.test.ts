@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+import { createEventBuffer, createTranscriptStore, type FrameScheduler } from "./frameBuffer";
+
+// Frames run only when the test says so
+function manualFrames() {
+  let pending: (() => void) | null = null;
+  const schedule: FrameScheduler = (callback) => {
+    pending = callback;
+    return () => {
+      if (pending === callback) pending = null;
+    };
+  };
+  const frame = () => {
+    const callback = pending;
+    pending = null;
+    callback?.();
+  };
+  return { schedule, frame, scheduled: () => pending !== null };
+}
+
+describe("createEventBuffer", () => {
+  it("publishes everything appended in a frame as one batch", () => {
+    const frames = manualFrames();
+    const buffer = createEventBuffer<number>(frames.schedule);
+    const listener = vi.fn();
+    buffer.subscribe(listener);
+
+    buffer.append(1);
+    buffer.append(2);
+    expect(buffer.getSnapshot()).toEqual([]);
+
+    frames.frame();
+    const first = buffer.getSnapshot();
+    expect(first).toEqual([1, 2]);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    buffer.append(3);
+    frames.frame();
+    expect(buffer.getSnapshot()).toEqual([1, 2, 3]);
+    // Published snapshots are never mutated
+    expect(first).toEqual([1, 2]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("flushes on demand and clears without publishing what was queued", () => {
+    const frames = manualFrames();
+    const buffer = createEventBuffer<string>(frames.schedule);
+
+    buffer.append("a");
+    buffer.flush();
+    expect(buffer.getSnapshot()).toEqual(["a"]);
+    expect(frames.scheduled()).toBe(false);
+
+    buffer.append("b");
+    buffer.clear();
+    frames.frame();
+    expect(buffer.getSnapshot()).toEqual([]);
+  });
+});
+
+describe("createTranscriptStore", () => {
+  it("joins each frame's deltas onto the published text", () => {
+    const frames = manualFrames();
+    const transcript = createTranscriptStore(frames.schedule);
+    const listener = vi.fn();
+    const unsubscribe = transcript.subscribe(listener);
+
+    for (const delta of ["Ho", " ho", " ho"]) transcript.append(delta);
+    frames.frame();
+    expect(transcript.getSnapshot()).toBe("Ho ho ho");
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    transcript.append("!");
+    frames.frame();
+    expect(transcript.getSnapshot()).toBe("Ho ho ho!");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
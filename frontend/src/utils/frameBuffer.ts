@@ -0,0 +1,79 @@
+// Append-only stores for streamed agent output that publish at most once per
+// animation frame. A run can send hundreds of deltas a second; appending each
+// to React state copies the whole timeline and re-renders per token. These
+// stores queue what arrives and publish it in one batch on the next frame,
+// so a long run costs one copy and one render per frame however fast the
+// tokens come. Read them with useSyncExternalStore.
+
+type Cancel = () => void;
+
+/** Run `callback` on the next animation frame (or shortly, where there are none) */
+export type FrameScheduler = (callback: () => void) => Cancel;
+
+export const nextFrame: FrameScheduler = (callback) => {
+  if (typeof requestAnimationFrame === "function") {
+    const id = requestAnimationFrame(() => callback());
+    return () => cancelAnimationFrame(id);
+  }
+  const timer = setTimeout(callback, 16);
+  return () => clearTimeout(timer);
+};
+
+export interface FrameBuffer<T, S> {
+  append(item: T): void;
+  /** Publish what is queued now instead of on the next frame, e.g. when the run ends */
+  flush(): void;
+  /** Drop everything, queued or published */
+  clear(): void;
+  getSnapshot(): S;
+  subscribe(listener: () => void): Cancel;
+}
+
+function createFrameBuffer<T, S>(empty: S, publish: (published: S, batch: T[]) => S, schedule: FrameScheduler): FrameBuffer<T, S> {
+  let published = empty;
+  let queued: T[] = [];
+  let cancelFrame: Cancel | null = null;
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((l) => l());
+
+  const flush = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+    if (queued.length === 0) return;
+    const batch = queued;
+    queued = [];
+    published = publish(published, batch);
+    notify();
+  };
+
+  return {
+    append(item) {
+      queued.push(item);
+      cancelFrame ??= schedule(flush);
+    },
+    flush,
+    clear() {
+      cancelFrame?.();
+      cancelFrame = null;
+      queued = [];
+      if (published === empty) return;
+      published = empty;
+      notify();
+    },
+    getSnapshot: () => published,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/** A timeline of events; each frame's events are added in one copy */
+export function createEventBuffer<T>(schedule: FrameScheduler = nextFrame): FrameBuffer<T, readonly T[]> {
+  return createFrameBuffer<T, readonly T[]>([], (events, batch) => events.concat(batch), schedule);
+}
+
+/** Streamed text; each frame's deltas are joined onto what is already published */
+export function createTranscriptStore(schedule: FrameScheduler = nextFrame): FrameBuffer<string, string> {
+  return createFrameBuffer<string, string>("", (text, batch) => text + batch.join(""), schedule);
+}
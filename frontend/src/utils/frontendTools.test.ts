@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { defineFrontendTool, executeFrontendTool, toolDefinition } from "./frontendTools";
+
+const changeStatus = vi.fn();
+const tool = defineFrontendTool({
+  name: "confirm_behavior_change",
+  description: "Change a child's status",
+  args: z.object({ childId: z.string().min(1), newStatus: z.enum(["Nice", "Naughty"]) }),
+  confirm: ({ childId, newStatus }) => `Change ${childId} to ${newStatus}?`,
+  execute: (args) => changeStatus(args),
+});
+
+describe("toolDefinition", () => {
+  it("describes the arguments as JSON Schema", () => {
+    expect(toolDefinition(tool)).toEqual({
+      name: "confirm_behavior_change",
+      description: "Change a child's status",
+      parameters: {
+        type: "object",
+        properties: { childId: { type: "string", minLength: 1 }, newStatus: { type: "string", enum: ["Nice", "Naughty"] } },
+        required: ["childId", "newStatus"],
+        additionalProperties: false,
+      },
+    });
+  });
+});
+
+describe("executeFrontendTool", () => {
+  it("asks first and runs the tool with the parsed arguments", async () => {
+    changeStatus.mockReturnValueOnce({ status: "changed" });
+    const ask = vi.fn(() => true);
+
+    const result = await executeFrontendTool(tool, "{\"childId\":\"child-ada\",\"newStatus\":\"Nice\"}", ask);
+
+    expect(ask).toHaveBeenCalledWith("Change child-ada to Nice?");
+    expect(changeStatus).toHaveBeenCalledWith({ childId: "child-ada", newStatus: "Nice" });
+    expect(JSON.parse(result)).toEqual({ status: "changed" });
+  });
+
+  it("does not run the tool when the user declines", async () => {
+    changeStatus.mockClear();
+
+    const result = await executeFrontendTool(tool, "{\"childId\":\"child-ada\",\"newStatus\":\"Naughty\"}", () => false);
+
+    expect(changeStatus).not.toHaveBeenCalled();
+    expect(JSON.parse(result)).toMatchObject({ status: "declined" });
+  });
+
+  it("answers bad arguments and failures with an error", async () => {
+    const ask = vi.fn(() => true);
+
+    expect(JSON.parse(await executeFrontendTool(tool, "{\"childId\":", ask))).toEqual({
+      error: "Arguments for confirm_behavior_change are not valid JSON",
+    });
+    expect(JSON.parse(await executeFrontendTool(tool, "{\"childId\":\"child-ada\",\"newStatus\":\"Grumpy\"}", ask)).error).toMatch(
+      /^Invalid arguments for confirm_behavior_change: newStatus:/
+    );
+    expect(ask).not.toHaveBeenCalled();
+
+    changeStatus.mockRejectedValueOnce(new Error("Profile changed"));
+    expect(JSON.parse(await executeFrontendTool(tool, "{\"childId\":\"child-ada\",\"newStatus\":\"Nice\"}", ask))).toEqual({
+      error: "Profile changed",
+    });
+  });
+});
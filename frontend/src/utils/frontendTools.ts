@@ -0,0 +1,87 @@
+// Frontend tools: AG-UI tools the dashboard declares in RunAgentInput.tools
+// and runs itself when the agent calls them. The agent sees each tool's name,
+// description and JSON Schema; the call's arguments are checked against the
+// same zod schema before the tool runs, and tools that change data can ask
+// the user to confirm first. Whatever happens, the agent gets a JSON answer.
+
+import { z } from "zod";
+import { logger } from "./logger";
+
+/** A tool as sent in RunAgentInput.tools */
+export interface AgentToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface FrontendTool<Args = any> {
+  name: string;
+  description: string;
+  args: z.ZodType<Args>;
+  /** Question to ask before running; no confirmation when absent */
+  confirm?: (args: Args) => string;
+  execute: (args: Args) => unknown;
+}
+
+/** Typed helper: the handlers get the arguments as the schema parses them */
+export function defineFrontendTool<Args>(tool: FrontendTool<Args>): FrontendTool<Args> {
+  return tool;
+}
+
+export function toolDefinition(tool: FrontendTool): AgentToolDefinition {
+  const { $schema: _dialect, ...parameters } = z.toJSONSchema(tool.args) as Record<string, unknown>;
+  return { name: tool.name, description: tool.description, parameters };
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message)).join("; ");
+}
+
+/**
+ * Run one call of a frontend tool and return the JSON text the agent gets
+ * back. Never rejects: bad arguments and failures become { error }, a
+ * declined confirmation becomes { status: "declined" }.
+ */
+export async function executeFrontendTool(
+  tool: FrontendTool,
+  rawArgs: string,
+  ask: (question: string) => boolean = (question) => window.confirm(question)
+): Promise<string> {
+  let input: unknown;
+  try {
+    input = rawArgs.trim() ? JSON.parse(rawArgs) : {};
+  } catch {
+    return JSON.stringify({ error: `Arguments for ${tool.name} are not valid JSON` });
+  }
+  const parsed = tool.args.safeParse(input);
+  if (!parsed.success) {
+    return JSON.stringify({ error: `Invalid arguments for ${tool.name}: ${describeIssues(parsed.error)}` });
+  }
+  if (tool.confirm && !ask(tool.confirm(parsed.data))) {
+    return JSON.stringify({ status: "declined", message: "The user declined this action" });
+  }
+  try {
+    const result = await tool.execute(parsed.data);
+    return JSON.stringify(result ?? { status: "ok" });
+  } catch (err) {
+    return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+/**
+ * Answer a call whose arguments are complete, when it names one of `tools`:
+ * run the tool and hand its answer to `submit`. Calls to server tools are
+ * left alone. Returns whether the call was for a frontend tool.
+ */
+export function answerFrontendToolCall(
+  tools: FrontendTool[],
+  call: { id: string; name: string; args: string },
+  submit: (toolCallId: string, content: string) => Promise<void>
+): boolean {
+  const tool = tools.find((t) => t.name === call.name);
+  if (!tool) return false;
+  void executeFrontendTool(tool, call.args)
+    .then((content) => submit(call.id, content))
+    .catch((err) => logger.warn("[frontendTools] Could not return the result of", call.name, err));
+  return true;
+}
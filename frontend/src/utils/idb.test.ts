@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Just enough of an IDBOpenDBRequest to fire its events by hand
+function fakeOpenRequest() {
+  const db = { objectStoreNames: { contains: () => true }, close: vi.fn(), onversionchange: null as null | (() => void) };
+  const req = {
+    result: db,
+    error: null,
+    onsuccess: null as null | (() => void),
+    onerror: null as null | (() => void),
+    onblocked: null as null | (() => void),
+    onupgradeneeded: null as null | (() => void),
+  };
+  return { req, db };
+}
+
+describe("openDb", () => {
+  let request: ReturnType<typeof fakeOpenRequest>;
+  const open = vi.fn(() => request.req);
+
+  beforeEach(() => {
+    vi.resetModules();
+    request = fakeOpenRequest();
+    open.mockClear();
+    vi.stubGlobal("indexedDB", { open });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("falls back to memory when another tab blocks the upgrade", async () => {
+    const { openDb } = await import("./idb");
+    const opening = openDb();
+    request.req.onblocked!();
+    await expect(opening).resolves.toBeNull();
+
+    // The other tab closed later: the late connection is not kept open
+    request.req.onsuccess!();
+    expect(request.db.close).toHaveBeenCalled();
+  });
+
+  it("closes and reopens when another tab upgrades the database", async () => {
+    const { openDb } = await import("./idb");
+    const opening = openDb();
+    request.req.onsuccess!();
+    await expect(opening).resolves.toBe(request.db);
+
+    request.db.onversionchange!();
+    expect(request.db.close).toHaveBeenCalled();
+    request = fakeOpenRequest();
+    const reopening = openDb();
+    expect(open).toHaveBeenCalledTimes(2);
+    request.req.onsuccess!();
+    await expect(reopening).resolves.toBe(request.db);
+  });
+});
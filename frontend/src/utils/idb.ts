@@ -0,0 +1,88 @@
+import { logger } from './logger';
+
+// Minimal promise wrapper over IndexedDB for the app's local persistence.
+// Every object store lives in one database; add new stores to STORES and
+// bump DB_VERSION so existing browsers run the upgrade.
+
+const DB_NAME = 'santa-digital-elves';
+const DB_VERSION = 4;
+const STORES = ['outbox', 'chatThreads', 'agentRuns', 'promptTemplates'] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Open (once) the shared database. Resolves to null when IndexedDB is
+ * unavailable (private browsing, tests), so callers can fall back to memory.
+ */
+export function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    dbPromise = Promise.resolve(null);
+    return dbPromise;
+  }
+  dbPromise = new Promise((resolve) => {
+    let blocked = false;
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      STORES.forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      if (blocked) {
+        // Already running from memory; don't hold up the next upgrade too
+        db.close();
+        return;
+      }
+      // Another tab wants a newer version: step aside, and reopen (or fall
+      // back to memory) on the next call
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    // A tab still open on an older version holds up the upgrade indefinitely
+    req.onblocked = () => {
+      blocked = true;
+      logger.warn('[idb] Upgrade blocked by another open tab, using memory only');
+      resolve(null);
+    };
+    req.onerror = () => {
+      logger.warn('[idb] IndexedDB unavailable, using memory only:', req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  if (!db) return [];
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+}
+
+export async function idbPut<T>(store: StoreName, value: T): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+}
+
+export async function idbDelete(store: StoreName, id: string): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { applyJsonPatch, JsonPatchError } from "./jsonPatch";
+
+describe("applyJsonPatch", () => {
+  const doc = { budget: { limit: 100 }, items: [{ id: "a" }, { id: "b" }], "a/b": { "~": 1 } };
+
+  it("applies add, remove, replace, move, copy and test", () => {
+    const next = applyJsonPatch(doc, [
+      { op: "add", path: "/items/-", value: { id: "c" } },
+      { op: "add", path: "/items/0", value: { id: "z" } },
+      { op: "remove", path: "/items/1" },
+      { op: "replace", path: "/budget/limit", value: 150 },
+      { op: "copy", from: "/budget", path: "/previousBudget" },
+      { op: "move", from: "/a~1b/~0", path: "/count" },
+      { op: "test", path: "/count", value: 1 },
+    ]);
+    expect(next).toEqual({
+      budget: { limit: 150 },
+      previousBudget: { limit: 150 },
+      items: [{ id: "z" }, { id: "b" }, { id: "c" }],
+      "a/b": {},
+      count: 1,
+    });
+  });
+
+  it("shares untouched branches and leaves the input alone", () => {
+    const next = applyJsonPatch(doc, [{ op: "replace", path: "/budget/limit", value: 200 }]);
+    expect(next.items).toBe(doc.items);
+    expect(next.budget).not.toBe(doc.budget);
+    expect(doc.budget.limit).toBe(100);
+  });
+
+  it("is atomic: a failing operation rejects the whole patch", () => {
+    const patch = [
+      { op: "add" as const, path: "/budget/currency", value: "USD" },
+      { op: "test" as const, path: "/budget/limit", value: 5 },
+    ];
+    expect(() => applyJsonPatch(doc, patch)).toThrow(JsonPatchError);
+    expect(doc.budget).toEqual({ limit: 100 });
+  });
+
+  it("rejects paths that do not exist or are out of bounds", () => {
+    expect(() => applyJsonPatch(doc, [{ op: "remove", path: "/nope" }])).toThrow("Path not found");
+    expect(() => applyJsonPatch(doc, [{ op: "add", path: "/items/5", value: 1 }])).toThrow("out of bounds");
+    expect(() => applyJsonPatch(doc, [{ op: "replace", path: "items", value: 1 }])).toThrow("Invalid JSON Pointer");
+  });
+});
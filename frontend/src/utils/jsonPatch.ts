@@ -0,0 +1,147 @@
+// JSON Patch (RFC 6902), as carried by AG-UI STATE_DELTA events.
+// Patches are applied without mutating the input: every container on the
+// path of an operation is copied, untouched branches are shared, so
+// subscribers selecting an unchanged slice keep the same reference.
+
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+export class JsonPatchError extends Error {
+  readonly operation: JsonPatchOperation;
+
+  constructor(message: string, operation: JsonPatchOperation) {
+    super(`${message} (${operation.op} ${operation.path})`);
+    this.name = "JsonPatchError";
+    this.operation = operation;
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+function parsePointer(pointer: string, operation: JsonPatchOperation): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) throw new JsonPatchError(`Invalid JSON Pointer "${pointer}"`, operation);
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+const isContainer = (value: unknown): value is Container => typeof value === "object" && value !== null;
+
+function arrayIndex(array: unknown[], token: string, forInsert: boolean, operation: JsonPatchOperation): number {
+  if (forInsert && token === "-") return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) throw new JsonPatchError(`Invalid array index "${token}"`, operation);
+  const index = Number(token);
+  if (index > array.length || (!forInsert && index === array.length)) {
+    throw new JsonPatchError(`Array index ${index} out of bounds`, operation);
+  }
+  return index;
+}
+
+function read(doc: unknown, tokens: string[], operation: JsonPatchOperation): unknown {
+  let current = doc;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false, operation)];
+    } else if (isContainer(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = (current as Record<string, unknown>)[token];
+    } else {
+      throw new JsonPatchError("Path not found", operation);
+    }
+  }
+  return current;
+}
+
+/** Copy the containers along `tokens` and let `change` edit the last one */
+function write(
+  doc: unknown,
+  tokens: string[],
+  operation: JsonPatchOperation,
+  change: (parent: Container, token: string) => void
+): unknown {
+  const [head, ...rest] = tokens;
+  if (!isContainer(doc)) throw new JsonPatchError("Path not found", operation);
+  const copy: Container = Array.isArray(doc) ? [...doc] : { ...doc };
+  if (rest.length === 0) {
+    change(copy, head);
+    return copy;
+  }
+  if (Array.isArray(copy)) {
+    const index = arrayIndex(copy, head, false, operation);
+    copy[index] = write(copy[index], rest, operation, change);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(copy, head)) throw new JsonPatchError("Path not found", operation);
+    copy[head] = write(copy[head], rest, operation, change);
+  }
+  return copy;
+}
+
+function add(doc: unknown, tokens: string[], value: unknown, operation: JsonPatchOperation): unknown {
+  if (tokens.length === 0) return value;
+  return write(doc, tokens, operation, (parent, token) => {
+    if (Array.isArray(parent)) parent.splice(arrayIndex(parent, token, true, operation), 0, value);
+    else parent[token] = value;
+  });
+}
+
+function remove(doc: unknown, tokens: string[], operation: JsonPatchOperation): unknown {
+  if (tokens.length === 0) throw new JsonPatchError("Cannot remove the whole document", operation);
+  return write(doc, tokens, operation, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, token, false, operation), 1);
+    } else {
+      if (!Object.prototype.hasOwnProperty.call(parent, token)) throw new JsonPatchError("Path not found", operation);
+      delete parent[token];
+    }
+  });
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((k) => Object.prototype.hasOwnProperty.call(b, k) && deepEqual((a as any)[k], (b as any)[k]))
+  );
+}
+
+function applyOperation(doc: unknown, operation: JsonPatchOperation): unknown {
+  const tokens = parsePointer(operation.path, operation);
+  switch (operation.op) {
+    case "add":
+      return add(doc, tokens, operation.value, operation);
+    case "remove":
+      return remove(doc, tokens, operation);
+    case "replace":
+      read(doc, tokens, operation);
+      return tokens.length === 0 ? operation.value : add(remove(doc, tokens, operation), tokens, operation.value, operation);
+    case "move": {
+      const from = parsePointer(operation.from, operation);
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new JsonPatchError("Cannot move a value into itself", operation);
+      }
+      const value = read(doc, from, operation);
+      return add(remove(doc, from, operation), tokens, value, operation);
+    }
+    case "copy":
+      return add(doc, tokens, structuredClone(read(doc, parsePointer(operation.from, operation), operation)), operation);
+    case "test":
+      if (!deepEqual(read(doc, tokens, operation), operation.value)) throw new JsonPatchError("Test failed", operation);
+      return doc;
+    default:
+      throw new JsonPatchError("Unknown operation", operation);
+  }
+}
+
+/**
+ * Apply a patch and return the patched document. Throws JsonPatchError when
+ * an operation fails; the patch is atomic, so the input is then unchanged.
+ */
+export function applyJsonPatch<T>(doc: T, patch: readonly JsonPatchOperation[]): T {
+  return patch.reduce<unknown>(applyOperation, doc) as T;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { inlineText, parseInline, parseMarkdown } from "./markdown";
+
+describe("parseMarkdown", () => {
+  it("parses headings, paragraphs, rules and code fences", () => {
+    const blocks = parseMarkdown("## Plan\nFirst line\nsecond line\n\n---\n```json\n{\"a\": 1}\n```");
+    expect(blocks.map((b) => b.type)).toEqual(["heading", "paragraph", "rule", "code"]);
+    expect(blocks[0]).toMatchObject({ level: 2, children: [{ type: "text", text: "Plan" }] });
+    expect(blocks[3]).toEqual({ type: "code", lang: "json", text: "{\"a\": 1}" });
+  });
+
+  it("nests lists by indentation and keeps the ordered start", () => {
+    const [list] = parseMarkdown("3. Pack\n   - wrap\n   - label\n4. Load the sleigh");
+    expect(list).toMatchObject({ type: "list", ordered: true, start: 3 });
+    if (list.type !== "list") throw new Error("expected a list");
+    expect(list.items).toHaveLength(2);
+    expect(list.items[0][1]).toMatchObject({ type: "list", ordered: false, items: [[{ type: "paragraph" }], [{ type: "paragraph" }]] });
+  });
+
+  it("parses GFM tables with alignment and pads short rows", () => {
+    const [table] = parseMarkdown("| Gift | Price |\n|:-----|------:|\n| Bike | $120 |\n| Kite |");
+    if (table.type !== "table") throw new Error("expected a table");
+    expect(table.align).toEqual(["left", "right"]);
+    expect(table.header.map(inlineText)).toEqual(["Gift", "Price"]);
+    expect(table.rows.map((r) => r.map(inlineText))).toEqual([["Bike", "$120"], ["Kite", ""]]);
+  });
+
+  it("parses blockquotes recursively", () => {
+    expect(parseMarkdown("> **Note**\n> - one")).toEqual([
+      {
+        type: "blockquote",
+        children: [
+          { type: "paragraph", children: [{ type: "strong", children: [{ type: "text", text: "Note" }] }] },
+          { type: "list", ordered: false, start: 1, items: [[{ type: "paragraph", children: [{ type: "text", text: "one" }] }]] },
+        ],
+      },
+    ]);
+  });
+});
+
+describe("parseInline", () => {
+  it("parses emphasis, code and strikethrough", () => {
+    expect(parseInline("**bold** *em* `x*y` ~~gone~~")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " " },
+      { type: "em", children: [{ type: "text", text: "em" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "x*y" },
+      { type: "text", text: " " },
+      { type: "del", children: [{ type: "text", text: "gone" }] },
+    ]);
+  });
+
+  it("leaves snake_case and stray markers alone", () => {
+    expect(inlineText(parseInline("child_id is 2 * 3"))).toBe("child_id is 2 * 3");
+    expect(parseInline("child_id_value")).toEqual([{ type: "text", text: "child_id_value" }]);
+  });
+
+  it("keeps safe links and drops unsafe ones to their text", () => {
+    expect(parseInline("[docs](https://example.com/a)")).toEqual([
+      { type: "link", href: "https://example.com/a", children: [{ type: "text", text: "docs" }] },
+    ]);
+    expect(parseInline("[click](javascript:alert(1))")).not.toContainEqual(expect.objectContaining({ type: "link" }));
+    expect(parseInline("[home](/children)")).toContainEqual(expect.objectContaining({ type: "link", href: "/children" }));
+    for (const offSite of ["//evil.example", "/\\evil.example"]) {
+      expect(parseInline(`[home](${offSite})`)).not.toContainEqual(expect.objectContaining({ type: "link" }));
+    }
+    expect(parseInline("see https://example.com.")).toEqual([
+      { type: "text", text: "see " },
+      { type: "link", href: "https://example.com", children: [{ type: "text", text: "https://example.com" }] },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("keeps HTML as text", () => {
+    expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([{ type: "text", text: "<img src=x onerror=alert(1)>" }]);
+  });
+});
@@ -0,0 +1,313 @@
+// A small Markdown parser for agent transcripts.
+// Covers what the agents write: headings, paragraphs, lists (nested by
+// indentation), fenced code, GFM tables, blockquotes, rules, and inline
+// emphasis, code, strikethrough and links. The result is a tree of plain
+// objects rendered as React elements, never as HTML, so markup in agent
+// output shows as text. Links are kept only for safe schemes.
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "del"; children: MdInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MdInline[] }
+  | { type: "break" };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type MdBlock =
+  | { type: "heading"; level: number; children: MdInline[] }
+  | { type: "paragraph"; children: MdInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "table"; align: TableAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { type: "blockquote"; children: MdBlock[] }
+  | { type: "rule" };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+// Same-origin paths, but not //host or /\host, which browsers treat as another origin
+const SAFE_HREF = /^(?:https?:\/\/|mailto:|\/(?![\/\\])|#)/i;
+
+export function parseMarkdown(source: string): MdBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n"));
+}
+
+const isBlank = (line: string) => line.trim() === "";
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes("|") && i + 1 < lines.length && lines[i + 1].includes("-") && TABLE_DELIMITER.test(lines[i + 1]);
+}
+
+// Whether a line ends a paragraph by starting some other block
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || RULE.test(line) || HEADING.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+}
+
+function parseBlocks(lines: string[]): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) body.push(lines[i++]);
+      i++; // closing fence, or past the end of an unterminated block
+      blocks.push({ type: "code", lang: fence[2], text: body.join("\n") });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ""));
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const align = splitRow(lines[i + 1]).map(cellAlign);
+      const header = splitRow(line).map(parseInline);
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes("|")) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? "")));
+      }
+      blocks.push({ type: "table", align: header.map((_, c) => align[c] ?? null), header, rows });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    const para: string[] = [line];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) para.push(lines[i++]);
+    blocks.push({ type: "paragraph", children: parseInline(para.map((l) => l.replace(/^\s+/, "")).join("\n")) });
+  }
+  return blocks;
+}
+
+// Items start with a marker at the list's indentation; lines indented past
+// it belong to the item before, so nested lists come out of the recursion.
+function parseList(lines: string[], start: number, blocks: MdBlock[]): number {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: MdBlock[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const item = LIST_ITEM.exec(lines[i]);
+    if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) break;
+    const contentIndent = item[1].length + item[2].length + 1;
+    const body: string[] = [item[3]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line only continues the item when more of it follows
+        const next = lines.slice(i + 1).find((l) => !isBlank(l));
+        if (next === undefined || leadingSpaces(next) <= indent) break;
+        body.push("");
+        i++;
+        continue;
+      }
+      const nested = leadingSpaces(line) > indent;
+      if (!nested && (LIST_ITEM.test(line) || startsBlock(lines, i))) break;
+      body.push(nested ? line.slice(Math.min(leadingSpaces(line), contentIndent)) : line);
+      i++;
+    }
+    items.push(parseBlocks(body));
+    // Blank lines between sibling items
+    let j = i;
+    while (j < lines.length && isBlank(lines[j])) j++;
+    const sibling = j < lines.length ? LIST_ITEM.exec(lines[j]) : null;
+    if (j > i && (!sibling || sibling[1].length !== indent)) break;
+    i = j;
+  }
+
+  blocks.push({ type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items });
+  return i;
+}
+
+const leadingSpaces = (line: string) => line.length - line.trimStart().length;
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function cellAlign(delimiter: string): TableAlign {
+  const left = delimiter.startsWith(":");
+  const right = delimiter.endsWith(":");
+  if (left && right) return "center";
+  if (right) return "right";
+  return left ? "left" : null;
+}
+
+const INLINE_DELIMITERS: { open: string; type: "strong" | "em" | "del" }[] = [
+  { open: "**", type: "strong" },
+  { open: "__", type: "strong" },
+  { open: "~~", type: "del" },
+  { open: "*", type: "em" },
+  { open: "_", type: "em" },
+];
+
+export function parseInline(text: string): MdInline[] {
+  const out: MdInline[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) out.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === "\\" && i + 1 < text.length) {
+      if (text[i + 1] === "\n") {
+        flush();
+        out.push({ type: "break" });
+      } else if (/[\\`*_~[\]()#+\-.!|>]/.test(text[i + 1])) {
+        buffer += text[i + 1];
+      } else {
+        buffer += "\\" + text[i + 1];
+      }
+      i += 2;
+      continue;
+    }
+
+    if (ch === "\n") {
+      if (buffer.endsWith("  ")) {
+        buffer = buffer.replace(/ +$/, "");
+        flush();
+        out.push({ type: "break" });
+      } else {
+        buffer += "\n";
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === "`") {
+      const code = /^(`+)([\s\S]*?[^`])\1(?!`)/.exec(rest);
+      if (code) {
+        flush();
+        out.push({ type: "code", text: code[2].trim() || code[2] });
+        i += code[0].length;
+        continue;
+      }
+    }
+
+    if (ch === "[" || (ch === "!" && text[i + 1] === "[")) {
+      const link = /^!?\[((?:\\.|[^\]\\])*)\]\(\s*<?([^\s)>]*)>?(?:\s+"[^"]*")?\s*\)/.exec(rest);
+      if (link) {
+        flush();
+        const label = ch === "!" ? [{ type: "text" as const, text: link[1] || link[2] }] : parseInline(link[1]);
+        if (SAFE_HREF.test(link[2])) out.push({ type: "link", href: link[2], children: label });
+        else out.push(...label);
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (ch === "<") {
+      const auto = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(rest);
+      if (auto) {
+        flush();
+        out.push({ type: "link", href: auto[1], children: [{ type: "text", text: auto[1] }] });
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === "h" || ch === "H") && /[\s(]$|^$/.test(buffer.slice(-1))) {
+      const url = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?)'"]/i.exec(rest);
+      if (url) {
+        flush();
+        out.push({ type: "link", href: url[0], children: [{ type: "text", text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = matchEmphasis(text, i);
+    if (emphasis) {
+      flush();
+      out.push({ type: emphasis.type, children: parseInline(emphasis.inner) });
+      i = emphasis.end;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return out;
+}
+
+function matchEmphasis(text: string, i: number): { type: "strong" | "em" | "del"; inner: string; end: number } | null {
+  for (const { open, type } of INLINE_DELIMITERS) {
+    if (!text.startsWith(open, i)) continue;
+    const after = text[i + open.length];
+    if (after === undefined || /\s/.test(after)) continue;
+    // Intraword underscores (snake_case) are not emphasis
+    if (open[0] === "_" && i > 0 && /\w/.test(text[i - 1])) continue;
+
+    let close = text.indexOf(open, i + open.length + 1);
+    while (close >= 0) {
+      const before = text[close - 1];
+      const next = text[close + open.length];
+      const flanking = !/\s/.test(before) && !(open[0] === "_" && next !== undefined && /\w/.test(next));
+      // A single * or _ must not close on half of a double one
+      const single = open.length > 1 || (text[close + 1] !== open && before !== open);
+      if (flanking && single) break;
+      close = text.indexOf(open, close + 1);
+    }
+    if (close < 0) continue;
+    return { type, inner: text.slice(i + open.length, close), end: close + open.length };
+  }
+  return null;
+}
+
+/** The text of inline content, with formatting dropped */
+export function inlineText(nodes: readonly MdInline[]): string {
+  return nodes
+    .map((n) => {
+      if (n.type === "text" || n.type === "code") return n.text;
+      if (n.type === "break") return "\n";
+      return inlineText(n.children);
+    })
+    .join("");
+}
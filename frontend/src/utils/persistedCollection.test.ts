@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { idbDelete, idbGetAll, idbPut } from "./idb";
+import { createPersistedCollection } from "./persistedCollection";
+
+vi.mock("./idb", () => ({
+  idbGetAll: vi.fn(),
+  idbPut: vi.fn(),
+  idbDelete: vi.fn(),
+}));
+
+type Item = { id: string; at: number };
+
+const newestFirst = (a: Item, b: Item) => b.at - a.at;
+
+describe("createPersistedCollection", () => {
+  beforeEach(() => {
+    vi.mocked(idbPut).mockResolvedValue(undefined);
+    vi.mocked(idbDelete).mockResolvedValue(undefined);
+  });
+
+  it("keeps records written before the load and merges the persisted ones", async () => {
+    vi.mocked(idbGetAll).mockResolvedValue([{ id: "a", at: 1 }, { id: "b", at: 2 }]);
+    const items = createPersistedCollection<Item>("agentRuns", { label: "test", sort: newestFirst });
+
+    await items.put({ id: "b", at: 3 });
+    await items.put({ id: "c", at: 4 });
+    await items.load();
+
+    expect(items.getAll()).toEqual([{ id: "c", at: 4 }, { id: "b", at: 3 }, { id: "a", at: 1 }]);
+  });
+
+  it("prunes persisted records beyond the limit once they load", async () => {
+    vi.mocked(idbGetAll).mockResolvedValue([{ id: "old", at: 1 }, { id: "mid", at: 2 }]);
+    const items = createPersistedCollection<Item>("agentRuns", { label: "test", sort: newestFirst, limit: 2 });
+
+    await items.put({ id: "new", at: 3 });
+    expect(idbDelete).not.toHaveBeenCalled();
+    await items.load();
+
+    expect(items.getAll().map((i) => i.id)).toEqual(["new", "mid"]);
+    expect(idbDelete).toHaveBeenCalledWith("agentRuns", "old");
+  });
+
+  it("replaces records in place and notifies subscribers", async () => {
+    const items = createPersistedCollection<Item>("chatThreads", { label: "test" });
+    const listener = vi.fn();
+    items.subscribe(listener);
+
+    await items.put({ id: "a", at: 1 });
+    await items.put({ id: "b", at: 2 });
+    const before = items.getAll();
+    await items.put({ id: "a", at: 5 });
+
+    expect(items.getAll()).toEqual([{ id: "a", at: 5 }, { id: "b", at: 2 }]);
+    expect(items.getAll()).not.toBe(before);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it("keeps the in-memory record when persisting it fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.mocked(idbPut).mockRejectedValue(new Error("quota"));
+    const items = createPersistedCollection<Item>("chatThreads", { label: "test" });
+
+    await items.put({ id: "a", at: 1 });
+
+    expect(items.getAll()).toEqual([{ id: "a", at: 1 }]);
+  });
+});
@@ -0,0 +1,109 @@
+import { idbDelete, idbGetAll, idbPut, type StoreName } from './idb';
+import { logger } from './logger';
+
+// A list of records kept in memory and mirrored to one IndexedDB store, for
+// the local stores the UI reads synchronously (chat threads, recorded runs,
+// prompt templates). Persisted records are loaded once and merged with the
+// ones written before the load resolved. Writes show straight away and are
+// persisted after; a failed write is logged and the in-memory copy stays.
+// Without IndexedDB the records live in memory only.
+
+export interface PersistedCollectionOptions<T> {
+  /** Names the collection in log messages */
+  label: string;
+  /** Order of the list; records stay in the order they were added when absent */
+  sort?: (a: T, b: T) => number;
+  /** Keep only the first `limit` records in sort order, deleting the rest from the store */
+  limit?: number;
+}
+
+export interface PersistedCollection<T extends { id: string }> {
+  /** Load persisted records once; resolves when they are merged in */
+  load(): Promise<void>;
+  /** The records; always replaced, never mutated, so it doubles as the UI snapshot */
+  getAll(): T[];
+  subscribe(listener: () => void): () => void;
+  /** Add a record, or replace the one with its id in place */
+  put(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export function createPersistedCollection<T extends { id: string }>(
+  store: StoreName,
+  { label, sort, limit }: PersistedCollectionOptions<T>
+): PersistedCollection<T> {
+  let records: T[] = [];
+  let loaded: Promise<void> | null = null;
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach((l) => l());
+
+  // Sort, keep what fits and return the records that no longer do
+  const settle = (next: T[]): T[] => {
+    const sorted = sort ? [...next].sort(sort) : next;
+    if (limit === undefined) {
+      records = sorted;
+      return [];
+    }
+    records = sorted.slice(0, limit);
+    return sorted.slice(limit);
+  };
+
+  const prune = async (dropped: T[]) => {
+    try {
+      await Promise.all(dropped.map((r) => idbDelete(store, r.id)));
+    } catch (err) {
+      logger.warn(`[${label}] Failed to prune old records`, err);
+    }
+  };
+
+  return {
+    load() {
+      if (!loaded) {
+        loaded = idbGetAll<T>(store)
+          .then((stored) => {
+            const known = new Set(records.map((r) => r.id));
+            const dropped = settle([...records, ...stored.filter((r) => !known.has(r.id))]);
+            emit();
+            return prune(dropped);
+          })
+          .catch((err) => logger.warn(`[${label}] Failed to load persisted records`, err));
+      }
+      return loaded;
+    },
+
+    getAll: () => records,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async put(record) {
+      const dropped = settle(
+        records.some((r) => r.id === record.id)
+          ? records.map((r) => (r.id === record.id ? record : r))
+          : [...records, record]
+      );
+      emit();
+      try {
+        await idbPut(store, record);
+      } catch (err) {
+        logger.warn(`[${label}] Failed to persist`, record.id, err);
+      }
+      await prune(dropped);
+    },
+
+    async delete(id) {
+      records = records.filter((r) => r.id !== id);
+      emit();
+      try {
+        await idbDelete(store, id);
+      } catch (err) {
+        logger.warn(`[${label}] Failed to delete`, id, err);
+      }
+    },
+  };
+}
@@ -0,0 +1,61 @@
+// Client-side mirror of ChildProfileEdit.Validate() in src/models/Domain.cs,
+// so the profile form can flag problems before a round trip. Keep the limits in sync.
+
+import type { ChildProfileEdit } from '../agentClient';
+
+export const PROFILE_LIMITS = {
+  minAge: 0,
+  maxAge: 18,
+  maxBudget: 10_000,
+  maxNameLength: 80,
+  maxLocationLength: 100,
+  maxPreferences: 20,
+  maxPreferenceLength: 40,
+} as const;
+
+export type ProfileField = 'name' | 'age' | 'location' | 'budget' | 'preferences';
+export type ProfileErrors = Partial<Record<ProfileField, string>>;
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  name: 'Name',
+  age: 'Age',
+  location: 'Location',
+  budget: 'Budget',
+  preferences: 'Preferences',
+};
+
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+
+export function validateProfileEdit(edit: ChildProfileEdit): ProfileErrors {
+  const errors: ProfileErrors = {};
+  const { minAge, maxAge, maxBudget, maxNameLength, maxLocationLength, maxPreferences, maxPreferenceLength } = PROFILE_LIMITS;
+
+  if (edit.name && edit.name.trim().length > maxNameLength) {
+    errors.name = `Name must be at most ${maxNameLength} characters.`;
+  }
+  if (edit.age != null && (!Number.isInteger(edit.age) || edit.age < minAge || edit.age > maxAge)) {
+    errors.age = `Age must be a whole number between ${minAge} and ${maxAge}.`;
+  }
+  if (edit.budget != null && (!Number.isFinite(edit.budget) || edit.budget < 0 || edit.budget > maxBudget)) {
+    errors.budget = `Budget must be between 0 and ${maxBudget}.`;
+  }
+  if (edit.location && (edit.location.trim().length > maxLocationLength || CONTROL_CHARS.test(edit.location))) {
+    errors.location = `Location must be at most ${maxLocationLength} characters of plain text.`;
+  }
+  if (edit.preferences.length > maxPreferences) {
+    errors.preferences = `At most ${maxPreferences} preferences are allowed.`;
+  } else if (edit.preferences.some((p) => !p.trim() || p.trim().length > maxPreferenceLength)) {
+    errors.preferences = `Each preference must be 1-${maxPreferenceLength} characters.`;
+  }
+  return errors;
+}
+
+/** Field messages from a server validation problem, keyed like the client-side errors */
+export function serverProfileErrors(errors: Record<string, string[]>): ProfileErrors {
+  const result: ProfileErrors = {};
+  Object.entries(errors).forEach(([field, messages]) => {
+    const key = field.charAt(0).toLowerCase() + field.slice(1);
+    if (key in PROFILE_FIELD_LABELS && messages.length) result[key as ProfileField] = messages.join(' ');
+  });
+  return result;
+}
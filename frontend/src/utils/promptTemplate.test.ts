@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { missingVariables, renderTemplate, templateVariables } from "./promptTemplate";
+
+describe("prompt templates", () => {
+  const template = "Gifts for {{childId}} under {{ budget }}; trending: {{trendingTop3}}. Again: {{childId}}";
+
+  it("lists the variables a template uses, once each", () => {
+    expect(templateVariables(template)).toEqual(["childId", "budget", "trendingTop3"]);
+    expect(templateVariables("No variables {here}")).toEqual([]);
+  });
+
+  it("fills in variables and leaves the ones without a value as written", () => {
+    const variables = { childId: "child-ada", budget: "$40", trendingTop3: undefined };
+    expect(renderTemplate(template, variables)).toBe(
+      "Gifts for child-ada under $40; trending: {{trendingTop3}}. Again: child-ada"
+    );
+    expect(missingVariables(template, variables)).toEqual(["trendingTop3"]);
+  });
+
+  it("does not expand variables inside values", () => {
+    expect(renderTemplate("{{request}}", { request: "Say {{childId}}", childId: "x" })).toBe("Say {{childId}}");
+  });
+});
@@ -0,0 +1,22 @@
+// {{variable}} substitution for prompt templates. Names are letters, digits
+// and underscores; whitespace inside the braces is allowed. Variables
+// without a value are left as written, so a half-filled prompt is easy to
+// spot before it is sent.
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type PromptVariables = Record<string, string | undefined>;
+
+/** The variables a template uses, in order of first use */
+export function templateVariables(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(VARIABLE), (m) => m[1]))];
+}
+
+/** The variables a template uses that have no value */
+export function missingVariables(template: string, variables: PromptVariables): string[] {
+  return templateVariables(template).filter((name) => !variables[name]);
+}
+
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(VARIABLE, (match, name: string) => variables[name] || match);
+}
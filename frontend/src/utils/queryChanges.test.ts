@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyQueryChange,
+  canonicalJson,
+  keyByFields,
+  recentChanges,
+  rowKey,
+  type QueryChangeEvent,
+  type ResultEntry,
+} from "./queryChanges";
+
+interface Trending {
+  item: string;
+  frequency: number;
+}
+
+const rows = (...items: Trending[]) => new Map(items.map((r) => [rowKey(r), { row: r } as ResultEntry<Trending>]));
+const values = (map: Map<string, ResultEntry<Trending>>) => [...map.values()].map((e) => e.row);
+
+describe("applyQueryChange", () => {
+  const bike = { item: "Bike", frequency: 2 };
+  const ball = { item: "Ball", frequency: 1 };
+
+  it("inserts the after row", () => {
+    const next = applyQueryChange(rows(bike), { op: "i", payload: { after: ball } });
+    expect(values(next)).toEqual([bike, ball]);
+  });
+
+  it("replaces the before row with the after row on update", () => {
+    const after = { item: "Bike", frequency: 3 };
+    const next = applyQueryChange(rows(bike, ball), { op: "u", payload: { before: bike, after } });
+    expect(values(next)).toEqual([ball, after]);
+  });
+
+  it("matches rows whatever order their fields came in", () => {
+    expect(canonicalJson({ b: 1, a: { d: 2, c: 3 } })).toBe(canonicalJson({ a: { c: 3, d: 2 }, b: 1 }));
+    const next = applyQueryChange(rows(bike), { op: "d", payload: { before: { frequency: 2, item: "Bike" } } });
+    expect(next.size).toBe(0);
+  });
+
+  it("removes the before row on delete", () => {
+    const next = applyQueryChange(rows(bike, ball), { op: "d", payload: { before: bike } });
+    expect(values(next)).toEqual([ball]);
+  });
+
+  it("clears everything when the query is deleted", () => {
+    const next = applyQueryChange(rows(bike, ball), { op: "x", payload: { kind: "deleted" } });
+    expect(next.size).toBe(0);
+  });
+
+  it("ignores other control signals", () => {
+    const current = rows(bike);
+    expect(applyQueryChange(current, { op: "x", payload: { kind: "running" } })).toBe(current);
+  });
+
+  it("adds reload rows like inserts", () => {
+    const next = applyQueryChange(new Map<string, ResultEntry<Trending>>(), { op: "r", payload: { after: bike } });
+    expect(values(next)).toEqual([bike]);
+  });
+
+  it("returns the same map for no-op events so React can bail out", () => {
+    const current = rows(bike);
+    const noops: QueryChangeEvent<Trending>[] = [
+      { op: "i" },
+      { op: "u", payload: {} },
+      { op: "d", payload: { before: ball } },
+      { op: "x", payload: { kind: "deleted" } },
+    ];
+    expect(applyQueryChange(current, noops[0])).toBe(current);
+    expect(applyQueryChange(current, noops[1])).toBe(current);
+    expect(applyQueryChange(current, noops[2])).toBe(current);
+    expect(applyQueryChange(new Map(), noops[3]).size).toBe(0);
+  });
+
+  it("never mutates the input map", () => {
+    const current = rows(bike);
+    applyQueryChange(current, { op: "i", payload: { after: ball } });
+    applyQueryChange(current, { op: "d", payload: { before: bike } });
+    expect(values(current)).toEqual([bike]);
+  });
+});
+
+describe("keyed result sets", () => {
+  interface Duplicate {
+    childId: string;
+    item: string;
+    duplicateCount: number;
+  }
+  const key = keyByFields<Duplicate>(["childId", "item"]);
+  const emmaBike = { childId: "emma", item: "Bike", duplicateCount: 2 };
+  const noahBike = { childId: "noah", item: "Bike", duplicateCount: 3 };
+  const keyed = (...items: Duplicate[]) => new Map(items.map((r) => [key(r), { row: r } as ResultEntry<Duplicate>]));
+
+  it("updates a row in place by its key fields, even when the before row is stale", () => {
+    const after = { ...emmaBike, duplicateCount: 4 };
+    const staleBefore = { ...emmaBike, duplicateCount: 1 };
+    const next = applyQueryChange(keyed(emmaBike, noahBike), { op: "u", payload: { before: staleBefore, after } }, key, 1000);
+    expect([...next.values()]).toEqual([{ row: after, lastChangedAt: 1000 }, { row: noahBike }]);
+  });
+
+  it("moves a row whose key fields changed", () => {
+    const after = { ...emmaBike, item: "Trike" };
+    const next = applyQueryChange(keyed(emmaBike), { op: "u", payload: { before: emmaBike, after } }, key, 1000);
+    expect([...next.keys()]).toEqual([key(after)]);
+  });
+
+  it("upserts inserts for a key it already has instead of adding a ghost row", () => {
+    const again = { ...emmaBike, duplicateCount: 5 };
+    const next = applyQueryChange(keyed(emmaBike), { op: "i", payload: { after: again } }, key, 1000);
+    expect([...next.values()]).toEqual([{ row: again, lastChangedAt: 1000 }]);
+  });
+
+  it("deletes by key, whatever the other fields say", () => {
+    const next = applyQueryChange(keyed(emmaBike, noahBike), { op: "d", payload: { before: { ...noahBike, duplicateCount: 9 } } }, key);
+    expect([...next.values()].map((e) => e.row)).toEqual([emmaBike]);
+  });
+
+  it("reports rows changed within the window and when the first one expires", () => {
+    let current = keyed(noahBike);
+    current = applyQueryChange(current, { op: "i", payload: { after: emmaBike } }, key, 1000);
+    current = applyQueryChange(current, { op: "u", payload: { after: { ...noahBike, duplicateCount: 4 } } }, key, 1500);
+
+    expect(recentChanges(current, 2000, 2000)).toEqual({ keys: new Set([key(noahBike), key(emmaBike)]), expiresInMs: 1000 });
+    expect(recentChanges(current, 3200, 2000)).toEqual({ keys: new Set([key(noahBike)]), expiresInMs: 300 });
+    expect(recentChanges(current, 3500, 2000)).toEqual({ keys: new Set(), expiresInMs: null });
+  });
+});
@@ -0,0 +1,112 @@
+// Pure reducer for Drasi continuous query change events delivered over SignalR.
+// Rows are keyed by the query's key fields (e.g. childId + item), so an
+// update replaces its row in place even when other fields changed, and each
+// row remembers when the event graph last touched it. Queries without key
+// fields fall back to the whole row, with field order ignored.
+
+export type QueryChangeOp = 'i' | 'u' | 'd' | 'x' | 'r';
+
+export interface QueryChangeEvent<T = unknown> {
+  op: QueryChangeOp;
+  payload?: {
+    before?: T;
+    after?: T;
+    /** Control signals ('x') only, e.g. 'deleted' when the query is removed */
+    kind?: string;
+  };
+}
+
+/** A row of a live result set */
+export interface ResultEntry<T> {
+  row: T;
+  /** When an insert or update last touched the row; unset for rows from a reload */
+  lastChangedAt?: number;
+}
+
+export type RowKeyFn<T = unknown> = (row: T) => string;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** JSON with object keys sorted, so equal rows match whatever order their fields came in */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    isRecord(v) ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]])) : v
+  );
+}
+
+/** The whole row as its key */
+export const rowKey = (row: unknown): string => canonicalJson(row);
+
+/** Key rows by some of their fields; by the whole row when none are given */
+export function keyByFields<T>(fields: readonly string[] = []): RowKeyFn<T> {
+  if (fields.length === 0) return rowKey;
+  return (row) => JSON.stringify(fields.map((f) => (isRecord(row) ? row[f] ?? null : null)));
+}
+
+/**
+ * Apply one change event to a result set. Returns a new Map, or the same Map
+ * when the event changes nothing, so React state updates can bail out.
+ */
+export function applyQueryChange<T>(
+  rows: Map<string, ResultEntry<T>>,
+  event: QueryChangeEvent<T>,
+  key: RowKeyFn<T> = rowKey,
+  now = Date.now()
+): Map<string, ResultEntry<T>> {
+  const { before, after, kind } = event.payload ?? {};
+  switch (event.op) {
+    case 'r': // reload row
+      if (!after) return rows;
+      return new Map(rows).set(key(after), { row: after });
+    case 'i': // insert, or upsert when the key is already there
+      if (!after) return rows;
+      return new Map(rows).set(key(after), { row: after, lastChangedAt: now });
+    case 'u': {
+      // update: in place when the key is unchanged, moved when a key field changed
+      if (!after) return before ? applyQueryChange(rows, { op: 'd', payload: { before } }, key, now) : rows;
+      const next = new Map(rows);
+      const afterKey = key(after);
+      if (before && key(before) !== afterKey) next.delete(key(before));
+      return next.set(afterKey, { row: after, lastChangedAt: now });
+    }
+    case 'd': {
+      // delete
+      if (!before || !rows.has(key(before))) return rows;
+      const next = new Map(rows);
+      next.delete(key(before));
+      return next;
+    }
+    case 'x': // control signal
+      return kind === 'deleted' && rows.size > 0 ? new Map() : rows;
+    default:
+      return rows;
+  }
+}
+
+/** How long a row counts as just changed, e.g. for the row-changed highlight */
+export const CHANGE_HIGHLIGHT_MS = 2000;
+
+/** The rowChanged keyframes (styles/theme.css), lasting as long as a row counts as just changed */
+export const ROW_CHANGED_ANIMATION = `rowChanged ${CHANGE_HIGHLIGHT_MS}ms ease-out`;
+
+/**
+ * Keys of the rows changed less than `windowMs` ago, and how long until the
+ * first of them stops counting as just changed (null when none do).
+ */
+export function recentChanges<T>(
+  rows: Map<string, ResultEntry<T>>,
+  now: number,
+  windowMs: number
+): { keys: Set<string>; expiresInMs: number | null } {
+  const keys = new Set<string>();
+  let expiresInMs: number | null = null;
+  rows.forEach((entry, k) => {
+    if (entry.lastChangedAt === undefined) return;
+    const left = entry.lastChangedAt + windowMs - now;
+    if (left <= 0) return;
+    keys.add(k);
+    expiresInMs = expiresInMs === null ? left : Math.min(expiresInMs, left);
+  });
+  return { keys, expiresInMs };
+}
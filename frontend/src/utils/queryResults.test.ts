@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { keyByFields } from "./queryChanges";
+import { compareResultSets, nextSort, resultColumns, sortRows } from "./queryResults";
+
+const rows = [
+  { item: "Kite", frequency: 2 },
+  { item: "Bike 10", frequency: 9, note: "new" },
+  { item: "Bike 9", frequency: null },
+];
+
+describe("query result helpers", () => {
+  it("puts declared columns first, then the rows' other fields", () => {
+    expect(resultColumns(rows, ["frequency", "item"])).toEqual(["frequency", "item", "note"]);
+  });
+
+  it("sorts numbers by value and text with numbers in it naturally, empty cells last", () => {
+    const byFrequency = (direction: "asc" | "desc") => sortRows(rows, { column: "frequency", direction }).map((r) => r.item);
+    expect(byFrequency("asc")).toEqual(["Kite", "Bike 10", "Bike 9"]);
+    expect(byFrequency("desc")).toEqual(["Bike 10", "Kite", "Bike 9"]);
+    expect(sortRows(rows, { column: "item", direction: "asc" }).map((r) => r.item)).toEqual(["Bike 9", "Bike 10", "Kite"]);
+    expect(sortRows(rows, null)).toEqual(rows);
+  });
+
+  it("sorts ascending on a new column and toggles on the same one", () => {
+    expect(nextSort(null, "item")).toEqual({ column: "item", direction: "asc" });
+    expect(nextSort({ column: "item", direction: "asc" }, "item")).toEqual({ column: "item", direction: "desc" });
+    expect(nextSort({ column: "item", direction: "desc" }, "frequency")).toEqual({ column: "frequency", direction: "asc" });
+  });
+
+  it("matches rows whatever order their fields are in", () => {
+    const live = [{ item: "Kite", frequency: 3 }, { item: "Sled", frequency: 1 }];
+    const snapshot = [{ frequency: 1, item: "Sled" }, { item: "Kite", frequency: 2 }];
+    expect(compareResultSets(live, snapshot)).toEqual({
+      matching: [{ item: "Sled", frequency: 1 }],
+      changed: [],
+      onlyLive: [{ item: "Kite", frequency: 3 }],
+      onlySnapshot: [{ item: "Kite", frequency: 2 }],
+    });
+  });
+
+  it("reports rows with the same key and different values as changed", () => {
+    const live = [{ item: "Kite", frequency: 3 }, { item: "Drum", frequency: 1 }];
+    const snapshot = [{ item: "Kite", frequency: 2 }];
+    expect(compareResultSets(live, snapshot, keyByFields(["item"]))).toEqual({
+      matching: [],
+      changed: [{ live: { item: "Kite", frequency: 3 }, snapshot: { item: "Kite", frequency: 2 } }],
+      onlyLive: [{ item: "Drum", frequency: 1 }],
+      onlySnapshot: [],
+    });
+  });
+});
@@ -0,0 +1,81 @@
+// Helpers for showing any continuous query's result set as a table: the
+// columns its rows have, sorting by a column, and comparing the live SignalR
+// rows with a REST snapshot of the same query.
+
+import { canonicalJson, rowKey, type RowKeyFn } from './queryChanges';
+
+export type ResultRow = Record<string, unknown>;
+
+export interface ResultSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+const isRow = (value: unknown): value is ResultRow => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+/** Declared columns first, then any other field the rows have, in order of first appearance */
+export function resultColumns(rows: readonly unknown[], declared: readonly string[] = []): string[] {
+  const columns = new Set(declared);
+  rows.forEach((row) => {
+    if (isRow(row)) Object.keys(row).forEach((k) => columns.add(k));
+  });
+  return [...columns];
+}
+
+export function cellOf(row: unknown, column: string): unknown {
+  return isRow(row) ? row[column] : undefined;
+}
+
+/** Numbers by value, everything else as text with numeric parts compared by value; empty cells last */
+export function compareCells(a: unknown, b: unknown): number {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) === isEmpty(b) ? 0 : isEmpty(a) ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const text = (v: unknown) => (typeof v === 'string' ? v : JSON.stringify(v));
+  return text(a).localeCompare(text(b), undefined, { numeric: true });
+}
+
+/** Rows sorted by one column; the order is unchanged without a sort */
+export function sortRows<T>(rows: readonly T[], sort: ResultSort | null): T[] {
+  if (!sort) return [...rows];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const ca = cellOf(a, sort.column);
+    const cb = cellOf(b, sort.column);
+    // Empty cells stay last whichever way the column is sorted
+    return isEmpty(ca) || isEmpty(cb) ? compareCells(ca, cb) : sign * compareCells(ca, cb);
+  });
+}
+
+/** Clicking a column header: ascending first, then toggling */
+export function nextSort(current: ResultSort | null, column: string): ResultSort {
+  if (current?.column !== column) return { column, direction: 'asc' };
+  return { column, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+}
+
+export interface ResultSetComparison<T> {
+  /** Rows both result sets have */
+  matching: T[];
+  /** Rows both have under the same key, with different values */
+  changed: { live: T; snapshot: T }[];
+  /** Rows only the live result set has */
+  onlyLive: T[];
+  /** Rows only the snapshot has */
+  onlySnapshot: T[];
+}
+
+/** Compare by the query's row key; without one, rows only match when equal */
+export function compareResultSets<T>(live: readonly T[], snapshot: readonly T[], key: RowKeyFn<T> = rowKey): ResultSetComparison<T> {
+  const snapshotByKey = new Map(snapshot.map((row) => [key(row), row] as const));
+  const liveKeys = new Set(live.map(key));
+  const comparison: ResultSetComparison<T> = { matching: [], changed: [], onlyLive: [], onlySnapshot: [] };
+  live.forEach((row) => {
+    const other = snapshotByKey.get(key(row));
+    if (other === undefined) comparison.onlyLive.push(row);
+    else if (canonicalJson(other) === canonicalJson(row)) comparison.matching.push(row);
+    else comparison.changed.push({ live: row, snapshot: other });
+  });
+  comparison.onlySnapshot = snapshot.filter((row) => !liveKeys.has(key(row)));
+  return comparison;
+}
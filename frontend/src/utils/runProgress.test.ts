@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { mapRaw } from "../hooks/useAgentRun";
+import { runProgress } from "./runProgress";
+
+const events = (raws: any[]) => raws.map((raw) => mapRaw(raw)!);
+
+describe("runProgress", () => {
+  it("tracks steps and the one in progress", () => {
+    const progress = runProgress(
+      events([
+        { type: "RUN_STARTED", runId: "r1" },
+        { type: "STEP_STARTED", stepName: "profile-elf" },
+        { type: "STEP_FINISHED", stepName: "profile-elf" },
+        { type: "STEP_STARTED", stepName: "recommendation-elf" },
+      ])
+    );
+    expect(progress.steps).toEqual([
+      { name: "profile-elf", status: "done" },
+      { name: "recommendation-elf", status: "running" },
+    ]);
+    expect(progress.currentStep).toBe("recommendation-elf");
+    expect(progress.error).toBeUndefined();
+  });
+
+  it("is thinking between reasoning start and end, old or new event names", () => {
+    const thinking = events([
+      { type: "THINKING_START" },
+      { type: "THINKING_TEXT_MESSAGE_START" },
+      { type: "THINKING_TEXT_MESSAGE_CONTENT", delta: "Checking the " },
+      { type: "THINKING_TEXT_MESSAGE_CONTENT", delta: "wishlist" },
+    ]);
+    expect(runProgress(thinking)).toMatchObject({ thinking: true, reasoning: "Checking the wishlist" });
+    expect(runProgress([...thinking, ...events([{ type: "THINKING_TEXT_MESSAGE_END" }, { type: "THINKING_END" }])]).thinking).toBe(false);
+
+    expect(runProgress(events([{ type: "REASONING_START", messageId: "r1" }])).thinking).toBe(true);
+  });
+
+  it("fails open steps and reports the error when the run fails", () => {
+    const progress = runProgress(
+      events([
+        { type: "STEP_STARTED", stepName: "logistics-elf" },
+        { type: "THINKING_START" },
+        { type: "RUN_ERROR", message: "Drasi is unavailable", code: "agent_error" },
+      ])
+    );
+    expect(progress).toMatchObject({
+      steps: [{ name: "logistics-elf", status: "failed" }],
+      currentStep: undefined,
+      thinking: false,
+      error: "Drasi is unavailable",
+    });
+    expect(
+      runProgress(events([{ type: "RUN_FINISHED", result: { status: "failed", error: "Quota exceeded" } }])).error
+    ).toBe("Quota exceeded");
+  });
+
+  it("marks open steps cancelled when the run is", () => {
+    const progress = runProgress(
+      events([
+        { type: "STEP_STARTED", stepName: "profile-elf" },
+        { type: "RUN_FINISHED", result: { status: "cancelled" } },
+      ])
+    );
+    expect(progress.steps).toEqual([{ name: "profile-elf", status: "cancelled" }]);
+  });
+});
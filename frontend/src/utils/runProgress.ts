@@ -0,0 +1,77 @@
+// Progress of an agent run, read off its timeline: the AG-UI steps it went
+// through, whether the agent is reasoning right now, and why the run failed.
+// A step stays open from STEP_STARTED to STEP_FINISHED; steps still open
+// when the run ends take the run's outcome.
+
+import type { NormalizedRunEvent } from "../hooks/useAgentRun";
+
+export type RunStepStatus = "running" | "done" | "failed" | "cancelled";
+
+export interface RunStep {
+  name: string;
+  status: RunStepStatus;
+}
+
+export interface RunProgress {
+  /** In the order they started */
+  steps: RunStep[];
+  /** The innermost step in progress */
+  currentStep?: string;
+  /** Between a reasoning start and its end */
+  thinking: boolean;
+  /** Text of the current (or last) reasoning block */
+  reasoning: string;
+  /** Why the run failed; undefined unless it did */
+  error?: string;
+}
+
+export function runProgress(events: readonly NormalizedRunEvent[]): RunProgress {
+  const steps = new Map<string, RunStep>();
+  const active: string[] = [];
+  let thinking = false;
+  let reasoning = "";
+  let error: string | undefined;
+
+  for (const ev of events) {
+    switch (ev.phase) {
+      case "step": {
+        const name = ev.stepName || "step";
+        const index = active.lastIndexOf(name);
+        if (ev.kind === "step-start") {
+          steps.delete(name);
+          steps.set(name, { name, status: "running" });
+          active.push(name);
+        } else if (index >= 0) {
+          active.splice(index, 1);
+          steps.set(name, { name, status: "done" });
+        }
+        break;
+      }
+      case "reasoning":
+        if (ev.kind === "started") reasoning = "";
+        if (ev.kind === "started" || ev.kind === "message-start" || ev.kind === "delta") thinking = true;
+        if (ev.kind === "delta") reasoning += ev.deltaText ?? "";
+        if (ev.kind === "end") thinking = false;
+        break;
+      case "run":
+        if (ev.kind !== "finished" && ev.kind !== "error") break;
+        thinking = false;
+        if (ev.status === "failed") error = ev.error ?? "Agent execution failed";
+        for (const name of active.splice(0)) {
+          steps.set(name, {
+            name,
+            status: ev.status === "failed" ? "failed" : ev.status === "cancelled" ? "cancelled" : "done",
+          });
+        }
+        break;
+    }
+  }
+
+  return {
+    steps: [...steps.values()],
+    currentStep: active[active.length - 1],
+    thinking,
+    reasoning,
+    error,
+  };
+}
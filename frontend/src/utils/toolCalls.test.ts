@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { abortToolCalls, parseToolArgs, reduceToolCalls, toolCallDuration, type ToolCall } from "./toolCalls";
+
+function replay(events: any[]): ToolCall[] {
+  return events.reduce<ToolCall[]>((calls, ev, i) => reduceToolCalls(calls, ev, 1000 + i * 100), []);
+}
+
+describe("reduceToolCalls", () => {
+  it("builds a call from streamed start, argument and result events", () => {
+    const calls = replay([
+      { type: "TOOL_CALL_START", toolCallId: "c1", toolCallName: "GetChildWishlistItems", parentMessageId: "m1" },
+      { type: "TOOL_CALL_ARGS", toolCallId: "c1", delta: "{\"childId\":" },
+      { type: "TOOL_CALL_ARGS", toolCallId: "c1", delta: "\"child-ada\"}" },
+      { type: "TOOL_CALL_END", toolCallId: "c1" },
+      { type: "TOOL_CALL_RESULT", toolCallId: "c1", content: "[\"Kite\"]" },
+    ]);
+
+    expect(calls).toEqual([
+      {
+        id: "c1",
+        name: "GetChildWishlistItems",
+        args: "{\"childId\":\"child-ada\"}",
+        result: "[\"Kite\"]",
+        error: undefined,
+        status: "done",
+        startedAt: 1000,
+        endedAt: 1400,
+        parentMessageId: "m1",
+      },
+    ]);
+    expect(parseToolArgs(calls[0])).toEqual({ childId: "child-ada" });
+    expect(toolCallDuration(calls[0])).toBe(400);
+  });
+
+  it("builds a call from TOOL_CALL_CHUNK events", () => {
+    const calls = replay([
+      { type: "TOOL_CALL_CHUNK", toolCallId: "c1", toolCallName: "GetChildWishlistItems", delta: "{\"childId\":" },
+      { type: "TOOL_CALL_CHUNK", toolCallId: "c1", delta: "\"child-ada\"}" },
+      { type: "TOOL_CALL_RESULT", toolCallId: "c1", content: "[]" },
+    ]);
+    expect(calls).toMatchObject([
+      { id: "c1", name: "GetChildWishlistItems", args: "{\"childId\":\"child-ada\"}", status: "done" },
+    ]);
+  });
+
+  it("marks error results and calls left open by a failed run as failed", () => {
+    const calls = replay([
+      { type: "TOOL_CALL_START", toolCallId: "c1", toolCallName: "FindInactiveChildren" },
+      { type: "TOOL_CALL_START", toolCallId: "c2", toolCallName: "QueryTrendingWishlistItems" },
+      { type: "TOOL_CALL_RESULT", toolCallId: "c1", content: "{\"error\":\"Drasi is unavailable\"}" },
+      { type: "RUN_FINISHED", result: { status: "failed" } },
+    ]);
+
+    expect(calls.map((c) => [c.id, c.status, c.error])).toEqual([
+      ["c1", "error", "Drasi is unavailable"],
+      ["c2", "error", "The run ended before the tool returned"],
+    ]);
+  });
+
+  it("returns the same array for events that are not about tool calls", () => {
+    const calls = replay([{ type: "TOOL_CALL_START", toolCallId: "c1", toolCallName: "GetChildBehaviorHistory" }]);
+
+    expect(reduceToolCalls(calls, { type: "TEXT_MESSAGE_CONTENT", delta: "Hi" })).toBe(calls);
+    expect(parseToolArgs({ args: "{\"child" })).toBeUndefined();
+  });
+});
+
+describe("abortToolCalls", () => {
+  it("closes only the calls still running", () => {
+    const calls = replay([
+      { type: "TOOL_CALL_START", toolCallId: "c1", toolCallName: "GetChildWishlistItems" },
+      { type: "TOOL_CALL_RESULT", toolCallId: "c1", content: "[]" },
+      { type: "TOOL_CALL_START", toolCallId: "c2", toolCallName: "FindInactiveChildren" },
+    ]);
+
+    expect(abortToolCalls(calls, "Cancelled", 5000).map((c) => [c.status, c.error, c.endedAt])).toEqual([
+      ["done", undefined, 1100],
+      ["error", "Cancelled", 5000],
+    ]);
+  });
+});
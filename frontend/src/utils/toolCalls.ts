@@ -0,0 +1,138 @@
+// Tool calls rebuilt from AG-UI events.
+// TOOL_CALL_START opens a call, TOOL_CALL_ARGS streams its JSON arguments,
+// TOOL_CALL_END closes the arguments and TOOL_CALL_RESULT carries the output.
+// TOOL_CALL_CHUNK is the compact form: it opens the call on first sight and
+// carries an arguments delta.
+// A result shaped like { "error": ... } (how AgUiEndpoints reports a failed
+// tool) marks the call as failed, as does a run that ends while it is open.
+
+export type ToolCallStatus = "running" | "done" | "error";
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Raw argument text as streamed; may be partial JSON while running */
+  args: string;
+  result?: string;
+  error?: string;
+  status: ToolCallStatus;
+  startedAt: number;
+  endedAt?: number;
+  /** The assistant message the call belongs to, when the server says */
+  parentMessageId?: string;
+}
+
+/** Parsed arguments, or undefined while they are incomplete or not JSON */
+export function parseToolArgs(call: Pick<ToolCall, "args">): unknown {
+  if (!call.args.trim()) return undefined;
+  try {
+    return JSON.parse(call.args);
+  } catch {
+    return undefined;
+  }
+}
+
+export function toolCallDuration(call: ToolCall): number | undefined {
+  return call.endedAt === undefined ? undefined : Math.max(0, call.endedAt - call.startedAt);
+}
+
+function errorOf(content: string): string | undefined {
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed) && "error" in parsed && parsed.error) {
+      return typeof parsed.error === "string" ? parsed.error : JSON.stringify(parsed.error);
+    }
+  } catch {
+    // Plain-text results are successes
+  }
+  return undefined;
+}
+
+const update = (calls: ToolCall[], id: string, change: (call: ToolCall) => ToolCall): ToolCall[] =>
+  calls.map((c) => (c.id === id ? change(c) : c));
+
+/**
+ * Apply one AG-UI event to the calls seen so far. Returns the same array when
+ * the event is not about tool calls, so callers can skip re-rendering.
+ */
+export function reduceToolCalls(calls: ToolCall[], ev: any, now: number = Date.now()): ToolCall[] {
+  const at: number = typeof ev?.timestamp === "number" ? ev.timestamp : now;
+  const id: string | undefined = ev?.toolCallId;
+  switch (ev?.type) {
+    case "TOOL_CALL_START":
+      if (!id || calls.some((c) => c.id === id)) return calls;
+      return [
+        ...calls,
+        {
+          id,
+          name: ev.toolCallName ?? ev.toolName ?? "tool",
+          args: "",
+          status: "running",
+          startedAt: at,
+          parentMessageId: ev.parentMessageId,
+        },
+      ];
+    case "TOOL_CALL_ARGS":
+      if (!id) return calls;
+      return update(calls, id, (c) => ({ ...c, args: c.args + (ev.delta ?? "") }));
+    case "TOOL_CALL_CHUNK": {
+      if (!id) return calls;
+      const base = calls.some((c) => c.id === id)
+        ? calls
+        : [
+            ...calls,
+            {
+              id,
+              name: ev.toolCallName ?? "tool",
+              args: "",
+              status: "running" as const,
+              startedAt: at,
+              parentMessageId: ev.parentMessageId,
+            },
+          ];
+      return ev.delta ? update(base, id, (c) => ({ ...c, args: c.args + ev.delta })) : base;
+    }
+    case "TOOL_CALL_END":
+      // Arguments are complete; the call stays open until its result arrives
+      return calls;
+    case "TOOL_CALL_RESULT": {
+      if (!id) return calls;
+      const content = typeof ev.content === "string" ? ev.content : JSON.stringify(ev.content ?? null);
+      const error = errorOf(content);
+      const known = calls.some((c) => c.id === id);
+      // A result for a call we never saw start (e.g. joined mid-run) still gets a card
+      const base = known
+        ? calls
+        : [...calls, { id, name: "tool", args: "", status: "running" as const, startedAt: at }];
+      return update(base, id, (c) => ({
+        ...c,
+        result: content,
+        error,
+        status: error ? "error" : "done",
+        endedAt: at,
+      }));
+    }
+    case "RUN_FINISHED":
+    case "RUN_ERROR":
+    case "ERROR": {
+      const failed = ev.type !== "RUN_FINISHED" || (ev.result?.status && ev.result.status !== "succeeded");
+      const reason = ev.result?.status === "cancelled" ? "Cancelled" : "The run ended before the tool returned";
+      if (!calls.some((c) => c.status === "running")) return calls;
+      return calls.map((c) =>
+        c.status !== "running"
+          ? c
+          : failed
+            ? { ...c, status: "error" as const, error: c.error ?? reason, endedAt: at }
+            // A successful run that never sent a result: the call finished without output
+            : { ...c, status: "done" as const, endedAt: at }
+      );
+    }
+    default:
+      return calls;
+  }
+}
+
+/** Close any calls still running, e.g. when the user cancels the run */
+export function abortToolCalls(calls: ToolCall[], reason: string, now: number = Date.now()): ToolCall[] {
+  return calls.map((c) => (c.status === "running" ? { ...c, status: "error", error: reason, endedAt: now } : c));
+}
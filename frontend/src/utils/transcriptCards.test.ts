@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseMarkdown } from "./markdown";
+import { segmentTranscript } from "./transcriptCards";
+
+const segments = (source: string) => segmentTranscript(parseMarkdown(source));
+
+describe("segmentTranscript", () => {
+  it("reads gift recommendations from a table with gift and price columns", () => {
+    const result = segments(
+      "Here are my picks:\n\n| Gift | Price | Budget fit | Why |\n|---|---:|---|---|\n| Telescope | $1,249.50 | stretch | Loves stars |\n| Kite | $18 | within budget | |"
+    );
+    expect(result[0].kind).toBe("markdown");
+    expect(result[1]).toEqual({
+      kind: "gifts",
+      gifts: [
+        { suggestion: "Telescope", price: 1249.5, budgetFit: "stretch", rationale: "Loves stars" },
+        { suggestion: "Kite", price: 18, budgetFit: "within-budget", rationale: undefined },
+      ],
+    });
+  });
+
+  it("reads gift recommendations from a list where every item has a price", () => {
+    expect(segments("- **Mountain bike** – $120 (over budget): loves the outdoors\n- Paint set - $25")).toEqual([
+      {
+        kind: "gifts",
+        gifts: [
+          { suggestion: "Mountain bike", price: 120, budgetFit: "stretch", rationale: "loves the outdoors" },
+          { suggestion: "Paint set", price: 25, budgetFit: undefined, rationale: undefined },
+        ],
+      },
+    ]);
+  });
+
+  it("leaves tables and lists without prices as Markdown", () => {
+    const result = segments("| Name | Age |\n|---|---|\n| Ava | 7 |\n\n- wrap gifts\n- load the sleigh $ soon");
+    expect(result.map((s) => s.kind)).toEqual(["markdown", "markdown"]);
+  });
+
+  it("reads a logistics plan from a list under a logistics heading", () => {
+    expect(segments("### Delivery plan\n1. **Kite** in stock, ships tomorrow\n2. **Telescope** out of stock until January\n3. Load the sleigh")).toEqual([
+      {
+        kind: "logistics",
+        title: "Delivery plan",
+        steps: [
+          { text: "Kite in stock, ships tomorrow", gift: "Kite", feasible: true },
+          { text: "Telescope out of stock until January", gift: "Telescope", feasible: false },
+          { text: "Load the sleigh", gift: undefined, feasible: undefined },
+        ],
+      },
+    ]);
+  });
+
+  it("reads the agents' JSON recommendations and logistics assessments", () => {
+    const recs = JSON.stringify({ recommendations: [{ suggestion: "Robot kit", price: 45, budgetFit: "within-budget", rationale: "Builds things" }] });
+    const assessment = JSON.stringify({ overallStatus: "partial", items: [{ recommendationId: "r1", feasible: false, reason: "lead time exceeds cutoff" }] });
+    expect(segments("```json\n" + recs + "\n```\n\n```json\n" + assessment + "\n```")).toEqual([
+      { kind: "gifts", gifts: [{ suggestion: "Robot kit", price: 45, budgetFit: "within-budget", rationale: "Builds things" }] },
+      { kind: "logistics", title: "Logistics assessment", status: "partial", steps: [{ text: "lead time exceeds cutoff", gift: undefined, feasible: false }] },
+    ]);
+    expect(segments("```json\n{\"unrelated\": true}\n```")[0].kind).toBe("markdown");
+  });
+});
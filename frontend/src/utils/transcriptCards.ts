@@ -0,0 +1,197 @@
+// Structures recognized in agent transcripts, to be shown as cards instead of
+// plain Markdown: gift recommendations (a table with gift and price columns,
+// a list whose items carry a price, or the agents' JSON output) and
+// logistics plans (a list under a delivery/logistics heading, or a JSON
+// LogisticsAssessment). Everything else stays Markdown.
+
+import { inlineText, type MdBlock, type MdInline } from "./markdown";
+
+export interface GiftSuggestion {
+  suggestion: string;
+  price?: number;
+  /** As the recommendation agent reports it: "within-budget", "stretch" or "unknown" */
+  budgetFit?: string;
+  rationale?: string;
+}
+
+export interface LogisticsStep {
+  text: string;
+  /** The gift the step is about, when it names one */
+  gift?: string;
+  /** Undefined when the plan doesn't say */
+  feasible?: boolean;
+}
+
+export type TranscriptSegment =
+  | { kind: "markdown"; block: MdBlock }
+  | { kind: "gifts"; gifts: GiftSuggestion[] }
+  | { kind: "logistics"; title: string; status?: string; steps: LogisticsStep[] };
+
+const PRICE = /\$\s?(\d[\d,]*(?:\.\d{1,2})?)/;
+const LOGISTICS_TITLE = /logistic|deliver|shipping|fulfil|dispatch|sleigh route/i;
+const GIFT_COLUMN = /gift|toy|suggestion|recommendation|item|idea/i;
+const PRICE_COLUMN = /price|cost/i;
+const FIT_COLUMN = /budget|fit/i;
+const RATIONALE_COLUMN = /why|rationale|reason|notes?/i;
+
+export function segmentTranscript(blocks: readonly MdBlock[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const next = blocks[i + 1];
+
+    // A logistics heading (or "Delivery plan:" line) with its list
+    if ((block.type === "heading" || block.type === "paragraph") && next?.type === "list") {
+      const title = inlineText(block.children).trim().replace(/:$/, "");
+      if (title.length <= 80 && LOGISTICS_TITLE.test(title)) {
+        segments.push({ kind: "logistics", title, steps: next.items.map(logisticsStep) });
+        i++;
+        continue;
+      }
+    }
+
+    const structured = block.type === "table" ? giftsFromTable(block)
+      : block.type === "list" ? giftsFromList(block)
+      : block.type === "code" ? fromJson(block.text)
+      : undefined;
+    segments.push(structured ?? { kind: "markdown", block });
+  }
+  return segments;
+}
+
+/** Parse a price like "$1,249.50" out of text */
+export function parsePrice(text: string): number | undefined {
+  const match = PRICE.exec(text);
+  return match ? Number(match[1].replace(/,/g, "")) : undefined;
+}
+
+/** Normalize how agents describe budget fit to the values the recommendation agent uses */
+export function normalizeBudgetFit(text: string): string | undefined {
+  if (/within|under|below|fits|\bat\b|\bok\b|✅/i.test(text)) return "within-budget";
+  if (/stretch|over|above|exceeds|⚠️/i.test(text)) return "stretch";
+  if (/unknown/i.test(text)) return "unknown";
+  return undefined;
+}
+
+function giftsFromTable(table: Extract<MdBlock, { type: "table" }>): TranscriptSegment | undefined {
+  const headers = table.header.map((h) => inlineText(h));
+  const column = (pattern: RegExp, taken: number[] = []) => headers.findIndex((h, i) => pattern.test(h) && !taken.includes(i));
+  const price = column(PRICE_COLUMN);
+  const gift = column(GIFT_COLUMN, [price]);
+  if (gift < 0 || price < 0) return undefined;
+  const fit = column(FIT_COLUMN, [gift, price]);
+  const rationale = column(RATIONALE_COLUMN, [gift, price, fit]);
+
+  const gifts = table.rows
+    .map((row) => {
+      const cell = (i: number) => (i >= 0 ? inlineText(row[i]).trim() : "");
+      return {
+        suggestion: cell(gift),
+        price: parsePrice(cell(price)),
+        budgetFit: fit >= 0 ? normalizeBudgetFit(cell(fit)) : undefined,
+        rationale: cell(rationale) || undefined,
+      };
+    })
+    .filter((g) => g.suggestion);
+  return gifts.length > 0 ? { kind: "gifts", gifts } : undefined;
+}
+
+// Every item has to name its price, e.g. "**Kite** – $18 (within budget): loves windy days"
+function giftsFromList(list: Extract<MdBlock, { type: "list" }>): TranscriptSegment | undefined {
+  const gifts: GiftSuggestion[] = [];
+  for (const item of list.items) {
+    const first = item[0];
+    if (item.length !== 1 || first?.type !== "paragraph") return undefined;
+    const gift = giftFromLine(first.children);
+    if (!gift) return undefined;
+    gifts.push(gift);
+  }
+  return gifts.length > 0 ? { kind: "gifts", gifts } : undefined;
+}
+
+function giftFromLine(children: MdInline[]): GiftSuggestion | undefined {
+  const text = inlineText(children).trim();
+  const price = parsePrice(text);
+  if (price === undefined) return undefined;
+
+  const lead = children[0];
+  let suggestion: string;
+  let rest: string;
+  if (lead?.type === "strong") {
+    suggestion = inlineText(lead.children).trim();
+    rest = text.slice(inlineText([lead]).length);
+  } else {
+    const split = /\s[-–—]\s|:\s|\s\(?\$/.exec(text);
+    if (!split) return undefined;
+    suggestion = text.slice(0, split.index).trim();
+    rest = text.slice(split.index);
+  }
+  if (!suggestion || suggestion.length > 120) return undefined;
+
+  const fit = /\(([^)]*budget[^)]*)\)|budget fit:?\s*([\w-]+)|\b((?:within|under|over|above)\s+budget|stretch)\b/i.exec(rest);
+  const rationale = rest
+    .replace(PRICE, "")
+    .replace(fit?.[0] ?? "", "")
+    .replace(/^[\s\-–—:,.()]+/, "")
+    .trim();
+  return {
+    suggestion,
+    price,
+    budgetFit: fit ? normalizeBudgetFit(fit[1] ?? fit[2] ?? fit[3]) : undefined,
+    rationale: rationale || undefined,
+  };
+}
+
+function logisticsStep(item: MdBlock[]): LogisticsStep {
+  const first = item[0];
+  const children = first?.type === "paragraph" ? first.children : [];
+  const text = item.map((b) => (b.type === "paragraph" ? inlineText(b.children) : "")).join(" ").trim();
+  const lead = children[0];
+  const feasible = /✅|\bfeasible\b|in stock|on track|on time/i.test(text) && !/infeasible|not feasible/i.test(text)
+    ? true
+    : /❌|⚠️|infeasible|not feasible|out of stock|delayed|too late|exceeds/i.test(text)
+      ? false
+      : undefined;
+  return { text, gift: lead?.type === "strong" ? inlineText(lead.children).trim() : undefined, feasible };
+}
+
+// The agents are asked for JSON; a fenced block of it can be a list of
+// recommendations, a recommendation set or a logistics assessment.
+function fromJson(text: string): TranscriptSegment | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (typeof value !== "object" || value === null) return undefined;
+  const record = value as Record<string, unknown>;
+
+  const list = Array.isArray(value) ? value : Array.isArray(record.recommendations) ? record.recommendations : undefined;
+  if (list) {
+    const gifts = list.flatMap((r): GiftSuggestion[] => {
+      if (typeof r !== "object" || r === null || typeof r.suggestion !== "string") return [];
+      return [{
+        suggestion: r.suggestion,
+        price: typeof r.price === "number" ? r.price : undefined,
+        budgetFit: typeof r.budgetFit === "string" ? r.budgetFit : undefined,
+        rationale: typeof r.rationale === "string" ? r.rationale : undefined,
+      }];
+    });
+    return gifts.length > 0 ? { kind: "gifts", gifts } : undefined;
+  }
+
+  if (Array.isArray(record.items) && typeof record.overallStatus === "string") {
+    return {
+      kind: "logistics",
+      title: "Logistics assessment",
+      status: record.overallStatus,
+      steps: record.items.map((item: any) => ({
+        text: typeof item?.reason === "string" ? item.reason : "",
+        gift: typeof item?.suggestion === "string" ? item.suggestion : undefined,
+        feasible: typeof item?.feasible === "boolean" ? item.feasible : undefined,
+      })),
+    };
+  }
+  return undefined;
+}
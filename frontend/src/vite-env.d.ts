@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_SIGNALR_URL?: string;
+  readonly VITE_SANTA_AGENT_ID?: string;
+  readonly VITE_ELF_AGENT_ID?: string;
+  readonly VITE_LOG_LEVEL?: "debug" | "info" | "warn" | "error";
+  readonly VITE_COPILOT_PUBLIC_API_KEY?: string;
+  readonly VITE_MOCK_API?: string;
+}
+
+interface Window {
+  // Injected by index.html; see config.ts for precedence
+  __API_BASE__?: string;
+  __SIGNALR_HUB__?: string;
+}
@@ -263,6 +263,7 @@ builder.Services.AddSingleton<IReportRepository, ReportRepository>();
 builder.Services.AddSingleton<IAvailabilityService, AvailabilityService>();
 builder.Services.AddSingleton<IChildRepository, ChildRepository>();
 builder.Services.AddSingleton<IChildProfileService, ChildProfileService>();
+builder.Services.AddScoped<IChildDirectoryService, ChildDirectoryService>();
 builder.Services.AddScoped<IElfRecommendationService, ElfRecommendationService>();
 builder.Services.AddScoped<ILogisticsAssessmentService, LogisticsAssessmentService>();
 builder.Services.AddSingleton<INotificationService, NotificationService>();
@@ -306,6 +307,8 @@ builder.Services.AddCors(o => o.AddPolicy("dev", p => p
     .WithOrigins(allowedOrigins.ToArray())
     .AllowAnyHeader()
     .AllowAnyMethod()
+    // Lets the dashboard read profile ETags for If-Match on edits
+    .WithExposedHeaders("ETag")
     .AllowCredentials()));
 
 var app = builder.Build();
@@ -675,6 +678,7 @@ var v1 = app.MapGroup("/api/v1");
 v1.MapJobsApi();
 v1.MapReportsApi();
 v1.MapChildrenApi();
+v1.MapWishlistApi();
 v1.MapAgUi();
 v1.MapElfAgentsApi();
 v1.MapEnhancedAgentApi();
@@ -754,6 +758,7 @@ v1.MapPost("children/{childId}/wishlist-items", async (string childId, HttpReque
 
     string? text = (string?)body["text"];
     string? category = (string?)body["category"];
+    string? notes = (string?)body["notes"];
     double? budgetEstimate = null;
     try
     { budgetEstimate = (double?)body["budgetEstimate"]; }
@@ -835,7 +840,7 @@ v1.MapPost("children/{childId}/wishlist-items", async (string childId, HttpReque
         else
         {
             // Regular wishlist item
-            var item = await wishlist.AddAsync(childId, text!, category, budgetEstimate, ct);
+            var item = await wishlist.AddAsync(childId, text!, category, budgetEstimate, notes, ct);
             itemId = item.Id;
             responseItem = new { Id = item.Id, ItemName = item.ItemName, Category = item.Category };
 
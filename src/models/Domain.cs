@@ -18,12 +18,86 @@ public record ChildProfile(
     string[]? Preferences,
     Constraints? Constraints,
     PrivacyFlags? PrivacyFlags,
-    NiceStatus Status = NiceStatus.Unknown  // Default to Unknown
+    NiceStatus Status = NiceStatus.Unknown,  // Default to Unknown
+    string? Location = null
 );
 
 public record Constraints(decimal? Budget);
 public record PrivacyFlags(bool OptOut);
 
+// Elf-edited profile fields; replaces what was guessed from IDs and wishlist hints
+public record ChildProfileEdit(
+    string? Name,
+    int? Age,
+    string? Location,
+    string[]? Preferences,
+    decimal? Budget
+)
+{
+    public const int MinAge = 0;
+    public const int MaxAge = 18;
+    public const decimal MaxBudget = 10_000m;
+    public const int MaxNameLength = 80;
+    public const int MaxLocationLength = 100;
+    public const int MaxPreferences = 20;
+    public const int MaxPreferenceLength = 40;
+
+    /// <summary>
+    /// Field name -> messages, shaped for Results.ValidationProblem. Empty when the edit is valid.
+    /// </summary>
+    public Dictionary<string, string[]> Validate()
+    {
+        var errors = new Dictionary<string, string[]>();
+        if (Name?.Trim().Length > MaxNameLength)
+            errors["name"] = [$"Name must be at most {MaxNameLength} characters."];
+        if (Age is < MinAge or > MaxAge)
+            errors["age"] = [$"Age must be between {MinAge} and {MaxAge}."];
+        if (Budget is < 0m or > MaxBudget)
+            errors["budget"] = [$"Budget must be between 0 and {MaxBudget}."];
+        if (Location is { } location && (location.Trim().Length > MaxLocationLength || location.Any(char.IsControl)))
+            errors["location"] = [$"Location must be at most {MaxLocationLength} characters of plain text."];
+
+        var preferenceErrors = new List<string>();
+        if (Preferences?.Length > MaxPreferences)
+            preferenceErrors.Add($"At most {MaxPreferences} preferences are allowed.");
+        if (Preferences?.Any(p => string.IsNullOrWhiteSpace(p) || p.Trim().Length > MaxPreferenceLength) == true)
+            preferenceErrors.Add($"Each preference must be 1-{MaxPreferenceLength} characters.");
+        if (preferenceErrors.Count > 0)
+            errors["preferences"] = preferenceErrors.ToArray();
+
+        return errors;
+    }
+}
+
+/// <summary>
+/// A gift recommendation an elf picked out of an agent's answer and saved for the child.
+/// </summary>
+public record SavedRecommendationRequest(
+    string? Suggestion,
+    string? Rationale,
+    decimal? Price,
+    string? BudgetFit
+)
+{
+    public const int MaxSuggestionLength = 200;
+    public const int MaxRationaleLength = 2_000;
+
+    /// <summary>
+    /// Field name -> messages, shaped for Results.ValidationProblem. Empty when the request is valid.
+    /// </summary>
+    public Dictionary<string, string[]> Validate()
+    {
+        var errors = new Dictionary<string, string[]>();
+        if (string.IsNullOrWhiteSpace(Suggestion) || Suggestion.Trim().Length > MaxSuggestionLength)
+            errors["suggestion"] = [$"Suggestion must be 1-{MaxSuggestionLength} characters."];
+        if (Rationale?.Length > MaxRationaleLength)
+            errors["rationale"] = [$"Rationale must be at most {MaxRationaleLength} characters."];
+        if (Price is < 0m or > ChildProfileEdit.MaxBudget)
+            errors["price"] = [$"Price must be between 0 and {ChildProfileEdit.MaxBudget}."];
+        return errors;
+    }
+}
+
 // Letter to the North Pole - replaces wishlist concept
 public record LetterToNorthPole(
     string Id,
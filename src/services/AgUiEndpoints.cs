@@ -11,25 +11,29 @@ namespace Services;
 
 public static class AgUiEndpoints
 {
-    // Active runs keyed by agentId to allow cancellation.
-    private static readonly ConcurrentDictionary<string, (string runId, CancellationTokenSource cts)> _activeRuns = new();
+    // Active runs keyed by runId, so cancelling one run never touches another run of the same agent
+    private static readonly ConcurrentDictionary<string, ActiveRun> _activeRuns = new();
+
+    // AG-UI clients send camelCase properties
+    private static readonly JsonSerializerOptions RequestJsonOptions = new(JsonSerializerDefaults.Web);
+
+    // Frontend tool calls waiting for the client to post their result, keyed by "{runId}:{toolCallId}", so each run only ever receives answers to its own calls
+    private static readonly ConcurrentDictionary<string, TaskCompletionSource<string>> _pendingToolResults = new();
+
+    // How long a frontend tool may take, including any confirmation the user is asked for
+    private static readonly TimeSpan FrontendToolTimeout = TimeSpan.FromMinutes(2);
 
     public static IEndpointRouteBuilder MapAgUi(this IEndpointRouteBuilder app)
     {
         app.MapPost("/agents/{agentId}/run", async (string agentId, HttpContext ctx, IDrasiViewClient drasiClient, IConfiguration config, IChildProfileService profileService, CancellationToken ct) =>
         {
             SseWriter.Prepare(ctx.Response);
-            var runId = Guid.NewGuid().ToString("n");
-            var threadId = Guid.NewGuid().ToString("n");
-            var messageId = Guid.NewGuid().ToString("n");
-            var cts = CancellationTokenSource.CreateLinkedTokenSource(ct);
-            _activeRuns[agentId] = (runId, cts);
 
             // Parse AG-UI request body (expected: { threadId, runId, messages, tools, context, forwardedProps })
             AgUiRunRequest? request = null;
             try
             {
-                request = await JsonSerializer.DeserializeAsync<AgUiRunRequest>(ctx.Request.Body, cancellationToken: ct);
+                request = await JsonSerializer.DeserializeAsync<AgUiRunRequest>(ctx.Request.Body, RequestJsonOptions, ct);
             }
             catch
             {
@@ -40,11 +44,32 @@ public static class AgUiEndpoints
             request ??= new AgUiRunRequest { Messages = new List<AgUiMessage>() };
             request.Messages ??= new List<AgUiMessage>();
 
+            // Echo the client's ids so every run of a conversation shares its thread
+            var runId = string.IsNullOrWhiteSpace(request.RunId) ? Guid.NewGuid().ToString("n") : request.RunId;
+            var threadId = string.IsNullOrWhiteSpace(request.ThreadId) ? Guid.NewGuid().ToString("n") : request.ThreadId;
+            var messageId = Guid.NewGuid().ToString("n");
+
             // Extract childId from agentId (format: "elf-agent-{childId}")
             var childId = agentId.StartsWith("elf-agent-") ? agentId["elf-agent-".Length..] : "unknown";
+            // Shared-state runs (e.g. the child detail page's task force) name the child in RunAgentInput.state
+            if (childId == "unknown"
+                && request.State is { ValueKind: JsonValueKind.Object } requestState
+                && requestState.TryGetProperty("childId", out var stateChildId)
+                && stateChildId.ValueKind == JsonValueKind.String)
+            {
+                childId = stateChildId.GetString() ?? childId;
+            }
+
+            // Tools declared in RunAgentInput.tools run in the browser; calls to them stream out and wait for a result
+            var streamedToolCalls = new ConcurrentDictionary<string, bool>();
+            var frontendTools = (request.Tools ?? new List<AgUiTool>())
+                .Where(t => !string.IsNullOrWhiteSpace(t.Name))
+                .Select(t => (AITool)new FrontendToolFunction(runId, t, ctx.Response, messageId, streamedToolCalls))
+                .ToList();
 
-            // Create agent based on agentId
-            var agent = await CreateAgentForIdAsync(agentId, ctx.RequestServices);
+            // Create agent based on agentId; task force elves stream each turn as an AG-UI step
+            var steps = new SseTaskforceSteps(ctx.Response, streamedToolCalls);
+            var agent = await CreateAgentForIdAsync(agentId, ctx.RequestServices, frontendTools, steps);
             if (agent == null)
             {
                 ctx.Response.StatusCode = StatusCodes.Status400BadRequest;
@@ -52,6 +77,16 @@ public static class AgUiEndpoints
                 return;
             }
 
+            var cts = CancellationTokenSource.CreateLinkedTokenSource(ct);
+            var activeRun = new ActiveRun(agentId, threadId, cts);
+            if (!_activeRuns.TryAdd(runId, activeRun))
+            {
+                cts.Dispose();
+                ctx.Response.StatusCode = StatusCodes.Status409Conflict;
+                await ctx.Response.WriteAsJsonAsync(new { error = $"Run {runId} is already in progress" }, ct);
+                return;
+            }
+
             try
             {
                 // RUN_STARTED (include minimal input for schema compatibility)
@@ -65,35 +100,43 @@ public static class AgUiEndpoints
                         threadId,
                         runId,
                         messages = request.Messages ?? new List<AgUiMessage>(),
-                        tools = Array.Empty<object>(),
+                        tools = request.Tools ?? new List<AgUiTool>(),
+                        state = request.State,
                         context = Array.Empty<object>(),
                         forwardedProps = new { }
                     }
                 }, cts.Token);
 
+                // Shared state: the agent starts from what the client sent, including the user's edits
+                if (request.State is { ValueKind: JsonValueKind.Object } sharedState)
+                {
+                    await Send(ctx.Response, new { type = "STATE_SNAPSHOT", snapshot = sharedState }, cts.Token);
+                }
+
                 // Build chat history from AG-UI messages
                 // Microsoft Agent Framework AIAgent.RunAsync accepts string prompt, not ChatMessage list
-                // We'll extract the last user message as the prompt
-
-                // TEXT_MESSAGE_START
-                await Send(ctx.Response, new { type = "TEXT_MESSAGE_START", messageId, role = "assistant" }, cts.Token);
+                // We'll extract the last user message as the prompt and replay earlier turns as text
+                // TEXT_MESSAGE_START is sent once the agent answers, as frontend tool calls may stream before it
 
                 // Extract base prompt from messages
                 var basePrompt = "Provide recommendations for the focused child.";
-                if (request.Messages?.Count > 0)
+                var history = request.Messages;
+                var lastUserIndex = request.Messages.FindLastIndex(m => m.Role?.ToLowerInvariant() == "user");
+                if (lastUserIndex >= 0)
                 {
-                    var lastUserMsg = request.Messages.LastOrDefault(m => m.Role?.ToLowerInvariant() == "user");
-                    if (lastUserMsg?.Content is not null && lastUserMsg.Content.Length > 0)
+                    var lastUserMsg = request.Messages[lastUserIndex];
+                    if (lastUserMsg.Content is not null && lastUserMsg.Content.Length > 0)
                     {
                         basePrompt = lastUserMsg.Content;
                     }
+                    history = request.Messages.Take(lastUserIndex).ToList();
                 }
 
                 // Extract Drasi context from request (sent by frontend)
                 var drasiContext = await ExtractDrasiContextAsync(request.Context, childId, profileService, drasiClient, config, ct);
 
                 // Build enriched prompt with Drasi real-time insights
-                var prompt = BuildEnrichedPrompt(basePrompt, childId, drasiContext);
+                var prompt = BuildEnrichedPrompt(basePrompt, childId, drasiContext, BuildConversationHistory(history), BuildSharedStateSection(request.State));
 
                 // Log the prompt for debugging
                 var logger = ctx.RequestServices.GetRequiredService<ILogger<Program>>();
@@ -102,6 +145,8 @@ public static class AgUiEndpoints
                 logger.LogDebug("[AgUI] Prompt preview: {Prompt}", prompt.Length > 200 ? prompt.Substring(0, 200) + "..." : prompt);
 
                 // Invoke AIAgent with streaming via RunAsync
+                // THINKING_START/END bracket the call so the UI shows the agent thinking while it reasons
+                await Send(ctx.Response, new { type = "THINKING_START", title = "Thinking" }, cts.Token);
                 AgentRunResponse? run = null;
                 try
                 {
@@ -112,25 +157,29 @@ public static class AgUiEndpoints
                 catch (Azure.RequestFailedException azEx)
                 {
                     logger.LogError(azEx, "[AgUI] Azure OpenAI request failed: {Message}, Status: {Status}", azEx.Message, azEx.Status);
-                    await Send(ctx.Response, new { type = "TEXT_MESSAGE_CONTENT", messageId, delta = $"❌ Azure OpenAI Error ({azEx.Status}): {azEx.Message}" }, cts.Token);
-                    await Send(ctx.Response, new { type = "TEXT_MESSAGE_END", messageId }, cts.Token);
-                    await Send(ctx.Response, new { type = "RUN_FINISHED", threadId, runId, result = new { status = "failed", error = azEx.Message } }, cts.Token);
+                    await Send(ctx.Response, new { type = "THINKING_END" }, cts.Token);
+                    await Send(ctx.Response, new { type = "RUN_ERROR", message = $"Azure OpenAI Error ({azEx.Status}): {azEx.Message}", code = azEx.ErrorCode ?? "azure_openai_error" }, cts.Token);
                     return;
                 }
                 catch (Exception ex) when (ex is not OperationCanceledException)
                 {
                     logger.LogError(ex, "[AgUI] Agent execution failed: {Message}", ex.Message);
-                    await Send(ctx.Response, new { type = "TEXT_MESSAGE_CONTENT", messageId, delta = $"❌ Agent Error: {ex.Message}" }, cts.Token);
-                    await Send(ctx.Response, new { type = "TEXT_MESSAGE_END", messageId }, cts.Token);
-                    await Send(ctx.Response, new { type = "RUN_FINISHED", threadId, runId, result = new { status = "failed", error = ex.Message } }, cts.Token);
+                    await Send(ctx.Response, new { type = "THINKING_END" }, cts.Token);
+                    await Send(ctx.Response, new { type = "RUN_ERROR", message = $"Agent Error: {ex.Message}", code = "agent_error" }, cts.Token);
                     return;
                 }
 
+                await SendReasoningAsync(ctx.Response, run, cts.Token);
+                await Send(ctx.Response, new { type = "THINKING_END" }, cts.Token);
+
                 // Extract text response from agent
                 // Microsoft.Agents.AI.AgentRunResponse has a ToString() method that returns the response content
                 var responseText = run?.ToString() ?? "";
                 logger.LogInformation("[AgUI] Agent {AgentId} response length: {ResponseLength} chars", agentId, responseText.Length);
 
+                // TEXT_MESSAGE_START
+                await Send(ctx.Response, new { type = "TEXT_MESSAGE_START", messageId, role = "assistant" }, cts.Token);
+
                 if (!string.IsNullOrWhiteSpace(responseText))
                 {
                     await Send(ctx.Response, new { type = "TEXT_MESSAGE_CONTENT", messageId, delta = responseText }, cts.Token);
@@ -145,6 +194,9 @@ public static class AgUiEndpoints
                 // TEXT_MESSAGE_END
                 await Send(ctx.Response, new { type = "TEXT_MESSAGE_END", messageId }, cts.Token);
 
+                // Tool calls made while answering, replayed after the message so the UI can render them as cards
+                await SendToolCallsAsync(ctx.Response, run, messageId, streamedToolCalls, cts.Token);
+
                 // RUN_FINISHED
                 await Send(ctx.Response, new { type = "RUN_FINISHED", threadId, runId, result = new { status = "succeeded" } }, cts.Token);
             }
@@ -167,11 +219,12 @@ public static class AgUiEndpoints
                 {
                     SseWriter.Prepare(ctx.Response);
                 }
-                await Send(ctx.Response, new { type = "ERROR", runId, error = ex.Message, details = ex.ToString() }, CancellationToken.None);
+                await Send(ctx.Response, new { type = "RUN_ERROR", message = ex.Message, code = "unhandled_error" }, CancellationToken.None);
             }
             finally
             {
-                _activeRuns.TryRemove(agentId, out _);
+                _activeRuns.TryRemove(new KeyValuePair<string, ActiveRun>(runId, activeRun));
+                cts.Dispose();
             }
         })
         .WithTags("Frontend", "AgUI");
@@ -187,15 +240,57 @@ public static class AgUiEndpoints
         })
         .WithTags("Debug", "AgUI");
 
-        app.MapDelete("/agents/{agentId}/cancel", (string agentId) =>
+        // Result of a frontend tool call, posted by the client while the run that made the call waits for it
+        app.MapPost("/agents/{agentId}/runs/{runId}/tool-results/{toolCallId}", async (string agentId, string runId, string toolCallId, HttpContext ctx, CancellationToken ct) =>
         {
-            if (_activeRuns.TryRemove(agentId, out var tuple))
+            AgUiToolResult? body = null;
+            try
             {
-                tuple.cts.Cancel();
+                body = await JsonSerializer.DeserializeAsync<AgUiToolResult>(ctx.Request.Body, RequestJsonOptions, ct);
             }
+            catch (JsonException)
+            {
+                // Reported as a validation problem below
+            }
+
+            if (body?.Content is null)
+            {
+                return Results.ValidationProblem(new Dictionary<string, string[]> { ["content"] = ["content is required."] });
+            }
+            if (!_activeRuns.TryGetValue(runId, out var run) || run.AgentId != agentId
+                || !_pendingToolResults.TryRemove(PendingToolKey(runId, toolCallId), out var pending))
+            {
+                return Results.Problem(statusCode: StatusCodes.Status404NotFound, title: "No pending tool call",
+                    detail: $"Run {runId} of {agentId} is not waiting for tool call {toolCallId}; it may have finished, timed out or been cancelled.");
+            }
+
+            pending.TrySetResult(body.Content);
             return Results.NoContent();
         })
-        .WithTags("Debug", "AgUI");
+        .WithTags("Frontend", "AgUI");
+
+        // Cancel one run. The run's own stream confirms with RUN_FINISHED (status "cancelled");
+        // 404 when the run already ended, so the client can stop waiting for that confirmation
+        app.MapDelete("/agents/{agentId}/runs/{runId}", (string agentId, string runId, string? threadId) =>
+        {
+            if (!_activeRuns.TryGetValue(runId, out var run) || run.AgentId != agentId
+                || (threadId is not null && run.ThreadId != threadId))
+            {
+                return Results.Problem(statusCode: StatusCodes.Status404NotFound, title: "No active run",
+                    detail: $"{agentId} has no active run {runId}; it may have finished already.");
+            }
+
+            try
+            {
+                run.Cancellation.Cancel();
+            }
+            catch (ObjectDisposedException)
+            {
+                // The run ended between the lookup and the cancel
+            }
+            return Results.Accepted();
+        })
+        .WithTags("Frontend", "AgUI");
 
         return app;
     }
@@ -207,13 +302,159 @@ public static class AgUiEndpoints
     }
 
     /// <summary>
-    /// Create appropriate AIAgent based on agentId
+    /// Emit TOOL_CALL_START/ARGS/END for each function the agent called and TOOL_CALL_RESULT for
+    /// each result. A failed tool reports its error as a JSON { error } result.
+    /// </summary>
+    private static async Task SendToolCallsAsync(HttpResponse response, AgentRunResponse? run, string parentMessageId, ConcurrentDictionary<string, bool> alreadyStreamed, CancellationToken ct)
+    {
+        if (run is null) return;
+        foreach (var content in run.Messages.SelectMany(m => m.Contents))
+        {
+            switch (content)
+            {
+                // Frontend tool calls were streamed while the agent waited for them
+                case FunctionCallContent call when alreadyStreamed.ContainsKey(call.CallId):
+                case FunctionResultContent done when alreadyStreamed.ContainsKey(done.CallId):
+                    break;
+                case FunctionCallContent call:
+                    await Send(response, new { type = "TOOL_CALL_START", toolCallId = call.CallId, toolCallName = call.Name, parentMessageId }, ct);
+                    await Send(response, new { type = "TOOL_CALL_ARGS", toolCallId = call.CallId, delta = JsonSerializer.Serialize(call.Arguments ?? new Dictionary<string, object?>()) }, ct);
+                    await Send(response, new { type = "TOOL_CALL_END", toolCallId = call.CallId }, ct);
+                    break;
+                case FunctionResultContent result:
+                    var resultJson = result.Exception is not null
+                        ? JsonSerializer.Serialize(new { error = result.Exception.Message })
+                        : result.Result as string ?? JsonSerializer.Serialize(result.Result);
+                    await Send(response, new { type = "TOOL_CALL_RESULT", messageId = Guid.NewGuid().ToString("n"), toolCallId = result.CallId, content = resultJson, role = "tool" }, ct);
+                    break;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Emit the agent's reasoning, if the model returned any, as one THINKING_TEXT_MESSAGE.
+    /// Must be sent between THINKING_START and THINKING_END.
+    /// </summary>
+    private static async Task SendReasoningAsync(HttpResponse response, AgentRunResponse? run, CancellationToken ct)
+    {
+        if (run is null) return;
+        var reasoning = string.Concat(run.Messages.SelectMany(m => m.Contents).OfType<TextReasoningContent>().Select(r => r.Text));
+        if (string.IsNullOrWhiteSpace(reasoning)) return;
+        await Send(response, new { type = "THINKING_TEXT_MESSAGE_START" }, ct);
+        await Send(response, new { type = "THINKING_TEXT_MESSAGE_CONTENT", delta = reasoning }, ct);
+        await Send(response, new { type = "THINKING_TEXT_MESSAGE_END" }, ct);
+    }
+
+    private static string PendingToolKey(string runId, string toolCallId) => $"{runId}:{toolCallId}";
+
+    /// <summary>
+    /// A tool declared by the client in RunAgentInput.tools. Invoking it streams TOOL_CALL_START/ARGS/END
+    /// to the client, waits for the client to post the result to the run's /tool-results and streams TOOL_CALL_RESULT.
+    /// </summary>
+    private sealed class FrontendToolFunction : AIFunction
+    {
+        private static readonly JsonElement EmptyParameters = JsonSerializer.SerializeToElement(new { type = "object", properties = new { } });
+
+        private readonly string _runId;
+        private readonly AgUiTool _tool;
+        private readonly HttpResponse _response;
+        private readonly string _parentMessageId;
+        private readonly ConcurrentDictionary<string, bool> _streamed;
+
+        public FrontendToolFunction(string runId, AgUiTool tool, HttpResponse response, string parentMessageId, ConcurrentDictionary<string, bool> streamed)
+        {
+            _runId = runId;
+            _tool = tool;
+            _response = response;
+            _parentMessageId = parentMessageId;
+            _streamed = streamed;
+        }
+
+        public override string Name => _tool.Name!;
+        public override string Description => _tool.Description ?? string.Empty;
+        public override JsonElement JsonSchema => _tool.Parameters is { ValueKind: JsonValueKind.Object } parameters ? parameters : EmptyParameters;
+
+        protected override async ValueTask<object?> InvokeCoreAsync(AIFunctionArguments arguments, CancellationToken cancellationToken)
+        {
+            // Reuse the model's call id so the client's tool message answers the call it saw
+            var toolCallId = FunctionInvokingChatClient.CurrentContext?.CallContent.CallId ?? Guid.NewGuid().ToString("n");
+            var key = PendingToolKey(_runId, toolCallId);
+            var pending = new TaskCompletionSource<string>(TaskCreationOptions.RunContinuationsAsynchronously);
+            _pendingToolResults[key] = pending;
+            _streamed[toolCallId] = true;
+            try
+            {
+                await Send(_response, new { type = "TOOL_CALL_START", toolCallId, toolCallName = Name, parentMessageId = _parentMessageId }, cancellationToken);
+                await Send(_response, new { type = "TOOL_CALL_ARGS", toolCallId, delta = JsonSerializer.Serialize(new Dictionary<string, object?>(arguments)) }, cancellationToken);
+                await Send(_response, new { type = "TOOL_CALL_END", toolCallId }, cancellationToken);
+
+                string result;
+                try
+                {
+                    result = await pending.Task.WaitAsync(FrontendToolTimeout, cancellationToken);
+                }
+                catch (TimeoutException)
+                {
+                    result = JsonSerializer.Serialize(new { error = $"The dashboard did not answer within {FrontendToolTimeout.TotalSeconds:0} seconds." });
+                }
+
+                await Send(_response, new { type = "TOOL_CALL_RESULT", messageId = Guid.NewGuid().ToString("n"), toolCallId, content = result, role = "tool" }, cancellationToken);
+                return result;
+            }
+            finally
+            {
+                _pendingToolResults.TryRemove(key, out _);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Streams each task force elf's turn as STEP_STARTED, its message and tool calls, then STEP_FINISHED
+    /// </summary>
+    private sealed class SseTaskforceSteps : ITaskforceStepObserver
+    {
+        private readonly HttpResponse _response;
+        private readonly ConcurrentDictionary<string, bool> _streamed;
+
+        public SseTaskforceSteps(HttpResponse response, ConcurrentDictionary<string, bool> streamed)
+        {
+            _response = response;
+            _streamed = streamed;
+        }
+
+        public Task StepStartedAsync(string stepName, CancellationToken ct) =>
+            Send(_response, new { type = "STEP_STARTED", stepName }, ct);
+
+        public async Task StepFinishedAsync(string stepName, AgentRunResponse response, CancellationToken ct)
+        {
+            var messageId = Guid.NewGuid().ToString("n");
+            var text = response.ToString();
+            await Send(_response, new { type = "TEXT_MESSAGE_START", messageId, role = "assistant" }, ct);
+            if (!string.IsNullOrWhiteSpace(text))
+            {
+                await Send(_response, new { type = "TEXT_MESSAGE_CONTENT", messageId, delta = text }, ct);
+            }
+            await Send(_response, new { type = "TEXT_MESSAGE_END", messageId }, ct);
+            await SendToolCallsAsync(_response, response, messageId, _streamed, ct);
+            await Send(_response, new { type = "STEP_FINISHED", stepName }, ct);
+        }
+    }
+
+    /// <summary>
+    /// Create appropriate AIAgent based on agentId, with the client's frontend tools next to the server's data tools
     /// </summary>
-    private static Task<AIAgent?> CreateAgentForIdAsync(string agentId, IServiceProvider services)
+    private static Task<AIAgent?> CreateAgentForIdAsync(string agentId, IServiceProvider services, IEnumerable<AITool> clientTools, ITaskforceStepObserver steps)
     {
         // Normalize agentId - strip "elf-agent-" prefix if present
         var normalizedId = agentId.StartsWith("elf-agent-") ? "elf" : agentId;
 
+        // The task force is the multi-agent orchestrator's elves taking turns
+        if (normalizedId == "taskforce")
+        {
+            var orchestrator = services.GetRequiredService<IMultiAgentOrchestrator>();
+            return Task.FromResult<AIAgent?>(orchestrator.CreateTaskforceAgent(clientTools, steps));
+        }
+
         // Get Azure OpenAI configuration
         var config = services.GetRequiredService<IConfiguration>();
         var endpoint = ConfigurationHelper.GetRequiredValue(
@@ -228,16 +469,36 @@ public static class AgUiEndpoints
         var azureClient = new Azure.AI.OpenAI.AzureOpenAIClient(new Uri(endpoint), new Azure.Identity.DefaultAzureCredential());
         var chatClient = azureClient.GetChatClient(deploymentName).AsIChatClient();
 
+        // Same read-only data tools as the multi-agent orchestrator; their calls stream back as TOOL_CALL events
+        var toolLibrary = services.GetRequiredService<AgentToolLibrary>();
+        IList<AITool> tools = new List<AITool>
+        {
+            AIFunctionFactory.Create(toolLibrary.GetChildWishlistItems),
+            AIFunctionFactory.Create(toolLibrary.GetChildBehaviorHistory),
+            AIFunctionFactory.Create(toolLibrary.CheckBudgetConstraints),
+            AIFunctionFactory.Create(toolLibrary.QueryTrendingWishlistItems),
+            AIFunctionFactory.Create(toolLibrary.FindChildrenWithDuplicateWishlists),
+            AIFunctionFactory.Create(toolLibrary.FindInactiveChildren),
+            AIFunctionFactory.Create(toolLibrary.QueryGlobalWishlistDuplicates),
+            AIFunctionFactory.Create(toolLibrary.QueryBehaviorStatusChanges)
+        };
+        foreach (var tool in clientTools)
+        {
+            tools.Add(tool);
+        }
+
         // Create agent with appropriate system prompt
         return Task.FromResult<AIAgent?>(normalizedId switch
         {
             "elf" => chatClient.CreateAIAgent(
                 name: "ElfRecommendationAgent",
-                instructions: ElfAgentPrompts.ElfRecommendationAgentSystemPrompt),
+                instructions: ElfAgentPrompts.ElfRecommendationAgentSystemPrompt,
+                tools: tools),
 
             "santa" => chatClient.CreateAIAgent(
                 name: "SantaAnalysisAgent",
-                instructions: SantaAgentSystemPrompt),
+                instructions: SantaAgentSystemPrompt,
+                tools: tools),
 
             _ => null
         });
@@ -287,10 +548,24 @@ Style: Strategic and data-driven, with specific numbers and clear recommendation
                     var node = JsonSerializer.Deserialize<JsonElement>(json);
 
                     if (node.TryGetProperty("type", out var typeNode) &&
-                        typeNode.GetString() == "drasi-insights" &&
-                        node.TryGetProperty("data", out var dataNode))
+                        typeNode.GetString() == "drasi-insights")
                     {
-                        sections.Add(FormatDrasiInsights(dataNode));
+                        // The block the elf previewed in the context composer, in the
+                        // format and with the limits they picked; older clients only send data
+                        if (node.TryGetProperty("text", out var textNode) &&
+                            textNode.ValueKind == JsonValueKind.String &&
+                            !string.IsNullOrWhiteSpace(textNode.GetString()))
+                        {
+                            sections.Add(textNode.GetString()!);
+                        }
+                        else if (node.TryGetProperty("data", out var dataNode))
+                        {
+                            sections.Add(FormatDrasiInsights(dataNode));
+                        }
+                        else
+                        {
+                            continue;
+                        }
                         hasDrasiContext = true;
                         break;
                     }
@@ -518,11 +793,68 @@ Style: Strategic and data-driven, with specific numbers and clear recommendation
         return string.Join("\n", lines);
     }
 
+    /// <summary>
+    /// Earlier turns of the thread as a transcript, newest last. Only the most recent
+    /// messages are kept and long ones are cut so a long thread cannot crowd out the request.
+    /// </summary>
+    private static string BuildConversationHistory(IReadOnlyList<AgUiMessage> messages)
+    {
+        const int maxMessages = 20;
+        const int maxMessageLength = 2000;
+        var lines = messages
+            .Where(m => !string.IsNullOrWhiteSpace(m.Content) && m.Role?.ToLowerInvariant() is "user" or "assistant" or "tool")
+            .TakeLast(maxMessages)
+            .Select(m =>
+            {
+                var content = m.Content!.Trim();
+                if (content.Length > maxMessageLength)
+                    content = content[..maxMessageLength] + "…";
+                var speaker = m.Role!.ToLowerInvariant() switch
+                {
+                    "user" => "USER",
+                    "assistant" => "ASSISTANT",
+                    _ => $"TOOL RESULT ({m.ToolCallId ?? "unknown"})",
+                };
+                return $"{speaker}: {content}";
+            });
+        return string.Join("\n\n", lines);
+    }
+
+    private static string BuildSharedStateSection(JsonElement? state)
+    {
+        if (state is not { ValueKind: JsonValueKind.Object } value || !value.EnumerateObject().Any())
+        {
+            return "";
+        }
+        return JsonSerializer.Serialize(value, new JsonSerializerOptions { WriteIndented = true });
+    }
+
     /// <summary>
     /// Build enriched prompt with Drasi context and user request
     /// </summary>
-    private static string BuildEnrichedPrompt(string basePrompt, string childId, string drasiContext)
+    private static string BuildEnrichedPrompt(string basePrompt, string childId, string drasiContext, string conversationHistory = "", string sharedState = "")
     {
+        // Earlier turns of the same thread, so follow-up questions keep their context
+        var history = string.IsNullOrWhiteSpace(conversationHistory)
+            ? ""
+            : $"""
+CONVERSATION SO FAR:
+{conversationHistory}
+
+
+""";
+
+        // Shared state from earlier runs; the user may have edited the recommendations since, and their edits win
+        if (!string.IsNullOrWhiteSpace(sharedState))
+        {
+            history += $"""
+SHARED STATE (may include the user's edits; keep them unless asked otherwise):
+{sharedState}
+
+
+""";
+        }
+
         if (string.IsNullOrWhiteSpace(drasiContext))
         {
             // No Drasi context available - use base prompt with child context
@@ -531,7 +863,7 @@ You are Santa's Chief Elf providing gift recommendations.
 
 CHILD: {childId}
 
-USER REQUEST:
+{history}USER REQUEST:
 {basePrompt}
 
 Please provide thoughtful recommendations based on the request.
@@ -546,7 +878,7 @@ You are Santa's Chief Elf analyzing real-time workshop data powered by Drasi Eve
 
 FOCUSED CHILD: {childId}
 
-USER REQUEST:
+{history}USER REQUEST:
 {basePrompt}
 
 INSTRUCTIONS:
@@ -563,20 +895,39 @@ Please provide recommendations based on both the live Drasi insights and the use
 """;
     }
 
+    private sealed record ActiveRun(string AgentId, string ThreadId, CancellationTokenSource Cancellation);
+
     // AG-UI request body schema
     private class AgUiRunRequest
     {
         public string? ThreadId { get; set; }
         public string? RunId { get; set; }
         public List<AgUiMessage>? Messages { get; set; }
-        public List<object>? Tools { get; set; }
+        public List<AgUiTool>? Tools { get; set; }
+        public JsonElement? State { get; set; }
         public List<object>? Context { get; set; }
         public object? ForwardedProps { get; set; }
     }
 
     private class AgUiMessage
     {
+        public string? Id { get; set; }
         public string? Role { get; set; }
         public string? Content { get; set; }
+        // Set on role "tool": the call this message answers
+        public string? ToolCallId { get; set; }
+    }
+
+    // A frontend tool from RunAgentInput.tools; Parameters is its JSON Schema
+    private class AgUiTool
+    {
+        public string? Name { get; set; }
+        public string? Description { get; set; }
+        public JsonElement? Parameters { get; set; }
+    }
+
+    private class AgUiToolResult
+    {
+        public string? Content { get; set; }
     }
 }
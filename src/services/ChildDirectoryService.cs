@@ -0,0 +1,254 @@
+using System.Text.Json;
+using System.Text.Json.Nodes;
+using Drasicrhsit.Infrastructure;
+using Microsoft.Extensions.Logging;
+using Models;
+
+namespace Services;
+
+/// <summary>
+/// One row of the children directory: profile fields plus wishlist activity from Drasi.
+/// </summary>
+public record ChildSummary(
+    string ChildId,
+    string? Name,
+    int? Age,
+    string? Location,
+    decimal? Budget,
+    NiceStatus Status,
+    int WishlistCount,
+    DateTime? LastActivity);
+
+public record ChildDirectoryQuery(
+    string? Search = null,
+    NiceStatus? Status = null,
+    int? InactiveDays = null,
+    string Sort = "name",
+    bool Descending = false,
+    string? Cursor = null,
+    int Limit = 25);
+
+public record ChildDirectoryPage(IReadOnlyList<ChildSummary> Items, int Total, string? NextCursor);
+
+public interface IChildDirectoryService
+{
+    /// <summary>
+    /// Searches, filters and sorts known children, returning one page and an opaque cursor for the next.
+    /// </summary>
+    /// <exception cref="ArgumentException">Unknown sort field, or a cursor issued for a different sort.</exception>
+    Task<ChildDirectoryPage> SearchAsync(ChildDirectoryQuery query, CancellationToken ct = default);
+}
+
+/// <summary>
+/// Builds the directory from registered children, cached profiles and the
+/// wishlist-updates, wishlist-inactive-children-3d and behavior-status-changes Drasi queries.
+/// </summary>
+public class ChildDirectoryService : IChildDirectoryService
+{
+    public const int MaxLimit = 100;
+
+    public static readonly IReadOnlyList<string> SortFields =
+        ["name", "age", "location", "budget", "status", "wishlistCount", "lastActivity"];
+
+    private readonly IChildRepository _children;
+    private readonly IChildProfileService _profiles;
+    private readonly IDrasiViewClient _drasiClient;
+    private readonly IConfiguration _config;
+    private readonly ILogger<ChildDirectoryService> _logger;
+
+    public ChildDirectoryService(
+        IChildRepository children,
+        IChildProfileService profiles,
+        IDrasiViewClient drasiClient,
+        IConfiguration config,
+        ILogger<ChildDirectoryService> logger)
+    {
+        _children = children;
+        _profiles = profiles;
+        _drasiClient = drasiClient;
+        _config = config;
+        _logger = logger;
+    }
+
+    public async Task<ChildDirectoryPage> SearchAsync(ChildDirectoryQuery query, CancellationToken ct = default)
+    {
+        var sort = SortFields.FirstOrDefault(f => f.Equals(query.Sort, StringComparison.OrdinalIgnoreCase))
+            ?? throw new ArgumentException($"Unknown sort field '{query.Sort}'. Use one of: {string.Join(", ", SortFields)}.");
+        var cursor = query.Cursor is null ? null : DirectoryCursor.Decode(query.Cursor);
+        if (cursor is not null && (cursor.Sort != sort || cursor.Descending != query.Descending))
+            throw new ArgumentException("Cursor was issued for a different sort order.");
+
+        var rows = await LoadAsync(ct);
+        var now = DateTime.UtcNow;
+        IEnumerable<ChildSummary> filtered = rows;
+
+        if (!string.IsNullOrWhiteSpace(query.Search))
+        {
+            var term = query.Search.Trim();
+            filtered = filtered.Where(r =>
+                r.ChildId.Contains(term, StringComparison.OrdinalIgnoreCase) ||
+                (r.Name?.Contains(term, StringComparison.OrdinalIgnoreCase) ?? false) ||
+                (r.Location?.Contains(term, StringComparison.OrdinalIgnoreCase) ?? false));
+        }
+        if (query.Status is { } status)
+            filtered = filtered.Where(r => r.Status == status);
+        if (query.InactiveDays is { } days)
+            filtered = filtered.Where(r => r.LastActivity is null || (now - r.LastActivity.Value).TotalDays >= days);
+
+        var ordered = Order(filtered, sort, query.Descending).ToList();
+
+        // Resume after the cursor's child; fall back to its offset if that child has since dropped out
+        var start = 0;
+        if (cursor is not null)
+        {
+            var index = ordered.FindIndex(r => r.ChildId.Equals(cursor.After, StringComparison.OrdinalIgnoreCase));
+            start = index >= 0 ? index + 1 : Math.Min(cursor.Offset, ordered.Count);
+        }
+
+        var limit = Math.Clamp(query.Limit, 1, MaxLimit);
+        var page = ordered.Skip(start).Take(limit).ToList();
+        var end = start + page.Count;
+        string? next = end < ordered.Count
+            ? new DirectoryCursor(sort, query.Descending, page[^1].ChildId, end).Encode()
+            : null;
+
+        return new ChildDirectoryPage(page, ordered.Count, next);
+    }
+
+    private async Task<List<ChildSummary>> LoadAsync(CancellationToken ct)
+    {
+        var profiles = (await _profiles.ListProfilesAsync(ct))
+            .ToDictionary(p => p.Id, StringComparer.OrdinalIgnoreCase);
+        var ids = new HashSet<string>(profiles.Keys, StringComparer.OrdinalIgnoreCase);
+        ids.UnionWith(await _children.ListAsync(ct));
+
+        var wishlistCounts = new Dictionary<string, int>(StringComparer.OrdinalIgnoreCase);
+        var lastActivity = new Dictionary<string, DateTime>(StringComparer.OrdinalIgnoreCase);
+        var queryContainer = ConfigurationHelper.GetValue(_config, "Drasi:QueryContainer", "DRASI_QUERY_CONTAINER", "default");
+
+        foreach (var row in await TryQueryAsync(queryContainer, "wishlist-updates", ct))
+        {
+            var childId = row["childId"]?.ToString();
+            if (string.IsNullOrEmpty(childId)) continue;
+            ids.Add(childId);
+            if (!(row["type"]?.ToString() ?? "").Contains("behavior", StringComparison.OrdinalIgnoreCase))
+                wishlistCounts[childId] = wishlistCounts.GetValueOrDefault(childId) + 1;
+            Touch(lastActivity, childId, ParseDate(row["lastChanged"]) ?? ParseDate(row["createdAt"]));
+        }
+        foreach (var row in await TryQueryAsync(queryContainer, "wishlist-inactive-children-3d", ct))
+        {
+            var childId = row["childId"]?.ToString();
+            if (string.IsNullOrEmpty(childId)) continue;
+            ids.Add(childId);
+            Touch(lastActivity, childId, ParseDate(row["lastEvent"]));
+        }
+
+        // Latest Drasi behavior change, for children whose profile has no status yet
+        var drasiStatus = (await TryQueryAsync(queryContainer, "behavior-status-changes", ct))
+            .Where(row => !string.IsNullOrEmpty(row["childId"]?.ToString()))
+            .GroupBy(row => row["childId"]!.ToString(), StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(
+                g => g.Key,
+                g => Enum.TryParse<NiceStatus>(g.OrderByDescending(row => row["changedAt"]?.ToString() ?? "").First()["newStatus"]?.ToString(), true, out var parsed)
+                    ? parsed
+                    : NiceStatus.Unknown,
+                StringComparer.OrdinalIgnoreCase);
+
+        return ids.Select(id =>
+        {
+            profiles.TryGetValue(id, out var profile);
+            var status = profile?.Status ?? NiceStatus.Unknown;
+            if (status == NiceStatus.Unknown)
+                status = drasiStatus.GetValueOrDefault(id, NiceStatus.Unknown);
+            return new ChildSummary(
+                ChildId: id,
+                Name: profile?.Name,
+                Age: profile?.Age,
+                Location: profile?.Location,
+                Budget: profile?.Constraints?.Budget,
+                Status: status,
+                WishlistCount: wishlistCounts.GetValueOrDefault(id),
+                LastActivity: lastActivity.TryGetValue(id, out var at) ? at : null);
+        }).ToList();
+    }
+
+    private async Task<List<JsonNode>> TryQueryAsync(string queryContainer, string queryId, CancellationToken ct)
+    {
+        try
+        {
+            return await _drasiClient.GetCurrentResultAsync(queryContainer, queryId, ct);
+        }
+        catch (Exception ex)
+        {
+            // The directory still lists registered children when Drasi is unavailable
+            _logger.LogWarning(ex, "Children directory could not read Drasi query {QueryId}", queryId);
+            return [];
+        }
+    }
+
+    private static void Touch(Dictionary<string, DateTime> lastActivity, string childId, DateTime? at)
+    {
+        if (at is { } value && (!lastActivity.TryGetValue(childId, out var current) || value > current))
+            lastActivity[childId] = value;
+    }
+
+    private static DateTime? ParseDate(JsonNode? node)
+    {
+        if (node is null) return null;
+        // drasi.changeDateTime() is epoch milliseconds; event payloads carry ISO strings
+        if (node is JsonValue value && value.TryGetValue<long>(out var epochMs))
+            return DateTimeOffset.FromUnixTimeMilliseconds(epochMs).UtcDateTime;
+        return DateTime.TryParse(node.ToString(), null, System.Globalization.DateTimeStyles.AdjustToUniversal | System.Globalization.DateTimeStyles.AssumeUniversal, out var parsed)
+            ? parsed
+            : null;
+    }
+
+    private static IEnumerable<ChildSummary> Order(IEnumerable<ChildSummary> rows, string sort, bool descending)
+    {
+        // Missing values sort last in either direction; childId keeps pages stable between requests
+        IOrderedEnumerable<ChildSummary> ordered = sort switch
+        {
+            "age" => By(rows, r => r.Age, descending),
+            "location" => By(rows, r => r.Location, descending),
+            "budget" => By(rows, r => r.Budget, descending),
+            "status" => By(rows, r => (int?)r.Status, descending),
+            "wishlistCount" => By(rows, r => (int?)r.WishlistCount, descending),
+            "lastActivity" => By(rows, r => r.LastActivity, descending),
+            _ => By(rows, r => r.Name ?? r.ChildId, descending),
+        };
+        return ordered.ThenBy(r => r.ChildId, StringComparer.OrdinalIgnoreCase);
+    }
+
+    private static IOrderedEnumerable<ChildSummary> By<T>(IEnumerable<ChildSummary> rows, Func<ChildSummary, T?> key, bool descending)
+    {
+        var missingLast = rows.OrderBy(r => key(r) is null ? 1 : 0);
+        var comparer = Comparer<T?>.Create((a, b) => a is string sa && b is string sb
+            ? StringComparer.OrdinalIgnoreCase.Compare(sa, sb)
+            : Comparer<T?>.Default.Compare(a, b));
+        return descending ? missingLast.ThenByDescending(key, comparer) : missingLast.ThenBy(key, comparer);
+    }
+
+    /// <summary>
+    /// Opaque page cursor: the last child returned plus its offset, tied to the sort it was issued for.
+    /// </summary>
+    private sealed record DirectoryCursor(string Sort, bool Descending, string After, int Offset)
+    {
+        public string Encode() => Convert.ToBase64String(JsonSerializer.SerializeToUtf8Bytes(this))
+            .TrimEnd('=').Replace('+', '-').Replace('/', '_');
+
+        public static DirectoryCursor Decode(string cursor)
+        {
+            try
+            {
+                var base64 = cursor.Replace('-', '+').Replace('_', '/');
+                base64 = base64.PadRight(base64.Length + (4 - base64.Length % 4) % 4, '=');
+                return JsonSerializer.Deserialize<DirectoryCursor>(Convert.FromBase64String(base64))
+                    ?? throw new ArgumentException("Invalid cursor.");
+            }
+            catch (Exception ex) when (ex is FormatException or JsonException)
+            {
+                throw new ArgumentException("Invalid cursor.", ex);
+            }
+        }
+    }
+}
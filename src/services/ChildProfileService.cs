@@ -6,14 +6,30 @@ namespace Services;
 public interface IChildProfileService
 {
     Task<ChildProfile?> GetChildProfileAsync(string childId, CancellationToken ct = default);
+
+    /// <summary>
+    /// Returns every profile held by the service (used by the children directory).
+    /// </summary>
+    Task<IReadOnlyList<ChildProfile>> ListProfilesAsync(CancellationToken ct = default);
     Task UpdateStatusAsync(string childId, NiceStatus newStatus, CancellationToken ct = default);
 
     /// <summary>
     /// Creates or updates a child profile with the given details.
-    /// If the profile exists, preferences are merged (not replaced).
+    /// If the profile exists, preferences are merged (not replaced), and the
+    /// name, age and budget hints only fill fields that are still empty, so
+    /// wishlist submissions never overwrite what an elf entered.
     /// </summary>
     Task<ChildProfile> UpsertProfileAsync(string childId, string? name, int? age, IEnumerable<string>? preferences, decimal? budget = null, CancellationToken ct = default);
 
+    /// <summary>
+    /// Replaces the editable profile fields with an elf's edit. Unlike
+    /// UpsertProfileAsync, preferences are replaced, not merged, and blank
+    /// values clear the field. Behavior status and privacy flags are kept.
+    /// The edit only applies when <paramref name="ifMatch"/> matches the ETag of
+    /// the current profile (or is *); the check and the write are atomic.
+    /// </summary>
+    Task<ProfileUpdateResult> UpdateProfileAsync(string childId, ChildProfileEdit edit, string ifMatch, CancellationToken ct = default);
+
     /// <summary>
     /// Adds preferences to an existing profile (or creates a new one).
     /// Used when adding wishlist items to build up the child's interests.
@@ -21,17 +37,25 @@ public interface IChildProfileService
     Task AddPreferencesAsync(string childId, IEnumerable<string> preferences, CancellationToken ct = default);
 }
 
+/// <summary>
+/// Outcome of a conditional profile edit: the saved profile, or the current
+/// one when the If-Match ETag was stale and nothing was written.
+/// </summary>
+public record ProfileUpdateResult(ChildProfile Profile, bool Conflict);
+
 public class ChildProfileService : IChildProfileService
 {
     // In-memory profile storage (in production this would be persisted to Cosmos)
     private static readonly Dictionary<string, ChildProfile> _profileCache = new();
     private static readonly object _lock = new();
     private readonly IDrasiViewClient _drasiClient;
+    private readonly IETagService _etags;
     private readonly ILogger<ChildProfileService> _logger;
 
-    public ChildProfileService(IDrasiViewClient drasiClient, ILogger<ChildProfileService> logger)
+    public ChildProfileService(IDrasiViewClient drasiClient, IETagService etags, ILogger<ChildProfileService> logger)
     {
         _drasiClient = drasiClient;
+        _etags = etags;
         _logger = logger;
     }
 
@@ -101,6 +125,14 @@ public class ChildProfileService : IChildProfileService
         return profile;
     }
 
+    public Task<IReadOnlyList<ChildProfile>> ListProfilesAsync(CancellationToken ct = default)
+    {
+        lock (_lock)
+        {
+            return Task.FromResult<IReadOnlyList<ChildProfile>>(_profileCache.Values.ToList());
+        }
+    }
+
     public Task UpdateStatusAsync(string childId, NiceStatus newStatus, CancellationToken ct = default)
     {
         lock (_lock)
@@ -149,22 +181,58 @@ public class ChildProfileService : IChildProfileService
 
             var profile = new ChildProfile(
                 Id: childId,
-                Name: name,
-                Age: age,
+                Name: existing?.Name ?? name,
+                Age: existing?.Age ?? age,
                 Preferences: mergedPrefs,
-                Constraints: new Constraints(Budget: budget),
+                Constraints: new Constraints(Budget: existing?.Constraints?.Budget ?? budget),
                 PrivacyFlags: new PrivacyFlags(OptOut: false),
-                Status: existingStatus
+                Status: existingStatus,
+                Location: existing?.Location
             );
 
             _profileCache[childId] = profile;
             _logger.LogInformation("Upserted profile for {ChildId}: Name={Name}, Age={Age}, Preferences=[{Preferences}]",
-                childId, name, age, string.Join(", ", mergedPrefs));
+                childId, profile.Name, profile.Age, string.Join(", ", mergedPrefs));
 
             return Task.FromResult(profile);
         }
     }
 
+    public async Task<ProfileUpdateResult> UpdateProfileAsync(string childId, ChildProfileEdit edit, string ifMatch, CancellationToken ct = default)
+    {
+        // What GET returns, so an uncached child keeps its Drasi status and its ETag
+        // matches; Drasi is only read when the child is not cached
+        var fallback = await GetChildProfileAsync(childId, ct)
+            ?? new ChildProfile(childId, null, null, null, null, new PrivacyFlags(OptOut: false));
+        static string? Clean(string? value) => string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+
+        ChildProfile profile;
+        lock (_lock)
+        {
+            // A status change or another elf's edit that landed meanwhile wins over the fallback
+            var current = _profileCache.TryGetValue(childId, out var latest) ? latest : fallback;
+            if (!_etags.ValidateIfMatch(ifMatch, _etags.GenerateETag(current)))
+                return new ProfileUpdateResult(current, Conflict: true);
+
+            profile = current with
+            {
+                Name = Clean(edit.Name),
+                Age = edit.Age,
+                Location = Clean(edit.Location),
+                Preferences = (edit.Preferences ?? Array.Empty<string>())
+                    .Select(p => p.Trim())
+                    .Where(p => p.Length > 0)
+                    .Distinct(StringComparer.OrdinalIgnoreCase)
+                    .ToArray(),
+                Constraints = new Constraints(Budget: edit.Budget)
+            };
+            _profileCache[childId] = profile;
+        }
+        _logger.LogInformation("Updated profile for {ChildId}: Name={Name}, Age={Age}, Location={Location}, Preferences=[{Preferences}]",
+            childId, profile.Name, profile.Age, profile.Location, string.Join(", ", profile.Preferences!));
+        return new ProfileUpdateResult(profile, Conflict: false);
+    }
+
     public Task AddPreferencesAsync(string childId, IEnumerable<string> preferences, CancellationToken ct = default)
     {
         lock (_lock)
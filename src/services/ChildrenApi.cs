@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
 using Microsoft.Extensions.DependencyInjection;
 using Drasicrhsit.Infrastructure;
+using Models;
 
 namespace Services;
 
@@ -10,6 +11,7 @@ public interface IChildRepository
 {
     Task<bool> AddAsync(string childId, CancellationToken ct = default);
     Task<bool> ExistsAsync(string childId, CancellationToken ct = default);
+    Task<IReadOnlyList<string>> ListAsync(CancellationToken ct = default);
 }
 
 /// <summary>
@@ -27,6 +29,9 @@ public class ChildRepository : IChildRepository
 
     public Task<bool> ExistsAsync(string childId, CancellationToken ct = default)
         => Task.FromResult(_children.Contains(childId));
+
+    public Task<IReadOnlyList<string>> ListAsync(CancellationToken ct = default)
+        => Task.FromResult<IReadOnlyList<string>>(_children.ToList());
 }
 
 public static class ChildrenApi
@@ -58,6 +63,36 @@ public static class ChildrenApi
         })
         .WithTags("Frontend", "Children");
 
+        // Children directory: server-side search, filters, sorting and cursor pagination
+        app.MapGet("children", async (string? search, string? status, int? inactiveDays, string? sort, string? order, string? cursor, int? limit,
+            IChildDirectoryService directory, CancellationToken ct) =>
+        {
+            NiceStatus? statusFilter = null;
+            if (!string.IsNullOrWhiteSpace(status))
+            {
+                if (!Enum.TryParse<NiceStatus>(status, true, out var parsed))
+                    return Results.Problem(statusCode: StatusCodes.Status400BadRequest, title: "Invalid status filter", detail: $"Unknown status '{status}'. Use Nice, Naughty or Unknown.");
+                statusFilter = parsed;
+            }
+            try
+            {
+                var page = await directory.SearchAsync(new ChildDirectoryQuery(
+                    Search: search,
+                    Status: statusFilter,
+                    InactiveDays: inactiveDays,
+                    Sort: string.IsNullOrWhiteSpace(sort) ? "name" : sort,
+                    Descending: string.Equals(order, "desc", StringComparison.OrdinalIgnoreCase),
+                    Cursor: string.IsNullOrWhiteSpace(cursor) ? null : cursor,
+                    Limit: limit ?? 25), ct);
+                return Results.Ok(new { items = page.Items, count = page.Items.Count, total = page.Total, nextCursor = page.NextCursor });
+            }
+            catch (ArgumentException ex)
+            {
+                return Results.Problem(statusCode: StatusCodes.Status400BadRequest, title: "Invalid directory query", detail: ex.Message);
+            }
+        })
+        .WithTags("Frontend", "Children");
+
         app.MapGet("children/{childId}", async (string childId, IChildRepository repo, CancellationToken ct) =>
         {
             var exists = await repo.ExistsAsync(childId, ct);
@@ -83,6 +83,26 @@ public abstract class CosmosRepositoryBase<T> where T : class, ICosmosEntity
         }
     }
 
+    /// <summary>
+    /// Deletes an item by its id and partition key.
+    /// </summary>
+    /// <param name="id">The document id.</param>
+    /// <param name="partitionKey">The partition key value.</param>
+    /// <param name="ct">Cancels the delete.</param>
+    /// <returns>True if the item was deleted, false if it did not exist.</returns>
+    protected async Task<bool> DeleteAsync(string id, string partitionKey, CancellationToken ct = default)
+    {
+        try
+        {
+            await Container.DeleteItemAsync<T>(id, new PartitionKey(partitionKey), cancellationToken: ct);
+            return true;
+        }
+        catch (CosmosException ex) when (ex.StatusCode == HttpStatusCode.NotFound)
+        {
+            return false;
+        }
+    }
+
     /// <summary>
     /// Lists items by partition key with optional ordering and limit.
     /// </summary>
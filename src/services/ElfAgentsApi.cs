@@ -1,6 +1,7 @@
 using Microsoft.AspNetCore.Builder;
 using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Routing;
+using Models;
 using Services;
 
 namespace Services;
@@ -50,6 +51,46 @@ public static class ElfAgentsApi
         })
         .WithTags("Frontend", "Children");
 
+        // Elf edits to a profile. If-Match is required and carries the ETag from the GET
+        // above (or * to overwrite), so two elves editing the same child get a 412 instead
+        // of silently overwriting each other.
+        app.MapPut("children/{childId}/profile", async (string childId,
+            ChildProfileEdit edit,
+            IChildProfileService profiles,
+            IETagService etagService,
+            HttpContext context,
+            CancellationToken ct) =>
+        {
+            var ifMatch = context.Request.Headers.IfMatch.ToString();
+            if (string.IsNullOrWhiteSpace(ifMatch))
+            {
+                return Results.Problem(
+                    statusCode: StatusCodes.Status428PreconditionRequired,
+                    title: "If-Match header required",
+                    detail: $"Send the ETag from GET children/{childId}/profile as If-Match, or * to overwrite the current profile.");
+            }
+
+            var errors = edit.Validate();
+            if (errors.Count > 0)
+                return Results.ValidationProblem(errors, title: "Invalid profile");
+
+            var result = await profiles.UpdateProfileAsync(childId, edit, ifMatch, ct);
+            if (result.Conflict)
+            {
+                return Results.Problem(
+                    statusCode: StatusCodes.Status412PreconditionFailed,
+                    title: "Profile was changed by someone else",
+                    detail: $"The profile for '{childId}' changed since it was loaded. Reload it and apply the edit again.");
+            }
+
+            context.Response.Headers.Append("ETag", etagService.GenerateETag(result.Profile));
+            return Results.Ok(result.Profile);
+        })
+        .WithTags("Frontend", "Children")
+        .ProducesValidationProblem()
+        .ProducesProblem(StatusCodes.Status428PreconditionRequired)
+        .ProducesProblem(StatusCodes.Status412PreconditionFailed);
+
         // Create a profile snapshot (deterministic enrichment baseline)
         // Azure API Guidelines: Return ETag on resource creation
         app.MapPost("children/{childId}/profile", async (string childId,
@@ -93,14 +134,47 @@ public static class ElfAgentsApi
         })
         .WithTags("Frontend", "Children");
 
-        app.MapGet("children/{childId}/recommendations", async (string childId, IElfRecommendationService recs, int? limit, CancellationToken ct) =>
+        app.MapGet("children/{childId}/recommendations", async (string childId, IElfRecommendationService recs, IRecommendationRepository repo, int? limit, CancellationToken ct) =>
         {
-            var recommendations = await recs.GetRecommendationsForChildAsync(childId, ct);
+            // Recommendations elves saved come first, newest first, then the generated ones
+            var saved = new List<Recommendation>();
+            await foreach (var set in repo.ListBySourceAsync(childId, SavedSource).WithCancellation(ct))
+            {
+                saved.AddRange(set.Items.Select(item => ToSavedRecommendation(childId, item)));
+            }
+            var recommendations = saved.Concat(await recs.GetRecommendationsForChildAsync(childId, ct));
             var list = (limit.HasValue && limit.Value > 0) ? recommendations.Take(limit.Value).ToList() : recommendations.ToList();
             return Results.Ok(new { items = list, count = list.Count });
         })
         .WithTags("Frontend", "Recommendations");
 
+        // Save a recommendation an elf picked out of an agent's answer. It is stored as its own
+        // recommendation set (source "saved"), so it shows in the child's recommendations and in the
+        // rationale audit with the generated ones.
+        app.MapPost("children/{childId}/recommendations", async (string childId,
+            SavedRecommendationRequest body,
+            IRecommendationRepository repo,
+            CancellationToken ct) =>
+        {
+            var errors = body.Validate();
+            if (errors.Count > 0)
+                return Results.ValidationProblem(errors, title: "Invalid recommendation");
+
+            var item = new RecommendationItemEntity
+            {
+                Suggestion = body.Suggestion!.Trim(),
+                Rationale = body.Rationale?.Trim() ?? string.Empty,
+                BudgetFit = body.BudgetFit,
+                Price = body.Price,
+            };
+            await repo.StoreAsync(new RecommendationSetEntity { ChildId = childId, GenerationSource = SavedSource, Items = { item } });
+
+            // There is no route for one recommendation; it is listed with the child's recommendations
+            return Results.Ok(ToSavedRecommendation(childId, item));
+        })
+        .WithTags("Frontend", "Recommendations")
+        .ProducesValidationProblem();
+
         app.MapPost("children/{childId}/logistics", async (string childId,
             ILogisticsAssessmentService logistics,
             ILogisticsAssessmentRepository assessments,
@@ -227,6 +301,12 @@ public static class ElfAgentsApi
 
         return app;
     }
+
+    // Generation source of the sets holding recommendations elves saved
+    private const string SavedSource = "saved";
+
+    private static Recommendation ToSavedRecommendation(string childId, RecommendationItemEntity item) =>
+        new(item.Id, childId, item.Suggestion, item.Rationale, item.Price, item.BudgetFit ?? "unknown", null);
 }
 
 internal sealed record TriggerPayload(string ChildId, string Type);
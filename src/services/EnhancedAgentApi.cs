@@ -241,8 +241,10 @@ public static class EnhancedAgentApi
         app.MapPost("children/{childId}/letters/behavior", async (
             string childId,
             [FromBody] BehaviorUpdateRequest? request,
+            HttpRequest httpRequest,
             IWishlistService wishlistService,
             INaughtyNiceEventHandler eventHandler,
+            InMemoryIdempotencyStore idemStore,
             ILogger<Program> logger,
             CancellationToken ct) =>
         {
@@ -260,6 +262,13 @@ public static class EnhancedAgentApi
                 });
             }
 
+            // Replayed submissions (e.g. from the frontend offline outbox) return the original result
+            var idemKey = httpRequest.Headers["Idempotency-Key"].ToString();
+            if (!string.IsNullOrWhiteSpace(idemKey) && idemStore.TryGet(idemKey, out var existing))
+            {
+                return Results.Ok(existing);
+            }
+
             // Create letter with behavior update
             LetterToNorthPole letter = new(
                 Id: Guid.NewGuid().ToString(),
@@ -321,7 +330,7 @@ public static class EnhancedAgentApi
                 }
             }
 
-            return Results.Ok(new
+            var responseBody = new
             {
                 childId,
                 letterId = letter.Id,
@@ -331,7 +340,12 @@ public static class EnhancedAgentApi
                     ? "Behavior update processed and recommendations adjusted"
                     : "Behavior update stored (recommendation update pending)",
                 triggeredAgent = recommendationUpdateSucceeded
-            });
+            };
+            if (!string.IsNullOrWhiteSpace(idemKey))
+            {
+                idemStore.Set(idemKey, responseBody);
+            }
+            return Results.Ok(responseBody);
         })
         .WithName("UpdateBehavior")
         .WithTags("Frontend", "NaughtyNice")
@@ -18,6 +18,12 @@ public interface IMultiAgentOrchestrator
     /// This reduces total time from ~60s (3 sequential) to ~40s (2 parallel + 1 sequential).
     /// </summary>
     Task<string> RunCollaborativeRecommendationOptimizedAsync(string childId, NiceStatus status, CancellationToken ct = default);
+
+    /// <summary>
+    /// The Analyst and Creative elves and the Reviewer as one agent for AG-UI runs. The elves answer
+    /// in turn as the "profile-elf" and "recommendation-elf" steps, then the Reviewer sums up.
+    /// </summary>
+    AIAgent CreateTaskforceAgent(IEnumerable<AITool> clientTools, ITaskforceStepObserver steps);
 }
 
 public class MultiAgentOrchestrator : IMultiAgentOrchestrator
@@ -85,10 +91,8 @@ public class MultiAgentOrchestrator : IMultiAgentOrchestrator
         return _chatClient;
     }
 
-    private void InitializeAgents()
+    private IList<AITool> CreateTools()
     {
-        var chatClient = GetChatClient();
-
         // Create AI tools from the tool library methods
         // Use AIFunctionFactory.Create with method delegates
         // NOW INCLUDING DRASI REAL-TIME QUERY TOOLS! 🚀
@@ -110,11 +114,10 @@ public class MultiAgentOrchestrator : IMultiAgentOrchestrator
             AIFunctionFactory.Create(_toolLibrary.FindInactiveChildren),
             AIFunctionFactory.Create(_toolLibrary.QueryGlobalWishlistDuplicates)
         };
+        return tools;
+    }
 
-        // Analyst Agent - extracts insights from child data with tool access
-        _analystAgent = chatClient.CreateAIAgent(
-            name: "BehaviorAnalyst",
-            instructions: """
+    private const string AnalystInstructions = """
             You are the Behavior Analyst Elf. Be CONCISE - output max 200 words.
 
             WORKFLOW (call tools in this order):
@@ -127,14 +130,9 @@ public class MultiAgentOrchestrator : IMultiAgentOrchestrator
             • Behavior assessment (Nice/Naughty reasoning)
             • Top interests
             • Budget considerations
-            """,
-            tools: tools
-        );
+            """;
 
-        // Creative Agent - generates creative gift ideas with inventory access
-        _creativeAgent = chatClient.CreateAIAgent(
-            name: "CreativeGiftElf",
-            instructions: """
+    private const string CreativeInstructions = """
             You are the Creative Gift Elf. Be CONCISE - output max 200 words.
 
             WORKFLOW:
@@ -147,14 +145,9 @@ public class MultiAgentOrchestrator : IMultiAgentOrchestrator
             • Price range
 
             Nice children: rewarding gifts. Naughty children: educational/character-building.
-            """,
-            tools: tools
-        );
+            """;
 
-        // Reviewer Agent - validates and refines recommendations
-        _reviewerAgent = chatClient.CreateAIAgent(
-            name: "QualityReviewerElf",
-            instructions: """
+    private const string ReviewerInstructions = """
             You are the Quality Reviewer Elf. Be CONCISE - output max 300 words.
 
             Review and synthesize the analysis and suggestions into FINAL recommendations.
@@ -167,8 +160,41 @@ public class MultiAgentOrchestrator : IMultiAgentOrchestrator
                💰 Budget: [price]
 
             End with a brief encouraging message for the child.
-            """
-        );
+            """;
+
+    private void InitializeAgents()
+    {
+        var chatClient = GetChatClient();
+        var tools = CreateTools();
+
+        // Analyst Agent - extracts insights from child data with tool access
+        _analystAgent = chatClient.CreateAIAgent(name: "BehaviorAnalyst", instructions: AnalystInstructions, tools: tools);
+
+        // Creative Agent - generates creative gift ideas with inventory access
+        _creativeAgent = chatClient.CreateAIAgent(name: "CreativeGiftElf", instructions: CreativeInstructions, tools: tools);
+
+        // Reviewer Agent - validates and refines recommendations
+        _reviewerAgent = chatClient.CreateAIAgent(name: "QualityReviewerElf", instructions: ReviewerInstructions);
+    }
+
+    public AIAgent CreateTaskforceAgent(IEnumerable<AITool> clientTools, ITaskforceStepObserver steps)
+    {
+        var chatClient = GetChatClient();
+        // Fresh agents per run: the elves also get the client's frontend tools
+        var tools = CreateTools();
+        foreach (var tool in clientTools)
+        {
+            tools.Add(tool);
+        }
+
+        return new TaskforceAgent(
+            new[]
+            {
+                new TaskforceElf("profile-elf", chatClient.CreateAIAgent(name: "BehaviorAnalyst", instructions: AnalystInstructions, tools: tools)),
+                new TaskforceElf("recommendation-elf", chatClient.CreateAIAgent(name: "CreativeGiftElf", instructions: CreativeInstructions, tools: tools))
+            },
+            chatClient.CreateAIAgent(name: "QualityReviewerElf", instructions: ReviewerInstructions),
+            steps);
     }
 
     public async Task<string> RunCollaborativeRecommendationAsync(string childId, NiceStatus status, CancellationToken ct = default)
@@ -8,6 +8,7 @@ public interface IRecommendationRepository
     Task StoreAsync(RecommendationSetEntity recommendationSet);
     Task<RecommendationSetEntity?> GetAsync(string childId, string setId);
     IAsyncEnumerable<RecommendationSetEntity> ListAsync(string childId, int take = 10);
+    IAsyncEnumerable<RecommendationSetEntity> ListBySourceAsync(string childId, string generationSource, int take = 10);
     Task<IReadOnlyList<RationaleAuditEntry>> GetRationaleAuditAsync(string childId, string? setId = null);
 }
 
@@ -33,6 +34,19 @@ public sealed class RecommendationRepository : CosmosRepositoryBase<Recommendati
         return ListByPartitionKeyAsync("childId", childId, orderByField: "createdAt", orderDescending: true, take: take);
     }
 
+    /// <summary>
+    /// The child's newest sets from one generation source, e.g. "saved" for the ones elves picked out of agent answers
+    /// </summary>
+    public IAsyncEnumerable<RecommendationSetEntity> ListBySourceAsync(string childId, string generationSource, int take = 10)
+    {
+        var queryDef = new QueryDefinition(
+                "SELECT TOP @take * FROM c WHERE c.childId = @childId AND c.generationSource = @source ORDER BY c.createdAt DESC")
+            .WithParameter("@take", take)
+            .WithParameter("@childId", childId)
+            .WithParameter("@source", generationSource);
+        return QueryAsync(queryDef);
+    }
+
     public async Task<IReadOnlyList<RationaleAuditEntry>> GetRationaleAuditAsync(string childId, string? setId = null)
     {
         var results = new List<RationaleAuditEntry>();
@@ -91,4 +105,5 @@ public sealed class RecommendationItemEntity
     public string Rationale { get; set; } = string.Empty;
     public string? BudgetFit { get; set; }
     public string? Availability { get; set; }
+    public decimal? Price { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+using System.Runtime.CompilerServices;
+using Microsoft.Agents.AI;
+using Microsoft.Extensions.AI;
+
+namespace Services;
+
+/// <summary>
+/// Told when each task force elf starts and finishes its turn, e.g. to stream it as an AG-UI step
+/// </summary>
+public interface ITaskforceStepObserver
+{
+    Task StepStartedAsync(string stepName, CancellationToken ct);
+
+    Task StepFinishedAsync(string stepName, AgentRunResponse response, CancellationToken ct);
+}
+
+/// <summary>
+/// One elf of the task force and the step its turn is reported as
+/// </summary>
+public sealed record TaskforceElf(string StepName, AIAgent Agent);
+
+/// <summary>
+/// The task force as one agent: each elf answers the request in turn, seeing what the elves
+/// before it found, then the coordinator sums up. The coordinator's answer is the run's answer.
+/// </summary>
+public sealed class TaskforceAgent : DelegatingAIAgent
+{
+    private readonly IReadOnlyList<TaskforceElf> _elves;
+    private readonly ITaskforceStepObserver _steps;
+
+    public TaskforceAgent(IReadOnlyList<TaskforceElf> elves, AIAgent coordinator, ITaskforceStepObserver steps)
+        : base(coordinator)
+    {
+        _elves = elves;
+        _steps = steps;
+    }
+
+    public override async Task<AgentRunResponse> RunAsync(
+        IEnumerable<ChatMessage> messages,
+        AgentThread? thread = null,
+        AgentRunOptions? options = null,
+        CancellationToken cancellationToken = default)
+    {
+        var request = string.Join("\n\n", messages.Where(m => m.Role == ChatRole.User).Select(m => m.Text));
+        var findings = new List<string>();
+
+        foreach (var elf in _elves)
+        {
+            await _steps.StepStartedAsync(elf.StepName, cancellationToken);
+            var prompt = findings.Count == 0
+                ? request
+                : $"{request}\n\nWhat the other elves found so far:\n\n{string.Join("\n\n", findings)}";
+            var response = await elf.Agent.RunAsync(prompt, cancellationToken: cancellationToken);
+            await _steps.StepFinishedAsync(elf.StepName, response, cancellationToken);
+            findings.Add($"[{elf.StepName}]\n{response}");
+        }
+
+        var summary = $"""
+            {request}
+
+            Sum up the elves' findings into one answer:
+
+            {string.Join("\n\n", findings)}
+            """;
+        return await InnerAgent.RunAsync(summary, thread, options, cancellationToken);
+    }
+
+    public override async IAsyncEnumerable<AgentRunResponseUpdate> RunStreamingAsync(
+        IEnumerable<ChatMessage> messages,
+        AgentThread? thread = null,
+        AgentRunOptions? options = null,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        // The elves take turns, so the answer only exists once the coordinator has summed up
+        var response = await RunAsync(messages, thread, options, cancellationToken);
+        foreach (var update in response.ToAgentRunResponseUpdates())
+        {
+            yield return update;
+        }
+    }
+}
@@ -0,0 +1,64 @@
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Routing;
+
+namespace Services;
+
+/// <summary>
+/// Wishlist management for the child detail page: list, edit, delete and reorder
+/// gift requests. Submissions stay on POST children/{childId}/wishlist-items in Program.cs.
+/// </summary>
+public static class WishlistApi
+{
+    public record WishlistOrderRequest(IReadOnlyList<string>? ItemIds);
+
+    public static IEndpointRouteBuilder MapWishlistApi(this IEndpointRouteBuilder app)
+    {
+        app.MapGet("children/{childId}/wishlist-items", async (string childId, IWishlistService wishlist, CancellationToken ct) =>
+        {
+            var items = await wishlist.ListAsync(childId, ct);
+            return Results.Ok(new { items, count = items.Count });
+        })
+        .WithTags("Frontend", "Wishlist");
+
+        // Literal segment takes precedence over {itemId}, and item ids are GUIDs
+        app.MapPut("children/{childId}/wishlist-items/order", async (string childId, WishlistOrderRequest body, IWishlistService wishlist, CancellationToken ct) =>
+        {
+            if (body.ItemIds is null)
+                return Results.ValidationProblem(new Dictionary<string, string[]> { ["itemIds"] = ["itemIds is required."] });
+            try
+            {
+                var items = await wishlist.ReorderAsync(childId, body.ItemIds, ct);
+                return Results.Ok(new { items, count = items.Count });
+            }
+            catch (ArgumentException ex)
+            {
+                // Usually a stale list: another elf added or removed an item meanwhile
+                return Results.Problem(statusCode: StatusCodes.Status409Conflict, title: "Wishlist changed", detail: ex.Message);
+            }
+        })
+        .WithTags("Frontend", "Wishlist")
+        .ProducesProblem(StatusCodes.Status409Conflict);
+
+        app.MapPut("children/{childId}/wishlist-items/{itemId}", async (string childId, string itemId, WishlistEntryUpdate update, IWishlistService wishlist, CancellationToken ct) =>
+        {
+            var errors = update.Validate();
+            if (errors.Count > 0)
+                return Results.ValidationProblem(errors, title: "Invalid wishlist item");
+
+            var updated = await wishlist.UpdateAsync(childId, itemId, update, ct);
+            return updated is null ? Results.NotFound() : Results.Ok(updated);
+        })
+        .WithTags("Frontend", "Wishlist")
+        .ProducesValidationProblem();
+
+        app.MapDelete("children/{childId}/wishlist-items/{itemId}", async (string childId, string itemId, IWishlistService wishlist, CancellationToken ct) =>
+        {
+            var deleted = await wishlist.DeleteAsync(childId, itemId, ct);
+            return deleted ? Results.NoContent() : Results.NotFound();
+        })
+        .WithTags("Frontend", "Wishlist");
+
+        return app;
+    }
+}
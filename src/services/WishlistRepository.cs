@@ -6,6 +6,8 @@ public interface IWishlistRepository
 {
     Task UpsertAsync(WishlistItemEntity entity);
     IAsyncEnumerable<WishlistItemEntity> ListAsync(string childId);
+    Task<WishlistItemEntity?> GetAsync(string childId, string id);
+    Task<bool> DeleteItemAsync(string childId, string id, CancellationToken ct = default);
 }
 
 public sealed class WishlistRepository : CosmosRepositoryBase<WishlistItemEntity>, IWishlistRepository
@@ -24,6 +26,16 @@ public sealed class WishlistRepository : CosmosRepositoryBase<WishlistItemEntity
     {
         return ListByPartitionKeyAsync("childId", childId);
     }
+
+    public Task<WishlistItemEntity?> GetAsync(string childId, string id)
+    {
+        return GetByIdAsync(id, childId);
+    }
+
+    public Task<bool> DeleteItemAsync(string childId, string id, CancellationToken ct = default)
+    {
+        return DeleteAsync(id, childId, ct);
+    }
 }
 
 public sealed class WishlistItemEntity : ICosmosEntity
@@ -36,7 +48,10 @@ public sealed class WishlistItemEntity : ICosmosEntity
     public string? Category { get; set; }
     public double? BudgetEstimate { get; set; }
     public string? StatusChange { get; set; }  // "Nice", "Naughty", or null
+    public string? Notes { get; set; }
+    public int? Priority { get; set; }  // 0 = most wanted; null until an elf reorders the list
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? UpdatedAt { get; set; }
 
     [JsonIgnore]
     public string PartitionKeyValue => ChildId;
@@ -3,10 +3,62 @@ using Drasicrhsit.Infrastructure;
 
 namespace Services;
 
+/// <summary>
+/// A gift request as listed on the child's wishlist tab.
+/// </summary>
+public record WishlistEntry(
+    string Id,
+    string ChildId,
+    string ItemName,
+    string? Category,
+    double? BudgetEstimate,
+    string? Notes,
+    int? Priority,
+    DateTime CreatedAt,
+    DateTime? UpdatedAt);
+
+/// <summary>
+/// Elf edit to an existing gift request; replaces all editable fields.
+/// </summary>
+public record WishlistEntryUpdate(string? ItemName, string? Category, double? BudgetEstimate, string? Notes)
+{
+    public const int MaxItemNameLength = 200;
+    public const int MaxNotesLength = 500;
+
+    public Dictionary<string, string[]> Validate()
+    {
+        var errors = new Dictionary<string, string[]>();
+        if (string.IsNullOrWhiteSpace(ItemName) || ItemName.Trim().Length > MaxItemNameLength)
+            errors["itemName"] = [$"Item name is required and must be at most {MaxItemNameLength} characters."];
+        if (BudgetEstimate is < 0d)
+            errors["budgetEstimate"] = ["Budget estimate cannot be negative."];
+        if (Notes?.Length > MaxNotesLength)
+            errors["notes"] = [$"Notes must be at most {MaxNotesLength} characters."];
+        return errors;
+    }
+}
+
 public interface IWishlistService
 {
-    Task<WishlistItem> AddAsync(string childId, string text, string? category, double? budgetEstimate, CancellationToken ct = default);
+    Task<WishlistItem> AddAsync(string childId, string text, string? category, double? budgetEstimate, string? notes = null, CancellationToken ct = default);
     Task<LetterToNorthPole> AddLetterAsync(string childId, string requestType, string text, string? category, double? budgetEstimate, string? statusChange = null, CancellationToken ct = default);
+
+    /// <summary>
+    /// Gift requests for a child in priority order; items never reordered follow in submission order.
+    /// Behavior letters share the container but are not listed.
+    /// </summary>
+    Task<IReadOnlyList<WishlistEntry>> ListAsync(string childId, CancellationToken ct = default);
+
+    /// <summary>Returns null when the item does not exist or is not a gift request.</summary>
+    Task<WishlistEntry?> UpdateAsync(string childId, string itemId, WishlistEntryUpdate update, CancellationToken ct = default);
+
+    Task<bool> DeleteAsync(string childId, string itemId, CancellationToken ct = default);
+
+    /// <summary>
+    /// Sets priorities from the given order (first = most wanted).
+    /// </summary>
+    /// <exception cref="ArgumentException">The ids are not exactly the child's current gift requests.</exception>
+    Task<IReadOnlyList<WishlistEntry>> ReorderAsync(string childId, IReadOnlyList<string> itemIds, CancellationToken ct = default);
 }
 
 public sealed class WishlistService : IWishlistService
@@ -14,7 +66,7 @@ public sealed class WishlistService : IWishlistService
     readonly IWishlistRepository _repo;
     public WishlistService(IWishlistRepository repo) => _repo = repo;
 
-    public async Task<WishlistItem> AddAsync(string childId, string text, string? category, double? budgetEstimate, CancellationToken ct = default)
+    public async Task<WishlistItem> AddAsync(string childId, string text, string? category, double? budgetEstimate, string? notes = null, CancellationToken ct = default)
     {
         ArgumentNullException.ThrowIfNull(text); // CA1062/CA1510
         var entity = new WishlistItemEntity
@@ -24,10 +76,11 @@ public sealed class WishlistService : IWishlistService
             Text = text,
             Category = category,
             BudgetEstimate = budgetEstimate,
+            Notes = notes,
             DedupeKey = DedupeKeyHasher.Compute(childId, text.ToLowerInvariant().Trim())
         };
         await _repo.UpsertAsync(entity);
-        return new WishlistItem(entity.id, entity.ChildId, entity.Text, entity.Category, null, null, null);
+        return new WishlistItem(entity.id, entity.ChildId, entity.Text, entity.Category, null, null, entity.Notes);
     }
 
     public async Task<LetterToNorthPole> AddLetterAsync(string childId, string requestType, string text, string? category, double? budgetEstimate, string? statusChange = null, CancellationToken ct = default)
@@ -54,4 +107,83 @@ public sealed class WishlistService : IWishlistService
 
         return new LetterToNorthPole(entity.id, entity.ChildId, entity.RequestType, entity.Text, entity.Category, null, null, null, status);
     }
+
+    public async Task<IReadOnlyList<WishlistEntry>> ListAsync(string childId, CancellationToken ct = default)
+    {
+        var gifts = await ListGiftsAsync(childId, ct);
+        return gifts.Select(ToEntry).ToList();
+    }
+
+    public async Task<WishlistEntry?> UpdateAsync(string childId, string itemId, WishlistEntryUpdate update, CancellationToken ct = default)
+    {
+        ArgumentNullException.ThrowIfNull(update);
+        var entity = await _repo.GetAsync(childId, itemId);
+        if (entity is null || !IsGift(entity))
+            return null;
+
+        var text = update.ItemName!.Trim();
+        entity.Text = text;
+        entity.Category = string.IsNullOrWhiteSpace(update.Category) ? null : update.Category.Trim();
+        entity.BudgetEstimate = update.BudgetEstimate;
+        entity.Notes = string.IsNullOrWhiteSpace(update.Notes) ? null : update.Notes.Trim();
+        // Renaming changes what counts as a duplicate submission
+        entity.DedupeKey = DedupeKeyHasher.Compute(childId, text.ToLowerInvariant());
+        entity.UpdatedAt = DateTime.UtcNow;
+        await _repo.UpsertAsync(entity);
+        return ToEntry(entity);
+    }
+
+    public async Task<bool> DeleteAsync(string childId, string itemId, CancellationToken ct = default)
+    {
+        var entity = await _repo.GetAsync(childId, itemId);
+        if (entity is null || !IsGift(entity))
+            return false;
+        return await _repo.DeleteItemAsync(childId, itemId, ct);
+    }
+
+    public async Task<IReadOnlyList<WishlistEntry>> ReorderAsync(string childId, IReadOnlyList<string> itemIds, CancellationToken ct = default)
+    {
+        ArgumentNullException.ThrowIfNull(itemIds);
+        var gifts = await ListGiftsAsync(childId, ct);
+        var byId = gifts.ToDictionary(g => g.id, StringComparer.Ordinal);
+        if (itemIds.Count != byId.Count || itemIds.Distinct(StringComparer.Ordinal).Count() != itemIds.Count || !itemIds.All(byId.ContainsKey))
+            throw new ArgumentException("Reorder must list every wishlist item for the child exactly once.", nameof(itemIds));
+
+        var now = DateTime.UtcNow;
+        var ordered = new List<WishlistItemEntity>(itemIds.Count);
+        for (var i = 0; i < itemIds.Count; i++)
+        {
+            var entity = byId[itemIds[i]];
+            if (entity.Priority != i)
+            {
+                entity.Priority = i;
+                entity.UpdatedAt = now;
+                await _repo.UpsertAsync(entity);
+            }
+            ordered.Add(entity);
+        }
+        return ordered.Select(ToEntry).ToList();
+    }
+
+    private async Task<List<WishlistItemEntity>> ListGiftsAsync(string childId, CancellationToken ct)
+    {
+        var gifts = new List<WishlistItemEntity>();
+        await foreach (var entity in _repo.ListAsync(childId).WithCancellation(ct))
+        {
+            if (IsGift(entity))
+                gifts.Add(entity);
+        }
+        return gifts
+            .OrderBy(g => g.Priority ?? int.MaxValue)
+            .ThenBy(g => g.CreatedAt)
+            .ToList();
+    }
+
+    // Behavior letters share the container; legacy toy-idea documents have no Text and are skipped
+    private static bool IsGift(WishlistItemEntity entity) =>
+        !string.Equals(entity.RequestType, "behavior-update", StringComparison.OrdinalIgnoreCase)
+        && !string.IsNullOrWhiteSpace(entity.Text);
+
+    private static WishlistEntry ToEntry(WishlistItemEntity e) =>
+        new(e.id, e.ChildId, e.Text, e.Category, e.BudgetEstimate, e.Notes, e.Priority, e.CreatedAt, e.UpdatedAt);
 }
@@ -0,0 +1,160 @@
+using System.Net;
+using System.Net.Http.Json;
+using System.Text.Json;
+using Microsoft.Agents.AI;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.TestHost;
+using Microsoft.Extensions.AI;
+using Microsoft.Extensions.DependencyInjection;
+using Moq;
+using Services;
+using Xunit;
+
+namespace IntegrationTests;
+
+/// <summary>
+/// Cancelling AG-UI runs and answering their frontend tool calls, against a task force
+/// agent that keeps running until it is cancelled.
+/// </summary>
+public class AgUiRunControlTests : IAsyncLifetime
+{
+    private static readonly TimeSpan StreamTimeout = TimeSpan.FromSeconds(10);
+
+    private WebApplication _app = null!;
+    private HttpClient _client = null!;
+    private readonly List<(HttpResponseMessage Response, StreamReader Events)> _runs = new();
+
+    public async Task InitializeAsync()
+    {
+        var builder = WebApplication.CreateBuilder();
+        builder.WebHost.UseTestServer();
+        builder.Services.AddRouting();
+        builder.Services.AddSingleton(Mock.Of<IDrasiViewClient>());
+        builder.Services.AddSingleton(Mock.Of<IChildProfileService>());
+
+        var orchestrator = new Mock<IMultiAgentOrchestrator>();
+        orchestrator
+            .Setup(o => o.CreateTaskforceAgent(It.IsAny<IEnumerable<AITool>>(), It.IsAny<ITaskforceStepObserver>()))
+            .Returns(() => RunsUntilCancelled().Object);
+        builder.Services.AddSingleton(orchestrator.Object);
+
+        _app = builder.Build();
+        _app.MapAgUi();
+        await _app.StartAsync();
+        _client = _app.GetTestServer().CreateClient();
+    }
+
+    public async Task DisposeAsync()
+    {
+        foreach (var (response, events) in _runs)
+        {
+            events.Dispose();
+            response.Dispose();
+        }
+        await _app.DisposeAsync();
+    }
+
+    private static Mock<AIAgent> RunsUntilCancelled()
+    {
+        var agent = new Mock<AIAgent>();
+        agent
+            .Setup(a => a.RunAsync(It.IsAny<IEnumerable<ChatMessage>>(), It.IsAny<AgentThread?>(), It.IsAny<AgentRunOptions?>(), It.IsAny<CancellationToken>()))
+            .Returns<IEnumerable<ChatMessage>, AgentThread?, AgentRunOptions?, CancellationToken>(async (_, _, _, ct) =>
+            {
+                await Task.Delay(Timeout.Infinite, ct);
+                return new AgentRunResponse();
+            });
+        return agent;
+    }
+
+    /// <summary>Start a task force run and wait until its agent is working</summary>
+    private async Task<StreamReader> StartRunAsync(string runId, string threadId)
+    {
+        var request = new HttpRequestMessage(HttpMethod.Post, "/agents/taskforce/run")
+        {
+            Content = JsonContent.Create(new { threadId, runId, messages = Array.Empty<object>() })
+        };
+        var response = await _client.SendAsync(request, HttpCompletionOption.ResponseHeadersRead);
+        var events = new StreamReader(await response.Content.ReadAsStreamAsync());
+        _runs.Add((response, events));
+        await ReadEventAsync(events, "THINKING_START");
+        return events;
+    }
+
+    private static async Task<JsonElement> ReadEventAsync(StreamReader events, string type)
+    {
+        while (await events.ReadLineAsync().WaitAsync(StreamTimeout) is { } line)
+        {
+            if (!line.StartsWith("data: ")) continue;
+            var ev = JsonDocument.Parse(line["data: ".Length..]).RootElement;
+            if (ev.GetProperty("type").GetString() == type) return ev;
+        }
+        throw new Xunit.Sdk.XunitException($"The stream ended without {type}");
+    }
+
+    private static string NewId() => Guid.NewGuid().ToString("n");
+
+    [Fact]
+    public async Task CancelRun_OfAnotherAgent_Returns404()
+    {
+        var runId = NewId();
+        await StartRunAsync(runId, NewId());
+
+        var response = await _client.DeleteAsync($"/agents/santa/runs/{runId}");
+
+        Assert.Equal(HttpStatusCode.NotFound, response.StatusCode);
+        Assert.Equal(HttpStatusCode.Accepted, (await _client.DeleteAsync($"/agents/taskforce/runs/{runId}")).StatusCode);
+    }
+
+    [Fact]
+    public async Task CancelRun_WithAnotherThreadId_Returns404()
+    {
+        var runId = NewId();
+        await StartRunAsync(runId, "thread-a");
+
+        var response = await _client.DeleteAsync($"/agents/taskforce/runs/{runId}?threadId=thread-b");
+
+        Assert.Equal(HttpStatusCode.NotFound, response.StatusCode);
+        Assert.Equal(HttpStatusCode.Accepted, (await _client.DeleteAsync($"/agents/taskforce/runs/{runId}?threadId=thread-a")).StatusCode);
+    }
+
+    [Fact]
+    public async Task CancelRun_Accepted_EndsTheStreamWithRunFinishedCancelled()
+    {
+        var runId = NewId();
+        var events = await StartRunAsync(runId, NewId());
+
+        var response = await _client.DeleteAsync($"/agents/taskforce/runs/{runId}");
+
+        Assert.Equal(HttpStatusCode.Accepted, response.StatusCode);
+        var finished = await ReadEventAsync(events, "RUN_FINISHED");
+        Assert.Equal(runId, finished.GetProperty("runId").GetString());
+        Assert.Equal("cancelled", finished.GetProperty("result").GetProperty("status").GetString());
+        // The run is over, so there is nothing left to cancel
+        Assert.Equal(HttpStatusCode.NotFound, (await _client.DeleteAsync($"/agents/taskforce/runs/{runId}")).StatusCode);
+    }
+
+    [Fact]
+    public async Task PostToolResult_ForACallTheRunIsNotWaitingFor_Returns404()
+    {
+        var runId = NewId();
+        await StartRunAsync(runId, NewId());
+
+        var response = await _client.PostAsJsonAsync($"/agents/taskforce/runs/{runId}/tool-results/unknown-call", new { content = "{}" });
+
+        Assert.Equal(HttpStatusCode.NotFound, response.StatusCode);
+        await _client.DeleteAsync($"/agents/taskforce/runs/{runId}");
+    }
+
+    [Fact]
+    public async Task PostToolResult_WithoutContent_Returns400()
+    {
+        var runId = NewId();
+        await StartRunAsync(runId, NewId());
+
+        var response = await _client.PostAsJsonAsync($"/agents/taskforce/runs/{runId}/tool-results/any-call", new { });
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+        await _client.DeleteAsync($"/agents/taskforce/runs/{runId}");
+    }
+}
@@ -89,6 +89,12 @@ public class MockRecommendationRepository : IRecommendationRepository
         yield return new RecommendationSetEntity();
         await Task.CompletedTask;
     }
+
+    public async IAsyncEnumerable<RecommendationSetEntity> ListBySourceAsync(string childId, string generationSource, int take = 10)
+    {
+        yield return new RecommendationSetEntity { ChildId = childId, GenerationSource = generationSource };
+        await Task.CompletedTask;
+    }
     
     public Task<IReadOnlyList<RationaleAuditEntry>> GetRationaleAuditAsync(
         string childId, string? setId = null)
@@ -0,0 +1,136 @@
+using System.Text.Json.Nodes;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+using Models;
+using Moq;
+using Services;
+using Xunit;
+
+namespace UnitTests;
+
+public class ChildDirectoryServiceTests
+{
+    private readonly Mock<IChildRepository> _childrenMock = new();
+    private readonly Mock<IChildProfileService> _profileMock = new();
+    private readonly Mock<IDrasiViewClient> _drasiMock = new();
+
+    public ChildDirectoryServiceTests()
+    {
+        _childrenMock
+            .Setup(c => c.ListAsync(It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new List<string> { "child-ada", "child-ben", "child-cy" });
+        _profileMock
+            .Setup(p => p.ListProfilesAsync(It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new List<ChildProfile>
+            {
+                new("child-ada", "Ada", 8, null, new Constraints(120m), null, NiceStatus.Nice, "Oslo"),
+                new("child-ben", "Ben", 6, null, new Constraints(40m), null, NiceStatus.Naughty, "Leeds"),
+            });
+        _drasiMock
+            .Setup(d => d.GetCurrentResultAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new List<JsonNode>());
+        SetupQuery("wishlist-updates",
+            Row("child-ada", "wishlist", DateTime.UtcNow.AddHours(-1)),
+            Row("child-ada", "wishlist", DateTime.UtcNow.AddHours(-2)),
+            Row("child-ada", "behavior-update", DateTime.UtcNow.AddHours(-3)),
+            Row("child-ben", "wishlist", DateTime.UtcNow.AddDays(-5)));
+    }
+
+    private ChildDirectoryService CreateService() => new(
+        _childrenMock.Object,
+        _profileMock.Object,
+        _drasiMock.Object,
+        new Mock<IConfiguration>().Object,
+        new Mock<ILogger<ChildDirectoryService>>().Object);
+
+    private void SetupQuery(string queryId, params JsonNode[] rows) => _drasiMock
+        .Setup(d => d.GetCurrentResultAsync(It.IsAny<string>(), queryId, It.IsAny<CancellationToken>()))
+        .ReturnsAsync(rows.ToList());
+
+    private static JsonNode Row(string childId, string type, DateTime createdAt) =>
+        new JsonObject { ["childId"] = childId, ["type"] = type, ["createdAt"] = createdAt.ToString("O") };
+
+    [Fact]
+    public async Task SearchAsync_MergesProfilesWithWishlistActivity()
+    {
+        var page = await CreateService().SearchAsync(new ChildDirectoryQuery());
+
+        Assert.Equal(3, page.Total);
+        var ada = Assert.Single(page.Items, c => c.ChildId == "child-ada");
+        Assert.Equal("Oslo", ada.Location);
+        Assert.Equal(120m, ada.Budget);
+        Assert.Equal(2, ada.WishlistCount); // behavior letters are not wishlist items
+        Assert.NotNull(ada.LastActivity);
+        var cy = Assert.Single(page.Items, c => c.ChildId == "child-cy");
+        Assert.Equal(0, cy.WishlistCount);
+        Assert.Null(cy.LastActivity);
+    }
+
+    [Fact]
+    public async Task SearchAsync_FiltersBySearchStatusAndInactivity()
+    {
+        var service = CreateService();
+
+        var byLocation = await service.SearchAsync(new ChildDirectoryQuery(Search: "leeds"));
+        Assert.Equal(new[] { "child-ben" }, byLocation.Items.Select(c => c.ChildId));
+
+        var nice = await service.SearchAsync(new ChildDirectoryQuery(Status: NiceStatus.Nice));
+        Assert.Equal(new[] { "child-ada" }, nice.Items.Select(c => c.ChildId));
+
+        // Children with no activity at all count as inactive
+        var inactive = await service.SearchAsync(new ChildDirectoryQuery(InactiveDays: 3));
+        Assert.Equal(new[] { "child-ben", "child-cy" }, inactive.Items.Select(c => c.ChildId));
+    }
+
+    [Fact]
+    public async Task SearchAsync_SortsMissingValuesLast()
+    {
+        var service = CreateService();
+
+        var ascending = await service.SearchAsync(new ChildDirectoryQuery(Sort: "budget"));
+        Assert.Equal(new[] { "child-ben", "child-ada", "child-cy" }, ascending.Items.Select(c => c.ChildId));
+
+        var descending = await service.SearchAsync(new ChildDirectoryQuery(Sort: "budget", Descending: true));
+        Assert.Equal(new[] { "child-ada", "child-ben", "child-cy" }, descending.Items.Select(c => c.ChildId));
+    }
+
+    [Fact]
+    public async Task SearchAsync_PagesWithCursor()
+    {
+        var service = CreateService();
+
+        var first = await service.SearchAsync(new ChildDirectoryQuery(Limit: 2));
+        Assert.Equal(new[] { "child-ada", "child-ben" }, first.Items.Select(c => c.ChildId));
+        Assert.NotNull(first.NextCursor);
+
+        var second = await service.SearchAsync(new ChildDirectoryQuery(Limit: 2, Cursor: first.NextCursor));
+        Assert.Equal(new[] { "child-cy" }, second.Items.Select(c => c.ChildId));
+        Assert.Null(second.NextCursor);
+    }
+
+    [Fact]
+    public async Task SearchAsync_RejectsUnknownSortAndMismatchedCursor()
+    {
+        var service = CreateService();
+        var first = await service.SearchAsync(new ChildDirectoryQuery(Limit: 1));
+
+        await Assert.ThrowsAsync<ArgumentException>(() => service.SearchAsync(new ChildDirectoryQuery(Sort: "shoeSize")));
+        await Assert.ThrowsAsync<ArgumentException>(() => service.SearchAsync(new ChildDirectoryQuery(Sort: "age", Cursor: first.NextCursor)));
+        await Assert.ThrowsAsync<ArgumentException>(() => service.SearchAsync(new ChildDirectoryQuery(Cursor: "not-a-cursor")));
+    }
+
+    [Fact]
+    public async Task SearchAsync_DrasiUnavailable_StillListsRegisteredChildren()
+    {
+        _drasiMock
+            .Setup(d => d.GetCurrentResultAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()))
+            .ThrowsAsync(new HttpRequestException("drasi down"));
+
+        var page = await CreateService().SearchAsync(new ChildDirectoryQuery());
+
+        Assert.Equal(3, page.Total);
+        Assert.All(page.Items, c => Assert.Equal(0, c.WishlistCount));
+    }
+}
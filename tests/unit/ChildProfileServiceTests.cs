@@ -0,0 +1,108 @@
+using System.Text.Json.Nodes;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Extensions.Logging;
+using Models;
+using Moq;
+using Services;
+using Xunit;
+
+namespace UnitTests;
+
+public class ChildProfileServiceTests
+{
+    private readonly Mock<IDrasiViewClient> _drasiMock = new();
+
+    public ChildProfileServiceTests()
+    {
+        _drasiMock
+            .Setup(d => d.GetCurrentResultAsync(It.IsAny<string>(), "behavior-status-changes", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new List<JsonNode>());
+    }
+
+    // The profile cache is static, so every test works on its own child id
+    private ChildProfileService CreateService() =>
+        new(_drasiMock.Object, new ETagService(), new Mock<ILogger<ChildProfileService>>().Object);
+
+    [Fact]
+    public async Task UpdateProfileAsync_ReplacesEditableFieldsAndKeepsStatus()
+    {
+        var service = CreateService();
+        var childId = $"child-edit-{Guid.NewGuid():N}";
+        await service.UpsertProfileAsync(childId, "Emma", 10, new[] { "Lego", "Books" }, 50m);
+        await service.UpdateStatusAsync(childId, NiceStatus.Nice);
+
+        var result = await service.UpdateProfileAsync(childId,
+            new ChildProfileEdit(" Emma Rose ", 9, " Oslo, NO ", new[] { "Books", "books", " Puzzles ", "" }, 80m), "*");
+        var updated = result.Profile;
+
+        Assert.False(result.Conflict);
+        Assert.Equal("Emma Rose", updated.Name);
+        Assert.Equal(9, updated.Age);
+        Assert.Equal("Oslo, NO", updated.Location);
+        Assert.Equal(new[] { "Books", "Puzzles" }, updated.Preferences);
+        Assert.Equal(80m, updated.Constraints?.Budget);
+        Assert.Equal(NiceStatus.Nice, updated.Status);
+        Assert.Equal(updated, await service.GetChildProfileAsync(childId));
+    }
+
+    [Fact]
+    public async Task UpdateProfileAsync_RejectsAStaleETagWithoutWriting()
+    {
+        var service = CreateService();
+        var etags = new ETagService();
+        var childId = $"child-edit-{Guid.NewGuid():N}";
+        var loaded = await service.GetChildProfileAsync(childId);
+        var etag = etags.GenerateETag(loaded!);
+
+        var first = await service.UpdateProfileAsync(childId, new ChildProfileEdit("Emma", 9, null, null, null), etag);
+        // A second elf still holding the ETag from the same GET
+        var second = await service.UpdateProfileAsync(childId, new ChildProfileEdit("Emily", 8, null, null, null), etag);
+
+        Assert.False(first.Conflict);
+        Assert.True(second.Conflict);
+        Assert.Equal(first.Profile, second.Profile);
+        Assert.Equal("Emma", (await service.GetChildProfileAsync(childId))?.Name);
+        _drasiMock.Verify(d => d.GetCurrentResultAsync(It.IsAny<string>(), "behavior-status-changes", It.IsAny<CancellationToken>()), Times.Exactly(2));
+    }
+
+    [Fact]
+    public async Task UpsertProfileAsync_KeepsElfEditedFields()
+    {
+        var service = CreateService();
+        var childId = $"child-edit-{Guid.NewGuid():N}";
+        await service.UpdateProfileAsync(childId, new ChildProfileEdit("Samantha", 7, "Dublin, IE", null, 60m), "*");
+
+        // Wishlist submissions carry name and age guessed from the child id
+        var upserted = await service.UpsertProfileAsync(childId, "Sam", 11, new[] { "Trains" }, 300m);
+
+        Assert.Equal("Samantha", upserted.Name);
+        Assert.Equal(7, upserted.Age);
+        Assert.Equal("Dublin, IE", upserted.Location);
+        Assert.Equal(60m, upserted.Constraints?.Budget);
+        Assert.Equal(new[] { "Trains" }, upserted.Preferences);
+    }
+
+    [Theory]
+    [InlineData(-1, null, null, "age")]
+    [InlineData(19, null, null, "age")]
+    [InlineData(null, -5, null, "budget")]
+    [InlineData(null, 10001, null, "budget")]
+    [InlineData(null, null, "Line\nbreak", "location")]
+    public void ChildProfileEdit_Validate_RejectsOutOfRangeValues(int? age, int? budget, string? location, string field)
+    {
+        var errors = new ChildProfileEdit("Emma", age, location, null, budget).Validate();
+
+        Assert.Equal(new[] { field }, errors.Keys);
+    }
+
+    [Fact]
+    public void ChildProfileEdit_Validate_RejectsBlankAndTooManyPreferences()
+    {
+        var tags = Enumerable.Range(0, ChildProfileEdit.MaxPreferences + 1).Select(i => $"tag-{i}").Append(" ").ToArray();
+
+        var errors = new ChildProfileEdit(null, null, null, tags, null).Validate();
+
+        Assert.Equal(2, errors["preferences"].Length);
+    }
+}
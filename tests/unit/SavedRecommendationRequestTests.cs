@@ -0,0 +1,25 @@
+using Models;
+using Xunit;
+
+namespace UnitTests;
+
+public class SavedRecommendationRequestTests
+{
+    [Theory]
+    [InlineData(" ", null, "suggestion")]
+    [InlineData("Kite", -1, "price")]
+    public void Validate_RejectsBlankSuggestionAndBadPrice(string suggestion, int? price, string field)
+    {
+        var errors = new SavedRecommendationRequest(suggestion, null, price, null).Validate();
+
+        Assert.Equal(new[] { field }, errors.Keys);
+    }
+
+    [Fact]
+    public void Validate_AcceptsASuggestionWithRationaleAndPrice()
+    {
+        var errors = new SavedRecommendationRequest("Stunt kite", "Loves the outdoors", 25m, "within_budget").Validate();
+
+        Assert.Empty(errors);
+    }
+}
@@ -0,0 +1,82 @@
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Microsoft.Agents.AI;
+using Microsoft.Extensions.AI;
+using Moq;
+using Services;
+using Xunit;
+
+namespace UnitTests;
+
+public class TaskforceAgentTests
+{
+    private sealed class RecordingSteps : ITaskforceStepObserver
+    {
+        public List<string> Events { get; } = new();
+
+        public Task StepStartedAsync(string stepName, CancellationToken ct)
+        {
+            Events.Add($"STEP_STARTED {stepName}");
+            return Task.CompletedTask;
+        }
+
+        public Task StepFinishedAsync(string stepName, AgentRunResponse response, CancellationToken ct)
+        {
+            Events.Add($"STEP_FINISHED {stepName}: {response}");
+            return Task.CompletedTask;
+        }
+    }
+
+    private static Mock<AIAgent> AgentAnswering(string answer, List<string> prompts, List<string> calls, string name)
+    {
+        var agent = new Mock<AIAgent>();
+        agent
+            .Setup(a => a.RunAsync(It.IsAny<IEnumerable<ChatMessage>>(), It.IsAny<AgentThread?>(), It.IsAny<AgentRunOptions?>(), It.IsAny<CancellationToken>()))
+            .Callback<IEnumerable<ChatMessage>, AgentThread?, AgentRunOptions?, CancellationToken>((messages, _, _, _) =>
+            {
+                prompts.Add(string.Join("\n", messages.Select(m => m.Text)));
+                calls.Add(name);
+            })
+            .ReturnsAsync(new AgentRunResponse(new ChatMessage(ChatRole.Assistant, answer)));
+        return agent;
+    }
+
+    [Fact]
+    public async Task RunAsync_WrapsEachElfTurnInAStep_ThenTheCoordinatorSumsUp()
+    {
+        var calls = new List<string>();
+        var profilePrompts = new List<string>();
+        var giftPrompts = new List<string>();
+        var summaryPrompts = new List<string>();
+        var steps = new RecordingSteps();
+        var agent = new TaskforceAgent(
+            new[]
+            {
+                new TaskforceElf("profile-elf", AgentAnswering("Loves kites", profilePrompts, calls, "profile").Object),
+                new TaskforceElf("recommendation-elf", AgentAnswering("A stunt kite", giftPrompts, calls, "gifts").Object)
+            },
+            AgentAnswering("Give the stunt kite", summaryPrompts, calls, "coordinator").Object,
+            steps);
+
+        var response = await agent.RunAsync("Plan gifts for child-1", cancellationToken: CancellationToken.None);
+
+        Assert.Equal("Give the stunt kite", response.ToString());
+        Assert.Equal(new[] { "profile", "gifts", "coordinator" }, calls);
+        Assert.Equal(
+            new[]
+            {
+                "STEP_STARTED profile-elf",
+                "STEP_FINISHED profile-elf: Loves kites",
+                "STEP_STARTED recommendation-elf",
+                "STEP_FINISHED recommendation-elf: A stunt kite"
+            },
+            steps.Events);
+        // Each elf builds on the ones before it, and the coordinator sees them all
+        Assert.Equal("Plan gifts for child-1", profilePrompts.Single());
+        Assert.Contains("Loves kites", giftPrompts.Single());
+        Assert.Contains("Loves kites", summaryPrompts.Single());
+        Assert.Contains("A stunt kite", summaryPrompts.Single());
+    }
+}
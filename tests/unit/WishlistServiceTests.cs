@@ -0,0 +1,110 @@
+using System.Threading;
+using System.Threading.Tasks;
+using Moq;
+using Services;
+using Xunit;
+
+namespace UnitTests;
+
+public class WishlistServiceTests
+{
+    private readonly Mock<IWishlistRepository> _repoMock = new();
+    private readonly List<WishlistItemEntity> _stored;
+
+    public WishlistServiceTests()
+    {
+        var now = DateTime.UtcNow;
+        _stored = new List<WishlistItemEntity>
+        {
+            new() { id = "kite", ChildId = "child-ada", Text = "Kite", CreatedAt = now.AddMinutes(-30) },
+            new() { id = "letter", ChildId = "child-ada", Text = "I tidied my room", RequestType = "behavior-update", CreatedAt = now.AddMinutes(-20) },
+            new() { id = "bike", ChildId = "child-ada", Text = "Bike", Category = "Outdoor", CreatedAt = now.AddMinutes(-10), Priority = 0 },
+            new() { id = "legacy", ChildId = "child-ada", Text = "", CreatedAt = now.AddMinutes(-5) },
+        };
+        _repoMock.Setup(r => r.ListAsync("child-ada")).Returns(() => Stream(_stored));
+        _repoMock
+            .Setup(r => r.GetAsync("child-ada", It.IsAny<string>()))
+            .ReturnsAsync((string _, string id) => _stored.FirstOrDefault(e => e.id == id));
+        _repoMock.Setup(r => r.DeleteItemAsync("child-ada", It.IsAny<string>(), It.IsAny<CancellationToken>())).ReturnsAsync(true);
+    }
+
+    private static async IAsyncEnumerable<WishlistItemEntity> Stream(IEnumerable<WishlistItemEntity> items)
+    {
+        foreach (var item in items.ToList())
+        {
+            yield return item;
+        }
+        await Task.CompletedTask;
+    }
+
+    private WishlistService CreateService() => new(_repoMock.Object);
+
+    [Fact]
+    public async Task ListAsync_ReturnsGiftsByPriorityThenSubmissionTime()
+    {
+        var items = await CreateService().ListAsync("child-ada");
+
+        Assert.Equal(new[] { "bike", "kite" }, items.Select(i => i.Id));
+        Assert.Equal("Outdoor", items[0].Category);
+    }
+
+    [Fact]
+    public async Task UpdateAsync_ReplacesFieldsAndRecomputesDedupeKey()
+    {
+        var before = _stored[0].DedupeKey;
+
+        var updated = await CreateService().UpdateAsync("child-ada", "kite",
+            new WishlistEntryUpdate(" Stunt Kite ", "Outdoor", 25, "  "));
+
+        Assert.NotNull(updated);
+        Assert.Equal("Stunt Kite", updated!.ItemName);
+        Assert.Equal(25, updated.BudgetEstimate);
+        Assert.Null(updated.Notes);
+        Assert.NotNull(updated.UpdatedAt);
+        Assert.NotEqual(before, _stored[0].DedupeKey);
+        _repoMock.Verify(r => r.UpsertAsync(It.Is<WishlistItemEntity>(e => e.id == "kite")), Times.Once);
+    }
+
+    [Fact]
+    public async Task UpdateAndDelete_IgnoreBehaviorLettersAndMissingItems()
+    {
+        var service = CreateService();
+        var edit = new WishlistEntryUpdate("Kite", null, null, null);
+
+        Assert.Null(await service.UpdateAsync("child-ada", "letter", edit));
+        Assert.Null(await service.UpdateAsync("child-ada", "missing", edit));
+        Assert.False(await service.DeleteAsync("child-ada", "letter"));
+        Assert.True(await service.DeleteAsync("child-ada", "kite"));
+        _repoMock.Verify(r => r.DeleteItemAsync("child-ada", "letter", It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task ReorderAsync_AssignsPrioritiesInGivenOrder()
+    {
+        var items = await CreateService().ReorderAsync("child-ada", new[] { "kite", "bike" });
+
+        Assert.Equal(new[] { "kite", "bike" }, items.Select(i => i.Id));
+        Assert.Equal(new int?[] { 0, 1 }, items.Select(i => i.Priority));
+        _repoMock.Verify(r => r.UpsertAsync(It.IsAny<WishlistItemEntity>()), Times.Exactly(2));
+    }
+
+    [Fact]
+    public async Task ReorderAsync_RejectsStaleOrIncompleteLists()
+    {
+        var service = CreateService();
+
+        await Assert.ThrowsAsync<ArgumentException>(() => service.ReorderAsync("child-ada", new[] { "kite" }));
+        await Assert.ThrowsAsync<ArgumentException>(() => service.ReorderAsync("child-ada", new[] { "kite", "kite" }));
+        await Assert.ThrowsAsync<ArgumentException>(() => service.ReorderAsync("child-ada", new[] { "kite", "letter" }));
+    }
+
+    [Theory]
+    [InlineData("", null, null, "itemName")]
+    [InlineData("Kite", -1.0, null, "budgetEstimate")]
+    public void WishlistEntryUpdate_Validate_FlagsInvalidFields(string itemName, double? budget, string? notes, string field)
+    {
+        var errors = new WishlistEntryUpdate(itemName, null, budget, notes).Validate();
+
+        Assert.Equal(new[] { field }, errors.Keys);
+    }
+}